@@ -8,7 +8,7 @@ function getClickHandler() {
 
     // The srcUrl property is only available for image elements.
 
-var url = "http://www.easycookiecutter.com/?image=" + info.srcUrl;
+var url = "http://www.easycookiecutter.com/?image=" + encodeURIComponent(info.srcUrl);
 
     // Create a new tabto the info page.
 	chrome.tabs.create({ url: url, });
@@ -0,0 +1,32 @@
+/**
+ * @fileoverview Test Environment for Cookie Cutter Monster
+ *
+ * Jest's Node environment runs every test file in its own context, which
+ * leaves out the browser APIs newer Node versions provide as globals. The
+ * services use them the way a browser or worker would, so this environment
+ * hands them on to the tests.
+ *
+ * @author Cookie Cutter Monster Team
+ * @version 1.0.0
+ * @since 2020-08-01
+ */
+
+const NodeEnvironment = require("jest-environment-node");
+
+/** Globals of Node shared with the tests, when the running Node has them */
+const SHARED_GLOBALS = [
+    "Blob", "Response", "TextEncoder", "TextDecoder", "CompressionStream", "DecompressionStream", "atob", "btoa"
+];
+
+class CookieEnvironment extends NodeEnvironment {
+    constructor(config, context) {
+        super(config, context);
+        for (const name of SHARED_GLOBALS) {
+            if (typeof this.global[name] === "undefined" && typeof global[name] !== "undefined") {
+                this.global[name] = global[name];
+            }
+        }
+    }
+}
+
+module.exports = CookieEnvironment;
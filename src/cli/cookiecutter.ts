@@ -0,0 +1,316 @@
+/**
+ * @fileoverview Command Line Tool for Cookie Cutter Monster
+ *
+ * Generates cookie cutters from scripts without a browser, using the same
+ * headless core as the web app and the bundled OpenCV.js build.
+ *
+ * Usage:
+ *   cookiecutter generate logo.png --size 76 --thickness 1 --depth 16 --bevel -o logo.stl
+ *
+ * @author Cookie Cutter Monster Team
+ * @version 1.0.0
+ * @since 2020-08-01
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import {
+    DEFAULT_THICKNESS,
+    DEFAULT_DEPTH,
+    DEFAULT_TOLERANCE,
+    DEFAULT_SMOOTHNESS,
+    DEFAULT_BEVEL,
+    DEFAULT_ROUND_HANDLE,
+    DEFAULT_HANDLE_STYLE,
+    DEFAULT_HANDLE_WIDTH,
+    DEFAULT_HANDLE_THICKNESS,
+    DEFAULT_FINGER_HOLES,
+    DEFAULT_STAMP,
+    DEFAULT_STAMP_CLEARANCE,
+    DEFAULT_MERGE_GAP,
+    DEFAULT_SIZE,
+    DEFAULT_SIZE_CONSTRAINT,
+    MIN_SIZE,
+    MAX_SIZE
+} from "../constants";
+import { DetectionMode, HandleStyle, SizeConstraint } from "../types";
+import { CutterSettings } from "../services/cutterGeometry";
+import { DEFAULT_DETECTION, DetectionSettings } from "../services/contourDetection";
+import { generateCutterSTL } from "../services/cutterCore";
+import { loadOpenCV, readImage } from "./nodeIO";
+
+const USAGE = `Usage: cookiecutter generate <image> [options]
+
+Turns the largest outline in a PNG or JPEG image into a cookie cutter STL.
+
+Options:
+  -o, --output <file>     STL file to write (default: <image name>.stl)
+  --size <mm>             Size of the constrained side of the cutter (default: ${DEFAULT_SIZE})
+  --constrain <side>      Side the size sets: longest, width or height (default: ${DEFAULT_SIZE_CONSTRAINT})
+  --thickness <mm>        Wall thickness (default: ${DEFAULT_THICKNESS})
+  --depth <mm>            Cutting depth (default: ${DEFAULT_DEPTH})
+  --detail <mm>           Maximum outline deviation (default: ${DEFAULT_TOLERANCE})
+  --smoothness <passes>   Outline smoothing passes, 0 to 3 (default: ${DEFAULT_SMOOTHNESS})
+  --bevel                 Bevel the cutting edge
+  --handle <style>        Handle style: flange, plate or none (default: ${DEFAULT_HANDLE_STYLE})
+  --handle-width <mm>     Flange width, or plate overhang past the wall (default: ${DEFAULT_HANDLE_WIDTH})
+  --handle-thickness <mm> Flange or plate thickness (default: ${DEFAULT_HANDLE_THICKNESS})
+  --finger-holes <count>  Finger holes in a plate handle (default: ${DEFAULT_FINGER_HOLES})
+  --round-handle          Round the handle edges
+  --detection <mode>      Edge detection: adaptive, otsu, canny or colorkey (default: ${DEFAULT_DETECTION.detectionMode})
+  --blur <px>             Blur radius before detection, 0 for none (default: ${DEFAULT_DETECTION.blur})
+  --key-color <#rrggbb>   Background colour removed by colorkey (default: ${DEFAULT_DETECTION.keyColor})
+  --ascii                 Write an ASCII STL instead of binary
+  --opencv <file>         Path to opencv.js (default: js/opencv.js)
+  -h, --help              Show this help
+`;
+
+/**
+ * Parsed command line
+ */
+interface CliOptions {
+    command: string,
+    input: string,
+    output: string,
+    opencv: string,
+    ascii: boolean,
+    settings: CutterSettings,
+    detection: DetectionSettings
+}
+
+/**
+ * Reads a numeric option value, rejecting anything that is not a positive number
+ *
+ * @param {string} name - Option name for the error message
+ * @param {string} value - Raw value
+ * @returns {number} Parsed value
+ * @throws {Error} If the value is missing or not a positive number
+ */
+function parseNumber(name: string, value: string): number {
+    const parsed = Number(value);
+    if (value === undefined || !value.trim() || !isFinite(parsed) || parsed <= 0) {
+        throw Error(`${name} needs a positive number`);
+    }
+    return parsed;
+}
+
+/**
+ * Reads a count option value, where 0 turns the feature off
+ *
+ * @param {string} name - Option name for the error message
+ * @param {string} value - Raw value
+ * @returns {number} Parsed value, rounded to a whole number
+ * @throws {Error} If the value is missing, negative or not a number
+ */
+function parseCount(name: string, value: string): number {
+    const parsed = Number(value);
+    if (value === undefined || !value.trim() || !isFinite(parsed) || parsed < 0) {
+        throw Error(`${name} needs a whole number, 0 or more`);
+    }
+    return Math.round(parsed);
+}
+
+/**
+ * Reads the key colour option
+ *
+ * @param {string} value - Raw value
+ * @returns {string} The colour
+ * @throws {Error} If the value is not a #rrggbb colour
+ */
+function parseKeyColor(value: string): string {
+    if (!/^#[0-9a-f]{6}$/i.test(value || "")) {
+        throw Error("--key-color needs a colour written as #rrggbb");
+    }
+    return value;
+}
+
+/**
+ * Reads the handle style option
+ *
+ * @param {string} value - Raw value
+ * @returns {HandleStyle} The handle style
+ * @throws {Error} If the value is not a known handle style
+ */
+function parseHandleStyle(value: string): HandleStyle {
+    if (value !== "flange" && value !== "plate" && value !== "none") {
+        throw Error("--handle needs flange, plate or none");
+    }
+    return value;
+}
+
+/**
+ * Reads the size constraint option
+ *
+ * @param {string} value - Raw value
+ * @returns {SizeConstraint} The side the size sets
+ * @throws {Error} If the value is not a known side
+ */
+function parseSizeConstraint(value: string): SizeConstraint {
+    if (value !== "longest" && value !== "width" && value !== "height") {
+        throw Error("--constrain needs longest, width or height");
+    }
+    return value;
+}
+
+/**
+ * Reads the detection mode option
+ *
+ * @param {string} value - Raw value
+ * @returns {DetectionMode} The detection mode
+ * @throws {Error} If the value is not a known detection mode
+ */
+function parseDetectionMode(value: string): DetectionMode {
+    if (value !== "adaptive" && value !== "otsu" && value !== "canny" && value !== "colorkey") {
+        throw Error("--detection needs adaptive, otsu, canny or colorkey");
+    }
+    return value;
+}
+
+/**
+ * Parses the command line arguments
+ *
+ * @param {string[]} args - Arguments after the node binary and script path
+ * @returns {CliOptions | null} Parsed options, or null when help was requested
+ * @throws {Error} On unknown options or missing values
+ */
+function parseArgs(args: string[]): CliOptions | null {
+    const options: CliOptions = {
+        command: "",
+        input: "",
+        output: "",
+        opencv: undefined,
+        ascii: false,
+        settings: {
+            size: DEFAULT_SIZE,
+            sizeConstraint: DEFAULT_SIZE_CONSTRAINT,
+            thickness: DEFAULT_THICKNESS,
+            depth: DEFAULT_DEPTH,
+            tolerance: DEFAULT_TOLERANCE,
+            smoothness: DEFAULT_SMOOTHNESS,
+            cutterBevel: DEFAULT_BEVEL,
+            handleRound: DEFAULT_ROUND_HANDLE,
+            handleStyle: DEFAULT_HANDLE_STYLE,
+            handleWidth: DEFAULT_HANDLE_WIDTH,
+            handleThickness: DEFAULT_HANDLE_THICKNESS,
+            fingerHoles: DEFAULT_FINGER_HOLES,
+            stamp: DEFAULT_STAMP,
+            stampClearance: DEFAULT_STAMP_CLEARANCE,
+            mergeGap: DEFAULT_MERGE_GAP
+        },
+        detection: { ...DEFAULT_DETECTION }
+    };
+    const positional: string[] = [];
+
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        switch (arg) {
+            case "-h":
+            case "--help":
+                return null;
+            case "-o":
+            case "--output":
+                options.output = args[++i];
+                break;
+            case "--size":
+                options.settings.size = parseNumber(arg, args[++i]);
+                if (options.settings.size < MIN_SIZE || options.settings.size > MAX_SIZE) {
+                    throw Error(`--size needs a size from ${MIN_SIZE} to ${MAX_SIZE} mm`);
+                }
+                break;
+            case "--constrain":
+                options.settings.sizeConstraint = parseSizeConstraint(args[++i]);
+                break;
+            case "--thickness":
+                options.settings.thickness = parseNumber(arg, args[++i]);
+                break;
+            case "--depth":
+                options.settings.depth = parseNumber(arg, args[++i]);
+                break;
+            case "--detail":
+                options.settings.tolerance = parseNumber(arg, args[++i]);
+                break;
+            case "--smoothness":
+                options.settings.smoothness = parseCount(arg, args[++i]);
+                break;
+            case "--bevel":
+                options.settings.cutterBevel = true;
+                break;
+            case "--handle":
+                options.settings.handleStyle = parseHandleStyle(args[++i]);
+                break;
+            case "--handle-width":
+                options.settings.handleWidth = parseNumber(arg, args[++i]);
+                break;
+            case "--handle-thickness":
+                options.settings.handleThickness = parseNumber(arg, args[++i]);
+                break;
+            case "--finger-holes":
+                options.settings.fingerHoles = parseCount(arg, args[++i]);
+                break;
+            case "--round-handle":
+                options.settings.handleRound = true;
+                break;
+            case "--detection":
+                options.detection.detectionMode = parseDetectionMode(args[++i]);
+                break;
+            case "--blur":
+                options.detection.blur = parseCount(arg, args[++i]);
+                break;
+            case "--key-color":
+                options.detection.keyColor = parseKeyColor(args[++i]);
+                break;
+            case "--ascii":
+                options.ascii = true;
+                break;
+            case "--opencv":
+                options.opencv = args[++i];
+                break;
+            default:
+                if (arg.startsWith("-")) {
+                    throw Error(`unknown option ${arg}`);
+                }
+                positional.push(arg);
+        }
+    }
+
+    [options.command, options.input] = positional;
+    if (options.command !== "generate" || !options.input || positional.length > 2) {
+        return null;
+    }
+
+    if (!options.output) {
+        const parsed = path.parse(options.input);
+        options.output = path.join(parsed.dir, parsed.name + ".stl");
+    }
+
+    return options;
+}
+
+/**
+ * Runs the command line tool
+ *
+ * @param {string[]} args - Arguments after the node binary and script path
+ * @returns {Promise<number>} Process exit code
+ */
+async function main(args: string[]): Promise<number> {
+    const options = parseArgs(args);
+    if (!options) {
+        process.stdout.write(USAGE);
+        return args.includes("-h") || args.includes("--help") ? 0 : 1;
+    }
+
+    const image = readImage(options.input);
+    const cv = await loadOpenCV(options.opencv);
+    const stl = generateCutterSTL(cv, { pixels: image }, options.settings, !options.ascii, options.detection);
+
+    fs.writeFileSync(options.output, stl);
+    process.stdout.write(`wrote ${options.output}\n`);
+    return 0;
+}
+
+main(process.argv.slice(2))
+    .then(code => process.exit(code))
+    .catch(err => {
+        process.stderr.write(`cookiecutter: ${err.message}\n`);
+        process.exit(1);
+    });
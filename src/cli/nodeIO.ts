@@ -0,0 +1,82 @@
+/**
+ * @fileoverview Node Input Helpers for the Cookie Cutter Monster CLI
+ *
+ * Loads the bundled OpenCV.js build and decodes image files into raw RGBA
+ * pixels under Node, the two things the browser normally does for us.
+ *
+ * @author Cookie Cutter Monster Team
+ * @version 1.0.0
+ * @since 2020-08-01
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { PNG } from "pngjs";
+import * as jpeg from "jpeg-js";
+import { pixels_t } from "../types";
+
+/** Require that webpack leaves alone, so OpenCV.js is loaded at runtime */
+declare const __non_webpack_require__: NodeRequire;
+
+/**
+ * Default location of the OpenCV.js build shipped with the app
+ *
+ * The CLI bundle lives in build/cli, two levels below the project root.
+ */
+export const DEFAULT_OPENCV_PATH = path.resolve(__dirname, "../../js/opencv.js");
+
+/**
+ * Loads OpenCV.js under Node and waits for its WebAssembly runtime
+ *
+ * Handles both the classic builds that call `onRuntimeInitialized` and the
+ * newer ones that export a promise.
+ *
+ * @param {string} opencvPath - Path to opencv.js
+ * @returns {Promise<any>} The ready OpenCV.js module instance
+ * @throws {Error} If the file does not exist
+ */
+export function loadOpenCV(opencvPath: string = DEFAULT_OPENCV_PATH): Promise<any> {
+    if (!fs.existsSync(opencvPath)) {
+        return Promise.reject(Error(`couldn't find the opencv library at ${opencvPath}, use --opencv to point at opencv.js`));
+    }
+
+    const loaded = __non_webpack_require__(path.resolve(opencvPath));
+
+    return new Promise(resolve => {
+        if (loaded && typeof loaded.then === "function") {
+            // resolving with the module itself would loop forever on its own then()
+            loaded.then((cv: any) => {
+                delete cv.then;
+                resolve(cv);
+            });
+        } else if (loaded && loaded.Mat) {
+            resolve(loaded);
+        } else {
+            loaded.onRuntimeInitialized = () => resolve(loaded);
+        }
+    });
+}
+
+/**
+ * Reads a PNG or JPEG file into RGBA pixels
+ *
+ * @param {string} file - Path to the image
+ * @returns {pixels_t} Decoded pixels
+ * @throws {Error} If the file type is not supported
+ */
+export function readImage(file: string): pixels_t {
+    const buffer = fs.readFileSync(file);
+
+    // sniff the signature rather than trusting the extension
+    if (buffer[0] === 0x89 && buffer[1] === 0x50 && buffer[2] === 0x4E && buffer[3] === 0x47) {
+        const png = PNG.sync.read(buffer);
+        return { data: png.data, width: png.width, height: png.height };
+    }
+
+    if (buffer[0] === 0xFF && buffer[1] === 0xD8) {
+        const jpg = jpeg.decode(buffer, { useTArray: true, formatAsRGBA: true });
+        return { data: jpg.data, width: jpg.width, height: jpg.height };
+    }
+
+    throw Error(`${file} is not a PNG or JPEG image`);
+}
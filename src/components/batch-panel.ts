@@ -0,0 +1,220 @@
+/**
+ * @fileoverview Batch Panel Component for Cookie Cutter Monster
+ *
+ * This component turns a whole collection of images into cutters at once,
+ * for seasonal sets of 20 to 40 clipart images. Every image gets the largest
+ * outline with the current cookie settings; its thumbnail shows the outline
+ * picked in red, and clicking another outline on the thumbnail builds that
+ * one instead. All cutters download as one zip with a CSV summary.
+ *
+ * Features:
+ * - Many image or SVG files at once
+ * - Thumbnail grid with the status and warnings of every cutter
+ * - Picking another outline per image
+ * - One zip with an STL per image and a summary.csv
+ *
+ * @author Cookie Cutter Monster Team
+ * @version 1.0.0
+ * @since 2020-08-01
+ */
+
+import { LitElement, html, css } from "lit-element";
+import { batch_item_t, BatchStatus, HTMLInputEvent } from "../types";
+import { BatchQueue } from "../services/batchProcessing";
+import { downloadFile } from "../services/imageProcessing";
+
+/** Display labels for the status of an image */
+const STATUS_LABELS: { [key in BatchStatus]: string } = {
+  "queued": "⏳ Waiting",
+  "working": "⚙️ Working",
+  "done": "✅ Ready",
+  "failed": "❌ Failed"
+};
+
+/**
+ * Batch mode: many images in, one zip of cutters out
+ */
+class BatchPanel extends LitElement {
+  /** The images and their cutters */
+  private batch = new BatchQueue(() => this.requestUpdate());
+
+  static styles = css`
+    .section-title {
+      font-weight: 600;
+      color: var(--primary-brand);
+      margin: 1rem 0;
+      font-size: 1.1rem;
+    }
+
+    .actions {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 0.25rem;
+    }
+
+    mwc-button {
+      --mdc-theme-primary: var(--primary-brand);
+    }
+
+    .grid {
+      display: grid;
+      grid-template-columns: repeat(auto-fill, minmax(120px, 1fr));
+      gap: 0.5rem;
+      margin-top: 0.5rem;
+    }
+
+    .item {
+      border: 1px solid var(--primary-light);
+      border-radius: 8px;
+      padding: 0.25rem;
+      font-size: 0.8rem;
+      overflow: hidden;
+    }
+
+    .item.failed {
+      border-color: #D32F2F;
+    }
+
+    canvas {
+      width: 100%;
+      aspect-ratio: 1;
+      object-fit: contain;
+      background: var(--background-primary);
+      cursor: pointer;
+    }
+
+    .name {
+      font-weight: 500;
+      white-space: nowrap;
+      overflow: hidden;
+      text-overflow: ellipsis;
+    }
+
+    .status {
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+    }
+
+    .remove {
+      border: none;
+      background: none;
+      cursor: pointer;
+      padding: 0;
+    }
+
+    .warning {
+      color: #E65100;
+    }
+
+    .hint {
+      margin: 0.25rem 0 0 0;
+      color: var(--text-muted);
+      font-size: 0.85rem;
+    }
+  `;
+
+  updated() {
+    // the previews only change when a cutter is built, repaint them every time
+    this.batch.items.forEach((item, i) => {
+      const canvas = <HTMLCanvasElement>this.shadowRoot!.querySelector(`#thumb-${i}`);
+      if (!canvas || !item.preview) return;
+
+      const { data, width, height } = item.preview.image;
+      canvas.width = width;
+      canvas.height = height;
+      canvas.getContext("2d").putImageData(new ImageData(new Uint8ClampedArray(data), width, height), 0, 0);
+    });
+  }
+
+  /**
+   * Opens the hidden multiple file input
+   */
+  chooseFiles() {
+    const input: HTMLInputElement | null = this.shadowRoot!.querySelector("#batchInput");
+    if (input) {
+      input.click();
+    }
+  }
+
+  /**
+   * Adds the chosen files to the batch
+   *
+   * @param {HTMLInputEvent} e - Change event of the file input
+   */
+  handleFilesChange(e: HTMLInputEvent) {
+    if (!e.target.files) return;
+
+    this.batch.add(Array.from(e.target.files));
+    // picking the same files again should add them again
+    e.target.value = "";
+  }
+
+  /**
+   * Builds the clicked image again from the outline under the pointer
+   *
+   * @param {MouseEvent} evt - Click on a thumbnail
+   * @param {batch_item_t} item - The image of the thumbnail
+   */
+  handleThumbClick(evt: MouseEvent, item: batch_item_t) {
+    const canvas = <HTMLCanvasElement>evt.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    // the canvas is scaled by CSS, map the click back to preview pixels
+    const x = Math.floor((evt.clientX - rect.left) * canvas.width / rect.width);
+    const y = Math.floor((evt.clientY - rect.top) * canvas.height / rect.height);
+    this.batch.pick(item, x, y);
+  }
+
+  /**
+   * Downloads every finished cutter as one zip
+   */
+  downloadZip() {
+    downloadFile(this.batch.buildZip(), "cookie-cutters.zip");
+  }
+
+  render() {
+    const items = this.batch.items;
+    const ready = items.filter(item => item.status === "done").length;
+
+    return html`
+      <div class="section-title">
+        📚 Batch Mode
+      </div>
+
+      <input @change=${this.handleFilesChange} type="file" id="batchInput" accept="image/*" multiple style="display:none"/>
+      <div class="actions">
+        <mwc-button outlined @click=${this.chooseFiles}>➕ Add Images</mwc-button>
+        <mwc-button
+          unelevated
+          ?disabled=${!ready || this.batch.busy}
+          @click=${this.downloadZip}>
+          📦 Download Zip (${ready})
+        </mwc-button>
+        <mwc-button ?disabled=${!items.length} @click=${() => this.batch.clear()}>🗑️ Clear</mwc-button>
+      </div>
+      <p class="hint">
+        ${items.length
+          ? "Click another outline on a thumbnail to use it for that cutter."
+          : "Every image becomes a cutter with the current settings, all in one zip with a summary."}
+      </p>
+
+      <div class="grid">
+        ${items.map((item, i) => html`
+          <div class="item ${item.status}">
+            <canvas id="thumb-${i}" @click=${(evt: MouseEvent) => this.handleThumbClick(evt, item)}></canvas>
+            <div class="name" title="${item.name}">${item.name}</div>
+            <div class="status">
+              <span title="${item.error}">${STATUS_LABELS[item.status]}</span>
+              <button class="remove" title="Remove" @click=${() => this.batch.remove(item)}>✖</button>
+            </div>
+            ${item.mesh && item.mesh.report.warnings.length
+              ? html`<div class="warning" title="${item.mesh.report.warnings.join("\n")}">⚠️ ${item.mesh.report.warnings.length} warning(s)</div>`
+              : ""}
+          </div>
+        `)}
+      </div>
+    `;
+  }
+}
+
+customElements.define("batch-panel", BatchPanel);
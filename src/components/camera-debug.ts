@@ -19,6 +19,7 @@
 
 import { LitElement, html, css, property } from "lit-element";
 import { CAMERA_DEBUG } from "../constants";
+import CookieState from "../services/cookieState";
 
 /**
  * Camera debug overlay component for Three.js camera coordinate monitoring
@@ -29,8 +30,12 @@ import { CAMERA_DEBUG } from "../constants";
  * 
  * The component only renders when CAMERA_DEBUG flag is enabled, allowing
  * it to be safely included in production builds without affecting end users.
+ * The coordinates come from the camera_pos key of the cookie state.
  */
 class CameraDebug extends LitElement {
+  /** Stops listening to the cookie state */
+  private unsubscribe: () => void = null;
+
   /** Camera X position coordinate */
   @property({ type: Number }) x: Number = 0;
   
@@ -49,6 +54,16 @@ class CameraDebug extends LitElement {
   /** Camera Z rotation (roll) in radians */
   @property({ type: Number }) rz: Number = 0;
 
+  connectedCallback() {
+    super.connectedCallback();
+    this.unsubscribe = CookieState.subscribe("camera_pos", state => Object.assign(this, state.camera_pos));
+  }
+
+  disconnectedCallback() {
+    super.disconnectedCallback();
+    this.unsubscribe();
+  }
+
   static get styles() {
     return css`
       #camera_debug {
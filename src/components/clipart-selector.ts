@@ -6,10 +6,13 @@
  * emits events with image data for downstream processing.
  * 
  * Features:
- * - Drag-and-drop style upload area with visual feedback
+ * - Upload area with visual feedback that also takes dropped files
+ * - Images pasted anywhere in the app with Ctrl+V
+ * - Images fetched from a URL, for the ?image= parameter of the Chrome extension
  * - File type validation (images only)
  * - Automatic image dimension detection
  * - Clean filename extraction for STL export
+ * - SVG files read as vectors, skipping edge detection
  * - Event-driven architecture for loose coupling
  * 
  * @author Cookie Cutter Monster Team
@@ -30,6 +33,12 @@ import { HTMLInputEvent } from "../types"
  * - Custom event emission for parent components
  */
 class ClipartSelector extends LitElement {
+  /** Whether a file is being dragged over the upload area */
+  private dragging = false;
+
+  /** Paste listener on the document, kept to remove it again */
+  private pasteListener = (e: ClipboardEvent) => this.handlePaste(e);
+
   static styles = css`
     container {
       display: flex;
@@ -69,7 +78,8 @@ class ClipartSelector extends LitElement {
       cursor: pointer;
     }
 
-    .upload-area:hover {
+    .upload-area:hover,
+    .upload-area.dragging {
       border-color: var(--primary-brand);
       background: #FFF3E0;
     }
@@ -81,52 +91,205 @@ class ClipartSelector extends LitElement {
     }
   `;
 
+  connectedCallback() {
+    super.connectedCallback();
+    document.addEventListener("paste", this.pasteListener);
+  }
+
+  disconnectedCallback() {
+    document.removeEventListener("paste", this.pasteListener);
+    super.disconnectedCallback();
+  }
+
   /**
    * Handles file input changes when user selects an image file
    * 
-   * This method processes the selected file by:
-   * 1. Validating that a file was actually selected
-   * 2. Creating an Image object and blob URL for the file
-   * 3. Extracting the filename without extension for STL naming
-   * 4. Waiting for image load to get dimensions
-   * 5. Dispatching a custom event with all image data
-   * 
-   * The image dimensions are only available after the image loads,
-   * so the event dispatch is handled in the onload callback.
-   * 
    * @param {HTMLInputEvent} e - File input change event
    * @throws {Error} If no file was selected or target is null
-   * @fires image-changed - Custom event with image data for processing
    */
   handleImageChange(e?: HTMLInputEvent) {
     if (!e || !e.target || !e.target.files) {
       throw Error("image change target is null")
-      return null;
     }
 
+    const file = e.target.files[0];
+    if (file) {
+      this.loadFile(file, file.name.replace(/\.[^/.]+$/, ""));
+    }
+  }
+
+  /**
+   * Marks the upload area while a file is dragged over it
+   *
+   * @param {DragEvent} e - Drag event on the upload area
+   */
+  handleDragOver(e: DragEvent) {
+    e.preventDefault();
+    if (e.dataTransfer) {
+      e.dataTransfer.dropEffect = "copy";
+    }
+    this.setDragging(true);
+  }
+
+  /**
+   * Drops the highlight once the drag leaves the upload area, not just one of its children
+   *
+   * @param {DragEvent} e - Drag event on the upload area
+   */
+  handleDragLeave(e: DragEvent) {
+    const area = <HTMLElement>e.currentTarget;
+    if (!area.contains(<Node>e.relatedTarget)) {
+      this.setDragging(false);
+    }
+  }
 
-    var img = new Image();
-    const withExt = e.target.files[0].name
-    img.src = URL.createObjectURL(e.target.files[0]);
-    const event = new CustomEvent("image-changed", {
-      detail: {
-        imageSrc: img.src,
-        imageHeight: img.height,
-        imageWidth: img.width,
-        saveFileName: withExt.replace(/\.[^/.]+$/, "")
-      }
-    })
+  /**
+   * Loads the first file dropped on the upload area
+   *
+   * @param {DragEvent} e - Drop event on the upload area
+   */
+  handleDrop(e: DragEvent) {
+    e.preventDefault();
+    this.setDragging(false);
+
+    const file = e.dataTransfer && e.dataTransfer.files[0];
+    if (file) {
+      this.loadFile(file, file.name.replace(/\.[^/.]+$/, ""));
+    }
+  }
+
+  /**
+   * Switches the drop highlight of the upload area
+   *
+   * @param {boolean} dragging - Whether a file is over the upload area
+   */
+  setDragging(dragging: boolean) {
+    if (dragging === this.dragging) return;
+
+    this.dragging = dragging;
+    this.requestUpdate();
+  }
+
+  /**
+   * Loads an image pasted anywhere in the app
+   *
+   * Pastes without an image, like text pasted into a field, are left alone.
+   *
+   * @param {ClipboardEvent} e - Paste event on the document
+   */
+  handlePaste(e: ClipboardEvent) {
+    if (!e.clipboardData) return;
+
+    const item = Array.from(e.clipboardData.items)
+      .find(item => item.kind === "file" && item.type.startsWith("image/"));
+    const file = item && item.getAsFile();
+    if (!file) return;
+
+    e.preventDefault();
+    this.loadFile(file, "pasted-image");
+  }
+
+  /**
+   * Fetches an image from a URL and loads it
+   *
+   * Other sites only hand their images to the app when they allow it with
+   * CORS headers, so a failed request most likely means they don't.
+   *
+   * @param {string} url - Address of the image
+   * @fires image-failed - Custom event with the message when the image can't be fetched
+   */
+  loadUrl(url: string) {
+    let name = url.split(/[?#]/)[0].split("/").pop() || "";
+    try {
+      name = decodeURIComponent(name);
+    } catch (err) {
+      // a stray % is not an escape, the name falls back below
+      name = "";
+    }
+    name = name.replace(/\.[^/.]+$/, "") || "web-image";
+
+    fetch(url)
+      .catch(() => {
+        throw Error(`couldn't fetch the image from ${url}, the site may not allow other pages to use its images (CORS). Save the image and upload it instead.`);
+      })
+      .then(response => {
+        if (!response.ok) {
+          throw Error(`couldn't fetch the image from ${url}: ${response.status} ${response.statusText}`);
+        }
+        return response.blob();
+      })
+      .then(blob => this.loadFile(blob, name))
+      .catch(err => this.fail(err.message));
+  }
+
+  /**
+   * Loads an image file or blob from any source
+   *
+   * SVG files are read as vectors, other images are decoded to find their
+   * size first.
+   *
+   * @param {Blob} file - The image, a File from uploads, drops and pastes
+   * @param {string} saveFileName - Name for the exported files, without extension
+   * @fires image-changed - Custom event with image data for processing
+   * @fires image-failed - Custom event with the message when the file can't be decoded
+   */
+  loadFile(file: Blob, saveFileName: string) {
+    const fileName = file instanceof File ? file.name : "";
+    if (file.type === "image/svg+xml" || /\.svg$/i.test(fileName)) {
+      this.handleSvgFile(file, saveFileName);
+      return;
+    }
+
+    const img = new Image();
+    img.src = URL.createObjectURL(file);
 
     img.onload = () => {
       /* we can only get the image dimensions after it's loaded */
-      event.detail.imageHeight = img.height;
-      event.detail.imageWidth = img.width;
-
-      this.dispatchEvent(event);
-      console.log(img, event.detail)
+      this.dispatchEvent(new CustomEvent("image-changed", {
+        detail: {
+          imageSrc: img.src,
+          imageHeight: img.height,
+          imageWidth: img.width,
+          saveFileName
+        }
+      }));
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(img.src);
+      this.fail("that image can't be read, try a PNG, JPG or GIF file");
     };
   }
 
+  /**
+   * Tells the parent an image couldn't be loaded
+   *
+   * @param {string} message - What went wrong
+   * @fires image-failed - Custom event with the message
+   */
+  fail(message: string) {
+    this.dispatchEvent(new CustomEvent("image-failed", {
+      detail: { message }
+    }));
+  }
+
+  /**
+   * Reads an SVG file as text so its paths can be used without rasterising
+   *
+   * @param {Blob} file - The selected SVG file
+   * @param {string} saveFileName - Name for the exported files, without extension
+   * @fires svg-changed - Custom event with the SVG source and filename
+   */
+  handleSvgFile(file: Blob, saveFileName: string) {
+    file.text().then(svgText => {
+      this.dispatchEvent(new CustomEvent("svg-changed", {
+        detail: {
+          svgText,
+          saveFileName
+        }
+      }));
+    });
+  }
+
   /**
    * Programmatically triggers the hidden file input when upload area is clicked
    * 
@@ -150,7 +313,12 @@ class ClipartSelector extends LitElement {
     <container>
       <input @change="${this.handleImageChange}" type="file" id="fileInput" name="file" accept="image/*" style="display:none"/>
       
-      <div class="upload-area" @click=${this.handleBtnClick}>
+      <div
+        class="upload-area ${this.dragging ? "dragging" : ""}"
+        @click=${this.handleBtnClick}
+        @dragover=${this.handleDragOver}
+        @dragleave=${this.handleDragLeave}
+        @drop=${this.handleDrop}>
         <div class="upload-icon">📁</div>
         <mwc-button
           outlined
@@ -158,7 +326,7 @@ class ClipartSelector extends LitElement {
           📷 Choose Image
         </mwc-button>
         <p style="margin: 1rem 0 0 0; color: var(--text-secondary); font-size: 0.9rem;">
-          PNG, JPG, GIF supported • Best with uniform backgrounds
+          Drop or paste an image here • PNG, JPG, GIF and SVG supported • Best with uniform backgrounds
         </p>
       </div>
 
@@ -7,18 +7,72 @@
  * 
  * Features:
  * - Wall thickness selection for different 3D printing capabilities
+ * - Thickness and depth choices fitted to the picked printer profile
  * - Cutter depth configuration for various dough thicknesses
- * - Model quality settings balancing file size vs. detail
+ * - Minimum inner corner radius for the narrow feature check
+ * - Handle style: flange, top plate with finger holes, or no handle
+ * - Optional stamp from the interior lines, with its clearance to the wall
+ * - Model quality settings: outline detail and smoothing of traced edges
+ * - Lengths shown in the units picked in the size control
  * - Responsive grid layout for mobile devices
- * - Real-time parameter updates via custom events
+ * - Real-time parameter updates through the cookie state
  * 
  * @author Cookie Cutter Monster Team
  * @version 1.0.0
  * @since 2020-08-01
  */
 
-import { CookieState_t, HTMLInputEvent } from "../types";
+import { CookieState_t, HandleStyle, HTMLInputEvent } from "../types";
 import { LitElement, html, css } from "lit-element";
+import CookieState, { StateKey } from "../services/cookieState";
+import { formatLength } from "../services/units";
+import printerProfiles, { edgeLines, printerTolerance, snapDepth, snapThickness, thicknessChoices } from "../services/printerProfiles";
+import { DEFAULT_THICKNESS } from "../constants";
+
+/** The cookie state keys the settings show */
+const SHOWN_KEYS: StateKey[] = [
+  "thickness", "depth", "minInnerRadius", "handleStyle", "handleWidth", "handleThickness",
+  "fingerHoles", "stamp", "stampClearance", "tolerance", "smoothness", "units", "printer"
+];
+
+/**
+ * One entry of a list of lengths
+ */
+interface LengthChoice {
+  /** Length in millimeters */
+  value: number,
+  /** Name shown before the length */
+  name: string,
+  /** Extra words shown after the length */
+  note?: string,
+  /** Whether the entry gets the star of the recommended choice */
+  recommended?: boolean
+}
+
+/** Wall thicknesses offered without a printer profile */
+const THICKNESS_CHOICES: LengthChoice[] = [
+  { value: .7, name: "Extra Thin" },
+  { value: 1, name: "Thin", recommended: true },
+  { value: 1.3, name: "Medium" },
+  { value: 1.6, name: "Thick" },
+  { value: 2, name: "Very Thick" }
+];
+
+/** Cutter depths offered, rounded to whole layers with a printer profile */
+const DEPTH_CHOICES: LengthChoice[] = [
+  { value: 12, name: "Shallow" },
+  { value: 16, name: "Standard", recommended: true },
+  { value: 20, name: "Deep" }
+];
+
+/** Outline details offered, the printer's own is added with a profile */
+const TOLERANCE_CHOICES: LengthChoice[] = [
+  { value: .01, name: "🔥 Ultra High", note: "larger file" },
+  { value: .15, name: "✨ High", recommended: true },
+  { value: .3, name: "⚡ Medium" },
+  { value: .7, name: "🚀 Low", note: "smaller file" },
+  { value: 2, name: "⚡ Minimal" }
+];
 
 /**
  * Enumeration of different setting change types for type-safe event handling
@@ -27,6 +81,14 @@ enum ChangeType {
   THICKNESS,
   DEPTH,
   FILE_SIZE,
+  SMOOTHNESS,
+  MIN_INNER_RADIUS,
+  HANDLE_STYLE,
+  HANDLE_WIDTH,
+  HANDLE_THICKNESS,
+  FINGER_HOLES,
+  STAMP,
+  STAMP_CLEARANCE,
   IS_BEVELED,
   HAS_ROUND_EDGES
 }
@@ -36,10 +98,18 @@ enum ChangeType {
  * 
  * This component manages user input for cookie cutter generation settings:
  * - Physical dimensions (thickness, depth)
+ * - Handle shape, size and finger holes
+ * - Stamp on or off and its fit inside the cutter
  * - Quality/tolerance settings for 3D printing optimization
- * - Event-driven updates to maintain loose coupling with parent components
+ * - Rendered from the cookie state, so undo and redo show up here too
  */
 class CookieInputs extends LitElement {
+  /** Stops listening to the cookie state */
+  private unsubscribe: () => void = null;
+
+  /** Stops listening to the printer profiles */
+  private unsubscribePrinters: () => void = null;
+
   static styles = css`
     container {
       display: flex;
@@ -72,6 +142,12 @@ class CookieInputs extends LitElement {
       gap: 0.5rem;
     }
 
+    .hint {
+      margin: -0.5rem 0 0 0;
+      color: var(--text-muted);
+      font-size: 0.9rem;
+    }
+
     .settings-grid {
       display: grid;
       grid-template-columns: 1fr 1fr;
@@ -85,22 +161,85 @@ class CookieInputs extends LitElement {
     }
   `;
 
+  connectedCallback() {
+    super.connectedCallback();
+    this.unsubscribe = CookieState.subscribe(SHOWN_KEYS, () => this.requestUpdate());
+    this.unsubscribePrinters = printerProfiles.subscribe(() => this.requestUpdate());
+  }
+
+  disconnectedCallback() {
+    super.disconnectedCallback();
+    this.unsubscribe();
+    this.unsubscribePrinters();
+  }
+
   /**
-   * Dispatches configuration changes to parent components via custom events
-   * 
-   * This method creates a standardized event for communicating setting changes
-   * up the component tree. It maintains loose coupling by using the event system
-   * rather than direct parent references.
-   * 
-   * @param {CookieState_t} eventDetail - Partial state object containing changed settings
-   * @fires cookie-input-changed - Custom event with configuration updates
+   * Lists the wall thicknesses to offer
+   *
+   * @returns {LengthChoice[]} Cutting edges of whole extrusion lines with a printer profile, the usual list without
+   */
+  thicknessChoices(): LengthChoice[] {
+    const profile = printerProfiles.get(CookieState.get().printer);
+    if (!profile) return THICKNESS_CHOICES;
+
+    const recommended = snapThickness(DEFAULT_THICKNESS, profile);
+    return thicknessChoices(profile).map(value => ({
+      value,
+      name: `${edgeLines(value, profile)} lines`,
+      recommended: value === recommended
+    }));
+  }
+
+  /**
+   * Lists the cutter depths to offer
+   *
+   * @returns {LengthChoice[]} The usual depths, rounded to whole layers with a printer profile
+   */
+  depthChoices(): LengthChoice[] {
+    const profile = printerProfiles.get(CookieState.get().printer);
+    if (!profile) return DEPTH_CHOICES;
+
+    return DEPTH_CHOICES.map(choice => ({ ...choice, value: snapDepth(choice.value, profile) }));
+  }
+
+  /**
+   * Lists the outline details to offer
+   *
+   * @returns {LengthChoice[]} The usual details, with the printer's own recommended when a profile is picked
    */
-  eventToParent(eventDetail: CookieState_t) {
-    const event = new CustomEvent("cookie-input-changed", {
-      detail: eventDetail
-    })
+  toleranceChoices(): LengthChoice[] {
+    const profile = printerProfiles.get(CookieState.get().printer);
+    if (!profile) return TOLERANCE_CHOICES;
+
+    const tolerance = printerTolerance(profile);
+    const choices = TOLERANCE_CHOICES
+      .filter(choice => choice.value !== tolerance)
+      .map(choice => ({ ...choice, recommended: false }));
+    choices.push({ value: tolerance, name: "🖨️ Printer", recommended: true });
+    return choices.sort((a, b) => a.value - b.value);
+  }
+
+  /**
+   * Renders the entries of a list of lengths
+   *
+   * A value that is not on the list, as from an opened project or an
+   * earlier printer profile, gets an entry of its own so it still shows.
+   *
+   * @param {LengthChoice[]} choices - The entries
+   * @param {number} current - The length in the cookie state, in millimeters
+   * @returns {TemplateResult[]} One list item per entry
+   */
+  renderChoices(choices: LengthChoice[], current: number) {
+    const units = CookieState.get().units;
+    if (!choices.some(choice => choice.value === current)) {
+      choices = choices.concat({ value: current, name: "Custom" });
+    }
 
-    this.dispatchEvent(event)
+    return choices.map(choice => html`
+      <mwc-list-item value="${choice.value}" ?selected=${choice.value === current}>
+        ${choice.name} (${formatLength(choice.value, units)}${choice.note ? `, ${choice.note}` : ""})${choice.recommended ? " ⭐" : ""}
+      </mwc-list-item>
+    `);
   }
 
   /**
@@ -112,7 +251,7 @@ class CookieInputs extends LitElement {
    * 2. Creates a partial state update object
    * 3. Updates the appropriate property based on change type
    * 4. Converts values to correct types (Number for dimensions, Boolean for flags)
-   * 5. Dispatches the update to parent components
+   * 5. Writes the update to the cookie state, which rebuilds the cutter
    * 
    * @param {HTMLInputEvent} e - Input change event from form controls
    * @param {ChangeType} changeType - Type of setting being changed (thickness, depth, etc.)
@@ -134,6 +273,30 @@ class CookieInputs extends LitElement {
       case ChangeType.FILE_SIZE:
         stateUpdate.tolerance = Number(e.target.value);
         break;
+      case ChangeType.SMOOTHNESS:
+        stateUpdate.smoothness = Number(e.target.value);
+        break;
+      case ChangeType.MIN_INNER_RADIUS:
+        stateUpdate.minInnerRadius = Number(e.target.value);
+        break;
+      case ChangeType.HANDLE_STYLE:
+        stateUpdate.handleStyle = <HandleStyle>e.target.value;
+        break;
+      case ChangeType.HANDLE_WIDTH:
+        stateUpdate.handleWidth = Number(e.target.value);
+        break;
+      case ChangeType.HANDLE_THICKNESS:
+        stateUpdate.handleThickness = Number(e.target.value);
+        break;
+      case ChangeType.FINGER_HOLES:
+        stateUpdate.fingerHoles = Number(e.target.value);
+        break;
+      case ChangeType.STAMP:
+        stateUpdate.stamp = e.target.value === "on";
+        break;
+      case ChangeType.STAMP_CLEARANCE:
+        stateUpdate.stampClearance = Number(e.target.value);
+        break;
       case ChangeType.IS_BEVELED:
         stateUpdate.cutterBevel = Boolean(e.target.checked);
         break;
@@ -142,10 +305,13 @@ class CookieInputs extends LitElement {
         break;
     }
 
-    this.eventToParent(stateUpdate);
+    CookieState.update(stateUpdate);
   }
 
   render() {
+    const state = CookieState.get();
+    const length = (mm: number) => formatLength(mm, state.units);
+
     return html`
     <container>
       <div class="section-title">
@@ -158,11 +324,7 @@ class CookieInputs extends LitElement {
             outlined 
             label="🔧 Wall Thickness"
             @change="${(e: HTMLInputEvent) => this.handleChange(e, ChangeType.THICKNESS)}">
-              <mwc-list-item value=".7">Extra Thin (.7mm)</mwc-list-item>
-              <mwc-list-item value="1" selected="selected">Thin (1mm) ⭐</mwc-list-item>
-              <mwc-list-item value="1.3">Medium (1.3mm)</mwc-list-item>
-              <mwc-list-item value="1.6">Thick (1.6mm)</mwc-list-item>
-              <mwc-list-item value="2">Very Thick (2mm)</mwc-list-item>
+              ${this.renderChoices(this.thicknessChoices(), Number(state.thickness))}
           </mwc-select>
         </select-container>
 
@@ -171,25 +333,128 @@ class CookieInputs extends LitElement {
             outlined 
             label="📏 Cutter Depth"
             @change="${(e: HTMLInputEvent) => this.handleChange(e, ChangeType.DEPTH)}">
-              <mwc-list-item value="12">Shallow (12mm)</mwc-list-item>
-              <mwc-list-item value="16" selected="selected">Standard (16mm) ⭐</mwc-list-item>
-              <mwc-list-item value="20">Deep (20mm)</mwc-list-item>
+              ${this.renderChoices(this.depthChoices(), Number(state.depth))}
           </mwc-select>
         </select-container>
+
+        <select-container>
+          <mwc-select 
+            outlined 
+            label="📐 Min Inner Radius"
+            @change="${(e: HTMLInputEvent) => this.handleChange(e, ChangeType.MIN_INNER_RADIUS)}">
+              <mwc-list-item value="0" ?selected=${Number(state.minInnerRadius) === 0}>Off (no corner check)</mwc-list-item>
+              <mwc-list-item value=".5" ?selected=${Number(state.minInnerRadius) === .5}>Fine (${length(.5)})</mwc-list-item>
+              <mwc-list-item value="1" ?selected=${Number(state.minInnerRadius) === 1}>Standard (${length(1)}) ⭐</mwc-list-item>
+              <mwc-list-item value="2" ?selected=${Number(state.minInnerRadius) === 2}>Soft dough (${length(2)})</mwc-list-item>
+              <mwc-list-item value="3" ?selected=${Number(state.minInnerRadius) === 3}>Rolled fondant (${length(3)})</mwc-list-item>
+          </mwc-select>
+        </select-container>
+      </div>
+
+      <div class="section-title">
+        ✋ Handle
       </div>
 
-      <select-container>
-        <mwc-select 
-          outlined 
-          label="💾 Model Quality"
-          @change="${(e: HTMLInputEvent) => this.handleChange(e, ChangeType.FILE_SIZE)}">
-            <mwc-list-item value=".01">🔥 Ultra High (Larger file)</mwc-list-item>
-            <mwc-list-item value=".15" selected="selected">✨ High Quality ⭐</mwc-list-item>
-            <mwc-list-item value=".3">⚡ Medium (Balanced)</mwc-list-item>
-            <mwc-list-item value=".7">🚀 Fast (Smaller file)</mwc-list-item>
-            <mwc-list-item value="2">⚡ Lightning Fast</mwc-list-item>
-        </mwc-select>
-      </select-container>
+      <div class="settings-grid">
+        <select-container>
+          <mwc-select 
+            outlined 
+            label="🖐️ Handle Style"
+            @change="${(e: HTMLInputEvent) => this.handleChange(e, ChangeType.HANDLE_STYLE)}">
+              <mwc-list-item value="flange" ?selected=${state.handleStyle === "flange"}>Flange ⭐</mwc-list-item>
+              <mwc-list-item value="plate" ?selected=${state.handleStyle === "plate"}>Top Plate (small cutters)</mwc-list-item>
+              <mwc-list-item value="none" ?selected=${state.handleStyle === "none"}>No Handle (stackable)</mwc-list-item>
+          </mwc-select>
+        </select-container>
+
+        <select-container ?hidden=${state.handleStyle === "none"}>
+          <mwc-select 
+            outlined 
+            label="↔️ ${state.handleStyle === "plate" ? "Plate Overhang" : "Flange Width"}"
+            @change="${(e: HTMLInputEvent) => this.handleChange(e, ChangeType.HANDLE_WIDTH)}">
+              <mwc-list-item value="4.2" ?selected=${Number(state.handleWidth) === 4.2}>Standard (${length(4.2)}) ⭐</mwc-list-item>
+              <mwc-list-item value="8" ?selected=${Number(state.handleWidth) === 8}>Wide (${length(8)})</mwc-list-item>
+              <mwc-list-item value="12" ?selected=${Number(state.handleWidth) === 12}>Extra Wide (${length(12)}, large cutters)</mwc-list-item>
+          </mwc-select>
+        </select-container>
+
+        <select-container ?hidden=${state.handleStyle === "none"}>
+          <mwc-select 
+            outlined 
+            label="🧱 Handle Thickness"
+            @change="${(e: HTMLInputEvent) => this.handleChange(e, ChangeType.HANDLE_THICKNESS)}">
+              <mwc-list-item value="1.5" ?selected=${Number(state.handleThickness) === 1.5}>Thin (${length(1.5)})</mwc-list-item>
+              <mwc-list-item value="2" ?selected=${Number(state.handleThickness) === 2}>Standard (${length(2)}) ⭐</mwc-list-item>
+              <mwc-list-item value="3" ?selected=${Number(state.handleThickness) === 3}>Sturdy (${length(3)})</mwc-list-item>
+          </mwc-select>
+        </select-container>
+
+        <select-container ?hidden=${state.handleStyle !== "plate"}>
+          <mwc-select 
+            outlined 
+            label="👆 Finger Holes"
+            @change="${(e: HTMLInputEvent) => this.handleChange(e, ChangeType.FINGER_HOLES)}">
+              <mwc-list-item value="0" ?selected=${Number(state.fingerHoles) === 0}>None</mwc-list-item>
+              <mwc-list-item value="1" ?selected=${Number(state.fingerHoles) === 1}>One</mwc-list-item>
+              <mwc-list-item value="2" ?selected=${Number(state.fingerHoles) === 2}>Two ⭐</mwc-list-item>
+          </mwc-select>
+        </select-container>
+      </div>
+
+      <div class="section-title">
+        🖋️ Stamp
+      </div>
+
+      <div class="settings-grid">
+        <select-container>
+          <mwc-select 
+            outlined 
+            label="🍪 Stamp for Inner Lines"
+            @change="${(e: HTMLInputEvent) => this.handleChange(e, ChangeType.STAMP)}">
+              <mwc-list-item value="off" ?selected=${!state.stamp}>Off ⭐</mwc-list-item>
+              <mwc-list-item value="on" ?selected=${state.stamp}>On (separate file)</mwc-list-item>
+          </mwc-select>
+        </select-container>
+
+        <select-container ?hidden=${!state.stamp}>
+          <mwc-select 
+            outlined 
+            label="📐 Stamp Clearance"
+            @change="${(e: HTMLInputEvent) => this.handleChange(e, ChangeType.STAMP_CLEARANCE)}">
+              <mwc-list-item value=".3" ?selected=${Number(state.stampClearance) === .3}>Snug (${length(.3)})</mwc-list-item>
+              <mwc-list-item value=".5" ?selected=${Number(state.stampClearance) === .5}>Standard (${length(.5)}) ⭐</mwc-list-item>
+              <mwc-list-item value="1" ?selected=${Number(state.stampClearance) === 1}>Loose (${length(1)})</mwc-list-item>
+          </mwc-select>
+        </select-container>
+      </div>
+      <p class="hint" ?hidden=${!state.stamp}>Click the green lines on the edge detection to add them to the stamp or take them off.</p>
+
+      <div class="section-title">
+        💾 Model Quality
+      </div>
+
+      <div class="settings-grid">
+        <select-container>
+          <mwc-select 
+            outlined 
+            label="🎯 Detail"
+            @change="${(e: HTMLInputEvent) => this.handleChange(e, ChangeType.FILE_SIZE)}">
+              ${this.renderChoices(this.toleranceChoices(), Number(state.tolerance))}
+          </mwc-select>
+        </select-container>
+
+        <select-container>
+          <mwc-select 
+            outlined 
+            label="🌀 Smoothness"
+            @change="${(e: HTMLInputEvent) => this.handleChange(e, ChangeType.SMOOTHNESS)}">
+              <mwc-list-item value="0" ?selected=${Number(state.smoothness) === 0}>Off (traced edges) ⭐</mwc-list-item>
+              <mwc-list-item value="1" ?selected=${Number(state.smoothness) === 1}>Light</mwc-list-item>
+              <mwc-list-item value="2" ?selected=${Number(state.smoothness) === 2}>Medium</mwc-list-item>
+              <mwc-list-item value="3" ?selected=${Number(state.smoothness) === 3}>Strong (clean curves)</mwc-list-item>
+          </mwc-select>
+        </select-container>
+      </div>
 
     </container>
     `;
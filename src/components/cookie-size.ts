@@ -1,129 +1,274 @@
 /**
- * @fileoverview Cookie Size Selector Component for Cookie Cutter Monster
- * 
- * This component provides an intuitive slider interface for selecting the final
- * size of the cookie cutter. It maps slider positions to both display labels
- * (in inches) and internal values (in millimeters) for proper scaling.
- * 
+ * @fileoverview Cookie Size Component for Cookie Cutter Monster
+ *
+ * This component sets the final size of the cookie cutter. The size is typed
+ * in millimeters or inches and sets the longest side of the outline, its
+ * width or its height. The unit picked here is the one every length in the
+ * app is entered and shown in.
+ *
  * Features:
- * - Visual slider with discrete size options
- * - Dual unit display (inches for users, mm for calculations)
- * - Pre-defined size options optimized for common cookie sizes
- * - Real-time size preview and updates
- * - Responsive grid layout
- * 
+ * - Free numeric size entry, checked against the printable range or the printer's bed
+ * - Metric and imperial unit toggle for the whole app
+ * - Choice of the side the size sets: longest side, width or height
+ * - Live width × height of the outline in both units
+ *
  * @author Cookie Cutter Monster Team
  * @version 1.0.0
  * @since 2020-08-01
  */
 
-import { LitElement, html, css } from "lit-element";
-import { HTMLInputEvent, CookieState_t } from "../types"
+import { LitElement, html, css, property } from "lit-element";
+import { HTMLInputEvent, SizeConstraint, Units } from "../types";
+import { MAX_SIZE, MIN_SIZE } from "../constants";
+import CookieState, { StateKey } from "../services/cookieState";
+import { constrainedExtent } from "../services/cutterGeometry";
+import printerProfiles, { cutterRim, fitsBed, largestSize } from "../services/printerProfiles";
+import { formatLength, fromUnits, roundLength, SIZE_CONSTRAINT_LABELS, UNIT_LABELS } from "../services/units";
+
+/** The cookie state keys the size control shows or checks against */
+const SHOWN_KEYS: StateKey[] = ["size", "sizeConstraint", "units", "printer", "thickness", "cutterBevel", "handleStyle", "handleWidth"];
 
 /**
- * Cookie size selector component with slider interface for size selection
- * 
+ * Cookie size control with unit toggle and size constraint
+ *
  * This component manages cookie cutter size selection with:
- * - Predefined size options from 2" to 4" (51mm to 101mm)
- * - Slider-based selection for intuitive user experience
- * - Automatic conversion between display units and calculation units
- * - Real-time size updates via custom events
+ * - A number field in the chosen units, written to the cookie state in millimeters
+ * - A message instead of a change when the number is outside the printable range
+ * - A warning when the cutter with its handle won't fit on the printer's bed
+ * - The width and height the outline will have, from its bounding box
+ * - Rendered from the cookie state, so undo and redo show up here too
  */
 class CookieSize extends LitElement {
+  /** Bounding box in pixels of the current outline, null before the first one */
+  @property({ type: Object }) bounds: { width: number, height: number } = null;
+
+  /** Why the typed size was not used, empty when it was */
+  private problem = "";
+
+  /** Stops listening to the cookie state */
+  private unsubscribe: () => void = null;
+
+  /** Stops listening to the printer profiles */
+  private unsubscribePrinters: () => void = null;
+
   static styles = css`
     container {
       display: grid;
-      grid-template-columns: auto auto auto;
+      grid-template-columns: auto 1fr auto;
+      gap: 0.5rem;
+      align-items: center;
       margin-bottom: 1vh;
     }
 
-    container label {
-      display: flex;
-      align-items: center;
+    input {
+      min-width: 0;
+      padding: 0.5rem;
+      font-family: inherit;
+      font-size: 1rem;
+      border: 1px solid var(--primary-light);
+      border-radius: var(--border-radius);
     }
 
-    container output {
-      display: flex;
-      align-items: center;
+    input:invalid, input.problem {
+      border-color: var(--accent);
+    }
+
+    mwc-button {
+      --mdc-theme-primary: var(--primary-brand);
+    }
+
+    mwc-select {
+      width: 100%;
+      --mdc-theme-primary: var(--primary-brand);
+      --mdc-select-outlined-idle-border-color: var(--primary-light);
+      --mdc-select-outlined-hover-border-color: var(--primary-brand);
+    }
+
+    .dimensions, .problem {
+      margin: 0.25rem 0 1vh 0;
+      font-size: 0.9rem;
+    }
+
+    .dimensions {
+      color: var(--text-muted);
+    }
+
+    .problem {
+      color: var(--accent);
     }
   `;
 
-  /** Size values in millimeters corresponding to slider positions */
-  values = [51, 64, 76, 89, 101];
-  
-  /** Display labels in inches for user-friendly size selection */
-  labels = [2, 2.5, 3, 3.5, 4];
-
-  /** Current slider position index (default: 2 = 3 inches) */
-  currentIndex: number = 2;
-  
-  /** Current size value in millimeters for calculations */
-  currentValue = this.values[this.currentIndex];
-  
-  /** Current display label in inches for UI */
-  currentLabel = this.labels[this.currentIndex];
+  connectedCallback() {
+    super.connectedCallback();
+    // the handle around the outline and the printer's bed decide what fits
+    this.unsubscribe = CookieState.subscribe(SHOWN_KEYS, (state, changed) => {
+      // a size from undo, redo or another unit replaces whatever was typed
+      if (changed.includes("size") || changed.includes("units")) {
+        this.problem = "";
+      }
+      this.requestUpdate();
+    });
+    this.unsubscribePrinters = printerProfiles.subscribe(() => this.requestUpdate());
+  }
+
+  disconnectedCallback() {
+    super.disconnectedCallback();
+    this.unsubscribe();
+    this.unsubscribePrinters();
+  }
+
+  /**
+   * Checks a typed size
+   *
+   * @param {string} text - Contents of the size field
+   * @param {Units} units - Units the size was typed in
+   * @returns {string} Why the size can't be used, empty when it can
+   */
+  checkSize(text: string, units: Units): string {
+    const value = Number(text);
+    if (!text.trim() || !isFinite(value)) {
+      return "Enter the size as a number.";
+    }
+
+    const state = CookieState.get();
+    const largest = largestSize(state, printerProfiles.get(state.printer));
+    const mm = fromUnits(value, units);
+    if (mm < MIN_SIZE || mm > largest) {
+      return `Sizes from ${formatLength(MIN_SIZE, units)} to ${formatLength(largest, units)} can be printed.`;
+    }
+    return "";
+  }
+
+  /**
+   * Shows the problem with the size while it is being typed
+   *
+   * @param {HTMLInputEvent} e - Input event of the size field
+   */
+  handleSizeInput(e: HTMLInputEvent) {
+    this.problem = this.checkSize(e.target.value, CookieState.get().units);
+    this.requestUpdate();
+  }
 
   /**
-   * Handles slider value changes and updates the cookie cutter size
-   * 
-   * This method processes slider changes by:
+   * Handles a finished size entry and updates the cookie cutter size
+   *
+   * This method processes size changes by:
    * 1. Validating the input event has a valid target
-   * 2. Converting the slider index to the appropriate size values
-   * 3. Updating component state for display purposes
-   * 4. Dispatching size change event with millimeter value for calculations
-   * 5. Triggering component re-render to update display
-   * 
-   * @param {HTMLInputEvent} e - Slider change event
+   * 2. Checking the number against the printable range
+   * 3. Converting it to millimeters and writing it to the cookie state
+   *
+   * @param {HTMLInputEvent} e - Change event of the size field
    * @throws {Error} If the input event or target is invalid
-   * @fires cookie-input-changed - Custom event with size update in millimeters
    */
-  handleSliderChange(e: HTMLInputEvent) {
+  handleSizeChange(e: HTMLInputEvent) {
 
     if (!e || !e.target) {
       throw Error("error with size input")
     }
 
-    this.currentIndex = Number(e.target.value);
-    this.currentValue = this.values[Number(e.target.value)];
-    this.currentLabel = this.labels[Number(e.target.value)];
+    const units = CookieState.get().units;
+    this.problem = this.checkSize(e.target.value, units);
+    if (this.problem) {
+      this.requestUpdate();
+      return;
+    }
 
-    const event = new CustomEvent("cookie-input-changed", {
-      detail: <CookieState_t>{
-        size: Number(this.currentValue)
-      }
-    })
+    CookieState.update({ size: fromUnits(Number(e.target.value), units) });
+  }
 
-    this.requestUpdate();
-    this.dispatchEvent(event);
+  /**
+   * Handles size constraint changes
+   *
+   * @param {HTMLInputEvent} e - Select change event
+   * @throws {Error} If the input event or target is invalid
+   */
+  handleConstraintChange(e: HTMLInputEvent) {
+    if (!e || !e.target) {
+      throw Error("error with size constraint input")
+    }
+
+    CookieState.update({ sizeConstraint: <SizeConstraint>e.target.value });
+  }
+
+  /**
+   * Renders the width and height the outline will have
+   *
+   * @returns {TemplateResult | string} Both sides in millimeters and inches, empty before the first outline
+   */
+  renderDimensions() {
+    if (!this.bounds) return "";
+
+    const state = CookieState.get();
+    const scale = Number(state.size) / constrainedExtent(this.bounds, state);
+    const width = this.bounds.width * scale;
+    const height = this.bounds.height * scale;
+    const longest = Math.max(width, height);
+    const profile = printerProfiles.get(state.printer);
+    const rim = 2 * cutterRim(state);
+
+    let problem = "";
+    if (profile && !fitsBed(width + rim, height + rim, profile)) {
+      problem = `With its handle the cutter is ${roundLength(width + rim, state.units)} × ${roundLength(height + rim, state.units)} ${UNIT_LABELS[state.units]}, ` +
+        `too large for the ${roundLength(profile.bedWidth, state.units)} × ${roundLength(profile.bedDepth, state.units)} ${UNIT_LABELS[state.units]} bed of “${profile.name}”.`;
+    } else if (!profile && longest > MAX_SIZE) {
+      problem = `The ${width > height ? "width" : "height"} comes to ${formatLength(longest, state.units)}, ` +
+        `more than the ${formatLength(MAX_SIZE, state.units)} that can be printed.`;
+    }
+
+    return html`
+      <p class="dimensions">
+        Outline ${roundLength(width, "mm")} × ${roundLength(height, "mm")} mm
+        (${roundLength(width, "in")} × ${roundLength(height, "in")} in)
+      </p>
+      ${problem ? html`<p class="problem">${problem}</p>` : ""}
+    `;
   }
 
   render() {
+    const state = CookieState.get();
+    const constraints = <SizeConstraint[]>Object.keys(SIZE_CONSTRAINT_LABELS);
+    const units = <Units[]>Object.keys(UNIT_LABELS);
+
     return html`
     <container>
       <label for="cookieCutterSize">
         Size
       </label>
-      <mwc-slider
-        @change=${this.handleSliderChange}
-        class="range blue" 
-        type="range" 
-        min="${0}" 
-        value="${this.currentIndex}" 
-        max="${this.values.length - 1}" 
-        step="1" 
-        list="ticks">
-      </mwc-slider>
-
-      <datalist id="ticks">
-          <option>2</option>
-          <option>2.5</option>
-          <option>3</option>
-          <option>3.5</option>
-          <option>4</option>
-      </datalist>
-
-      <output id="rangevalue"> ${this.currentLabel} in</output>
+      <input
+        id="cookieCutterSize"
+        class="${this.problem ? "problem" : ""}"
+        type="number"
+        step="any"
+        min="${roundLength(MIN_SIZE, state.units)}"
+        max="${roundLength(largestSize(state, printerProfiles.get(state.printer)), state.units)}"
+        .value="${String(roundLength(Number(state.size), state.units))}"
+        @input=${this.handleSizeInput}
+        @change=${this.handleSizeChange}/>
+      <div>
+        ${units.map(unit => html`
+          <mwc-button
+            dense
+            ?unelevated=${state.units === unit}
+            ?outlined=${state.units !== unit}
+            @click=${() => CookieState.update({ units: unit })}>
+            ${UNIT_LABELS[unit]}
+          </mwc-button>
+        `)}
+      </div>
     </container>
+    ${this.problem ? html`<p class="problem">${this.problem}</p>` : ""}
+
+    <mwc-select
+      outlined
+      label="📐 Size Sets The"
+      @change="${this.handleConstraintChange}">
+        ${constraints.map(constraint => html`
+          <mwc-list-item value="${constraint}" ?selected="${state.sizeConstraint === constraint}">
+            ${SIZE_CONSTRAINT_LABELS[constraint]}
+          </mwc-list-item>
+        `)}
+    </mwc-select>
+    ${this.renderDimensions()}
     `;
   }
 }
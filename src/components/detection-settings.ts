@@ -0,0 +1,266 @@
+/**
+ * @fileoverview Edge Detection Settings Component for Cookie Cutter Monster
+ *
+ * This component lets users pick how outlines are found in their image and
+ * tune the detection while watching the edge detection canvas. Line art works
+ * best with the adaptive threshold, solid shapes with Otsu, photos with Canny
+ * and images on a plain background with the colour key.
+ *
+ * Features:
+ * - Detection mode selector: adaptive Gaussian, Otsu, Canny and colour key
+ * - Sliders for block size, C, blur and the Canny hysteresis thresholds
+ * - Colour picker and tolerance for background removal
+ * - Optional mask clean-up: closing, opening, hole filling and island removal
+ * - Live updates while a slider is dragged
+ *
+ * @author Cookie Cutter Monster Team
+ * @version 1.0.0
+ * @since 2020-08-01
+ */
+
+import { LitElement, html, css } from "lit-element";
+import { CookieState_t, DetectionMode, HTMLInputEvent } from "../types";
+import { DEFAULT_DETECTION } from "../services/contourDetection";
+import CookieState, { StateKey } from "../services/cookieState";
+
+/** Display labels for the detection modes */
+const DETECTION_MODE_LABELS: { [key in DetectionMode]: string } = {
+  "adaptive": "Adaptive (line art) ⭐",
+  "otsu": "Otsu (solid shapes)",
+  "canny": "Canny edges (photos)",
+  "colorkey": "Colour key (plain background)"
+};
+
+/**
+ * A numeric detection setting shown as a slider
+ */
+interface SliderSetting {
+  key: "blockSize" | "thresholdC" | "blur" | "cannyLow" | "cannyHigh" | "keyTolerance" |
+    "closeKernel" | "openKernel" | "minIslandArea",
+  label: string,
+  min: number,
+  max: number,
+  step: number,
+  /** Detection modes the setting applies to */
+  modes: DetectionMode[]
+}
+
+/** Every slider, in display order */
+const SLIDERS: SliderSetting[] = [
+  { key: "blockSize", label: "Block size", min: 3, max: 51, step: 2, modes: ["adaptive"] },
+  { key: "thresholdC", label: "C", min: -10, max: 20, step: 1, modes: ["adaptive"] },
+  { key: "cannyLow", label: "Low threshold", min: 0, max: 255, step: 5, modes: ["canny"] },
+  { key: "cannyHigh", label: "High threshold", min: 0, max: 255, step: 5, modes: ["canny"] },
+  { key: "keyTolerance", label: "Tolerance", min: 0, max: 255, step: 5, modes: ["colorkey"] },
+  { key: "blur", label: "Blur", min: 0, max: 10, step: 1, modes: ["adaptive", "otsu", "canny", "colorkey"] }
+];
+
+/** Sliders of the mask clean-up, shown while it is on */
+const CLEANUP_SLIDERS: SliderSetting[] = [
+  { key: "closeKernel", label: "Close gaps", min: 0, max: 15, step: 1, modes: ["adaptive", "otsu", "canny", "colorkey"] },
+  { key: "openKernel", label: "Remove specks", min: 0, max: 15, step: 1, modes: ["adaptive", "otsu", "canny", "colorkey"] },
+  { key: "minIslandArea", label: "Min island %", min: 0, max: 5, step: .1, modes: ["adaptive", "otsu", "canny", "colorkey"] }
+];
+
+/**
+ * Edge detection mode and parameter controls
+ *
+ * Renders the values of the cookie state and writes every change to it,
+ * which makes the worker search the image again.
+ */
+class DetectionSettingsInput extends LitElement {
+  /** Stops listening to the cookie state */
+  private unsubscribe: () => void = null;
+
+  static styles = css`
+    .section-title {
+      font-weight: 600;
+      color: var(--primary-brand);
+      margin-bottom: 1rem;
+      font-size: 1.1rem;
+    }
+
+    mwc-select {
+      width: 100%;
+      margin-bottom: 0.5rem;
+      --mdc-theme-primary: var(--primary-brand);
+      --mdc-select-outlined-idle-border-color: var(--primary-light);
+      --mdc-select-outlined-hover-border-color: var(--primary-brand);
+    }
+
+    .row {
+      display: grid;
+      grid-template-columns: 7rem 1fr 3rem;
+      align-items: center;
+    }
+
+    output {
+      text-align: right;
+    }
+  `;
+
+  connectedCallback() {
+    super.connectedCallback();
+    this.unsubscribe = CookieState.subscribe(<StateKey[]>Object.keys(DEFAULT_DETECTION), () => this.requestUpdate());
+  }
+
+  disconnectedCallback() {
+    super.disconnectedCallback();
+    this.unsubscribe();
+  }
+
+  /** Current detection values from the cookie state */
+  get values(): CookieState_t {
+    return CookieState.get();
+  }
+
+  /**
+   * Handles detection mode changes
+   *
+   * @param {HTMLInputEvent} e - Select change event
+   * @throws {Error} If the input event or target is invalid
+   */
+  handleModeChange(e: HTMLInputEvent) {
+    if (!e || !e.target) {
+      throw Error("error with detection mode input")
+    }
+
+    if (e.target.value === this.values.detectionMode) return;
+
+    CookieState.update({ detectionMode: <DetectionMode>e.target.value });
+  }
+
+  /**
+   * Handles slider movement, fired continuously while dragging
+   *
+   * @param {HTMLInputEvent} e - Slider input event
+   * @param {SliderSetting} slider - The setting the slider controls
+   * @throws {Error} If the input event or target is invalid
+   */
+  handleSliderInput(e: HTMLInputEvent, slider: SliderSetting) {
+    if (!e || !e.target) {
+      throw Error(`error with ${slider.label} input`)
+    }
+
+    const value = Number(e.target.value);
+    if (value === this.values[slider.key]) return;
+
+    const stateUpdate: Partial<CookieState_t> = {};
+    stateUpdate[slider.key] = value;
+    // a dragged slider makes one undo step
+    CookieState.update(stateUpdate, { coalesce: true });
+  }
+
+  /**
+   * Handles key colour changes
+   *
+   * @param {HTMLInputEvent} e - Colour input event
+   * @throws {Error} If the input event or target is invalid
+   */
+  handleColorInput(e: HTMLInputEvent) {
+    if (!e || !e.target) {
+      throw Error("error with key colour input")
+    }
+
+    CookieState.update({ keyColor: e.target.value }, { coalesce: true });
+  }
+
+  /**
+   * Handles the clean-up and fill holes switches
+   *
+   * @param {HTMLInputEvent} e - Select change event
+   * @param {"cleanup" | "fillHoles"} key - The setting the select controls
+   * @throws {Error} If the input event or target is invalid
+   */
+  handleSwitchChange(e: HTMLInputEvent, key: "cleanup" | "fillHoles") {
+    if (!e || !e.target) {
+      throw Error(`error with ${key} input`)
+    }
+
+    const value = e.target.value === "on";
+    if (value === this.values[key]) return;
+
+    const stateUpdate: Partial<CookieState_t> = {};
+    stateUpdate[key] = value;
+    CookieState.update(stateUpdate);
+  }
+
+  /**
+   * Renders one slider row
+   *
+   * @param {SliderSetting} slider - The setting to show
+   */
+  renderSlider(slider: SliderSetting) {
+    return html`
+      <div class="row">
+        <label>${slider.label}</label>
+        <mwc-slider
+          pin
+          min="${slider.min}"
+          max="${slider.max}"
+          step="${slider.step}"
+          value="${this.values[slider.key]}"
+          @input="${(e: HTMLInputEvent) => this.handleSliderInput(e, slider)}">
+        </mwc-slider>
+        <output>${this.values[slider.key]}</output>
+      </div>
+    `;
+  }
+
+  render() {
+    const mode = this.values.detectionMode;
+    const modes = <DetectionMode[]>Object.keys(DETECTION_MODE_LABELS);
+
+    return html`
+      <div class="section-title">
+        🔍 Edge Detection
+      </div>
+
+      <mwc-select
+        outlined
+        label="🧭 Detection Mode"
+        @change="${this.handleModeChange}">
+          ${modes.map(value => html`
+            <mwc-list-item value="${value}" ?selected="${value === mode}">
+              ${DETECTION_MODE_LABELS[value]}
+            </mwc-list-item>
+          `)}
+      </mwc-select>
+
+      ${mode === "colorkey" ? html`
+        <div class="row">
+          <label for="keyColor">Background</label>
+          <input
+            id="keyColor"
+            type="color"
+            .value="${this.values.keyColor}"
+            @input="${this.handleColorInput}">
+          <output>${this.values.keyColor}</output>
+        </div>
+      ` : ""}
+
+      ${SLIDERS.filter(slider => slider.modes.includes(mode)).map(slider => this.renderSlider(slider))}
+
+      <mwc-select
+        outlined
+        label="🧹 Mask Clean-up"
+        @change="${(e: HTMLInputEvent) => this.handleSwitchChange(e, "cleanup")}">
+          <mwc-list-item value="off" ?selected="${!this.values.cleanup}">Off</mwc-list-item>
+          <mwc-list-item value="on" ?selected="${this.values.cleanup}">Close gaps, remove specks and islands</mwc-list-item>
+      </mwc-select>
+
+      ${this.values.cleanup ? html`
+        ${CLEANUP_SLIDERS.filter(slider => slider.modes.includes(mode)).map(slider => this.renderSlider(slider))}
+        <mwc-select
+          outlined
+          label="🕳️ Holes"
+          @change="${(e: HTMLInputEvent) => this.handleSwitchChange(e, "fillHoles")}">
+            <mwc-list-item value="on" ?selected="${this.values.fillHoles}">Fill holes in the subject</mwc-list-item>
+            <mwc-list-item value="off" ?selected="${!this.values.fillHoles}">Keep holes</mwc-list-item>
+        </mwc-select>
+      ` : ""}
+    `;
+  }
+}
+
+customElements.define("detection-settings", DetectionSettingsInput);
@@ -0,0 +1,134 @@
+/**
+ * @fileoverview Export Format Picker Component for Cookie Cutter Monster
+ *
+ * This component sits next to the download button and lets users choose the
+ * file format of the exported cookie cutter. Binary STL and 3MF files are a
+ * fraction of the size of ASCII STL, which matters at the higher quality levels.
+ *
+ * Features:
+ * - ASCII STL, binary STL, 3MF and OBJ choices
+ * - SVG and DXF choices for the outline download, with or without the wall faces
+ * - Real-time format updates via custom events
+ *
+ * @author Cookie Cutter Monster Team
+ * @version 1.0.0
+ * @since 2020-08-01
+ */
+
+import { LitElement, html, css } from "lit-element";
+import { ExportFormat, HTMLInputEvent, OutlineFormat } from "../types";
+import { EXPORT_FORMAT_LABELS, OUTLINE_FORMAT_LABELS } from "../services/exporters";
+import CookieState from "../services/cookieState";
+
+/**
+ * Export format selector component
+ *
+ * Writes the chosen formats to the shared cookie state, where the download
+ * handlers read them.
+ */
+class ExportFormatPicker extends LitElement {
+  /** Stops listening to the cookie state */
+  private unsubscribe: () => void = null;
+
+  static styles = css`
+    mwc-select {
+      width: 100%;
+      margin-bottom: 1rem;
+      --mdc-theme-primary: var(--primary-brand);
+      --mdc-select-outlined-idle-border-color: var(--primary-light);
+      --mdc-select-outlined-hover-border-color: var(--primary-brand);
+    }
+  `;
+
+  connectedCallback() {
+    super.connectedCallback();
+    this.unsubscribe = CookieState.subscribe(["exportFormat", "outlineFormat", "outlineWalls"], () => this.requestUpdate());
+  }
+
+  disconnectedCallback() {
+    super.disconnectedCallback();
+    this.unsubscribe();
+  }
+
+  /**
+   * Handles format selection changes
+   *
+   * @param {HTMLInputEvent} e - Select change event
+   * @throws {Error} If the input event or target is invalid
+   */
+  handleChange(e: HTMLInputEvent) {
+    if (!e || !e.target) {
+      throw Error("error with export format input")
+    }
+
+    CookieState.update({ exportFormat: <ExportFormat>e.target.value });
+  }
+
+  /**
+   * Handles outline format selection changes
+   *
+   * @param {HTMLInputEvent} e - Select change event
+   * @throws {Error} If the input event or target is invalid
+   */
+  handleOutlineFormatChange(e: HTMLInputEvent) {
+    if (!e || !e.target) {
+      throw Error("error with outline format input")
+    }
+
+    CookieState.update({ outlineFormat: <OutlineFormat>e.target.value });
+  }
+
+  /**
+   * Handles changes to including the wall faces in outline downloads
+   *
+   * @param {HTMLInputEvent} e - Select change event
+   * @throws {Error} If the input event or target is invalid
+   */
+  handleOutlineWallsChange(e: HTMLInputEvent) {
+    if (!e || !e.target) {
+      throw Error("error with outline walls input")
+    }
+
+    CookieState.update({ outlineWalls: e.target.value === "true" });
+  }
+
+  render() {
+    const state = CookieState.get();
+    const formats = <ExportFormat[]>Object.keys(EXPORT_FORMAT_LABELS);
+    const outlineFormats = <OutlineFormat[]>Object.keys(OUTLINE_FORMAT_LABELS);
+
+    return html`
+      <mwc-select
+        outlined
+        label="📦 File Format"
+        @change="${this.handleChange}">
+          ${formats.map(format => html`
+            <mwc-list-item value="${format}" ?selected="${format === state.exportFormat}">
+              ${EXPORT_FORMAT_LABELS[format]}
+            </mwc-list-item>
+          `)}
+      </mwc-select>
+
+      <mwc-select
+        outlined
+        label="📐 Outline Format"
+        @change="${this.handleOutlineFormatChange}">
+          ${outlineFormats.map(format => html`
+            <mwc-list-item value="${format}" ?selected="${format === state.outlineFormat}">
+              ${OUTLINE_FORMAT_LABELS[format]}
+            </mwc-list-item>
+          `)}
+      </mwc-select>
+
+      <mwc-select
+        outlined
+        label="🧱 Outline Paths"
+        @change="${this.handleOutlineWallsChange}">
+          <mwc-list-item value="false" ?selected="${!state.outlineWalls}">Centerline only</mwc-list-item>
+          <mwc-list-item value="true" ?selected="${state.outlineWalls}">Centerline and wall faces</mwc-list-item>
+      </mwc-select>
+    `;
+  }
+}
+
+customElements.define("export-format", ExportFormatPicker);
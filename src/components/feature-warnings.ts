@@ -0,0 +1,95 @@
+/**
+ * @fileoverview Feature Warnings Component for Cookie Cutter Monster
+ *
+ * This component sits under the edge detection canvas and lists the parts of
+ * the outline that are too narrow to print or cut. The numbers match the
+ * labels drawn next to the shaded stretches on the canvas, and every entry
+ * suggests how to fix the image.
+ *
+ * Features:
+ * - Numbered list of narrow parts, narrow gaps and tight inner corners
+ * - Measured size in the chosen units
+ * - Suggested fix: widen, remove or bridge
+ *
+ * @author Cookie Cutter Monster Team
+ * @version 1.0.0
+ * @since 2020-08-01
+ */
+
+import { LitElement, html, css, property } from "lit-element";
+import { FeatureFix, narrow_feature_t } from "../types";
+import CookieState from "../services/cookieState";
+import { formatLength } from "../services/units";
+
+/** Display labels for the kinds of narrow features */
+const FEATURE_LABELS: { [key in narrow_feature_t["kind"]]: string } = {
+  "narrow": "Narrow part",
+  "gap": "Narrow gap",
+  "corner": "Tight inner corner"
+};
+
+/** Advice shown for each suggested fix */
+const FIX_LABELS: { [key in FeatureFix]: string } = {
+  "widen": "widen it in the image",
+  "remove": "remove it from the image",
+  "bridge": "bridge it by filling the gap"
+};
+
+/**
+ * List of narrow features on the current outline
+ */
+class FeatureWarnings extends LitElement {
+  /** Features of the current outline, empty when everything is printable */
+  @property({ type: Array }) features: narrow_feature_t[] = [];
+
+  /** Stops listening to the cookie state */
+  private unsubscribe: () => void = null;
+
+  static styles = css`
+    .warnings {
+      margin-top: 0.5rem;
+      font-size: 0.9rem;
+      color: var(--text-secondary);
+    }
+
+    .title {
+      font-weight: 600;
+      color: var(--accent);
+    }
+
+    ol {
+      margin: 0.25rem 0 0 0;
+      padding-left: 1.5rem;
+    }
+  `;
+
+  connectedCallback() {
+    super.connectedCallback();
+    this.unsubscribe = CookieState.subscribe("units", () => this.requestUpdate());
+  }
+
+  disconnectedCallback() {
+    super.disconnectedCallback();
+    this.unsubscribe();
+  }
+
+  render() {
+    if (!this.features.length) return null;
+
+    return html`
+      <div class="warnings">
+        <div class="title">⚠️ ${this.features.length} spot${this.features.length === 1 ? "" : "s"} too narrow to print or cut</div>
+        <ol>
+          ${this.features.map(feature => html`
+            <li>
+              ${FEATURE_LABELS[feature.kind]}, ${feature.kind === "corner" ? "radius" : "width"}
+              ${formatLength(feature.size, CookieState.get().units)} → ${FIX_LABELS[feature.fix]}
+            </li>
+          `)}
+        </ol>
+      </div>
+    `;
+  }
+}
+
+customElements.define("feature-warnings", FeatureWarnings);
@@ -0,0 +1,78 @@
+/**
+ * @fileoverview Mask Toggle Component for Cookie Cutter Monster
+ *
+ * This component sits under the edge detection canvas while the mask
+ * clean-up is on and switches the canvas between the image with its
+ * contours and the black and white detection mask before or after the
+ * clean-up, so the effect of the clean-up settings can be compared.
+ *
+ * @author Cookie Cutter Monster Team
+ * @version 1.0.0
+ * @since 2020-08-01
+ */
+
+import { LitElement, html, css } from "lit-element";
+import { MaskView } from "../types";
+
+/** Display labels for the canvas views */
+const VIEW_LABELS: { [key in MaskView]: string } = {
+  "off": "🖼️ Image",
+  "before": "⬛ Mask Before",
+  "after": "✨ Mask After"
+};
+
+/**
+ * Before and after switch for the detection mask
+ */
+class MaskToggle extends LitElement {
+  /** What the canvas shows */
+  view: MaskView = "off";
+
+  static styles = css`
+    .views {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 0.25rem;
+      margin-top: 0.5rem;
+    }
+
+    mwc-button {
+      --mdc-theme-primary: var(--primary-brand);
+    }
+  `;
+
+  /**
+   * Switches the canvas view and tells the parent
+   *
+   * @param {MaskView} view - The view that was clicked
+   * @fires mask-view-changed - Custom event with the picked view
+   */
+  pickView(view: MaskView) {
+    this.view = view;
+    this.requestUpdate();
+
+    this.dispatchEvent(new CustomEvent("mask-view-changed", {
+      detail: { view }
+    }));
+  }
+
+  render() {
+    const views = <MaskView[]>Object.keys(VIEW_LABELS);
+
+    return html`
+      <div class="views">
+        ${views.map(view => html`
+          <mwc-button
+            dense
+            ?unelevated=${this.view === view}
+            ?outlined=${this.view !== view}
+            @click=${() => this.pickView(view)}>
+            ${VIEW_LABELS[view]}
+          </mwc-button>
+        `)}
+      </div>
+    `;
+  }
+}
+
+customElements.define("mask-toggle", MaskToggle);
@@ -0,0 +1,170 @@
+/**
+ * @fileoverview Mesh Report Component for Cookie Cutter Monster
+ *
+ * This component sits beside the download button and shows the printability
+ * check of the current cutter mesh: watertightness, broken edges, the size of
+ * the cutter and its thinnest wall and feature. It also lets users choose
+ * whether problems should only warn, block the download or be repaired
+ * automatically.
+ *
+ * Features:
+ * - Summary of the mesh check with warnings
+ * - Bounding box, wall and feature widths in the chosen units
+ * - Warn, refuse or auto-repair choice for meshes with problems
+ *
+ * @author Cookie Cutter Monster Team
+ * @version 1.0.0
+ * @since 2020-08-01
+ */
+
+import { LitElement, html, css, property } from "lit-element";
+import { HTMLInputEvent, MeshCheckMode, mesh_report_t, Units } from "../types";
+import { hasMeshProblems } from "../services/meshValidation";
+import CookieState from "../services/cookieState";
+import { formatLength, roundLength, UNIT_LABELS } from "../services/units";
+
+/** Display labels for the mesh check modes */
+const MESH_CHECK_LABELS: { [key in MeshCheckMode]: string } = {
+  "warn": "Download anyway",
+  "refuse": "Refuse download",
+  "repair": "Auto-repair"
+};
+
+/**
+ * Formats a width for display
+ *
+ * @param {number | null} width - Width in millimeters, null if not measured
+ * @param {Units} units - Units to show it in
+ * @returns {string} The width, or a note that it is wide enough not to matter
+ */
+function formatWidth(width: number | null, units: Units): string {
+  return width === null ? "wide" : formatLength(width, units);
+}
+
+/**
+ * Printability report panel
+ *
+ * Shows the report of the latest mesh and writes the chosen mesh check
+ * mode to the cookie state for the download handler.
+ */
+class MeshReport extends LitElement {
+  /** Report of the current mesh, null until a cutter has been built */
+  @property({ type: Object }) report: mesh_report_t = null;
+
+  /** Stops listening to the cookie state */
+  private unsubscribe: () => void = null;
+
+  static styles = css`
+    .report {
+      background: var(--background-primary);
+      border: var(--border);
+      border-radius: var(--border-radius);
+      padding: 0.75rem 1rem;
+      margin-bottom: 1rem;
+      font-size: 0.9rem;
+      color: var(--text-secondary);
+    }
+
+    .title {
+      font-weight: 600;
+      color: var(--primary-brand);
+      margin-bottom: 0.5rem;
+    }
+
+    dl {
+      display: grid;
+      grid-template-columns: auto 1fr;
+      gap: 0.25rem 1rem;
+      margin: 0 0 0.5rem 0;
+    }
+
+    dt {
+      color: var(--text-muted);
+    }
+
+    dd {
+      margin: 0;
+    }
+
+    ul {
+      margin: 0 0 0.5rem 0;
+      padding-left: 1.25rem;
+      color: var(--accent);
+    }
+
+    mwc-select {
+      width: 100%;
+      --mdc-theme-primary: var(--primary-brand);
+      --mdc-select-outlined-idle-border-color: var(--primary-light);
+      --mdc-select-outlined-hover-border-color: var(--primary-brand);
+    }
+  `;
+
+  connectedCallback() {
+    super.connectedCallback();
+    this.unsubscribe = CookieState.subscribe(["meshCheck", "units"], () => this.requestUpdate());
+  }
+
+  disconnectedCallback() {
+    super.disconnectedCallback();
+    this.unsubscribe();
+  }
+
+  /**
+   * Handles mesh check mode changes
+   *
+   * @param {HTMLInputEvent} e - Select change event
+   * @throws {Error} If the input event or target is invalid
+   */
+  handleChange(e: HTMLInputEvent) {
+    if (!e || !e.target) {
+      throw Error("error with mesh check input")
+    }
+
+    CookieState.update({ meshCheck: <MeshCheckMode>e.target.value });
+  }
+
+  render() {
+    const report = this.report;
+    if (!report) return null;
+
+    const modes = <MeshCheckMode[]>Object.keys(MESH_CHECK_LABELS);
+    const { x, y, z } = report.size;
+    const units = CookieState.get().units;
+
+    return html`
+      <div class="report">
+        <div class="title">${hasMeshProblems(report) || report.warnings.length ? "⚠️" : "✅"} Print Check</div>
+        <dl>
+          <dt>Watertight</dt>
+          <dd>${report.watertight ? "yes" : "no"}</dd>
+          <dt>Size</dt>
+          <dd>${roundLength(x, units)} × ${roundLength(y, units)} × ${roundLength(z, units)} ${UNIT_LABELS[units]}</dd>
+          <dt>Thinnest wall</dt>
+          <dd>${formatWidth(report.minWallWidth, units)}</dd>
+          <dt>Narrowest feature</dt>
+          <dd>${formatWidth(report.minFeatureWidth, units)}</dd>
+          <dt>Triangles</dt>
+          <dd>${report.triangles}</dd>
+        </dl>
+        ${report.warnings.length ? html`
+          <ul>
+            ${report.warnings.map(warning => html`<li>${warning}</li>`)}
+          </ul>
+        ` : ""}
+        <mwc-select
+          outlined
+          label="🧪 If the mesh has problems"
+          @change="${this.handleChange}">
+            ${modes.map(mode => html`
+              <mwc-list-item value="${mode}" ?selected="${mode === CookieState.get().meshCheck}">
+                ${MESH_CHECK_LABELS[mode]}
+              </mwc-list-item>
+            `)}
+        </mwc-select>
+      </div>
+    `;
+  }
+}
+
+customElements.define("mesh-report", MeshReport);
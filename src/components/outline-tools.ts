@@ -0,0 +1,160 @@
+/**
+ * @fileoverview Outline Tools Component for Cookie Cutter Monster
+ *
+ * This component sits under the edge detection canvas and switches the
+ * canvas between picking contours and editing the selected outline. Each
+ * tool is a toggle button; picking the active tool again goes back to
+ * picking contours.
+ *
+ * Features:
+ * - Move, add and delete vertices
+ * - Drag whole segments
+ * - Erase and smooth brushes
+ * - Reset back to the detected contour
+ * - Gap closed when shift-clicked outlines are merged
+ *
+ * @author Cookie Cutter Monster Team
+ * @version 1.0.0
+ * @since 2020-08-01
+ */
+
+import { LitElement, html, css } from "lit-element";
+import { EditTool, HTMLInputEvent } from "../types";
+import CookieState from "../services/cookieState";
+import { formatLength } from "../services/units";
+
+/** Display labels for the editing tools */
+const TOOL_LABELS: { [key in Exclude<EditTool, "off">]: string } = {
+  "move": "✋ Move",
+  "add": "➕ Add",
+  "delete": "➖ Delete",
+  "segment": "↔️ Segment",
+  "erase": "🧽 Erase",
+  "smooth": "🌀 Smooth"
+};
+
+/**
+ * Toolbar for the outline editor
+ */
+class OutlineTools extends LitElement {
+  /** The active tool, "off" while clicks pick contours */
+  tool: EditTool = "off";
+
+  /** Stops listening to the cookie state */
+  private unsubscribe: () => void = null;
+
+  static styles = css`
+    .tools {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 0.25rem;
+      margin-top: 0.5rem;
+    }
+
+    mwc-button {
+      --mdc-theme-primary: var(--primary-brand);
+    }
+
+    .row {
+      display: grid;
+      grid-template-columns: 7rem 1fr 4.5rem;
+      align-items: center;
+    }
+
+    output {
+      text-align: right;
+    }
+
+    .hint {
+      margin: 0.25rem 0 0 0;
+      color: var(--text-muted);
+      font-size: 0.85rem;
+    }
+  `;
+
+  connectedCallback() {
+    super.connectedCallback();
+    this.unsubscribe = CookieState.subscribe(["mergeGap", "units"], () => this.requestUpdate());
+  }
+
+  disconnectedCallback() {
+    super.disconnectedCallback();
+    this.unsubscribe();
+  }
+
+  /**
+   * Toggles a tool and tells the parent
+   *
+   * @param {EditTool} tool - The tool that was clicked
+   * @fires edit-tool-changed - Custom event with the active tool
+   */
+  pickTool(tool: EditTool) {
+    this.tool = this.tool === tool ? "off" : tool;
+    this.requestUpdate();
+
+    this.dispatchEvent(new CustomEvent("edit-tool-changed", {
+      detail: { tool: this.tool }
+    }));
+  }
+
+  /**
+   * Asks the parent to drop every edit
+   *
+   * @fires outline-reset - Custom event without details
+   */
+  reset() {
+    this.dispatchEvent(new CustomEvent("outline-reset"));
+  }
+
+  /**
+   * Handles merge gap changes
+   *
+   * @param {HTMLInputEvent} e - Slider change event
+   * @throws {Error} If the input event or target is invalid
+   */
+  handleMergeGapChange(e: HTMLInputEvent) {
+    if (!e || !e.target) {
+      throw Error("error with merge gap input")
+    }
+
+    CookieState.update({ mergeGap: Number(e.target.value) });
+  }
+
+  render() {
+    const tools = <Exclude<EditTool, "off">[]>Object.keys(TOOL_LABELS);
+
+    return html`
+      <div class="tools">
+        ${tools.map(tool => html`
+          <mwc-button
+            dense
+            ?unelevated=${this.tool === tool}
+            ?outlined=${this.tool !== tool}
+            @click=${() => this.pickTool(tool)}>
+            ${TOOL_LABELS[tool]}
+          </mwc-button>
+        `)}
+        <mwc-button dense @click=${this.reset}>↩️ Reset</mwc-button>
+      </div>
+      <p class="hint">
+        ${this.tool === "off"
+          ? "Click an outline to use it, shift-click more to merge them, or pick a tool to edit the selection."
+          : "Editing the outline, click the tool again to pick outlines."}
+      </p>
+      <div class="row">
+        <label>Merge gap</label>
+        <mwc-slider
+          pin
+          min="0"
+          max="10"
+          step="0.5"
+          value="${CookieState.get().mergeGap}"
+          @change="${this.handleMergeGapChange}">
+        </mwc-slider>
+        <output>${formatLength(CookieState.get().mergeGap, CookieState.get().units)}</output>
+      </div>
+    `;
+  }
+}
+
+customElements.define("outline-tools", OutlineTools);
@@ -0,0 +1,285 @@
+/**
+ * @fileoverview Printer Profile Component for Cookie Cutter Monster
+ *
+ * This component sits above the cutter settings and fits them to the
+ * printer. Picking a profile snaps the wall thickness so the cutting edge
+ * prints as whole extrusion lines, rounds the depth to whole layers and sets
+ * the outline detail, and the cutter settings then only offer values that
+ * suit the printer. The profile picked last is picked again after a reload.
+ *
+ * Features:
+ * - Built-in profiles for common nozzles and printers
+ * - Own profiles with nozzle, layer height, bed size and thinnest wall
+ * - Editing and deleting own profiles, kept between visits
+ *
+ * @author Cookie Cutter Monster Team
+ * @version 1.0.0
+ * @since 2020-08-01
+ */
+
+import { LitElement, html, css } from "lit-element";
+import { HTMLInputEvent, printer_profile_t } from "../types";
+import CookieState from "../services/cookieState";
+import printerProfiles, { applyPrinter, BUILT_IN_PRINTERS, extrusionWidth, printerTolerance } from "../services/printerProfiles";
+import { formatLength } from "../services/units";
+
+/** Value of the list entry for no profile, the select treats an empty value as nothing picked */
+const NO_PRINTER = "none";
+
+/** Fields of the profile form, all numbers are in millimeters */
+const PROFILE_FIELDS: { key: keyof printer_profile_t, label: string }[] = [
+  { key: "name", label: "Name" },
+  { key: "nozzle", label: "Nozzle (mm)" },
+  { key: "layerHeight", label: "Layer height (mm)" },
+  { key: "bedWidth", label: "Bed width (mm)" },
+  { key: "bedDepth", label: "Bed depth (mm)" },
+  { key: "minWall", label: "Thinnest wall (mm)" }
+];
+
+/**
+ * Printer profile picker and editor
+ */
+class PrinterProfile extends LitElement {
+  /** The profile in the form, null while the form is closed */
+  private draft: printer_profile_t = null;
+
+  /** Why the profile in the form couldn't be saved, empty when it could */
+  private problem = "";
+
+  /** Stops listening to the cookie state */
+  private unsubscribe: () => void = null;
+
+  /** Stops listening to the printer profiles */
+  private unsubscribePrinters: () => void = null;
+
+  static styles = css`
+    .section-title {
+      font-weight: 600;
+      color: var(--primary-brand);
+      margin: 1rem 0;
+      font-size: 1.1rem;
+    }
+
+    mwc-select {
+      width: 100%;
+      --mdc-theme-primary: var(--primary-brand);
+      --mdc-select-outlined-idle-border-color: var(--primary-light);
+      --mdc-select-outlined-hover-border-color: var(--primary-brand);
+    }
+
+    mwc-button {
+      --mdc-theme-primary: var(--primary-brand);
+    }
+
+    .actions {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 0.25rem;
+    }
+
+    .hint, .problem {
+      margin: 0.25rem 0 0.5rem 0;
+      font-size: 0.85rem;
+    }
+
+    .hint {
+      color: var(--text-muted);
+    }
+
+    .problem {
+      color: var(--accent);
+    }
+
+    form {
+      display: grid;
+      grid-template-columns: auto 1fr;
+      gap: 0.5rem 1rem;
+      align-items: center;
+      margin-top: 0.5rem;
+    }
+
+    form input {
+      min-width: 0;
+      padding: 0.25rem 0.5rem;
+      font-family: inherit;
+    }
+  `;
+
+  connectedCallback() {
+    super.connectedCallback();
+    this.unsubscribe = CookieState.subscribe(["printer", "units"], () => this.requestUpdate());
+    this.unsubscribePrinters = printerProfiles.subscribe(() => this.requestUpdate());
+
+    // the profile picked on an earlier visit fits the settings again, without an undo step
+    const remembered = printerProfiles.get(printerProfiles.selected());
+    if (remembered && CookieState.get().printer !== remembered.id) {
+      CookieState.update(applyPrinter(remembered, CookieState.get()), { record: false });
+    }
+  }
+
+  disconnectedCallback() {
+    super.disconnectedCallback();
+    this.unsubscribe();
+    this.unsubscribePrinters();
+  }
+
+  /**
+   * Fits the settings to a profile and remembers it for the next visit
+   *
+   * @param {printer_profile_t | null} profile - The printer, null for none
+   */
+  pick(profile: printer_profile_t | null) {
+    CookieState.update(applyPrinter(profile, CookieState.get()));
+    printerProfiles.select(profile ? profile.id : "");
+  }
+
+  /**
+   * Handles profile picker changes
+   *
+   * @param {HTMLInputEvent} e - Select change event
+   * @throws {Error} If the input event or target is invalid
+   */
+  handleProfileChange(e: HTMLInputEvent) {
+    if (!e || !e.target) {
+      throw Error("error with printer profile input")
+    }
+
+    const id = e.target.value === NO_PRINTER ? "" : e.target.value;
+    if (id !== CookieState.get().printer) {
+      this.pick(printerProfiles.get(id));
+    }
+  }
+
+  /**
+   * Opens the form with a new profile, starting from the picked one
+   */
+  newProfile() {
+    const current = printerProfiles.get(CookieState.get().printer) || BUILT_IN_PRINTERS[0];
+    this.draft = { ...current, id: "", name: `${current.name} (copy)`, builtIn: false };
+    this.problem = "";
+    this.requestUpdate();
+  }
+
+  /**
+   * Opens the form with the picked profile
+   */
+  editProfile() {
+    this.draft = { ...printerProfiles.get(CookieState.get().printer) };
+    this.problem = "";
+    this.requestUpdate();
+  }
+
+  /**
+   * Deletes the picked profile after asking, going back to no profile
+   */
+  deleteProfile() {
+    const profile = printerProfiles.get(CookieState.get().printer);
+    if (!window.confirm(`Delete the printer profile “${profile.name}”?`)) return;
+
+    CookieState.update(applyPrinter(null, CookieState.get()));
+    printerProfiles.remove(profile.id);
+  }
+
+  /**
+   * Copies a form field into the profile being edited
+   *
+   * @param {keyof printer_profile_t} key - The field
+   * @param {HTMLInputEvent} e - Input event of the field
+   */
+  handleFieldInput(key: keyof printer_profile_t, e: HTMLInputEvent) {
+    this.draft = { ...this.draft, [key]: key === "name" ? e.target.value : Number(e.target.value) };
+  }
+
+  /**
+   * Saves the profile in the form and picks it
+   *
+   * @param {Event} e - Submit event of the form
+   */
+  saveProfile(e: Event) {
+    e.preventDefault();
+    try {
+      const saved = printerProfiles.save(this.draft);
+      this.draft = null;
+      this.problem = "";
+      this.pick(saved);
+    } catch (err) {
+      this.problem = `The profile can't be saved: ${err.message}.`;
+    }
+    this.requestUpdate();
+  }
+
+  /**
+   * Closes the form without saving
+   */
+  cancel() {
+    this.draft = null;
+    this.problem = "";
+    this.requestUpdate();
+  }
+
+  /**
+   * Renders the form for a new or edited profile
+   *
+   * @returns {TemplateResult | string} The form, empty while it is closed
+   */
+  renderForm() {
+    if (!this.draft) return "";
+
+    return html`
+      <form @submit=${this.saveProfile}>
+        ${PROFILE_FIELDS.map(field => html`
+          <label for="printer-${field.key}">${field.label}</label>
+          <input
+            id="printer-${field.key}"
+            type="${field.key === "name" ? "text" : "number"}"
+            step="any"
+            .value="${String(this.draft[field.key])}"
+            @input=${(e: HTMLInputEvent) => this.handleFieldInput(field.key, e)}/>
+        `)}
+        <div class="actions">
+          <mwc-button unelevated dense @click=${this.saveProfile}>💾 Save Profile</mwc-button>
+          <mwc-button dense @click=${this.cancel}>Cancel</mwc-button>
+        </div>
+      </form>
+      ${this.problem ? html`<p class="problem">${this.problem}</p>` : ""}
+    `;
+  }
+
+  render() {
+    const profile = printerProfiles.get(CookieState.get().printer);
+    const units = CookieState.get().units;
+
+    return html`
+      <div class="section-title">
+        🖨️ Printer
+      </div>
+
+      <mwc-select
+        outlined
+        label="🖨️ Printer Profile"
+        @change="${this.handleProfileChange}">
+          <mwc-list-item value="${NO_PRINTER}" ?selected=${!profile}>None (any thickness and depth)</mwc-list-item>
+          ${printerProfiles.list().map(p => html`
+            <mwc-list-item value="${p.id}" ?selected=${Boolean(profile) && profile.id === p.id}>${p.name}</mwc-list-item>
+          `)}
+      </mwc-select>
+      <p class="hint">
+        ${profile
+          ? `Walls in ${formatLength(extrusionWidth(profile), units)} lines, depth in ${formatLength(profile.layerHeight, units)} layers, ` +
+            `detail ${formatLength(printerTolerance(profile), units)}, bed ${formatLength(profile.bedWidth, units)} × ${formatLength(profile.bedDepth, units)}.`
+          : "Pick your printer to fit the walls, depth and detail to its nozzle and layers."}
+      </p>
+
+      <div class="actions" ?hidden=${Boolean(this.draft)}>
+        <mwc-button outlined dense @click=${this.newProfile}>➕ New Profile</mwc-button>
+        ${profile && !profile.builtIn ? html`
+          <mwc-button outlined dense @click=${this.editProfile}>✏️ Edit</mwc-button>
+          <mwc-button outlined dense @click=${this.deleteProfile}>🗑️ Delete</mwc-button>
+        ` : ""}
+      </div>
+      ${this.renderForm()}
+    `;
+  }
+}
+
+customElements.define("printer-profile", PrinterProfile);
@@ -0,0 +1,193 @@
+/**
+ * @fileoverview Project File Component for Cookie Cutter Monster
+ *
+ * This component sits under the download buttons and saves the current
+ * cutter as a portable .ccm project file, or opens one. Unlike the STL a
+ * project file can be edited again on another machine, with the same
+ * outline and settings, and with the source image when it was embedded.
+ * A share link carries the same outline and settings in the link itself.
+ *
+ * Features:
+ * - Download of the project file, with or without the source image
+ * - Opening a project file, with every problem of a broken file listed
+ * - Copying a share link to the clipboard, or showing it to copy by hand
+ *
+ * @author Cookie Cutter Monster Team
+ * @version 1.0.0
+ * @since 2020-08-01
+ */
+
+import { LitElement, html, css } from "lit-element";
+import { HTMLInputEvent } from "../types";
+import { downloadProjectFile, exportProjectFile } from "../services/imageProcessing";
+import { parseProjectFile, projectFromFile } from "../services/projectFile";
+import { buildShareLink } from "../services/shareLink";
+
+/**
+ * Download and open buttons for project files
+ */
+class ProjectFile extends LitElement {
+  /** Whether downloads embed the source image */
+  embedImage = true;
+
+  /** The last share link made, empty before the first */
+  private shareLink = "";
+
+  /** Whether the last share link made it to the clipboard */
+  private shareCopied = false;
+
+  static styles = css`
+    .section-title {
+      font-weight: 600;
+      color: var(--primary-brand);
+      margin: 1rem 0;
+      font-size: 1.1rem;
+    }
+
+    mwc-select {
+      width: 100%;
+      margin-bottom: 0.5rem;
+      --mdc-theme-primary: var(--primary-brand);
+      --mdc-select-outlined-idle-border-color: var(--primary-light);
+      --mdc-select-outlined-hover-border-color: var(--primary-brand);
+    }
+
+    mwc-button {
+      --mdc-theme-primary: var(--primary-brand);
+    }
+
+    .actions {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 0.25rem;
+    }
+
+    input {
+      width: 100%;
+      box-sizing: border-box;
+      margin-top: 0.5rem;
+      font-family: inherit;
+    }
+
+    .hint {
+      margin: 0.25rem 0 0 0;
+      color: var(--text-muted);
+      font-size: 0.85rem;
+    }
+  `;
+
+  /**
+   * Downloads the current cutter as a project file
+   *
+   * @fires project-file-failed - Custom event with the message when the file can't be written
+   */
+  download() {
+    downloadProjectFile(this.embedImage).catch(err => this.fail(err.message));
+  }
+
+  /**
+   * Copies a link to the current cutter to the clipboard
+   *
+   * The link holds the outline and settings but never the image. When the
+   * clipboard can't be written, as on pages not served over HTTPS, the link
+   * is shown to copy by hand.
+   *
+   * @fires project-file-failed - Custom event with the message when the link can't be made
+   */
+  async share() {
+    try {
+      const file = await exportProjectFile(false);
+      if (!file) return;
+
+      this.shareLink = await buildShareLink(file);
+      try {
+        await navigator.clipboard.writeText(this.shareLink);
+        this.shareCopied = true;
+      } catch (err) {
+        this.shareCopied = false;
+      }
+    } catch (err) {
+      this.fail(err.message);
+    }
+    this.requestUpdate();
+  }
+
+  /**
+   * Opens the hidden file input
+   */
+  chooseFile() {
+    const input: HTMLInputElement | null = this.shadowRoot!.querySelector("#projectFileInput");
+    if (input) {
+      input.click();
+    }
+  }
+
+  /**
+   * Reads and checks a chosen project file and asks the parent to open it
+   *
+   * @param {HTMLInputEvent} e - Change event of the file input
+   * @fires project-opened - Custom event with the project made from the file
+   * @fires project-file-failed - Custom event with the message when the file is broken
+   */
+  handleFileChange(e: HTMLInputEvent) {
+    if (!e.target.files || !e.target.files[0]) return;
+
+    e.target.files[0].text()
+      .then(text => {
+        const project = projectFromFile(parseProjectFile(text));
+        this.dispatchEvent(new CustomEvent("project-opened", {
+          detail: { project }
+        }));
+      })
+      .catch(err => this.fail(err.message));
+    // picking the same file again should open it again
+    e.target.value = "";
+  }
+
+  /**
+   * Tells the parent a project file couldn't be written or read
+   *
+   * @param {string} message - What went wrong
+   * @fires project-file-failed - Custom event with the message
+   */
+  fail(message: string) {
+    this.dispatchEvent(new CustomEvent("project-file-failed", {
+      detail: { message }
+    }));
+  }
+
+  render() {
+    return html`
+      <div class="section-title">
+        💾 Project File
+      </div>
+
+      <mwc-select
+        outlined
+        label="🖼️ Source Image"
+        @change="${(e: HTMLInputEvent) => { this.embedImage = e.target.value === "true"; }}">
+          <mwc-list-item value="true" ?selected="${this.embedImage}">Embed the image, to pick other outlines later</mwc-list-item>
+          <mwc-list-item value="false" ?selected="${!this.embedImage}">Outline only, a smaller file</mwc-list-item>
+      </mwc-select>
+
+      <input @change=${this.handleFileChange} type="file" id="projectFileInput" accept=".ccm,application/json" style="display:none"/>
+      <div class="actions">
+        <mwc-button outlined @click=${this.download}>💾 Download Project (.ccm)</mwc-button>
+        <mwc-button outlined @click=${this.chooseFile}>📂 Open Project File</mwc-button>
+        <mwc-button outlined @click=${this.share}>🔗 Copy Share Link</mwc-button>
+      </div>
+      ${this.shareLink && !this.shareCopied
+        ? html`<input readonly .value=${this.shareLink} @focus=${(e: HTMLInputEvent) => e.target.select()}/>`
+        : ""}
+      <p class="hint">
+        ${!this.shareLink
+          ? "A project file opens again with its outline and settings, on any machine."
+          : this.shareCopied
+            ? "🔗 Link copied. It holds the outline and settings, not the image."
+            : "Copy the link above. It holds the outline and settings, not the image."}
+      </p>
+    `;
+  }
+}
+
+customElements.define("project-file", ProjectFile);
@@ -0,0 +1,321 @@
+/**
+ * @fileoverview Recent Projects Component for Cookie Cutter Monster
+ *
+ * This component is a drawer that slides in from the side with the projects
+ * saved in the browser, last saved first, each with a thumbnail of its 3D
+ * preview.
+ * Clicking a project opens it again with its image or drawing, settings,
+ * picked outline and edits.
+ *
+ * Features:
+ * - Thumbnail, name and time of the last change of every project
+ * - Rename, duplicate and delete
+ * - The open project marked in the list
+ *
+ * @author Cookie Cutter Monster Team
+ * @version 1.0.0
+ * @since 2020-08-01
+ */
+
+import { LitElement, html, css, property } from "lit-element";
+import { HTMLInputEvent, project_t } from "../types";
+import projectStore from "../services/projectStore";
+import { currentProjectId } from "../services/imageProcessing";
+
+/**
+ * Drawer with the saved projects
+ */
+class RecentProjects extends LitElement {
+  /** Whether the drawer is showing */
+  @property({ type: Boolean }) open = false;
+
+  /** The saved projects, last saved first */
+  private projects: project_t[] = [];
+
+  /** Id of the project whose name is being edited, empty when none is */
+  private renaming = "";
+
+  /** Why the projects couldn't be read */
+  private error = "";
+
+  /** Stops listening to the project store */
+  private unsubscribe: () => void = null;
+
+  static styles = css`
+    .scrim {
+      position: fixed;
+      top: 0;
+      right: 0;
+      bottom: 0;
+      left: 0;
+      z-index: 10;
+      background: rgba(0, 0, 0, 0.32);
+    }
+
+    aside {
+      position: fixed;
+      top: 0;
+      bottom: 0;
+      left: 0;
+      z-index: 11;
+      width: 320px;
+      max-width: 85vw;
+      overflow-y: auto;
+      background: var(--background-secondary);
+      box-shadow: 0 8px 10px -5px rgba(0, 0, 0, 0.2), 0 16px 24px 2px rgba(0, 0, 0, 0.14);
+      transform: translateX(-110%);
+      transition: transform 0.2s ease-out;
+    }
+
+    aside.open {
+      transform: none;
+    }
+
+    header {
+      display: flex;
+      justify-content: space-between;
+      align-items: flex-start;
+      padding: 1rem 0.5rem 0.5rem 1rem;
+    }
+
+    .section-title {
+      font-weight: 600;
+      color: var(--primary-brand);
+      font-size: 1.1rem;
+    }
+
+    .close {
+      border: none;
+      background: none;
+      cursor: pointer;
+      font-size: 1.1rem;
+    }
+
+    ul {
+      list-style: none;
+      margin: 0;
+      padding: 0 0.5rem;
+    }
+
+    li {
+      display: grid;
+      grid-template-columns: 64px 1fr;
+      gap: 0.5rem;
+      align-items: center;
+      padding: 0.5rem 0;
+      border-bottom: 1px solid var(--primary-light);
+    }
+
+    li.current .name {
+      color: var(--primary-brand);
+    }
+
+    .thumb {
+      width: 64px;
+      height: 64px;
+      object-fit: contain;
+      background: var(--background-primary);
+      border-radius: 4px;
+      cursor: pointer;
+    }
+
+    .name {
+      font-weight: 500;
+      white-space: nowrap;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      cursor: pointer;
+    }
+
+    .time {
+      color: var(--text-muted);
+      font-size: 0.8rem;
+    }
+
+    .actions button {
+      border: none;
+      background: none;
+      cursor: pointer;
+      padding: 0 0.25rem 0 0;
+    }
+
+    input {
+      width: 100%;
+      box-sizing: border-box;
+      font-size: 1rem;
+      font-family: inherit;
+    }
+
+    .hint {
+      margin: 0.5rem;
+      color: var(--text-muted);
+      font-size: 0.85rem;
+    }
+  `;
+
+  connectedCallback() {
+    super.connectedCallback();
+    this.unsubscribe = projectStore.subscribe(() => this.load());
+    this.load();
+  }
+
+  disconnectedCallback() {
+    super.disconnectedCallback();
+    this.unsubscribe();
+  }
+
+  /**
+   * Reads the saved projects again
+   */
+  load() {
+    projectStore.list()
+      .then(projects => {
+        this.projects = projects;
+        this.error = "";
+      })
+      .catch(err => {
+        this.projects = [];
+        this.error = err.message;
+      })
+      .then(() => this.requestUpdate());
+  }
+
+  /**
+   * Asks the parent to close the drawer
+   *
+   * @fires drawer-closed - Custom event without detail
+   */
+  close() {
+    this.dispatchEvent(new CustomEvent("drawer-closed"));
+  }
+
+  /**
+   * Asks the parent to open a project
+   *
+   * @param {project_t} project - The project that was clicked
+   * @fires project-opened - Custom event with the project
+   */
+  openProject(project: project_t) {
+    this.dispatchEvent(new CustomEvent("project-opened", {
+      detail: { project }
+    }));
+  }
+
+  /**
+   * Shows a text field for the name of a project
+   *
+   * @param {project_t} project - The project to rename
+   */
+  startRename(project: project_t) {
+    this.renaming = project.id;
+    this.requestUpdate();
+    this.updateComplete.then(() => {
+      const input: HTMLInputElement | null = this.shadowRoot!.querySelector("input");
+      if (input) input.select();
+    });
+  }
+
+  /**
+   * Saves the edited name, or drops it on Escape
+   *
+   * @param {project_t} project - The project being renamed
+   * @param {string} name - The edited name, null to keep the old one
+   */
+  finishRename(project: project_t, name: string | null) {
+    // blur follows the Enter or Escape that already finished
+    if (this.renaming !== project.id) return;
+
+    this.renaming = "";
+    this.requestUpdate();
+    if (name !== null && name.trim() !== project.name) {
+      projectStore.rename(project.id, name).catch(err => this.fail(err));
+    }
+  }
+
+  /**
+   * Saves a copy of a project
+   *
+   * @param {project_t} project - The project to copy
+   */
+  duplicateProject(project: project_t) {
+    projectStore.duplicate(project.id).catch(err => this.fail(err));
+  }
+
+  /**
+   * Deletes a project after asking
+   *
+   * @param {project_t} project - The project to delete
+   */
+  deleteProject(project: project_t) {
+    if (!window.confirm(`Delete "${project.name}"? It can't be brought back.`)) return;
+
+    projectStore.remove(project.id).catch(err => this.fail(err));
+  }
+
+  /**
+   * Shows what went wrong with the project store
+   *
+   * @param {Error} err - The error
+   */
+  fail(err: Error) {
+    this.error = err.message;
+    this.requestUpdate();
+  }
+
+  render() {
+    const current = currentProjectId();
+
+    return html`
+      ${this.open ? html`<div class="scrim" @click=${this.close}></div>` : ""}
+      <aside
+        class="${this.open ? "open" : ""}"
+        @keydown=${(e: KeyboardEvent) => { if (e.key === "Escape") this.close(); }}>
+        <header>
+          <div>
+            <div class="section-title">📁 Recent Projects</div>
+            <div class="time">Saved in this browser</div>
+          </div>
+          <button class="close" title="Close" @click=${this.close}>✖</button>
+        </header>
+
+        ${this.error ? html`<p class="hint">⚠️ ${this.error}</p>` : ""}
+        ${!this.projects.length && !this.error
+          ? html`<p class="hint">Cutters you make are saved here, so you can pick them up again after a reload.</p>`
+          : ""}
+
+        <ul>
+          ${this.projects.map(project => html`
+            <li class="${project.id === current ? "current" : ""}">
+              ${project.thumbnail
+                ? html`<img class="thumb" src="${project.thumbnail}" alt="" @click=${() => this.openProject(project)}/>`
+                : html`<div class="thumb" @click=${() => this.openProject(project)}></div>`}
+              <div>
+                ${this.renaming === project.id
+                  ? html`<input
+                      .value=${project.name}
+                      @keydown=${(e: KeyboardEvent) => {
+                        if (e.key === "Enter") this.finishRename(project, (<HTMLInputElement>e.target).value);
+                        if (e.key === "Escape") {
+                          // the drawer closes on Escape as well
+                          e.stopPropagation();
+                          this.finishRename(project, null);
+                        }
+                      }}
+                      @blur=${(e: HTMLInputEvent) => this.finishRename(project, e.target.value)}/>`
+                  : html`<div class="name" title="${project.name}" @click=${() => this.openProject(project)}>${project.name}</div>`}
+                <div class="time">${new Date(project.updated).toLocaleString()}</div>
+                <div class="actions">
+                  <button title="Rename" @click=${() => this.startRename(project)}>✏️</button>
+                  <button title="Duplicate" @click=${() => this.duplicateProject(project)}>📄</button>
+                  <button title="Delete" @click=${() => this.deleteProject(project)}>🗑️</button>
+                </div>
+              </div>
+            </li>
+          `)}
+        </ul>
+      </aside>
+    `;
+  }
+}
+
+customElements.define("recent-projects", RecentProjects);
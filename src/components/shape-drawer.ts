@@ -0,0 +1,497 @@
+/**
+ * @fileoverview Shape Drawer Component for Cookie Cutter Monster
+ *
+ * This component sits next to the image selector and makes a cutter without
+ * any image: users draw their own outline on a pad or pick a classic shape
+ * from the library. The finished outline goes to the worker in place of an
+ * image, so it is shaped, extruded, checked and exported like a detected
+ * contour and can still be fixed with the outline tools.
+ *
+ * Features:
+ * - Freehand, polyline and Bézier (pen tool) drawing
+ * - Circle, rounded rectangle, star and scalloped circle shapes
+ * - Number of star points and scallops, star depth and corner radius
+ *
+ * @author Cookie Cutter Monster Team
+ * @version 1.0.0
+ * @since 2020-08-01
+ */
+
+import { LitElement, html, css } from "lit-element";
+import { DrawTool, drawing_t, HTMLInputEvent, point_t, ShapePrimitive } from "../types";
+import { buildShape, sampleBezier, ShapeParameters } from "../services/shapeLibrary";
+
+/** Width and height of the drawing pad in pixels */
+const PAD_SIZE = 400;
+
+/** Space left around library shapes on the pad in pixels */
+const PAD_MARGIN = 20;
+
+/** How close in pad pixels a click has to be to the first point to close the outline */
+const CLOSE_RADIUS = 10;
+
+/** Smallest distance in pad pixels between two freehand points */
+const FREEHAND_SPACING = 3;
+
+/** Points sampled on each Bézier segment */
+const BEZIER_SAMPLES = 16;
+
+/** Display labels for the drawing tools */
+const TOOL_LABELS: { [key in DrawTool]: string } = {
+  "freehand": "✏️ Freehand",
+  "polyline": "📏 Polyline",
+  "bezier": "🖋️ Curves"
+};
+
+/** Display labels for the library shapes */
+const SHAPE_LABELS: { [key in ShapePrimitive]: string } = {
+  "circle": "⚪ Circle",
+  "roundedRect": "▢ Rounded Rectangle",
+  "star": "⭐ Star",
+  "scalloped": "🌼 Scalloped Circle"
+};
+
+/**
+ * A shape parameter shown as a slider
+ */
+interface SliderSetting {
+  key: "count" | "innerRatio" | "cornerRadius" | "heightRatio",
+  label: string,
+  min: number,
+  max: number,
+  step: number,
+  /** Shapes the parameter applies to */
+  shapes: ShapePrimitive[]
+}
+
+/** Every slider, in display order */
+const SLIDERS: SliderSetting[] = [
+  { key: "count", label: "Points", min: 3, max: 12, step: 1, shapes: ["star"] },
+  { key: "innerRatio", label: "Depth", min: .2, max: .9, step: .05, shapes: ["star"] },
+  { key: "count", label: "Scallops", min: 6, max: 24, step: 1, shapes: ["scalloped"] },
+  { key: "heightRatio", label: "Height", min: .2, max: 1, step: .05, shapes: ["roundedRect"] },
+  { key: "cornerRadius", label: "Corners", min: 0, max: 120, step: 5, shapes: ["roundedRect"] }
+];
+
+/**
+ * A point of the outline being drawn
+ *
+ * Freehand and polyline points keep the handle on the point itself.
+ */
+interface Anchor {
+  /** Where the outline passes through */
+  pt: point_t,
+  /** Control point leaving the anchor, mirrored for the one entering it */
+  handle: point_t
+}
+
+/**
+ * Drawing pad and shape library
+ */
+class ShapeDrawer extends LitElement {
+  /** The active drawing tool */
+  tool: DrawTool = "freehand";
+
+  /** The picked library shape */
+  shape: ShapePrimitive = "star";
+
+  /** Parameters of the library shapes */
+  values = { count: 5, innerRatio: .5, cornerRadius: 40, heightRatio: .6 };
+
+  /** Points of the outline being drawn */
+  private anchors: Anchor[] = [];
+
+  /** The last finished outline, shown until drawing starts again */
+  private finished: point_t[] = null;
+
+  /** Pointer position on the pad, null when outside */
+  private pointer: point_t = null;
+
+  /** Whether the pointer is pressed while drawing freehand or pulling a handle */
+  private dragging = false;
+
+  static styles = css`
+    .section-title {
+      font-weight: 600;
+      color: var(--primary-brand);
+      margin: 1rem 0;
+      font-size: 1.1rem;
+    }
+
+    .tools {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 0.25rem;
+      margin-bottom: 0.5rem;
+    }
+
+    mwc-button {
+      --mdc-theme-primary: var(--primary-brand);
+    }
+
+    canvas {
+      width: 100%;
+      max-width: 400px;
+      aspect-ratio: 1;
+      border: 2px dashed var(--primary-light);
+      border-radius: 12px;
+      background: white;
+      cursor: crosshair;
+      touch-action: none;
+    }
+
+    mwc-select {
+      width: 100%;
+      margin: 0.5rem 0;
+      --mdc-theme-primary: var(--primary-brand);
+      --mdc-select-outlined-idle-border-color: var(--primary-light);
+      --mdc-select-outlined-hover-border-color: var(--primary-brand);
+    }
+
+    .row {
+      display: grid;
+      grid-template-columns: 7rem 1fr 3rem;
+      align-items: center;
+    }
+
+    output {
+      text-align: right;
+    }
+
+    .hint {
+      margin: 0.25rem 0 0 0;
+      color: var(--text-muted);
+      font-size: 0.85rem;
+    }
+  `;
+
+  firstUpdated() {
+    const canvas = this.pad;
+    canvas.width = PAD_SIZE;
+    canvas.height = PAD_SIZE;
+    this.paint();
+  }
+
+  /** The drawing pad canvas */
+  get pad(): HTMLCanvasElement {
+    return <HTMLCanvasElement>this.shadowRoot!.querySelector("#pad");
+  }
+
+  /**
+   * Maps a pointer event to pad pixels, the pad may be scaled by CSS
+   *
+   * @param {PointerEvent} evt - Pointer event on the pad
+   * @returns {point_t} Position in pad pixels
+   */
+  toPad(evt: PointerEvent): point_t {
+    const rect = this.pad.getBoundingClientRect();
+    return {
+      x: (evt.clientX - rect.left) * PAD_SIZE / rect.width,
+      y: (evt.clientY - rect.top) * PAD_SIZE / rect.height
+    };
+  }
+
+  /**
+   * Whether a point closes the outline by landing on its first point
+   *
+   * @param {point_t} pt - Position in pad pixels
+   * @returns {boolean} True when there are enough points and pt is on the first
+   */
+  closes(pt: point_t): boolean {
+    if (this.anchors.length < 3) return false;
+
+    const first = this.anchors[0].pt;
+    return Math.hypot(first.x - pt.x, first.y - pt.y) <= CLOSE_RADIUS;
+  }
+
+  /**
+   * Turns the anchors into points, sampling the curves between them
+   *
+   * @param {boolean} closed - Whether to include the segment back to the first anchor
+   * @returns {point_t[]} The outline in pad pixels
+   */
+  path(closed: boolean): point_t[] {
+    if (this.tool !== "bezier") return this.anchors.map(anchor => anchor.pt);
+
+    const count = this.anchors.length;
+    const points: point_t[] = [];
+    for (let i = 0; i < (closed ? count : count - 1); i++) {
+      const from = this.anchors[i], to = this.anchors[(i + 1) % count];
+      const entering = { x: 2 * to.pt.x - to.handle.x, y: 2 * to.pt.y - to.handle.y };
+      points.push(...sampleBezier(from.pt, from.handle, entering, to.pt, BEZIER_SAMPLES));
+    }
+    if (!closed && count) points.push(this.anchors[count - 1].pt);
+    return points;
+  }
+
+  /**
+   * Hands a finished outline to the parent
+   *
+   * @param {point_t[]} outline - Closed outline in pad pixels
+   * @param {string} name - Base filename for the downloads
+   * @fires shape-drawn - Custom event with the drawing and its filename
+   */
+  finish(outline: point_t[], name: string) {
+    this.anchors = [];
+    this.dragging = false;
+    if (outline.length < 3) {
+      this.paint();
+      return;
+    }
+
+    this.finished = outline;
+    this.paint();
+
+    const drawing: drawing_t = { width: PAD_SIZE, height: PAD_SIZE, outlines: [outline] };
+    this.dispatchEvent(new CustomEvent("shape-drawn", {
+      detail: { drawing, saveFileName: name }
+    }));
+  }
+
+  /**
+   * Starts a freehand stroke or places a point
+   *
+   * @param {PointerEvent} evt - Pointer down event
+   */
+  handleDown(evt: PointerEvent) {
+    const pt = this.toPad(evt);
+
+    if (this.tool !== "freehand" && this.closes(pt)) {
+      this.finish(this.path(true), "drawing");
+      return;
+    }
+
+    if (this.tool === "freehand") this.anchors = [];
+    this.finished = null;
+    this.anchors.push({ pt, handle: pt });
+
+    if (this.tool !== "polyline") {
+      this.dragging = true;
+      this.pad.setPointerCapture(evt.pointerId);
+    }
+    this.paint();
+  }
+
+  /**
+   * Extends the freehand stroke or pulls the handle of a new curve point
+   *
+   * @param {PointerEvent} evt - Pointer move event
+   */
+  handleMove(evt: PointerEvent) {
+    const pt = this.toPad(evt);
+    this.pointer = pt;
+
+    const last = this.anchors[this.anchors.length - 1];
+    if (this.dragging && this.tool === "freehand") {
+      if (Math.hypot(last.pt.x - pt.x, last.pt.y - pt.y) >= FREEHAND_SPACING) {
+        this.anchors.push({ pt, handle: pt });
+      }
+    } else if (this.dragging) {
+      last.handle = pt;
+    }
+    this.paint();
+  }
+
+  /**
+   * Ends a freehand stroke, which closes it, or a handle drag
+   *
+   * @param {PointerEvent} evt - Pointer up event
+   */
+  handleUp(evt: PointerEvent) {
+    if (!this.dragging) return;
+
+    this.dragging = false;
+    this.pad.releasePointerCapture(evt.pointerId);
+    if (this.tool === "freehand") {
+      this.finish(this.path(true), "drawing");
+    }
+  }
+
+  /**
+   * Switches the drawing tool, dropping an unfinished outline
+   *
+   * @param {DrawTool} tool - The new tool
+   */
+  pickTool(tool: DrawTool) {
+    this.tool = tool;
+    this.anchors = [];
+    this.dragging = false;
+    this.requestUpdate();
+    this.paint();
+  }
+
+  /**
+   * Places the picked library shape on the pad and uses it
+   */
+  useShape() {
+    const size = PAD_SIZE - PAD_MARGIN * 2;
+    const params: ShapeParameters = {
+      width: size,
+      height: this.shape === "roundedRect" ? size * this.values.heightRatio : size,
+      cornerRadius: this.values.cornerRadius,
+      count: this.values.count,
+      innerRatio: this.values.innerRatio
+    };
+    const outline = buildShape(this.shape, { x: PAD_SIZE / 2, y: PAD_SIZE / 2 }, params);
+    this.finish(outline, this.shape);
+  }
+
+  /**
+   * Handles library shape changes
+   *
+   * @param {HTMLInputEvent} e - Select change event
+   * @throws {Error} If the input event or target is invalid
+   */
+  handleShapeChange(e: HTMLInputEvent) {
+    if (!e || !e.target) {
+      throw Error("error with shape input")
+    }
+
+    if (e.target.value === this.shape) return;
+
+    this.shape = <ShapePrimitive>e.target.value;
+    if (this.shape === "star") this.values.count = 5;
+    if (this.shape === "scalloped") this.values.count = 12;
+    this.requestUpdate();
+  }
+
+  /**
+   * Handles shape parameter sliders
+   *
+   * @param {HTMLInputEvent} e - Slider change event
+   * @param {SliderSetting} slider - The parameter the slider controls
+   * @throws {Error} If the input event or target is invalid
+   */
+  handleSliderChange(e: HTMLInputEvent, slider: SliderSetting) {
+    if (!e || !e.target) {
+      throw Error(`error with ${slider.label} input`)
+    }
+
+    this.values[slider.key] = Number(e.target.value);
+    this.requestUpdate();
+  }
+
+  /**
+   * Redraws the pad: the finished outline or the one being drawn with its handles
+   */
+  paint() {
+    const canvas = this.pad;
+    if (!canvas) return;
+
+    const ctx = canvas.getContext("2d")!;
+    ctx.clearRect(0, 0, PAD_SIZE, PAD_SIZE);
+    ctx.lineWidth = 2;
+    ctx.lineJoin = "round";
+
+    if (this.finished) {
+      ctx.fillStyle = "#FFE0B2";
+      ctx.strokeStyle = "#D32F2F";
+      ctx.beginPath();
+      this.finished.forEach((pt, i) => i ? ctx.lineTo(pt.x, pt.y) : ctx.moveTo(pt.x, pt.y));
+      ctx.closePath();
+      ctx.fill();
+      ctx.stroke();
+      return;
+    }
+
+    if (!this.anchors.length) return;
+
+    const points = this.path(false);
+    ctx.strokeStyle = "#8B4513";
+    ctx.beginPath();
+    points.forEach((pt, i) => i ? ctx.lineTo(pt.x, pt.y) : ctx.moveTo(pt.x, pt.y));
+    if (this.pointer && !this.dragging && this.tool !== "freehand") {
+      ctx.lineTo(this.pointer.x, this.pointer.y);
+    }
+    ctx.stroke();
+
+    if (this.tool === "freehand") return;
+
+    ctx.fillStyle = "#FFFFFF";
+    ctx.lineWidth = 1.5;
+    this.anchors.forEach((anchor, i) => {
+      if (this.tool === "bezier" && (anchor.handle.x !== anchor.pt.x || anchor.handle.y !== anchor.pt.y)) {
+        ctx.strokeStyle = "rgba(0, 0, 0, 0.4)";
+        ctx.beginPath();
+        ctx.moveTo(2 * anchor.pt.x - anchor.handle.x, 2 * anchor.pt.y - anchor.handle.y);
+        ctx.lineTo(anchor.handle.x, anchor.handle.y);
+        ctx.stroke();
+      }
+      ctx.strokeStyle = i === 0 && this.pointer && this.closes(this.pointer) ? "#D32F2F" : "#8B4513";
+      ctx.beginPath();
+      ctx.arc(anchor.pt.x, anchor.pt.y, i === 0 ? 5 : 3.5, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.stroke();
+    });
+  }
+
+  render() {
+    const tools = <DrawTool[]>Object.keys(TOOL_LABELS);
+    const shapes = <ShapePrimitive[]>Object.keys(SHAPE_LABELS);
+
+    return html`
+      <div class="section-title">
+        ✏️ Or Draw Your Own Shape
+      </div>
+
+      <div class="tools">
+        ${tools.map(tool => html`
+          <mwc-button
+            dense
+            ?unelevated=${this.tool === tool}
+            ?outlined=${this.tool !== tool}
+            @click=${() => this.pickTool(tool)}>
+            ${TOOL_LABELS[tool]}
+          </mwc-button>
+        `)}
+      </div>
+
+      <canvas
+        id="pad"
+        @pointerdown=${this.handleDown}
+        @pointermove=${this.handleMove}
+        @pointerup=${this.handleUp}
+        @pointerleave=${() => { this.pointer = null; this.paint(); }}>
+      </canvas>
+      <p class="hint">
+        ${this.tool === "freehand"
+          ? "Trace the outline in one stroke, letting go closes it."
+          : this.tool === "polyline"
+            ? "Click the corners, then click the first one to close the outline."
+            : "Click for sharp corners, drag for smooth curves, then click the first point to close."}
+      </p>
+
+      <mwc-select
+        outlined
+        label="🔷 Shape Library"
+        @change="${this.handleShapeChange}">
+          ${shapes.map(value => html`
+            <mwc-list-item value="${value}" ?selected="${value === this.shape}">
+              ${SHAPE_LABELS[value]}
+            </mwc-list-item>
+          `)}
+      </mwc-select>
+
+      ${SLIDERS.filter(slider => slider.shapes.includes(this.shape)).map(slider => html`
+        <div class="row">
+          <label>${slider.label}</label>
+          <mwc-slider
+            pin
+            min="${slider.min}"
+            max="${slider.max}"
+            step="${slider.step}"
+            value="${this.values[slider.key]}"
+            @change="${(e: HTMLInputEvent) => this.handleSliderChange(e, slider)}">
+          </mwc-slider>
+          <output>${this.values[slider.key]}</output>
+        </div>
+      `)}
+
+      <mwc-button outlined @click=${this.useShape}>
+        ${SHAPE_LABELS[this.shape]} → Use Shape
+      </mwc-button>
+    `;
+  }
+}
+
+customElements.define("shape-drawer", ShapeDrawer);
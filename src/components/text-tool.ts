@@ -0,0 +1,272 @@
+/**
+ * @fileoverview Text Tool Component for Cookie Cutter Monster
+ *
+ * This component sits under the drawing pad and makes lettering cutters:
+ * names, initials or a short word set in a bundled font or in a TrueType or
+ * OpenType font the user uploads. The letters go to the worker as a
+ * drawing, like the outlines of the drawing pad.
+ *
+ * Features:
+ * - Bundled fonts from the fonts folder, or an uploaded .ttf or .otf file
+ * - Letter spacing
+ * - Welding overlapping letters into one outline
+ * - Separate cutters per letter, or letters joined by handle bridges
+ *
+ * @author Cookie Cutter Monster Team
+ * @version 1.0.0
+ * @since 2020-08-01
+ */
+
+import { LitElement, html, css } from "lit-element";
+import { HTMLInputEvent, TextJoin } from "../types";
+
+/** Display labels for the fonts shipped in the fonts folder, by file name */
+const BUNDLED_FONTS: { [file: string]: string } = {
+  "glyphicons-halflings-regular.ttf": "Glyphicons Halflings (symbols ☁ ✉ ✏ ⛺ € + *)"
+};
+
+/** Display labels for the ways of joining letters */
+const JOIN_LABELS: { [key in TextJoin]: string } = {
+  "separate": "🔤 One cutter per letter",
+  "bridge": "🌉 Letters joined by handle bridges"
+};
+
+/** Value of the font select for an uploaded font */
+const UPLOADED_FONT = "upload";
+
+/**
+ * Text input and font settings for lettering cutters
+ */
+class TextTool extends LitElement {
+  /** The text to cut, one line per line break */
+  text = "☁";
+
+  /** File name of the picked bundled font, or UPLOADED_FONT */
+  font = Object.keys(BUNDLED_FONTS)[0];
+
+  /** Extra space after every letter as a fraction of the font size */
+  letterSpacing = 0;
+
+  /** Whether overlapping letters merge into one outline */
+  weld = true;
+
+  /** How the letters are held together */
+  join: TextJoin = "separate";
+
+  /** Contents and name of the uploaded font, null until one is picked */
+  private uploaded: { data: ArrayBuffer, name: string } = null;
+
+  static styles = css`
+    .section-title {
+      font-weight: 600;
+      color: var(--primary-brand);
+      margin: 1rem 0;
+      font-size: 1.1rem;
+    }
+
+    textarea {
+      width: 100%;
+      box-sizing: border-box;
+      padding: 0.75rem;
+      font-size: 1.1rem;
+      font-family: inherit;
+      border: 1px solid var(--primary-light);
+      border-radius: 4px;
+      resize: vertical;
+    }
+
+    textarea:focus {
+      outline: none;
+      border-color: var(--primary-brand);
+    }
+
+    mwc-select {
+      width: 100%;
+      margin: 0.5rem 0;
+      --mdc-theme-primary: var(--primary-brand);
+      --mdc-select-outlined-idle-border-color: var(--primary-light);
+      --mdc-select-outlined-hover-border-color: var(--primary-brand);
+    }
+
+    mwc-button {
+      --mdc-theme-primary: var(--primary-brand);
+    }
+
+    .row {
+      display: grid;
+      grid-template-columns: 7rem 1fr 3rem;
+      align-items: center;
+    }
+
+    output {
+      text-align: right;
+    }
+
+    .hint {
+      margin: 0.25rem 0 0 0;
+      color: var(--text-muted);
+      font-size: 0.85rem;
+    }
+  `;
+
+  /**
+   * Picks a bundled font, or asks for a font file
+   *
+   * @param {HTMLInputEvent} e - Change event of the font select
+   */
+  handleFontChange(e: HTMLInputEvent) {
+    this.font = e.target.value;
+    if (this.font === UPLOADED_FONT && !this.uploaded) {
+      this.chooseFile();
+    }
+    this.requestUpdate();
+  }
+
+  /**
+   * Opens the hidden font file input
+   */
+  chooseFile() {
+    const input: HTMLInputElement | null = this.shadowRoot!.querySelector("#fontInput");
+    if (input) {
+      input.click();
+    }
+  }
+
+  /**
+   * Reads an uploaded font file and switches to it
+   *
+   * @param {HTMLInputEvent} e - Change event of the file input
+   */
+  handleFileChange(e: HTMLInputEvent) {
+    if (!e.target.files || !e.target.files[0]) return;
+
+    const file = e.target.files[0];
+    file.arrayBuffer().then(data => {
+      this.uploaded = { data, name: file.name };
+      this.font = UPLOADED_FONT;
+      this.requestUpdate();
+    });
+  }
+
+  /**
+   * Loads the picked font
+   *
+   * @returns {Promise<ArrayBuffer>} Contents of the font file
+   * @throws {Error} If a bundled font can't be fetched or no font was uploaded
+   */
+  async loadFont(): Promise<ArrayBuffer> {
+    if (this.font === UPLOADED_FONT) {
+      if (!this.uploaded) throw Error("choose a font file first");
+      return this.uploaded.data;
+    }
+
+    const response = await fetch(`fonts/${this.font}`);
+    if (!response.ok) {
+      throw Error(`couldn't load the font ${this.font}`);
+    }
+    return response.arrayBuffer();
+  }
+
+  /**
+   * Sends the text and font to the parent to become a cutter
+   *
+   * @fires text-changed - Custom event with the font file, text, layout options and filename
+   * @fires text-failed - Custom event with the message when the font can't be loaded
+   */
+  makeCutter() {
+    const text = this.text.trim();
+    if (!text) return;
+
+    this.loadFont().then(fontData => {
+      this.dispatchEvent(new CustomEvent("text-changed", {
+        detail: {
+          fontData,
+          text,
+          options: { letterSpacing: this.letterSpacing, weld: this.weld, join: this.join },
+          saveFileName: text.replace(/\s+/g, "-")
+        }
+      }));
+    }).catch(err => {
+      this.dispatchEvent(new CustomEvent("text-failed", {
+        detail: { message: err.message }
+      }));
+    });
+  }
+
+  render() {
+    const joins = <TextJoin[]>Object.keys(JOIN_LABELS);
+
+    return html`
+      <div class="section-title">
+        🔠 Or Cut Some Letters
+      </div>
+
+      <textarea
+        rows="2"
+        .value=${this.text}
+        @input=${(e: HTMLInputEvent) => { this.text = e.target.value; }}>
+      </textarea>
+
+      <input @change=${this.handleFileChange} type="file" id="fontInput" accept=".ttf,.otf,font/ttf,font/otf" style="display:none"/>
+      <mwc-select
+        outlined
+        label="🔤 Font"
+        @change="${this.handleFontChange}">
+          ${Object.keys(BUNDLED_FONTS).map(value => html`
+            <mwc-list-item value="${value}" ?selected="${value === this.font}">
+              ${BUNDLED_FONTS[value]}
+            </mwc-list-item>
+          `)}
+          <mwc-list-item value="${UPLOADED_FONT}" ?selected="${this.font === UPLOADED_FONT}">
+            📂 ${this.uploaded ? this.uploaded.name : "Upload a TTF or OTF font…"}
+          </mwc-list-item>
+      </mwc-select>
+      ${this.font === UPLOADED_FONT
+        ? html`<mwc-button dense outlined @click=${this.chooseFile}>📂 Choose Another Font</mwc-button>`
+        : html`<p class="hint">The bundled font only has symbols, upload a font for letters.</p>`}
+
+      <div class="row">
+        <label>Spacing</label>
+        <mwc-slider
+          pin
+          min="-0.2"
+          max="0.5"
+          step="0.02"
+          value="${this.letterSpacing}"
+          @change="${(e: HTMLInputEvent) => { this.letterSpacing = Number(e.target.value); this.requestUpdate(); }}">
+        </mwc-slider>
+        <output>${this.letterSpacing}</output>
+      </div>
+
+      <mwc-select
+        outlined
+        label="🔗 Overlapping Letters"
+        @change="${(e: HTMLInputEvent) => { this.weld = e.target.value === "weld"; }}">
+          <mwc-list-item value="weld" ?selected="${this.weld}">Weld into one outline</mwc-list-item>
+          <mwc-list-item value="keep" ?selected="${!this.weld}">Keep every letter whole</mwc-list-item>
+      </mwc-select>
+
+      <mwc-select
+        outlined
+        label="✂️ Cutters"
+        @change="${(e: HTMLInputEvent) => { this.join = <TextJoin>e.target.value; }}">
+          ${joins.map(value => html`
+            <mwc-list-item value="${value}" ?selected="${value === this.join}">
+              ${JOIN_LABELS[value]}
+            </mwc-list-item>
+          `)}
+      </mwc-select>
+
+      <mwc-button outlined @click=${this.makeCutter}>
+        🔠 Use Text
+      </mwc-button>
+      <p class="hint">
+        ${this.join === "bridge"
+          ? "All letters become one cutter, held together by bars on the handle."
+          : "Every letter is its own cutter, click a letter to pick it."}
+      </p>
+    `;
+  }
+}
+
+customElements.define("text-tool", TextTool);
@@ -11,6 +11,8 @@
  * @since 2020-08-01
  */
 
+import { DetectionMode, ExportFormat, HandleStyle, JoinType, MeshCheckMode, OutlineFormat, SizeConstraint, Units } from "./types";
+
 /** 
  * Debug flag for camera position overlay display
  * When true, shows camera coordinates in development builds
@@ -23,6 +25,12 @@ export const CAMERA_DEBUG = false;
  */
 export const DEFAULT_THICKNESS = 1;
 
+/**
+ * Width of the printed cutting edge as a fraction of the wall thickness
+ * A bevelled wall is as wide as the thickness on top of that at its base
+ */
+export const CUTTING_EDGE_RATIO = .5;
+
 /**
  * Default cookie cutter cutting depth in millimeters
  * Standard depth suitable for most cookie dough thicknesses
@@ -30,11 +38,17 @@ export const DEFAULT_THICKNESS = 1;
 export const DEFAULT_DEPTH = 16;
 
 /**
- * Default point tolerance for geometry simplification
+ * Default maximum outline deviation in millimeters for geometry simplification
  * Lower values = higher quality/larger files, higher values = faster/smaller files
  */
 export const DEFAULT_TOLERANCE = .15;
 
+/**
+ * Default number of outline smoothing passes
+ * Zero keeps the traced outline as is, higher values round off pixel stair steps
+ */
+export const DEFAULT_SMOOTHNESS = 0;
+
 /**
  * Default bevel setting for cutting edge
  * False provides simpler geometry, true creates sharper cutting edges
@@ -47,14 +61,284 @@ export const DEFAULT_BEVEL = false;
  */
 export const DEFAULT_ROUND_HANDLE = false;
 
+/**
+ * Default handle style
+ * A flange matches the rim every cutter had before handle styles existed
+ */
+export const DEFAULT_HANDLE_STYLE: HandleStyle = "flange";
+
+/**
+ * Default handle width in millimeters
+ * Wide enough to press on comfortably without hiding small cutters
+ */
+export const DEFAULT_HANDLE_WIDTH = 4.2;
+
+/**
+ * Default handle thickness in millimeters
+ * Stiff enough to press on while still printing quickly
+ */
+export const DEFAULT_HANDLE_THICKNESS = 2;
+
+/**
+ * Default number of finger holes in a top plate
+ * Two holes let thumb and finger pull the cutter out of the dough
+ */
+export const DEFAULT_FINGER_HOLES = 2;
+
+/**
+ * Default stamp setting
+ * Off keeps the download to the cutter alone
+ */
+export const DEFAULT_STAMP = false;
+
+/**
+ * Default gap between the stamp plate and the cutter wall in millimeters
+ * Loose enough for the stamp to slide through the cutter after printing
+ */
+export const DEFAULT_STAMP_CLEARANCE = .5;
+
+/**
+ * Default widest gap in millimeters closed when outlines are merged
+ * Enough to join shapes that touch, whose contours sit a pixel or two apart
+ */
+export const DEFAULT_MERGE_GAP = 1;
+
 /**
  * Default cookie cutter size in millimeters (corresponds to 3 inches)
- * Represents the maximum dimension of the final cookie cutter
+ * Represents the constrained dimension of the final cookie cutter
  */
 export const DEFAULT_SIZE = 76;
 
+/**
+ * Smallest cookie size in millimeters that can be entered
+ * Below this the walls and handle leave hardly any cookie to cut
+ */
+export const MIN_SIZE = 20;
+
+/**
+ * Largest cookie size in millimeters that can be entered
+ * The handle margin has to fit on the bed of a typical 250 mm printer as well
+ */
+export const MAX_SIZE = 230;
+
+/**
+ * Default side of the outline the cookie size sets
+ * The longest side matches every cutter made before the choice existed
+ */
+export const DEFAULT_SIZE_CONSTRAINT: SizeConstraint = "longest";
+
+/**
+ * Default units lengths are entered and shown in
+ * Inches match the size slider the app started with
+ */
+export const DEFAULT_UNITS: Units = "in";
+
+/**
+ * Default printer profile id
+ * No profile keeps the thickness, depth and detail lists the app started with
+ */
+export const DEFAULT_PRINTER = "";
+
+/**
+ * Extrusion width as a multiple of the nozzle diameter
+ * The 0.45 mm lines slicers lay down with a 0.4 mm nozzle
+ */
+export const EXTRUSION_WIDTH_RATIO = 1.125;
+
+/**
+ * Outline detail of a printer profile as a fraction of its nozzle diameter
+ * Gives the usual .15 mm on a 0.4 mm nozzle, finer detail would not print anyway
+ */
+export const PRINTER_TOLERANCE_RATIO = .375;
+
+/**
+ * Key of the local storage entry holding the printer profiles made by the user
+ * The entry holds the picked profile too, so it is back after a reload
+ */
+export const PRINTER_STORAGE_KEY = "cookie-cutter-monster-printers";
+
+/**
+ * Millimeters in an inch
+ * Used whenever a length is entered or shown in inches
+ */
+export const MM_PER_INCH = 25.4;
+
+/**
+ * Default edge detection mode
+ * The adaptive threshold works well for the clip art most cutters start from
+ */
+export const DEFAULT_DETECTION_MODE: DetectionMode = "adaptive";
+
+/**
+ * Default adaptive threshold block size in pixels
+ * Small blocks follow thin lines closely
+ */
+export const DEFAULT_BLOCK_SIZE = 5;
+
+/**
+ * Default adaptive threshold constant
+ * Higher values ignore fainter lines
+ */
+export const DEFAULT_THRESHOLD_C = 1;
+
+/**
+ * Default blur radius in pixels before detection
+ * Off keeps fine detail; a little blur tames noisy photos
+ */
+export const DEFAULT_BLUR = 0;
+
+/**
+ * Default lower Canny hysteresis threshold
+ * Edges weaker than this are dropped, those in between only count when connected to strong ones
+ */
+export const DEFAULT_CANNY_LOW = 50;
+
+/**
+ * Default upper Canny hysteresis threshold
+ * The common 1:3 ratio to the lower threshold
+ */
+export const DEFAULT_CANNY_HIGH = 150;
+
+/**
+ * Default colour key
+ * Most clip art and product photos sit on white
+ */
+export const DEFAULT_KEY_COLOR = "#ffffff";
+
+/**
+ * Default colour key tolerance as an RGB distance
+ * Covers JPEG noise and soft shadows on a plain background
+ */
+export const DEFAULT_KEY_TOLERANCE = 60;
+
+/**
+ * Default mask clean-up setting
+ * Off leaves the detection mask as the detection mode made it
+ */
+export const DEFAULT_CLEANUP = false;
+
+/**
+ * Default closing kernel size in pixels for the mask clean-up
+ * Bridges gaps in outlines up to a few pixels wide
+ */
+export const DEFAULT_CLOSE_KERNEL = 3;
+
+/**
+ * Default opening kernel size in pixels for the mask clean-up
+ * Wipes out JPEG noise and single pixel specks
+ */
+export const DEFAULT_OPEN_KERNEL = 3;
+
+/**
+ * Default hole filling setting for the mask clean-up
+ * True turns outlined subjects into solid shapes
+ */
+export const DEFAULT_FILL_HOLES = true;
+
+/**
+ * Default smallest island kept by the mask clean-up, as a percentage of the image area
+ * Anything smaller is treated as a speck
+ */
+export const DEFAULT_MIN_ISLAND_AREA = .5;
+
+/**
+ * Default minimum inner corner radius in millimeters
+ * Dough tears or sticks in inward corners tighter than this
+ */
+export const DEFAULT_MIN_INNER_RADIUS = 1;
+
+/**
+ * Default download format
+ * ASCII STL keeps the original behaviour; binary STL and 3MF are much smaller
+ */
+export const DEFAULT_EXPORT_FORMAT: ExportFormat = "stl-ascii";
+
+/**
+ * Default outline download format
+ * SVG opens in browsers and most laser cutter and vinyl cutter software
+ */
+export const DEFAULT_OUTLINE_FORMAT: OutlineFormat = "svg";
+
+/**
+ * Default for adding the wall faces to outline downloads
+ * The centerline alone is what templates and stencils usually need
+ */
+export const DEFAULT_OUTLINE_WALLS = false;
+
+/**
+ * Default reaction to mesh problems at download time
+ * Warning only keeps downloads working exactly as before
+ */
+export const DEFAULT_MESH_CHECK: MeshCheckMode = "warn";
+
+/**
+ * Narrowest wall or gap in millimeters a typical 0.4 mm nozzle prints reliably
+ * Thinner walls and features are flagged by the mesh check
+ */
+export const MIN_PRINTABLE_WIDTH = 0.4;
+
+/**
+ * Corner style used when offsetting the outline into walls and handles
+ * Round joins follow the contour evenly and never create sharp spikes
+ */
+export const WALL_JOIN_TYPE: JoinType = "round";
+
+/**
+ * Number of changes the undo history keeps
+ * Older steps are dropped once the history is full
+ */
+export const HISTORY_LIMIT = 100;
+
+/**
+ * Time in milliseconds within which repeated changes to the same setting form one undo step
+ * Keeps a dragged slider from filling the history with every position it passed
+ */
+export const HISTORY_COALESCE_TIME = 1000;
+
+/**
+ * Name of the IndexedDB database the projects are saved in
+ * Shared by every tab of the app on the same site
+ */
+export const PROJECT_DATABASE = "cookie-cutter-monster";
+
+/**
+ * Time in milliseconds a project waits after the last change before it is saved
+ * Keeps a dragged slider from writing the image again for every position
+ */
+export const PROJECT_SAVE_DELAY = 1000;
+
+/**
+ * Longest side in pixels of the project thumbnails taken from the 3D preview
+ * Large enough for the recent projects list, small enough to keep the database light
+ */
+export const PROJECT_THUMBNAIL_SIZE = 128;
+
+/**
+ * Version of the .ccm project file layout this app writes and the newest it reads
+ * Raise it whenever a change to the layout would confuse older versions
+ */
+export const PROJECT_FILE_VERSION = 2;
+
+/**
+ * Step in millimeters the outline points of a share link are rounded to
+ * Finer than any nozzle, coarse enough to keep links short
+ */
+export const SHARE_OUTLINE_STEP = 0.05;
+
 /**
  * Maximum canvas dimension in pixels for image processing
  * Limits memory usage and processing time while maintaining quality
  */
 export const MAX_DIM = 500;
+
+/**
+ * URL of the cutter worker script, built next to bundle.js
+ * Runs OpenCV.js and the mesh building off the main thread
+ */
+export const CUTTER_WORKER_URL = "cutterWorker.js";
+
+/**
+ * Time in milliseconds the cutter worker gets to load OpenCV.js before the app gives up
+ * The library is several megabytes, so this leaves room for slow connections
+ */
+export const CUTTER_WORKER_TIMEOUT = 120000;
@@ -2,8 +2,8 @@
  * @fileoverview Main application entry point for Cookie Cutter Monster
  * 
  * This file contains the root application component that orchestrates the cookie cutter
- * generation process. It handles OpenCV.js loading, user input events, and coordinates
- * between the UI components and image processing services.
+ * generation process. It starts the cutter worker (which loads OpenCV.js), handles user
+ * input events, and coordinates between the UI components and image processing services.
  * 
  * @author Cookie Cutter Monster Team
  * @version 1.0.0
@@ -11,18 +11,23 @@
  */
 
 import "./registerComponents";
-import loadCV from "./scriptLoader";
 
 import { LitElement, html } from "lit-element";
 
 import CookieState from "./services/cookieState";
-import { CookieState_t } from "./types";
-import processImage from "./services/imageProcessing";
+import { CookieState_t, cutter_progress_t, drawing_t, EditTool, MaskView, mesh_report_t, narrow_feature_t, project_t } from "./types";
+import processImage, { downloadOutline, openProject, processDrawing, resetOutline, setEditTool, setMaskView, startCutterWorker } from "./services/imageProcessing";
+import { hasMeshProblems } from "./services/meshValidation";
+import { parseSvg } from "./services/svgImport";
+import { OpenTypeFont } from "./services/fontParser";
+import { layoutText, TextLayoutOptions } from "./services/textLayout";
+import { readShareLink } from "./services/shareLink";
+import { projectFromFile } from "./services/projectFile";
 
 /**
- * Interface for input change events that carry cookie cutter configuration data
+ * Interface for image change events that carry the new image and its filename
  */
-interface InputChangedEvent extends Event {
+interface ImageChangedEvent extends Event {
     detail: CookieState_t
 }
 
@@ -30,19 +35,46 @@ interface InputChangedEvent extends Event {
  * Main application component for Cookie Cutter Monster
  * 
  * This LitElement component serves as the root of the application, managing the lifecycle
- * of OpenCV.js loading, handling user interactions, and coordinating the image processing
+ * of the cutter worker, handling user interactions, and coordinating the image processing
  * workflow to generate 3D cookie cutter models.
  */
 class CookieCutterApp extends LitElement {
     
-    /** OpenCV.js instance, loaded asynchronously */
-    cv = null;
+    /** Whether the cutter worker has finished loading OpenCV.js */
+    ready = false;
+
+    /** Progress of the cutter job running in the worker, null when idle */
+    progress: cutter_progress_t = null;
+
+    /** Message of the last failed cutter job */
+    cutterError = "";
+
+    /** Printability report of the current cutter mesh */
+    meshReport: mesh_report_t = null;
+
+    /** Features of the current outline that are too narrow to print or cut */
+    features: narrow_feature_t[] = [];
+
+    /** Bounding box in pixels of the current outline, null before the first one */
+    outlineBounds: { width: number, height: number } = null;
+
+    /** Whether the recent projects drawer is showing */
+    drawerOpen = false;
+
+    /** Stops listening to the cookie state */
+    private unsubscribe: () => void = null;
+
+    /** Undo and redo on Ctrl+Z and Ctrl+Shift+Z */
+    private keyListener = (e: KeyboardEvent) => this.handleKeyDown(e);
+
+    /** Opens share links pasted into the address bar of an open page */
+    private hashListener = () => this.loadShareLink();
 
     /**
      * Removes the shadow DOM for this element to allow direct DOM queries
      * 
-     * This is necessary because OpenCV.js uses document.querySelector() calls
-     * that need access to the main document DOM rather than shadow DOM.
+     * This is necessary because the image processing service uses document
+     * queries that need access to the main document DOM rather than shadow DOM.
      * 
      * @returns {HTMLElement} The component itself (no shadow root)
      */
@@ -50,44 +82,164 @@ class CookieCutterApp extends LitElement {
         return this;
     }
 
+    connectedCallback() {
+        super.connectedCallback();
+        // the download button and the mask toggle follow these settings
+        this.unsubscribe = CookieState.subscribe(["meshCheck", "cleanup"], () => this.requestUpdate());
+        window.addEventListener("keydown", this.keyListener);
+        window.addEventListener("hashchange", this.hashListener);
+    }
+
+    disconnectedCallback() {
+        super.disconnectedCallback();
+        this.unsubscribe();
+        window.removeEventListener("keydown", this.keyListener);
+        window.removeEventListener("hashchange", this.hashListener);
+    }
+
     /**
-     * Callback function for when OpenCV.js library is successfully loaded
+     * Undoes or redoes the last change to the settings, contour selection or outline
      * 
-     * @param {any} cv - The OpenCV.js module instance
-     * @throws {Error} If the OpenCV library couldn't be loaded
+     * Text fields keep their own undo, so the keys are left alone while one
+     * has the focus.
+     * 
+     * @param {KeyboardEvent} e - Key press anywhere on the page
      */
-    getCV(cv: any) {
-        if (!cv) {
-            throw Error("couldn't load the opencv library")
+    handleKeyDown(e: KeyboardEvent) {
+        if (!(e.ctrlKey || e.metaKey) || e.altKey || e.key.toLowerCase() !== "z") return;
+
+        // the event is retargeted out of shadow roots, the first element in its path is the real target
+        const target = <HTMLElement>e.composedPath()[0];
+        if (target && (target.isContentEditable || /^(INPUT|TEXTAREA|SELECT)$/.test(target.tagName))) return;
+
+        e.preventDefault();
+        if (e.shiftKey) {
+            CookieState.redo();
+        } else {
+            CookieState.undo();
         }
+    }
+
+    /**
+     * Callback for the cutter worker's busy state
+     * 
+     * @param {cutter_progress_t | null} progress - Progress of the running job, null when idle
+     * @param {string} error - Message of the last failed job, empty otherwise
+     */
+    setCutterStatus(progress: cutter_progress_t | null, error: string) {
+        this.progress = progress;
+        this.cutterError = error;
+        this.requestUpdate();
+    }
+
+    /**
+     * Callback for the printability report of a new cutter mesh
+     * 
+     * @param {mesh_report_t} report - Mesh check result
+     */
+    setMeshReport(report: mesh_report_t) {
+        this.meshReport = report;
+        this.requestUpdate();
+    }
 
-        this.cv = cv;
+    /**
+     * Callback for the narrow features found on the current outline
+     * 
+     * @param {narrow_feature_t[]} features - Features shaded on the canvas
+     */
+    setFeatures(features: narrow_feature_t[]) {
+        this.features = features;
+        this.requestUpdate();
+    }
+
+    /**
+     * Callback for the bounding box of a new outline
+     * 
+     * @param {{ width: number, height: number }} bounds - Outline size in pixels
+     */
+    setOutlineBounds(bounds: { width: number, height: number }) {
+        this.outlineBounds = bounds;
         this.requestUpdate();
     }
 
     /**
      * LitElement lifecycle method called after first render
-     * Initiates the OpenCV.js loading process
+     * Starts the cutter worker, which loads OpenCV.js off the main thread
+     * 
+     * When the worker can't start, the error is shown in place of the app.
+     * The image parameter and the share link are opened once the app has
+     * rendered, each reporting its own problems.
      */
     firstUpdated() {
-        loadCV(this.getCV.bind(this))
+        startCutterWorker({
+            onStatus: this.setCutterStatus.bind(this),
+            onReport: this.setMeshReport.bind(this),
+            onFeatures: this.setFeatures.bind(this),
+            onOutline: this.setOutlineBounds.bind(this)
+        })
+            .then(() => {
+                this.ready = true;
+                this.requestUpdate();
+                return this.updateComplete.then(() => {
+                    this.loadImageParameter();
+                    this.loadShareLink();
+                });
+            }, err => this.setCutterStatus(null, err.message));
+    }
+
+    /**
+     * Loads the image named by the ?image= parameter, which the Chrome extension opens the app with
+     */
+    loadImageParameter() {
+        const imageUrl = new URLSearchParams(window.location.search).get("image");
+        const selector = <HTMLElement & { loadUrl(url: string): void }>this.querySelector("clipart-selector");
+        if (!imageUrl || !selector) return;
+
+        try {
+            selector.loadUrl(imageUrl);
+        } catch (err) {
+            this.setCutterStatus(null, `couldn't open the linked image: ${err.message}`);
+        }
+    }
+
+    /**
+     * Rebuilds the cutter of a share link from the fragment of the page address
+     * 
+     * Share links carry the outline and settings but no image, the outline
+     * becomes a drawing. The fragment is taken off the address afterwards,
+     * a reload shouldn't open the shared cutter again.
+     */
+    loadShareLink() {
+        const canvasElement = document.getElementById('canvasOutput');
+        const imageSrcElement: any = document.querySelector("#imageSrc");
+        if (!this.ready || !canvasElement || !imageSrcElement) return;
+
+        readShareLink(window.location.hash)
+            .then(file => {
+                if (!file) return null;
+
+                history.replaceState(null, "", window.location.pathname + window.location.search);
+                return openProject(projectFromFile(file), imageSrcElement, canvasElement);
+            })
+            .catch(err => this.setCutterStatus(null, err.message));
     }
 
     /**
-     * Handles input changes from UI components and triggers image processing
+     * Handles a new image from the clipart selector and triggers image processing
      * 
-     * This method is called whenever the user uploads a new image or changes
-     * cookie cutter parameters. It updates the global state and initiates
-     * the image processing pipeline.
+     * This method is called whenever the user uploads a new image. It stores
+     * the image in the global state and starts the image processing pipeline.
+     * Setting changes don't come through here, the components write them to
+     * the cookie state and the image processing service listens to it.
      * 
-     * @param {InputChangedEvent} event - Event containing updated cookie state
+     * @param {ImageChangedEvent} event - Event containing the new image and its filename
      */
-    handleInputChange(event: InputChangedEvent) {
+    handleImageChange(event: ImageChangedEvent) {
         CookieState.update(event.detail);
 
         const canvasElement = document.getElementById('canvasOutput');
         const imageSrcElement: any = document.querySelector("#imageSrc");
-        if (!event.detail.imageSrc || !canvasElement || !imageSrcElement) return;
+        if (!canvasElement || !imageSrcElement || !event.detail.imageSrc) return;
 
         imageSrcElement.src = event.detail.imageSrc;
         imageSrcElement.height = event.detail.imageHeight;
@@ -96,19 +248,118 @@ class CookieCutterApp extends LitElement {
         console.log(imageSrcElement)
 
         processImage(
-            this.cv,
             imageSrcElement,
             canvasElement,
             event.detail.saveFileName);
     }
 
+    /**
+     * Makes a cutter from a drawn outline or library shape
+     * 
+     * @param {CustomEvent<{ drawing: drawing_t, saveFileName: string }>} event - Event with the drawing and its filename
+     */
+    handleShapeDrawn(event: CustomEvent<{ drawing: drawing_t, saveFileName: string }>) {
+        const canvasElement = document.getElementById('canvasOutput');
+        if (!canvasElement) return;
+
+        processDrawing(event.detail.drawing, canvasElement, event.detail.saveFileName);
+    }
+
+    /**
+     * Makes a cutter from the paths of an SVG file
+     * 
+     * Every closed subpath becomes a selectable outline, curves are sampled
+     * for the current cookie size.
+     * 
+     * @param {CustomEvent<{ svgText: string, saveFileName: string }>} event - Event with the SVG source and its filename
+     */
+    handleSvgChange(event: CustomEvent<{ svgText: string, saveFileName: string }>) {
+        const canvasElement = document.getElementById('canvasOutput');
+        if (!canvasElement) return;
+
+        try {
+            const drawing = parseSvg(event.detail.svgText, CookieState.get().size);
+            processDrawing(drawing, canvasElement, event.detail.saveFileName);
+        } catch (err) {
+            this.setCutterStatus(null, err.message);
+        }
+    }
+
+    /**
+     * Makes a cutter from text set in a font
+     * 
+     * Every letter becomes a selectable outline, or all of them one cutter
+     * joined by handle bridges.
+     * 
+     * @param {CustomEvent<{ fontData: ArrayBuffer, text: string, options: TextLayoutOptions, saveFileName: string }>} event - Event with the font file, the text, how to set it and the filename
+     */
+    handleTextChange(event: CustomEvent<{ fontData: ArrayBuffer, text: string, options: TextLayoutOptions, saveFileName: string }>) {
+        const canvasElement = document.getElementById('canvasOutput');
+        if (!canvasElement) return;
+
+        try {
+            const font = new OpenTypeFont(event.detail.fontData);
+            const drawing = layoutText(font, event.detail.text, CookieState.get().size, event.detail.options);
+            processDrawing(drawing, canvasElement, event.detail.saveFileName);
+        } catch (err) {
+            this.setCutterStatus(null, err.message);
+        }
+    }
+
+    /**
+     * Opens a project picked in the recent projects drawer or read from a project file
+     * 
+     * @param {CustomEvent<{ project: project_t }>} event - Event with the saved project
+     */
+    handleProjectOpened(event: CustomEvent<{ project: project_t }>) {
+        const canvasElement = document.getElementById('canvasOutput');
+        const imageSrcElement: any = document.querySelector("#imageSrc");
+        if (!canvasElement || !imageSrcElement) return;
+
+        this.drawerOpen = false;
+        this.setCutterStatus(null, "");
+        openProject(event.detail.project, imageSrcElement, canvasElement)
+            .catch(err => this.setCutterStatus(null, err.message));
+    }
+
+    /**
+     * Switches the edge detection canvas between picking and editing outlines
+     * 
+     * @param {CustomEvent<{ tool: EditTool }>} event - Event with the picked editing tool
+     */
+    handleEditToolChange(event: CustomEvent<{ tool: EditTool }>) {
+        setEditTool(event.detail.tool);
+    }
+
+    /**
+     * Switches the edge detection canvas between the image and the detection masks
+     * 
+     * @param {CustomEvent<{ view: MaskView }>} event - Event with the picked view
+     */
+    handleMaskViewChange(event: CustomEvent<{ view: MaskView }>) {
+        setMaskView(event.detail.view);
+    }
+
     render() {
-        /* don't load unless we pulled opencv in */
-        if (!this.cv) return null;
+        /* don't load unless the worker pulled opencv in */
+        if (!this.ready) {
+            return this.cutterError ? html`<cutter-status><p class="cutter-error">⚠️ ${this.cutterError}</p></cutter-status>` : null;
+        }
+
+        const downloadRefused = CookieState.get().meshCheck === "refuse" && hasMeshProblems(this.meshReport);
 
         return html`
         <camera-debug id="cameraDebug"></camera-debug>
+        <recent-projects
+            .open=${this.drawerOpen}
+            @drawer-closed=${() => { this.drawerOpen = false; this.requestUpdate(); }}
+            @project-opened=${this.handleProjectOpened}>
+        </recent-projects>
         <mwc-top-app-bar>
+            <mwc-icon-button
+                slot="navigationIcon"
+                title="Recent projects"
+                @click=${() => { this.drawerOpen = true; this.requestUpdate(); }}>📁</mwc-icon-button>
             <h2 slot="title">🍪 Cookie Cutter Monster</h2>
             </mwc-top-app-bar>
             
@@ -116,28 +367,63 @@ class CookieCutterApp extends LitElement {
             <input-container>
                 <h3 style="margin: 0 0 1rem 0; color: var(--primary-brand); font-family: var(--font-family-display);">Create Your Cookie Cutter</h3>
                 <p>Upload an image with a clear subject and uniform background to create your own custom 3D printable cookie cutter</p>
-                <clipart-selector @image-changed="${this.handleInputChange}">
+                <clipart-selector
+                    @image-changed="${this.handleImageChange}"
+                    @svg-changed="${this.handleSvgChange}"
+                    @image-failed=${(e: CustomEvent<{ message: string }>) => this.setCutterStatus(null, e.detail.message)}>
                     <img name="image" id="imageSrc" />
                 </clipart-selector>
-                <cookie-size @cookie-input-changed=${this.handleInputChange}></cookie-size>
-                <cookie-inputs @cookie-input-changed=${this.handleInputChange} id="cookie-inputs"></cookie-inputs>
+                <shape-drawer @shape-drawn=${this.handleShapeDrawn}></shape-drawer>
+                <text-tool
+                    @text-changed=${this.handleTextChange}
+                    @text-failed=${(e: CustomEvent<{ message: string }>) => this.setCutterStatus(null, e.detail.message)}>
+                </text-tool>
+                <detection-settings></detection-settings>
+                <cookie-size .bounds=${this.outlineBounds}></cookie-size>
+                <printer-profile></printer-profile>
+                <cookie-inputs id="cookie-inputs"></cookie-inputs>
                 <download-btn-container>
-                    <mwc-button raised type="submit" id="exportASCII" class="btn btn-primary">
-                        📥 Download STL File
+                    <export-format></export-format>
+                    <mesh-report .report=${this.meshReport}></mesh-report>
+                    <mwc-button raised type="submit" id="exportASCII" class="btn btn-primary" ?disabled=${downloadRefused}>
+                        📥 Download Cutter
+                    </mwc-button>
+                    <mwc-button outlined id="exportOutline" @click=${downloadOutline}>
+                        📐 Download Outline
                     </mwc-button>
                     <p style="text-align: center; margin: 0.5rem 0 0 0; color: var(--text-muted); font-size: 0.9rem;">
                         Ready for 3D printing with PLA, PETG, or ABS
                     </p>
                 </download-btn-container>
+                <project-file
+                    @project-opened=${this.handleProjectOpened}
+                    @project-file-failed=${(e: CustomEvent<{ message: string }>) => this.setCutterStatus(null, e.detail.message)}>
+                </project-file>
+                <batch-panel></batch-panel>
             </input-container>
 
             <canvas-container>
                 <h3 style="margin: 0 0 1rem 0; color: var(--primary-brand); font-family: var(--font-family-display);">🔍 Preview & Results</h3>
+                <cutter-status ?hidden=${!this.progress && !this.cutterError}>
+                    ${this.cutterError
+                        ? html`<p class="cutter-error">⚠️ ${this.cutterError}</p>`
+                        : html`<p>⏳ ${this.progress ? this.progress.stage : ""}…</p>
+                            <progress max="1" .value=${this.progress ? this.progress.fraction : 0}></progress>`}
+                </cutter-status>
                 
                 <div style="display: grid; gap: 1.5rem;">
                     <div>
                         <h4 style="margin: 0 0 0.5rem 0; color: var(--text-secondary); font-size: 1rem;">Edge Detection</h4>
                         <canvas id="canvasOutput"></canvas>
+                        <mask-toggle
+                            ?hidden=${!CookieState.get().cleanup}
+                            @mask-view-changed=${this.handleMaskViewChange}>
+                        </mask-toggle>
+                        <outline-tools
+                            @edit-tool-changed=${this.handleEditToolChange}
+                            @outline-reset=${resetOutline}>
+                        </outline-tools>
+                        <feature-warnings .features=${this.features}></feature-warnings>
                     </div>
                     
                     <div>
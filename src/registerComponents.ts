@@ -4,7 +4,19 @@
 import "./components/camera-debug";
 import "./components/clipart-selector";
 import "./components/cookie-size";
+import "./components/printer-profile";
 import "./components/cookie-inputs";
+import "./components/export-format";
+import "./components/mesh-report";
+import "./components/feature-warnings";
+import "./components/detection-settings";
+import "./components/outline-tools";
+import "./components/mask-toggle";
+import "./components/shape-drawer";
+import "./components/text-tool";
+import "./components/batch-panel";
+import "./components/recent-projects";
+import "./components/project-file";
 
 
 import "@material/mwc-icon-button";
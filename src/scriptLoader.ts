@@ -1,17 +1,27 @@
 //@ts-nocheck
 
+/**
+ * Loads OpenCV.js inside the cutter worker and waits for its runtime
+ *
+ * The path is relative to the worker script, which is served next to
+ * bundle.js. Handles both the classic builds that call
+ * `onRuntimeInitialized` and the newer ones that export a promise.
+ */
 function loadOpenCV(cb) {
-    const scriptElement = document.createElement('script');
-    scriptElement.src = "lib/opencv.js";
-    scriptElement.defer = true;
-    scriptElement.onload = function () {
-        cb(cv)
-    }
-    const firstScriptTag = document.getElementsByTagName('script')[0];
+    importScripts("lib/opencv.js");
 
-
-    if (firstScriptTag && firstScriptTag.parentNode) {
-        firstScriptTag.parentNode.insertBefore(scriptElement, firstScriptTag);
+    if (cv && typeof cv.then === "function") {
+        // resolving with the module itself would loop forever on its own then()
+        cv.then(loaded => {
+            delete loaded.then;
+            cb(loaded)
+        });
+    } else if (cv && cv.Mat) {
+        cb(cv)
+    } else {
+        cv.onRuntimeInitialized = function () {
+            cb(cv)
+        }
     }
 };
 
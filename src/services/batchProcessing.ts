@@ -0,0 +1,297 @@
+/**
+ * @fileoverview Batch Processing Service for Cookie Cutter Monster
+ *
+ * Turns a whole collection of images into cutters in one go. Every image is
+ * run through a cutter worker of its own, so the main preview keeps working
+ * meanwhile, with the cookie settings current when its turn comes. The
+ * largest outline is picked like for a single image, and any image can be
+ * sent through again with another outline picked on its thumbnail.
+ *
+ * The result is one zip archive with an STL per image, a second one for
+ * each stamp, and a CSV summary of the sizes and printability warnings.
+ *
+ * @author Cookie Cutter Monster Team
+ * @version 1.0.0
+ * @since 2020-08-01
+ */
+
+import * as THREE from "three";
+import { batch_item_t, pixels_t } from "../types";
+import CookieState from "./cookieState";
+import { pickCutterSettings } from "./cutterGeometry";
+import { pickDetectionSettings } from "./contourDetection";
+import { CutterChange, CutterWorkerClient } from "./cutterWorkerClient";
+import { exportSTLBuffer } from "./exporters";
+import { hasMeshProblems, repairMesh, validateMesh } from "./meshValidation";
+import { parseSvg } from "./svgImport";
+import { createZip, encodeText, ZipEntry } from "./zip";
+
+/** Columns of the CSV summary */
+const SUMMARY_COLUMNS = ["image", "stl", "width_mm", "height_mm", "depth_mm", "triangles", "watertight", "warnings"];
+
+/**
+ * A queue of images on their way to becoming cutters
+ */
+export class BatchQueue {
+    /** Every image of the batch, in the order they were added */
+    readonly items: batch_item_t[] = [];
+
+    private onChange: () => void;
+    private client: CutterWorkerClient = null;
+    private current: batch_item_t = null;
+    private queue: Promise<void> = Promise.resolve();
+
+    /**
+     * Creates an empty batch
+     *
+     * @param {() => void} onChange - Called whenever an item changes, to redraw the grid
+     */
+    constructor(onChange: () => void) {
+        this.onChange = onChange;
+    }
+
+    /** Whether any image is still waiting or being processed */
+    get busy(): boolean {
+        return this.items.some(item => item.status === "queued" || item.status === "working");
+    }
+
+    /**
+     * Adds images to the batch and queues them
+     *
+     * @param {File[]} files - Image or SVG files
+     */
+    add(files: File[]) {
+        for (const file of files) {
+            const item: batch_item_t = {
+                name: file.name.replace(/\.[^/.]+$/, ""),
+                file,
+                status: "queued",
+                preview: null,
+                mesh: null,
+                error: ""
+            };
+            this.items.push(item);
+            this.enqueue(item);
+        }
+        this.onChange();
+    }
+
+    /**
+     * Builds an item again from the outline under a point of its thumbnail
+     *
+     * @param {batch_item_t} item - The item whose thumbnail was clicked
+     * @param {number} x - X coordinate in preview pixels
+     * @param {number} y - Y coordinate in preview pixels
+     */
+    pick(item: batch_item_t, x: number, y: number) {
+        const preview = item.preview;
+        if (!preview || item.status === "queued" || item.status === "working") return;
+        if (x < 0 || y < 0 || x >= preview.image.width || y >= preview.image.height) return;
+
+        const n = preview.contourMap[y * preview.image.width + x];
+        if (n != 0 && preview.candidates[n - 1] !== preview.selected) {
+            this.enqueue(item, preview.candidates[n - 1]);
+            this.onChange();
+        }
+    }
+
+    /**
+     * Takes an item out of the batch, a queued one is skipped
+     *
+     * @param {batch_item_t} item - The item to remove
+     */
+    remove(item: batch_item_t) {
+        const index = this.items.indexOf(item);
+        if (index >= 0) this.items.splice(index, 1);
+        this.onChange();
+    }
+
+    /**
+     * Empties the batch
+     */
+    clear() {
+        this.items.splice(0, this.items.length);
+        this.onChange();
+    }
+
+    /**
+     * Packs every finished cutter and the CSV summary into a zip archive
+     *
+     * Meshes that failed the print check are repaired or left out, following
+     * the mesh check setting, as for a single download. Images without a
+     * cutter are listed in the summary with the reason.
+     *
+     * @returns {Blob} The zip archive
+     */
+    buildZip(): Blob {
+        const state = CookieState.get();
+        const binary = state.exportFormat !== "stl-ascii";
+        const entries: ZipEntry[] = [];
+        const rows: string[][] = [SUMMARY_COLUMNS];
+        const used = new Set<string>();
+
+        for (const item of this.items) {
+            if (!item.mesh) {
+                rows.push([item.name, "", "", "", "", "", "", item.error || "not built yet"]);
+                continue;
+            }
+
+            let positions = item.mesh.positions;
+            let report = item.mesh.report;
+            if (hasMeshProblems(report) && state.meshCheck === "refuse") {
+                rows.push([item.name, "", "", "", "", "", "", "left out, the mesh failed the print check"]);
+                continue;
+            }
+            if (hasMeshProblems(report) && state.meshCheck === "repair") {
+                positions = repairMesh(positions);
+                report = validateMesh(positions);
+            }
+
+            const base = uniqueName(item.name.replace(/[^a-zA-Z0-9_-]/g, "_"), used);
+            entries.push({ name: `${base}.stl`, data: exportSTLBuffer(meshFromPositions(positions), binary) });
+            if (item.mesh.stamp) {
+                entries.push({ name: `${base}-stamp.stl`, data: exportSTLBuffer(meshFromPositions(item.mesh.stamp.positions), binary) });
+            }
+
+            rows.push([
+                item.name,
+                `${base}.stl`,
+                report.size.x.toFixed(1),
+                report.size.y.toFixed(1),
+                report.size.z.toFixed(1),
+                String(report.triangles),
+                report.watertight ? "yes" : "no",
+                report.warnings.join("; ")
+            ]);
+        }
+
+        const csv = rows.map(row => row.map(csvField).join(",")).join("\r\n") + "\r\n";
+        entries.push({ name: "summary.csv", data: encodeText(csv) });
+        return createZip(entries);
+    }
+
+    /**
+     * Queues an item for building
+     *
+     * @param {batch_item_t} item - The item to build
+     * @param {number} selection - Contour to build from, the largest when left out
+     */
+    private enqueue(item: batch_item_t, selection?: number) {
+        item.status = "queued";
+        this.queue = this.queue.then(() => this.run(item, selection));
+    }
+
+    /**
+     * Builds the cutter of one item in the batch worker
+     *
+     * @param {batch_item_t} item - The item to build
+     * @param {number} selection - Contour to build from, the largest when left out
+     */
+    private async run(item: batch_item_t, selection?: number) {
+        // removed while waiting
+        if (!this.items.includes(item)) return;
+
+        item.status = "working";
+        item.error = "";
+        this.onChange();
+
+        try {
+            if (!this.client) {
+                this.client = new CutterWorkerClient({
+                    onPreview: preview => {
+                        if (this.current) this.current.preview = preview;
+                    },
+                    onProgress: () => { }
+                });
+            }
+            await this.client.ready;
+
+            const state = CookieState.get();
+            const settings = pickCutterSettings(state);
+            const detection = pickDetectionSettings(state);
+            const isSvg = item.file.type === "image/svg+xml" || /\.svg$/i.test(item.file.name);
+            const change: CutterChange = isSvg
+                ? { drawing: parseSvg(await item.file.text(), Number(settings.size)) }
+                : { image: await readImageFile(item.file) };
+            if (selection !== undefined) {
+                change.selection = selection;
+            }
+
+            this.current = item;
+            item.mesh = await this.client.submit(change, settings, detection, Number(state.minInnerRadius));
+            item.status = item.mesh ? "done" : "failed";
+        } catch (err) {
+            item.mesh = null;
+            item.status = "failed";
+            item.error = err.message;
+        }
+
+        this.current = null;
+        this.onChange();
+    }
+}
+
+/**
+ * Decodes an image file into RGBA pixels
+ *
+ * @param {Blob} file - PNG, JPEG, GIF or any other image the browser reads
+ * @returns {Promise<pixels_t>} The image pixels at their natural size
+ * @throws {Error} If the browser can't decode the file
+ */
+async function readImageFile(file: Blob): Promise<pixels_t> {
+    const url = URL.createObjectURL(file);
+    try {
+        const img = new Image();
+        img.src = url;
+        await img.decode().catch(() => {
+            throw Error("that file is not an image the browser can read");
+        });
+
+        const canvas = document.createElement("canvas");
+        canvas.width = img.naturalWidth || 1;
+        canvas.height = img.naturalHeight || 1;
+        const ctx = canvas.getContext("2d");
+        ctx.drawImage(img, 0, 0);
+        return ctx.getImageData(0, 0, canvas.width, canvas.height);
+    } finally {
+        URL.revokeObjectURL(url);
+    }
+}
+
+/**
+ * Wraps triangle positions into a mesh for the STL exporter
+ *
+ * @param {Float32Array} positions - Non-indexed triangle vertices in millimetres
+ * @returns {THREE.Mesh} Mesh without material
+ */
+function meshFromPositions(positions: Float32Array): THREE.Mesh {
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute("position", new THREE.BufferAttribute(positions, 3));
+    return new THREE.Mesh(geometry);
+}
+
+/**
+ * Makes a file name unique within the archive by numbering repeats
+ *
+ * @param {string} name - Sanitized name without extension
+ * @param {Set<string>} used - Names taken so far, the result is added
+ * @returns {string} The name, with -2, -3 and so on for repeats
+ */
+function uniqueName(name: string, used: Set<string>): string {
+    let unique = name || "cutter";
+    for (let n = 2; used.has(unique.toLowerCase()); n++) {
+        unique = `${name || "cutter"}-${n}`;
+    }
+    used.add(unique.toLowerCase());
+    return unique;
+}
+
+/**
+ * Quotes a CSV field when it holds a separator, quote or line break
+ *
+ * @param {string} value - Field value
+ * @returns {string} The field ready to join with commas
+ */
+function csvField(value: string): string {
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
@@ -0,0 +1,400 @@
+/**
+ * @fileoverview Contour Detection Core for Cookie Cutter Monster
+ *
+ * This service finds candidate cookie cutter outlines in an image with
+ * OpenCV.js. It never touches the DOM, so the same code runs in the browser,
+ * in a worker or under Node from the command line tool.
+ *
+ * Workflow:
+ * 1. Pad the image so subjects touching the edge still get a closed contour
+ * 2. Turn it into a black and white mask with the chosen detection mode:
+ *    adaptive Gaussian threshold, Otsu global threshold, Canny edges or a
+ *    colour key that removes the background
+ * 3. Optionally clean the mask up: close gaps, open away specks, fill holes
+ *    and drop islands too small to be the subject
+ * 4. Find every contour and keep the ones big enough to be a subject
+ * 5. Pick the largest contour that is not the image boundary as the default
+ * 6. On request, find the interior lines inside an outline for a stamp
+ *
+ * @author Cookie Cutter Monster Team
+ * @version 1.0.0
+ * @since 2020-08-01
+ */
+
+import { CookieState_t, pixels_t, point_t } from "../types";
+import {
+    DEFAULT_DETECTION_MODE,
+    DEFAULT_BLOCK_SIZE,
+    DEFAULT_THRESHOLD_C,
+    DEFAULT_BLUR,
+    DEFAULT_CANNY_LOW,
+    DEFAULT_CANNY_HIGH,
+    DEFAULT_KEY_COLOR,
+    DEFAULT_KEY_TOLERANCE,
+    DEFAULT_CLEANUP,
+    DEFAULT_CLOSE_KERNEL,
+    DEFAULT_OPEN_KERNEL,
+    DEFAULT_FILL_HOLES,
+    DEFAULT_MIN_ISLAND_AREA
+} from "../constants";
+
+/** Padding in pixels added around the image before detection */
+export const CONTOUR_PADDING = 10;
+
+/** Shortest interior line offered for a stamp, as a fraction of the outline's perimeter */
+const MIN_DETAIL_LENGTH = .02;
+
+/** Most interior lines offered for a stamp, so their numbers fit in a byte map */
+const MAX_DETAILS = 254;
+
+/**
+ * The part of the cookie state that controls contour detection
+ */
+export type DetectionSettings = Pick<CookieState_t,
+    "detectionMode" | "blockSize" | "thresholdC" | "blur" | "cannyLow" | "cannyHigh" | "keyColor" | "keyTolerance" |
+    "cleanup" | "closeKernel" | "openKernel" | "fillHoles" | "minIslandArea">;
+
+/** Detection settings used when the caller has none, matching the app defaults */
+export const DEFAULT_DETECTION: DetectionSettings = {
+    detectionMode: DEFAULT_DETECTION_MODE,
+    blockSize: DEFAULT_BLOCK_SIZE,
+    thresholdC: DEFAULT_THRESHOLD_C,
+    blur: DEFAULT_BLUR,
+    cannyLow: DEFAULT_CANNY_LOW,
+    cannyHigh: DEFAULT_CANNY_HIGH,
+    keyColor: DEFAULT_KEY_COLOR,
+    keyTolerance: DEFAULT_KEY_TOLERANCE,
+    cleanup: DEFAULT_CLEANUP,
+    closeKernel: DEFAULT_CLOSE_KERNEL,
+    openKernel: DEFAULT_OPEN_KERNEL,
+    fillHoles: DEFAULT_FILL_HOLES,
+    minIslandArea: DEFAULT_MIN_ISLAND_AREA
+};
+
+/**
+ * Picks the detection settings out of the full cookie state
+ *
+ * @param {CookieState_t} state - Current cookie state
+ * @returns {DetectionSettings} Just the settings that control detection
+ */
+export function pickDetectionSettings(state: CookieState_t): DetectionSettings {
+    const { detectionMode, blockSize, thresholdC, blur, cannyLow, cannyHigh, keyColor, keyTolerance } = state;
+    const { cleanup, closeKernel, openKernel, fillHoles, minIslandArea } = state;
+    return {
+        detectionMode, blockSize, thresholdC, blur, cannyLow, cannyHigh, keyColor, keyTolerance,
+        cleanup, closeKernel, openKernel, fillHoles, minIslandArea
+    };
+}
+
+/**
+ * Result of running contour detection on an image
+ *
+ * The OpenCV objects are owned by the caller and must be deleted when done.
+ */
+export interface DetectedContours {
+    /** Every contour found (cv.MatVector), coordinates include the padding */
+    contours: any,
+    /** Contour hierarchy (cv.Mat) used when drawing */
+    hierarchy: any,
+    /** Indices of contours large enough to be offered for selection */
+    candidates: number[],
+    /** Index of the largest contour that is not the image boundary */
+    largest: number,
+    /** The padded CV_8UC1 masks before and after the clean-up, when asked for and the clean-up is on */
+    masks: { before: any, after: any } | null
+}
+
+/**
+ * Wraps raw RGBA pixels in an OpenCV matrix
+ *
+ * @param {any} cv - The OpenCV.js module instance
+ * @param {pixels_t} image - RGBA pixels, e.g. browser ImageData or a decoded PNG
+ * @returns {any} A CV_8UC4 cv.Mat the caller must delete
+ */
+export function matFromPixels(cv: any, image: pixels_t): any {
+    const mat = new cv.Mat(image.height, image.width, cv.CV_8UC4);
+    mat.data.set(image.data);
+    return mat;
+}
+
+/**
+ * Parses a #rrggbb colour
+ *
+ * @param {string} color - Colour in hex notation
+ * @returns {number[]} Red, green and blue from 0 to 255
+ * @throws {Error} If the colour is not in #rrggbb notation
+ */
+function parseColor(color: string): number[] {
+    const match = /^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(color);
+    if (!match) {
+        throw Error(`${color} is not a #rrggbb colour`);
+    }
+    return match.slice(1).map(hex => parseInt(hex, 16));
+}
+
+/**
+ * Marks every pixel close to the key colour as background
+ *
+ * @param {any} cv - The OpenCV.js module instance
+ * @param {any} src - RGBA cv.Mat
+ * @param {DetectionSettings} detection - Key colour and tolerance
+ * @returns {any} CV_8UC1 mask, 0 for background and 255 for the subject
+ */
+function colorKeyMask(cv: any, src: any, detection: DetectionSettings): any {
+    const [r, g, b] = parseColor(detection.keyColor);
+    const toleranceSq = Number(detection.keyTolerance) ** 2;
+
+    const mask = new cv.Mat(src.rows, src.cols, cv.CV_8UC1);
+    const rgba = src.data;
+    for (let i = 0, n = src.rows * src.cols; i < n; i++) {
+        const dr = rgba[i * 4] - r, dg = rgba[i * 4 + 1] - g, db = rgba[i * 4 + 2] - b;
+        mask.data[i] = dr * dr + dg * dg + db * db <= toleranceSq ? 0 : 255;
+    }
+    return mask;
+}
+
+/**
+ * Turns the padded image into a black and white mask for findContours
+ *
+ * @param {any} cv - The OpenCV.js module instance
+ * @param {any} src - Padded RGBA cv.Mat
+ * @param {DetectionSettings} detection - Detection mode and parameters
+ * @returns {any} CV_8UC1 mask the caller must delete
+ */
+function binarize(cv: any, src: any, detection: DetectionSettings): any {
+    const blur = Math.round(Number(detection.blur));
+
+    if (detection.detectionMode === "colorkey") {
+        if (!blur) return colorKeyMask(cv, src, detection);
+
+        const blurred = new cv.Mat();
+        cv.GaussianBlur(src, blurred, new cv.Size(blur * 2 + 1, blur * 2 + 1), 0, 0, cv.BORDER_DEFAULT);
+        const mask = colorKeyMask(cv, blurred, detection);
+        blurred.delete();
+        return mask;
+    }
+
+    const gray = new cv.Mat();
+    cv.cvtColor(src, gray, cv.COLOR_RGBA2GRAY, 0);
+
+    if (blur > 0) {
+        cv.GaussianBlur(gray, gray, new cv.Size(blur * 2 + 1, blur * 2 + 1), 0, 0, cv.BORDER_DEFAULT);
+    }
+
+    switch (detection.detectionMode) {
+        case "otsu":
+            cv.threshold(gray, gray, 0, 255, cv.THRESH_BINARY + cv.THRESH_OTSU);
+            break;
+        case "canny": {
+            cv.Canny(gray, gray, Number(detection.cannyLow), Number(detection.cannyHigh), 3, false);
+
+            // close single pixel gaps so edges form loops
+            const kernel = cv.Mat.ones(3, 3, cv.CV_8U);
+            cv.dilate(gray, gray, kernel);
+            kernel.delete();
+            break;
+        }
+        case "adaptive":
+        default: {
+            // the block size has to be odd and at least 3
+            const blockSize = Math.max(3, Math.round(Number(detection.blockSize)) | 1);
+            cv.adaptiveThreshold(gray, gray, 255, cv.ADAPTIVE_THRESH_GAUSSIAN_C, cv.THRESH_BINARY,
+                blockSize, Number(detection.thresholdC));
+        }
+    }
+
+    return gray;
+}
+
+/**
+ * Cleans up a detection mask in place
+ *
+ * The subject is whatever the image border is not, so the mask is flipped
+ * while it is cleaned up when its border is mostly white. Then a closing
+ * bridges gaps in the subject, an opening wipes out specks, islands under
+ * the minimum area are erased and the holes of the rest are filled.
+ *
+ * @param {any} cv - The OpenCV.js module instance
+ * @param {any} mask - Padded CV_8UC1 mask from binarize
+ * @param {DetectionSettings} detection - Kernel sizes, hole filling and minimum island area
+ */
+function cleanMask(cv: any, mask: any, detection: DetectionSettings) {
+    const inverted = borderIsWhite(mask);
+    if (inverted) cv.bitwise_not(mask, mask);
+
+    const morph = (size: number, operation: number) => {
+        const kernelSize = Math.round(size);
+        if (kernelSize < 2) return;
+
+        const kernel = cv.getStructuringElement(cv.MORPH_ELLIPSE, new cv.Size(kernelSize, kernelSize));
+        cv.morphologyEx(mask, mask, operation, kernel);
+        kernel.delete();
+    };
+    morph(Number(detection.closeKernel), cv.MORPH_CLOSE);
+    morph(Number(detection.openKernel), cv.MORPH_OPEN);
+
+    const minArea = mask.rows * mask.cols * Number(detection.minIslandArea) / 100;
+    if (detection.fillHoles || minArea > 0) {
+        const islands = new cv.MatVector();
+        const hierarchy = new cv.Mat();
+        const copy = mask.clone();
+        cv.findContours(copy, islands, hierarchy, cv.RETR_EXTERNAL, cv.CHAIN_APPROX_SIMPLE);
+        copy.delete();
+
+        for (let i = 0; i < islands.size(); i++) {
+            if (Math.abs(cv.contourArea(islands.get(i), false)) < minArea) {
+                cv.drawContours(mask, islands, i, new cv.Scalar(0), -1);
+            } else if (detection.fillHoles) {
+                cv.drawContours(mask, islands, i, new cv.Scalar(255), -1);
+            }
+        }
+        islands.delete();
+        hierarchy.delete();
+    }
+
+    if (inverted) cv.bitwise_not(mask, mask);
+}
+
+/**
+ * Checks whether most of a mask's border is white
+ *
+ * @param {any} mask - CV_8UC1 mask
+ * @returns {boolean} True when over half the border pixels are set
+ */
+function borderIsWhite(mask: any): boolean {
+    const { rows, cols, data } = mask;
+    let white = 0;
+    for (let x = 0; x < cols; x++) {
+        if (data[x]) white++;
+        if (data[(rows - 1) * cols + x]) white++;
+    }
+    for (let y = 1; y < rows - 1; y++) {
+        if (data[y * cols]) white++;
+        if (data[y * cols + cols - 1]) white++;
+    }
+    return white * 2 > (cols + rows - 2) * 2;
+}
+
+/**
+ * Finds candidate outlines in an RGBA image
+ *
+ * Contours whose area is above 10% of the boundary cutoff are candidates;
+ * anything covering 90% or more of the padded image is treated as the image
+ * boundary and ignored.
+ *
+ * @param {any} cv - The OpenCV.js module instance
+ * @param {any} image - RGBA cv.Mat of the source image, left untouched
+ * @param {DetectionSettings} detection - Detection mode and parameters
+ * @param {boolean} keepMasks - Whether to return the masks before and after the clean-up
+ * @returns {DetectedContours} Contours, hierarchy and the default selection
+ */
+export function detectContours(cv: any, image: any, detection: DetectionSettings = DEFAULT_DETECTION, keepMasks: boolean = false): DetectedContours {
+    //Add Some Padding so images close to the edge still work
+    const padded = new cv.Mat();
+    const offset = CONTOUR_PADDING
+    cv.copyMakeBorder(image, padded, offset, offset, offset, offset, cv.BORDER_WRAP);
+
+    const src = binarize(cv, padded, detection);
+    padded.delete();
+
+    let masks: { before: any, after: any } = null;
+    if (detection.cleanup) {
+        const before = keepMasks ? src.clone() : null;
+        cleanMask(cv, src, detection);
+        masks = keepMasks ? { before, after: src.clone() } : null;
+    }
+
+    const contours = new cv.MatVector();
+    const hierarchy = new cv.Mat();
+    cv.findContours(src, contours, hierarchy, cv.RETR_LIST, cv.CHAIN_APPROX_SIMPLE);
+
+    const candidates: number[] = [];
+    let largest = 0
+    let maxArea = 0.0
+    const boundaryCountourAreaCutoff = (src.cols * src.rows) * .90 // If an Area is 90% of the entire image is probably the bounday
+
+    // find the biggest (reasonable Contour)
+    for (let i = 0; i < contours.size(); ++i) {
+        const area = Math.abs(cv.contourArea(contours.get(i), false));
+
+        if (area > boundaryCountourAreaCutoff * .1 && area < boundaryCountourAreaCutoff) {
+            candidates.push(i)
+        }
+
+        if (area < boundaryCountourAreaCutoff && area > maxArea) {
+            largest = i
+            maxArea = area
+        }
+    }
+
+    src.delete();
+
+    return { contours, hierarchy, candidates, largest, masks };
+}
+
+/**
+ * Finds the interior lines of an outline, such as eyes, mouths and logos
+ *
+ * Keeps contours that lie inside the outline and are long enough to be a
+ * drawn line rather than noise. Contours covering half the outline or more
+ * are the inside edge of the outline itself and are skipped. The longest
+ * lines come first.
+ *
+ * @param {any} cv - The OpenCV.js module instance
+ * @param {any} contours - Every detected contour (cv.MatVector)
+ * @param {number} outline - Index of the cutter outline
+ * @returns {number[]} Indices of the interior contours
+ */
+export function findInteriorDetails(cv: any, contours: any, outline: number): number[] {
+    const outer = contours.get(outline);
+    const outerArea = Math.abs(cv.contourArea(outer, false));
+    const minLength = cv.arcLength(outer, true) * MIN_DETAIL_LENGTH;
+
+    const details: { index: number, length: number }[] = [];
+    for (let i = 0; i < contours.size(); ++i) {
+        if (i === outline) continue;
+
+        const cnt = contours.get(i);
+        const length = cv.arcLength(cnt, true);
+        const inside = length >= minLength &&
+            Math.abs(cv.contourArea(cnt, false)) < outerArea * .5 &&
+            contourToPoints(cnt).every(pt => cv.pointPolygonTest(outer, new cv.Point(pt.x, pt.y), false) > 0);
+        cnt.delete();
+
+        if (inside) {
+            details.push({ index: i, length });
+        }
+    }
+    outer.delete();
+
+    return details
+        .sort((a, b) => b.length - a.length)
+        .slice(0, MAX_DETAILS)
+        .map(detail => detail.index);
+}
+
+/**
+ * Turns points into an OpenCV contour, rounding them to whole pixels
+ *
+ * @param {any} cv - The OpenCV.js module instance
+ * @param {point_t[]} points - Outline points in pixels
+ * @returns {any} CV_32SC2 cv.Mat the caller must delete
+ */
+export function contourFromPoints(cv: any, points: point_t[]): any {
+    const coords = [].concat(...points.map(pt => [Math.round(pt.x), Math.round(pt.y)]));
+    return cv.matFromArray(points.length, 1, cv.CV_32SC2, coords);
+}
+
+/**
+ * Reads the points of an OpenCV contour
+ *
+ * @param {any} cnt - OpenCV contour (CV_32SC2 cv.Mat)
+ * @returns {point_t[]} Contour points in pixels
+ */
+export function contourToPoints(cnt: any): point_t[] {
+    const points: point_t[] = [];
+    for (let i = 0; i < cnt.rows; i++) {
+        points.push({ x: cnt.data32S[i * 2], y: cnt.data32S[i * 2 + 1] });
+    }
+    return points;
+}
@@ -1,15 +1,125 @@
+/**
+ * @fileoverview Cookie State Store for Cookie Cutter Monster
+ *
+ * The one place the settings, the picked contours and the outline edits live.
+ * Components read it while rendering and write it directly; anything that
+ * depends on part of the state subscribes to the keys it cares about, or to
+ * a selector, and hears about every change to them.
+ *
+ * Every change a user makes is kept in an undo history. Changes the app
+ * makes on its own, like the contour the worker picked for a new image or
+ * the camera position, are applied without becoming an undo step.
+ *
+ * @author Cookie Cutter Monster Team
+ * @version 1.0.0
+ * @since 2020-08-01
+ */
+
 import { CookieState_t, camera_pos_t } from "../types"
 import {
     DEFAULT_THICKNESS,
     DEFAULT_DEPTH,
     DEFAULT_TOLERANCE,
+    DEFAULT_SMOOTHNESS,
     DEFAULT_BEVEL,
     DEFAULT_ROUND_HANDLE,
-    DEFAULT_SIZE
+    DEFAULT_HANDLE_STYLE,
+    DEFAULT_HANDLE_WIDTH,
+    DEFAULT_HANDLE_THICKNESS,
+    DEFAULT_FINGER_HOLES,
+    DEFAULT_STAMP,
+    DEFAULT_STAMP_CLEARANCE,
+    DEFAULT_MERGE_GAP,
+    DEFAULT_SIZE,
+    DEFAULT_SIZE_CONSTRAINT,
+    DEFAULT_UNITS,
+    DEFAULT_PRINTER,
+    DEFAULT_DETECTION_MODE,
+    DEFAULT_BLOCK_SIZE,
+    DEFAULT_THRESHOLD_C,
+    DEFAULT_BLUR,
+    DEFAULT_CANNY_LOW,
+    DEFAULT_CANNY_HIGH,
+    DEFAULT_KEY_COLOR,
+    DEFAULT_KEY_TOLERANCE,
+    DEFAULT_CLEANUP,
+    DEFAULT_CLOSE_KERNEL,
+    DEFAULT_OPEN_KERNEL,
+    DEFAULT_FILL_HOLES,
+    DEFAULT_MIN_ISLAND_AREA,
+    DEFAULT_MIN_INNER_RADIUS,
+    DEFAULT_EXPORT_FORMAT,
+    DEFAULT_OUTLINE_FORMAT,
+    DEFAULT_OUTLINE_WALLS,
+    DEFAULT_MESH_CHECK,
+    HISTORY_LIMIT,
+    HISTORY_COALESCE_TIME
 } from "../constants";
 
+/** A key of the cookie state */
+export type StateKey = keyof CookieState_t;
+
 /**
- * CookieState is a place where we can share some state between our modules
+ * Called after a change to the keys a listener subscribed to
+ *
+ * @param {CookieState_t} state - The state after the change
+ * @param {StateKey[]} changed - The keys whose values changed
+ */
+export type StateListener = (state: CookieState_t, changed: StateKey[]) => void;
+
+/**
+ * How a change is applied
+ */
+export interface UpdateOptions {
+    /** Whether the change becomes an undo step (default: true) */
+    record?: boolean,
+    /** Whether to fold the change into the previous undo step when it changed the same keys moments ago, for sliders */
+    coalesce?: boolean
+}
+
+/**
+ * One undo step, the changed keys with their values before and after
+ */
+interface HistoryStep {
+    before: Partial<CookieState_t>,
+    after: Partial<CookieState_t>,
+    /** When the step was last changed, in milliseconds */
+    time: number
+}
+
+/** Keys that describe the loaded image or the view rather than a choice, never undone */
+const UNTRACKED_KEYS: StateKey[] = ["imageSrc", "imageHeight", "imageWidth", "saveFileName", "units", "printer", "camera_pos"];
+
+/**
+ * Compares two state values
+ *
+ * State values are plain data, so comparing their JSON catches changed
+ * arrays and outlines as well as numbers and strings.
+ *
+ * @param {any} a - First value
+ * @param {any} b - Second value
+ * @returns {boolean} True when both hold the same data
+ */
+function sameValue(a: any, b: any): boolean {
+    return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Copies some keys of a state
+ *
+ * @param {Partial<CookieState_t>} state - State to copy from
+ * @param {StateKey[]} keys - Keys to copy
+ * @returns {Partial<CookieState_t>} A partial state with just those keys
+ */
+function pickKeys(state: Partial<CookieState_t>, keys: StateKey[]): Partial<CookieState_t> {
+    const picked: any = {};
+    keys.forEach(key => picked[key] = state[key]);
+    return picked;
+}
+
+/**
+ * CookieState is a place where we can share some state between our modules,
+ * with subscriptions and an undo history
  */
 class CookieState {
     private State: CookieState_t = {
@@ -20,9 +130,42 @@ class CookieState {
         thickness: DEFAULT_THICKNESS,
         depth: DEFAULT_DEPTH,
         tolerance: DEFAULT_TOLERANCE,
+        smoothness: DEFAULT_SMOOTHNESS,
         cutterBevel: DEFAULT_BEVEL,
         handleRound: DEFAULT_ROUND_HANDLE,
+        handleStyle: DEFAULT_HANDLE_STYLE,
+        handleWidth: DEFAULT_HANDLE_WIDTH,
+        handleThickness: DEFAULT_HANDLE_THICKNESS,
+        fingerHoles: DEFAULT_FINGER_HOLES,
+        stamp: DEFAULT_STAMP,
+        stampClearance: DEFAULT_STAMP_CLEARANCE,
+        mergeGap: DEFAULT_MERGE_GAP,
         size: DEFAULT_SIZE,
+        sizeConstraint: DEFAULT_SIZE_CONSTRAINT,
+        units: DEFAULT_UNITS,
+        printer: DEFAULT_PRINTER,
+        detectionMode: DEFAULT_DETECTION_MODE,
+        blockSize: DEFAULT_BLOCK_SIZE,
+        thresholdC: DEFAULT_THRESHOLD_C,
+        blur: DEFAULT_BLUR,
+        cannyLow: DEFAULT_CANNY_LOW,
+        cannyHigh: DEFAULT_CANNY_HIGH,
+        keyColor: DEFAULT_KEY_COLOR,
+        keyTolerance: DEFAULT_KEY_TOLERANCE,
+        cleanup: DEFAULT_CLEANUP,
+        closeKernel: DEFAULT_CLOSE_KERNEL,
+        openKernel: DEFAULT_OPEN_KERNEL,
+        fillHoles: DEFAULT_FILL_HOLES,
+        minIslandArea: DEFAULT_MIN_ISLAND_AREA,
+        minInnerRadius: DEFAULT_MIN_INNER_RADIUS,
+        exportFormat: DEFAULT_EXPORT_FORMAT,
+        outlineFormat: DEFAULT_OUTLINE_FORMAT,
+        outlineWalls: DEFAULT_OUTLINE_WALLS,
+        meshCheck: DEFAULT_MESH_CHECK,
+        selection: -1,
+        merge: [],
+        stampSelection: null,
+        outline: null,
         camera_pos: <camera_pos_t>{
             x: 0,
             y: 0,
@@ -33,14 +176,201 @@ class CookieState {
         }
     };
 
+    private listeners: { keys: StateKey[], listener: StateListener }[] = [];
+    private undoSteps: HistoryStep[] = [];
+    private redoSteps: HistoryStep[] = [];
+
+    /**
+     * Reads the current state
+     *
+     * Every change replaces the state object, so a state read earlier keeps
+     * its values and can be compared with a later one.
+     *
+     * @returns {CookieState_t} The current state
+     */
     get(): CookieState_t {
         return this.State;
     }
 
-    update(newState: CookieState_t): void {
-        this.State = Object.assign(this.State, newState);
+    /**
+     * Reads a value derived from the current state
+     *
+     * @param {(state: CookieState_t) => T} selector - Derives the value from the state
+     * @returns {T} The derived value
+     */
+    select<T>(selector: (state: CookieState_t) => T): T {
+        return selector(this.State);
+    }
+
+    /**
+     * Changes some keys of the state and tells their subscribers
+     *
+     * Values equal to the current ones are left out, a change that changes
+     * nothing does not reach the subscribers or the history.
+     *
+     * @param {Partial<CookieState_t>} newState - The keys to change and their new values
+     * @param {UpdateOptions} options - Whether the change can be undone, and whether it folds into the previous step
+     */
+    update(newState: Partial<CookieState_t>, options: UpdateOptions = {}): void {
+        const changed = (<StateKey[]>Object.keys(newState)).filter(key => !sameValue(this.State[key], newState[key]));
+        if (!changed.length) return;
+
+        const before = pickKeys(this.State, changed);
+        this.State = { ...this.State, ...pickKeys(newState, changed) };
+
+        if (options.record !== false) {
+            this.record(before, Boolean(options.coalesce));
+        }
+        this.notify(changed);
+    }
+
+    /**
+     * Listens to changes of some keys
+     *
+     * @param {StateKey | StateKey[]} keys - The keys to listen to
+     * @param {StateListener} listener - Called after every change to any of them
+     * @returns {() => void} Stops listening
+     */
+    subscribe(keys: StateKey | StateKey[], listener: StateListener): () => void {
+        const subscription = { keys: Array.isArray(keys) ? keys : [keys], listener };
+        this.listeners.push(subscription);
+
+        return () => {
+            this.listeners = this.listeners.filter(other => other !== subscription);
+        };
+    }
+
+    /**
+     * Listens to changes of a value derived from the state
+     *
+     * @param {(state: CookieState_t) => T} selector - Derives the value from the state
+     * @param {(value: T, state: CookieState_t) => void} listener - Called whenever the derived value changes
+     * @returns {() => void} Stops listening
+     */
+    watch<T>(selector: (state: CookieState_t) => T, listener: (value: T, state: CookieState_t) => void): () => void {
+        let value = selector(this.State);
+        const subscription = {
+            keys: <StateKey[]>null,
+            listener: (state: CookieState_t) => {
+                const next = selector(state);
+                if (sameValue(next, value)) return;
+
+                value = next;
+                listener(next, state);
+            }
+        };
+        this.listeners.push(subscription);
+
+        return () => {
+            this.listeners = this.listeners.filter(other => other !== subscription);
+        };
+    }
+
+    /** Whether there is a change to undo */
+    get canUndo(): boolean {
+        return this.undoSteps.length > 0;
+    }
+
+    /** Whether there is an undone change to redo */
+    get canRedo(): boolean {
+        return this.redoSteps.length > 0;
+    }
+
+    /**
+     * Takes back the last change
+     *
+     * @returns {boolean} False when there was nothing to undo
+     */
+    undo(): boolean {
+        const step = this.undoSteps.pop();
+        if (!step) return false;
+
+        this.redoSteps.push(step);
+        this.update(step.before, { record: false });
+        return true;
+    }
+
+    /**
+     * Makes the last undone change again
+     *
+     * @returns {boolean} False when there was nothing to redo
+     */
+    redo(): boolean {
+        const step = this.redoSteps.pop();
+        if (!step) return false;
+
+        this.undoSteps.push(step);
+        this.update(step.after, { record: false });
+        return true;
+    }
+
+    /**
+     * Removes some keys from the history
+     *
+     * Used when their old values stop making sense, like the contours picked
+     * in the previous image. Steps that changed nothing else go away.
+     *
+     * @param {StateKey[]} keys - The keys to forget
+     */
+    forget(keys: StateKey[]) {
+        const strip = (steps: HistoryStep[]) => steps
+            .map(step => {
+                const kept = (<StateKey[]>Object.keys(step.after)).filter(key => !keys.includes(key));
+                return { before: pickKeys(step.before, kept), after: pickKeys(step.after, kept), time: step.time };
+            })
+            .filter(step => Object.keys(step.after).length > 0);
+
+        this.undoSteps = strip(this.undoSteps);
+        this.redoSteps = strip(this.redoSteps);
+    }
+
+    /**
+     * Empties the history, for when another project is opened
+     */
+    clearHistory() {
+        this.undoSteps = [];
+        this.redoSteps = [];
+    }
+
+    /**
+     * Adds a change to the undo history
+     *
+     * @param {Partial<CookieState_t>} before - The changed keys with their old values
+     * @param {boolean} coalesce - Whether to fold it into the previous step if that changed the same keys moments ago
+     */
+    private record(before: Partial<CookieState_t>, coalesce: boolean) {
+        const keys = (<StateKey[]>Object.keys(before)).filter(key => !UNTRACKED_KEYS.includes(key));
+        if (!keys.length) return;
+
+        const now = Date.now();
+        const after = pickKeys(this.State, keys);
+        const last = this.undoSteps[this.undoSteps.length - 1];
+        const sameKeys = last && Object.keys(last.after).sort().join() === keys.slice().sort().join();
+
+        if (coalesce && sameKeys && now - last.time < HISTORY_COALESCE_TIME) {
+            last.after = after;
+            last.time = now;
+        } else {
+            this.undoSteps.push({ before: pickKeys(before, keys), after, time: now });
+            if (this.undoSteps.length > HISTORY_LIMIT) this.undoSteps.shift();
+        }
+        this.redoSteps = [];
+    }
 
-        console.info("currentState", this.State)
+    /**
+     * Calls the listeners of the changed keys
+     *
+     * Listeners of a selector are called on every change and compare the
+     * value themselves.
+     *
+     * @param {StateKey[]} changed - The keys whose values changed
+     */
+    private notify(changed: StateKey[]) {
+        this.listeners.slice().forEach(({ keys, listener }) => {
+            if (!keys || keys.some(key => changed.includes(key))) {
+                listener(this.State, changed);
+            }
+        });
     }
 }
 
@@ -0,0 +1,81 @@
+/**
+ * @fileoverview Headless Cookie Cutter Generator for Cookie Cutter Monster
+ *
+ * This is the DOM-free entry point to the whole pipeline. Give it image pixels
+ * or contour points plus the cookie settings and it returns the cutter mesh
+ * or a ready-to-write STL buffer. The browser app, workers and the
+ * `cookiecutter` command line tool all build on it.
+ *
+ * @author Cookie Cutter Monster Team
+ * @version 1.0.0
+ * @since 2020-08-01
+ */
+
+import * as THREE from "three";
+import { pixels_t, point_t } from "../types";
+import { contourToPoints, DEFAULT_DETECTION, DetectionSettings, detectContours, matFromPixels } from "./contourDetection";
+import { buildCutterMesh, CutterSettings } from "./cutterGeometry";
+import { exportSTLBuffer } from "./exporters";
+
+/**
+ * What a cutter can be generated from
+ *
+ * - pixels: an RGBA image, the largest detected contour is used
+ * - points: an outline that has already been traced, in any unit
+ */
+export type CutterSource = { pixels: pixels_t } | { points: point_t[] };
+
+/**
+ * Finds the default cutter outline in an image
+ *
+ * @param {any} cv - The OpenCV.js module instance
+ * @param {pixels_t} image - RGBA image pixels
+ * @param {DetectionSettings} detection - Detection mode and parameters
+ * @returns {point_t[]} Points of the largest reasonable contour, in pixels
+ * @throws {Error} If the image has no usable contour
+ */
+export function findOutline(cv: any, image: pixels_t, detection: DetectionSettings = DEFAULT_DETECTION): point_t[] {
+    const src = matFromPixels(cv, image);
+    const detected = detectContours(cv, src, detection);
+
+    try {
+        if (!detected.contours.size()) {
+            throw Error("no outline found in the image");
+        }
+        return contourToPoints(detected.contours.get(detected.largest));
+    } finally {
+        src.delete();
+        detected.contours.delete();
+        detected.hierarchy.delete();
+    }
+}
+
+/**
+ * Generates the cookie cutter mesh from an image or an outline
+ *
+ * @param {any} cv - The OpenCV.js module instance, only needed for pixel input
+ * @param {CutterSource} source - Image pixels or outline points
+ * @param {CutterSettings} settings - Cutter dimensions and quality settings
+ * @param {DetectionSettings} detection - Detection mode and parameters for pixel input
+ * @returns {THREE.Mesh} The cookie cutter mesh in millimetres
+ */
+export function generateCutter(cv: any, source: CutterSource, settings: CutterSettings,
+    detection: DetectionSettings = DEFAULT_DETECTION): THREE.Mesh {
+    const points = "points" in source ? source.points : findOutline(cv, source.pixels, detection);
+    return buildCutterMesh(points, settings);
+}
+
+/**
+ * Generates the cookie cutter as an STL file
+ *
+ * @param {any} cv - The OpenCV.js module instance, only needed for pixel input
+ * @param {CutterSource} source - Image pixels or outline points
+ * @param {CutterSettings} settings - Cutter dimensions and quality settings
+ * @param {boolean} binary - Binary STL when true, ASCII otherwise
+ * @param {DetectionSettings} detection - Detection mode and parameters for pixel input
+ * @returns {Uint8Array} STL file contents
+ */
+export function generateCutterSTL(cv: any, source: CutterSource, settings: CutterSettings, binary: boolean = true,
+    detection: DetectionSettings = DEFAULT_DETECTION): Uint8Array {
+    return exportSTLBuffer(generateCutter(cv, source, settings, detection), binary);
+}
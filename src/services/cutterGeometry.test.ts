@@ -0,0 +1,62 @@
+import * as THREE from "three";
+import { buildCutterGeometry, constrainedExtent, CutterSettings, outlineBounds, outlineTransform } from "./cutterGeometry";
+import { point_t } from "../types";
+
+const SETTINGS: CutterSettings = {
+    depth: 16, thickness: 1, tolerance: .15, smoothness: 0, cutterBevel: false,
+    handleRound: false, handleStyle: "none", handleWidth: 4.2, handleThickness: 2, fingerHoles: 2,
+    stamp: false, stampClearance: .5, mergeGap: 1, size: 50, sizeConstraint: "longest"
+};
+
+/** A 100 × 50 pixel rectangle */
+const RECTANGLE: point_t[] = [{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 100, y: 50 }, { x: 0, y: 50 }];
+
+function geometryBounds(settings: CutterSettings) {
+    const geometry = buildCutterGeometry(RECTANGLE, settings);
+    geometry.computeBoundingBox();
+    return geometry.boundingBox;
+}
+
+describe("outlineBounds", () => {
+    it("measures the bounding box of the outline", () => {
+        expect(outlineBounds(RECTANGLE)).toEqual({ x: 0, y: 0, width: 100, height: 50 });
+    });
+});
+
+describe("constrainedExtent", () => {
+    const bounds = { width: 100, height: 50 };
+
+    it("picks the side the size constraint names", () => {
+        expect(constrainedExtent(bounds, SETTINGS)).toBe(100);
+        expect(constrainedExtent(bounds, { ...SETTINGS, sizeConstraint: "width" })).toBe(100);
+        expect(constrainedExtent(bounds, { ...SETTINGS, sizeConstraint: "height" })).toBe(50);
+    });
+
+    it("never returns zero", () => {
+        expect(constrainedExtent({ width: 0, height: 0 }, SETTINGS)).toBe(1);
+    });
+});
+
+describe("outlineTransform", () => {
+    it("scales the constrained side to the size and keeps the outline at positive coordinates", () => {
+        const { scale, offset } = outlineTransform(RECTANGLE, { ...SETTINGS, sizeConstraint: "height" });
+        expect(scale).toBeCloseTo(1);
+        expect(offset.x).toBeGreaterThan(SETTINGS.handleWidth);
+        expect(offset.y).toBeGreaterThan(SETTINGS.handleWidth);
+    });
+});
+
+describe("buildCutterGeometry", () => {
+    it("builds a wall as tall as the depth around the scaled outline", () => {
+        const box = geometryBounds(SETTINGS);
+        const size = box.getSize(new THREE.Vector3());
+        expect(size.z).toBeCloseTo(16);
+        expect(size.x).toBeCloseTo(50 + SETTINGS.thickness / 2, 1);
+        expect(size.y).toBeCloseTo(25 + SETTINGS.thickness / 2, 1);
+    });
+
+    it("adds a flange handle reaching half the handle width past the outline", () => {
+        const size = geometryBounds({ ...SETTINGS, handleStyle: "flange" }).getSize(new THREE.Vector3());
+        expect(size.x).toBeCloseTo(50 + SETTINGS.handleWidth, 1);
+    });
+});
@@ -0,0 +1,638 @@
+/**
+ * @fileoverview Cookie Cutter Geometry Core for Cookie Cutter Monster
+ *
+ * This service turns an outline into the 3D cookie cutter mesh. It works on
+ * plain contour points and a settings object, with no DOM, renderer or
+ * OpenCV dependency, so it can run in the browser, a worker or under Node.
+ *
+ * Workflow:
+ * 1. Scale the outline so its constrained side matches the cookie size in mm
+ * 2. Simplify and optionally smooth it to the requested detail
+ * 3. Offset it into wall and handle cross-sections
+ * 4. Extrude the cutting wall (optionally bevelled) and the handle, either a
+ *    flange, a top plate with finger holes or nothing at all
+ * 5. Merge everything into a single geometry ready for export
+ *
+ * @author Cookie Cutter Monster Team
+ * @version 1.0.0
+ * @since 2020-08-01
+ */
+
+import * as THREE from "three";
+import { CUTTING_EDGE_RATIO, WALL_JOIN_TYPE } from "../constants";
+import { CookieState_t, point_t } from "../types";
+import { offsetPolygon, pointInPolygon, signedArea, windingNumber } from "./polygonOffset";
+import { refineOutline } from "./outlineSimplify";
+
+/**
+ * The part of the cookie state that shapes the cutter geometry
+ */
+export type CutterSettings = Pick<CookieState_t,
+    "depth" | "thickness" | "tolerance" | "smoothness" | "cutterBevel" | "handleRound" |
+    "handleStyle" | "handleWidth" | "handleThickness" | "fingerHoles" | "stamp" | "stampClearance" | "mergeGap" | "size" | "sizeConstraint">;
+
+/**
+ * Picks the cutter settings out of the full cookie state
+ *
+ * Keeps unrelated state such as the image URL out of worker messages and
+ * lets callers tell whether a state change affects the cutter at all.
+ *
+ * @param {CookieState_t} state - Current cookie state
+ * @returns {CutterSettings} Just the settings that shape the cutter
+ */
+export function pickCutterSettings(state: CookieState_t): CutterSettings {
+    const {
+        depth, thickness, tolerance, smoothness, cutterBevel,
+        handleRound, handleStyle, handleWidth, handleThickness, fingerHoles, stamp, stampClearance, mergeGap, size, sizeConstraint
+    } = state;
+    return {
+        depth, thickness, tolerance, smoothness, cutterBevel,
+        handleRound, handleStyle, handleWidth, handleThickness, fingerHoles, stamp, stampClearance, mergeGap, size, sizeConstraint
+    };
+}
+
+/** Diameter of a finger hole in a top plate in millimeters */
+const FINGER_HOLE_DIAMETER = 18;
+
+/** Plate left between a finger hole and the cutting wall or the next hole in millimeters */
+const FINGER_HOLE_CLEARANCE = 3;
+
+/** Bevel size of rounded handles in millimeters */
+const HANDLE_BEVEL = .6;
+
+/** Triangles whose third corner is closer than this to their longest edge are slivers, in millimeters */
+const SLIVER_HEIGHT = 1e-4;
+
+/** Most triangles looked at while removing slivers, a bound for meshes that are nothing but slivers */
+const SLIVER_STEP_LIMIT = 1e6;
+
+/**
+ * Computes the axis-aligned bounding box of an outline
+ *
+ * @param {point_t[]} points - Outline points
+ * @returns {{ x: number, y: number, width: number, height: number }} Bounding box
+ */
+export function outlineBounds(points: point_t[]) {
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    for (const pt of points) {
+        minX = Math.min(minX, pt.x);
+        minY = Math.min(minY, pt.y);
+        maxX = Math.max(maxX, pt.x);
+        maxY = Math.max(maxY, pt.y);
+    }
+    return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+/**
+ * Picks the side of a bounding box the cookie size sets
+ *
+ * @param {{ width: number, height: number }} bounds - Bounding box of the outline
+ * @param {CutterSettings} settings - Size constraint setting
+ * @returns {number} Width, height or the longer of both, never zero
+ */
+export function constrainedExtent(bounds: { width: number, height: number }, settings: CutterSettings): number {
+    switch (settings.sizeConstraint) {
+        case "width":
+            return bounds.width || 1;
+        case "height":
+            return bounds.height || 1;
+        default:
+            return Math.max(bounds.width, bounds.height) || 1;
+    }
+}
+
+/**
+ * Computes how an outline maps from pixels into millimetres
+ *
+ * The constrained side of the outline's bounding box becomes `size` mm. Every
+ * point is moved away from the origin by a margin wide enough for the handle,
+ * so all generated geometry lands at positive coordinates.
+ *
+ * @param {point_t[]} points - Outline in pixels (or any unit)
+ * @param {CutterSettings} settings - Size and handle width settings
+ * @returns {{ scale: number, offset: point_t }} mm = pixels * scale + offset
+ */
+export function outlineTransform(points: point_t[], settings: CutterSettings) {
+    const bounds = outlineBounds(points);
+    const extent = constrainedExtent(bounds, settings);
+
+    //Keep the same margin the raster walls used to have so every layer lines up with the handle
+    const margin = Math.ceil((Number(settings.handleWidth) + 1) * 12) / 10
+    const scale = Number(settings.size) / extent
+
+    return { scale, offset: { x: margin - bounds.x * scale, y: margin - bounds.y * scale } };
+}
+
+/**
+ * Scales an outline from pixels into millimetres and cleans it up
+ *
+ * @param {point_t[]} points - Outline in pixels (or any unit)
+ * @param {CutterSettings} settings - Size, detail and smoothness settings
+ * @param {{ scale: number, offset: point_t }} transform - Mapping shared with other outlines, defaults to the outline's own
+ * @returns {THREE.Vector2[]} Centerline of the cutter wall in millimetres
+ * @see outlineTransform
+ */
+export function scaleOutline(points: point_t[], settings: CutterSettings, transform = outlineTransform(points, settings)): THREE.Vector2[] {
+    const { scale, offset } = transform;
+
+    const scaled = points.map(pt => ({
+        x: pt.x * scale + offset.x,
+        y: pt.y * scale + offset.y
+    }));
+
+    return refineOutline(scaled, Number(settings.tolerance), Number(settings.smoothness))
+        .map(pt => new THREE.Vector2(pt.x, pt.y));
+}
+
+/**
+ * Creates the cross-section of a wall of the given width around a centerline
+ *
+ * The centerline is offset outwards and inwards by half the width with the
+ * vector polygon offsetter. Outer boundaries become shapes and everything
+ * else becomes a hole, so concave outlines whose inner wall splits into
+ * several pieces still come out right.
+ *
+ * @param {point_t[]} centerline - Closed outline in millimetres
+ * @param {number} width - Total wall width in millimetres
+ * @param {number} tol - Maximum outline deviation in mm, bounds the arc precision
+ * @returns {THREE.Shape[]} Three.js shapes ready for extrusion
+ */
+export function getScaledOutlineShape(centerline: point_t[], width: number, tol: number): THREE.Shape[] {
+    const { outer, inner } = offsetWall(centerline, width, tol)
+
+    return assembleShapes(outer, inner)
+}
+
+/**
+ * Offsets a centerline into the outer and inner faces of a wall
+ *
+ * @param {point_t[]} centerline - Closed outline in millimetres
+ * @param {number} width - Total wall width in millimetres
+ * @param {number} tol - Maximum outline deviation in mm, bounds the arc precision
+ * @returns {{ outer: point_t[][], inner: point_t[][] }} Paths of both faces, either may split into several
+ */
+export function offsetWall(centerline: point_t[], width: number, tol: number) {
+    const joinOptions = { joinType: WALL_JOIN_TYPE, arcTolerance: Math.max(tol / 4, .005) }
+
+    return {
+        outer: offsetPolygon(centerline, width / 2, joinOptions),
+        inner: offsetPolygon(centerline, -width / 2, joinOptions)
+    }
+}
+
+/**
+ * Turns offset paths into Three.js shapes with holes
+ *
+ * Outer boundaries run counter-clockwise, everything else is a hole in the
+ * shape that contains it.
+ *
+ * @param {point_t[][]} outer - Paths of an outward offset, holes included
+ * @param {point_t[][]} holes - Further paths to cut out
+ * @returns {THREE.Shape[]} Three.js shapes ready for extrusion
+ */
+export function assembleShapes(outer: point_t[][], holes: point_t[][]): THREE.Shape[] {
+    const shapes = outer
+        .filter(path => signedArea(path) > 0)
+        .map(path => new THREE.Shape(path.map(pt => new THREE.Vector2(pt.x, pt.y))));
+
+    for (const path of outer.filter(path => signedArea(path) < 0).concat(holes)) {
+        const owner = shapes.find(shape => pointInPolygon(path[0], shape.getPoints())) || shapes[0]
+        if (!owner) continue;
+
+        const hole = new THREE.Path();
+        hole.setFromPoints(path.map(pt => new THREE.Vector2(pt.x, pt.y)));
+        owner.holes.push(hole);
+    }
+
+    return shapes
+}
+
+/**
+ * Finds spots for finger holes in a top plate
+ *
+ * Hole centres are kept far enough inside the wall that every hole leaves
+ * FINGER_HOLE_CLEARANCE of plate next to the wall and the other holes. They
+ * are placed one by one on a grid, each time at the spot furthest from the
+ * wall and the holes already placed, so a single hole lands in the middle of
+ * the cookie and two holes spread out along it. Holes that don't fit are
+ * left out.
+ *
+ * @param {point_t[]} centerline - Closed outline in millimetres
+ * @param {CutterSettings} settings - Wall thickness and number of holes
+ * @returns {point_t[]} Centres of the finger holes
+ */
+function placeFingerHoles(centerline: point_t[], settings: CutterSettings): point_t[] {
+    const radius = FINGER_HOLE_DIAMETER / 2;
+    const inset = wallReach(settings) + FINGER_HOLE_CLEARANCE + radius;
+    const region = offsetPolygon(centerline, -inset);
+    if (!region.length) return [];
+
+    const edges: point_t[][] = [];
+    for (const path of region) {
+        path.forEach((a, i) => edges.push([a, path[(i + 1) % path.length]]));
+    }
+
+    const bounds = outlineBounds([].concat(...region));
+    const step = Math.max(.5, Math.max(bounds.width, bounds.height) / 60);
+
+    // every grid point a hole centre may sit on, with its distance to the edge of the region
+    const spots: { pt: point_t, room: number }[] = [];
+    for (let y = bounds.y; y <= bounds.y + bounds.height; y += step) {
+        for (let x = bounds.x; x <= bounds.x + bounds.width; x += step) {
+            const pt = { x, y };
+            if (windingNumber(pt, region) === 0) continue;
+            spots.push({ pt, room: Math.min(...edges.map(([a, b]) => segmentDistance(pt, a, b))) });
+        }
+    }
+
+    const holes: point_t[] = [];
+    const spacing = FINGER_HOLE_DIAMETER + FINGER_HOLE_CLEARANCE;
+    for (let n = 0; n < Number(settings.fingerHoles); n++) {
+        let best: point_t = null, bestScore = -Infinity;
+        for (const spot of spots) {
+            const nearest = Math.min(Infinity, ...holes.map(h => Math.hypot(h.x - spot.pt.x, h.y - spot.pt.y)));
+            if (nearest < spacing) continue;
+
+            const score = Math.min(spot.room, nearest - spacing);
+            if (score > bestScore) {
+                best = spot.pt;
+                bestScore = score;
+            }
+        }
+        if (!best) break;
+        holes.push(best);
+    }
+
+    return holes;
+}
+
+/**
+ * Distance from a point to a line segment
+ *
+ * @param {point_t} pt - The point
+ * @param {point_t} a - Segment start
+ * @param {point_t} b - Segment end
+ * @returns {number} Shortest distance
+ */
+function segmentDistance(pt: point_t, a: point_t, b: point_t): number {
+    const dx = b.x - a.x, dy = b.y - a.y;
+    const lengthSq = dx * dx + dy * dy;
+    const t = lengthSq ? Math.max(0, Math.min(1, ((pt.x - a.x) * dx + (pt.y - a.y) * dy) / lengthSq)) : 0;
+    return Math.hypot(pt.x - a.x - t * dx, pt.y - a.y - t * dy);
+}
+
+/**
+ * Creates the cross-section of a top plate
+ *
+ * The plate covers everything inside the outline and reaches half the handle
+ * width past the wall, like a flange would, with the finger holes cut out.
+ *
+ * @param {point_t[]} centerline - Closed outline in millimetres
+ * @param {CutterSettings} settings - Handle, wall and detail settings
+ * @returns {THREE.Shape[]} Three.js shapes ready for extrusion
+ */
+function getPlateShape(centerline: point_t[], settings: CutterSettings): THREE.Shape[] {
+    const tol = Number(settings.tolerance);
+    const joinOptions = { joinType: WALL_JOIN_TYPE, arcTolerance: Math.max(tol / 4, .005) }
+    const outline = offsetPolygon(centerline, Number(settings.handleWidth) / 2, joinOptions)
+
+    // the holes become polygons as fine as the rest of the outline
+    const radius = FINGER_HOLE_DIAMETER / 2;
+    const segments = Math.max(16, Math.ceil(Math.PI / Math.acos(1 - Math.min(Math.max(tol, .01), radius) / radius)));
+    const holes = placeFingerHoles(centerline, settings).map(center =>
+        Array.from({ length: segments }, (_, i) => ({
+            x: center.x + radius * Math.cos(-2 * Math.PI * i / segments),
+            y: center.y + radius * Math.sin(-2 * Math.PI * i / segments)
+        })));
+
+    return assembleShapes(outline, holes)
+}
+
+/**
+ * Extrudes shapes and merges them into a target geometry
+ *
+ * @param {THREE.Geometry} target - Geometry receiving the extrusion
+ * @param {THREE.Shape[]} shapes - Cross-section to extrude
+ * @param {THREE.ExtrudeGeometryOptions} options - Extrusion settings
+ * @param {number} z - Height at which the extrusion starts
+ */
+export function mergeExtrusion(target: THREE.Geometry, shapes: THREE.Shape[], options: THREE.ExtrudeGeometryOptions, z: number = 0) {
+    const geometry = new THREE.Geometry().fromBufferGeometry(new THREE.ExtrudeBufferGeometry(shapes, options));
+    if (z) {
+        geometry.applyMatrix4(new THREE.Matrix4().makeTranslation(0, 0, z));
+    }
+    target.merge(geometry);
+}
+
+/**
+ * Builds the complete cookie cutter geometry from an outline
+ *
+ * The cutting wall is `depth` tall and its edge is printed CUTTING_EDGE_RATIO
+ * times the `thickness` wide. With a bevel, the lower half is a wider base and the upper half
+ * tapers to the cutting edge.
+ * Depending on the handle style a flat flange runs around the base, a plate
+ * covers the whole base, or there is no handle at all.
+ *
+ * @param {point_t[]} points - Outline in pixels (or any unit, it is rescaled)
+ * @param {CutterSettings} settings - Cutter dimensions and quality settings
+ * @returns {THREE.Geometry} Merged cutter geometry in millimetres
+ */
+export function buildCutterGeometry(points: point_t[], settings: CutterSettings): THREE.Geometry {
+    const geom = new THREE.Geometry();
+    mergeCutter(geom, scaleOutline(points, settings), settings);
+
+    geom.mergeVertices()
+    removeSlivers(geom)
+    return geom;
+}
+
+/**
+ * Builds one cutter from several outlines held together by handle bridges
+ *
+ * Every outline gets its own wall and handle, all scaled together so the
+ * constrained side of the whole group becomes `size` mm. The bridges are flat
+ * bars as thick as the handle, lying on the handles they join.
+ *
+ * @param {point_t[][]} parts - Outlines in pixels (or any unit, they are rescaled)
+ * @param {point_t[][]} bridges - Closed bar outlines in the same units
+ * @param {CutterSettings} settings - Cutter dimensions and quality settings
+ * @returns {THREE.Geometry} Merged cutter geometry in millimetres
+ */
+export function buildJoinedCutterGeometry(parts: point_t[][], bridges: point_t[][], settings: CutterSettings): THREE.Geometry {
+    const transform = outlineTransform([].concat(...parts), settings);
+    const geom = new THREE.Geometry();
+
+    for (const part of parts) {
+        mergeCutter(geom, scaleOutline(part, settings, transform), settings);
+    }
+
+    const bars = bridges.map(bridge => {
+        const bar = bridge.map(pt => ({
+            x: pt.x * transform.scale + transform.offset.x,
+            y: pt.y * transform.scale + transform.offset.y
+        }));
+        return signedArea(bar) > 0 ? bar : bar.reverse();
+    });
+    if (bars.length) {
+        mergeExtrusion(geom, assembleShapes(bars, []), handleExtrusion(settings));
+    }
+
+    geom.mergeVertices()
+    removeSlivers(geom)
+    return geom;
+}
+
+/**
+ * How far the cutter wall reaches from its centerline on either side
+ *
+ * The cutting edge is CUTTING_EDGE_RATIO of the thickness wide. A bevelled
+ * wall is wider at its base, by the edge width on either side, so the stamp,
+ * the finger holes and the rim around the cutter measure from there.
+ *
+ * @param {CutterSettings} settings - Wall thickness and bevel
+ * @returns {number} Distance in mm from the centerline to either face of the wall at its base
+ */
+export function wallReach(settings: CutterSettings): number {
+    const edge = Number(settings.thickness) * CUTTING_EDGE_RATIO;
+    return settings.cutterBevel ? edge / 2 + edge : edge / 2;
+}
+
+/**
+ * Extrudes the wall and handle of one outline into a geometry
+ *
+ * @param {THREE.Geometry} geom - Geometry receiving the cutter
+ * @param {THREE.Vector2[]} centerline - Centerline of the wall in millimetres
+ * @param {CutterSettings} settings - Cutter dimensions and quality settings
+ */
+function mergeCutter(geom: THREE.Geometry, centerline: THREE.Vector2[], settings: CutterSettings) {
+    const height = Number(settings.depth);
+    const edge = Number(settings.thickness) * CUTTING_EDGE_RATIO;
+    const tolerance = Number(settings.tolerance);
+    const bevelCutter = Boolean(settings.cutterBevel);
+
+    //Extrude the Cutter
+    if (bevelCutter) {
+        mergeBevelledWall(geom, centerline, edge, edge, height, tolerance);
+    } else {
+        mergeExtrusion(geom, getScaledOutlineShape(centerline, edge, tolerance), {
+            steps: 1,
+            depth: height,
+            bevelEnabled: false
+        });
+    }
+
+    //Extrude the Handle
+    if (settings.handleStyle === "flange") {
+        mergeExtrusion(geom, getScaledOutlineShape(centerline, Number(settings.handleWidth), tolerance), handleExtrusion(settings));
+    } else if (settings.handleStyle === "plate") {
+        mergeExtrusion(geom, getPlateShape(centerline, settings), handleExtrusion(settings));
+    }
+}
+
+/**
+ * Adds a bevelled cutting wall to a geometry as one closed body
+ *
+ * The lower half is a base as wide as the bevel and the upper half tapers
+ * from it to the cutting edge. The taper starts from the ring of vertices at
+ * the top of the base, so there are no caps inside the wall: stacking two
+ * extrusions would leave them face to face and the edges around them shared
+ * by four faces, which leaves the mesh not closed.
+ *
+ * @param {THREE.Geometry} geom - Geometry receiving the wall
+ * @param {point_t[]} centerline - Centerline of the wall in millimetres
+ * @param {number} width - Width of the cutting edge in millimetres
+ * @param {number} bevel - How far the base reaches past the cutting edge on either side, in millimetres
+ * @param {number} height - Height of the wall in millimetres
+ * @param {number} tol - Maximum outline deviation in mm, bounds the arc precision
+ */
+function mergeBevelledWall(geom: THREE.Geometry, centerline: point_t[], width: number, bevel: number, height: number, tol: number) {
+    const { outer, inner } = offsetWall(centerline, width + 2 * bevel, tol);
+    const wall = new THREE.Geometry();
+
+    for (const shape of assembleShapes(outer, inner)) {
+        // the material lies left of every ring: the outline counter-clockwise, its holes clockwise
+        const base = [shape.getPoints(), ...shape.holes.map(hole => hole.getPoints())]
+            .map((ring, i) => (signedArea(ring) > 0) === (i === 0) ? ring : ring.slice().reverse());
+        const edge = base.map(ring => insetRing(ring, bevel));
+
+        const layers = [{ rings: base, z: 0 }, { rings: base, z: height / 2 }, { rings: edge, z: height }];
+        const index = layers.map(layer => layer.rings.map(ring =>
+            ring.map(pt => wall.vertices.push(new THREE.Vector3(pt.x, pt.y, layer.z)) - 1)));
+
+        // the base walls straight up, then the taper, each quad facing away from the material
+        for (let l = 0; l < layers.length - 1; l++) {
+            index[l].forEach((ring, r) => {
+                const above = index[l + 1][r];
+                ring.forEach((a0, i) => {
+                    const j = (i + 1) % ring.length;
+                    addFace(wall, a0, ring[j], above[j]);
+                    addFace(wall, a0, above[j], above[i]);
+                });
+            });
+        }
+
+        addCap(wall, base, index[0], false);
+        addCap(wall, edge, index[layers.length - 1], true);
+    }
+
+    wall.computeFaceNormals();
+    geom.merge(wall);
+}
+
+/**
+ * Moves every point of a ring towards the material
+ *
+ * Each point moves along the bisector of its two edges, far enough that both
+ * edges end up the distance away. Like Three.js bevels, very sharp corners
+ * move no further than √2 times the distance.
+ *
+ * @param {THREE.Vector2[]} ring - Closed ring with the material on its left
+ * @param {number} distance - How far the edges move in millimetres
+ * @returns {THREE.Vector2[]} The moved ring, point for point
+ */
+function insetRing(ring: THREE.Vector2[], distance: number): THREE.Vector2[] {
+    const normals = ring.map((pt, i) => {
+        const next = ring[(i + 1) % ring.length];
+        return new THREE.Vector2(pt.y - next.y, next.x - pt.x).normalize();
+    });
+
+    return ring.map((pt, i) => {
+        const n1 = normals[(i + ring.length - 1) % ring.length];
+        const n2 = normals[i];
+        const r = 1 + n1.dot(n2);
+        const move = r > 1e-9 ? n1.clone().add(n2).divideScalar(r) : n1.clone();
+        if (move.lengthSq() > 2) {
+            move.setLength(Math.SQRT2);
+        }
+        return move.multiplyScalar(distance).add(pt);
+    });
+}
+
+/**
+ * Closes the rings of one layer of a wall with a flat cap
+ *
+ * @param {THREE.Geometry} geom - Geometry receiving the cap
+ * @param {THREE.Vector2[][]} rings - Outline and holes of the layer
+ * @param {number[][]} index - Vertex index of every ring point
+ * @param {boolean} up - Whether the cap faces up or down
+ */
+function addCap(geom: THREE.Geometry, rings: THREE.Vector2[][], index: number[][], up: boolean) {
+    const points = [].concat(...rings);
+    const vertices = [].concat(...index);
+
+    // all triangles share one winding, the total tells which, even when some have no area
+    const triangles = THREE.ShapeUtils.triangulateShape(rings[0], rings.slice(1));
+    const ccw = triangles.reduce((total, [a, b, c]) => total + THREE.ShapeUtils.area([points[a], points[b], points[c]]), 0) > 0;
+    for (const [a, b, c] of triangles) {
+        if (ccw === up) {
+            addFace(geom, vertices[a], vertices[b], vertices[c]);
+        } else {
+            addFace(geom, vertices[a], vertices[c], vertices[b]);
+        }
+    }
+}
+
+/**
+ * Adds a triangle to a geometry, mapped like Three.js maps the caps of extrusions
+ *
+ * Every face needs texture coordinates once the geometry is merged with
+ * extrusions, or they shift onto the wrong faces.
+ *
+ * @param {THREE.Geometry} geom - Geometry holding the vertices
+ * @param {number} a - First vertex index
+ * @param {number} b - Second vertex index
+ * @param {number} c - Third vertex index, counter-clockwise seen from outside
+ */
+function addFace(geom: THREE.Geometry, a: number, b: number, c: number) {
+    geom.faces.push(new THREE.Face3(a, b, c));
+    geom.faceVertexUvs[0].push([a, b, c].map(v => new THREE.Vector2(geom.vertices[v].x, geom.vertices[v].y)));
+}
+
+/**
+ * Removes slivers, triangles with their corners on one line
+ *
+ * Caps of outlines that run through several points on one line, such as
+ * stair-stepped tracings, can be triangulated with three of those points in
+ * a triangle without area. Each sliver is dropped and the triangle across
+ * its longest edge is split at the sliver's middle corner, which keeps the
+ * surface where it was and the mesh closed.
+ *
+ * @param {THREE.Geometry} geom - Geometry with merged vertices
+ */
+function removeSlivers(geom: THREE.Geometry) {
+    const triangles = geom.faces.map(face => [face.a, face.b, face.c]);
+    const dropped = new Set<number>();
+    const owner = new Map<string, number>();
+    const own = (t: number) => triangles[t].forEach((v, k) => owner.set(v + "_" + triangles[t][(k + 1) % 3], t));
+    triangles.forEach((_, t) => own(t));
+
+    // splitting a neighbour can leave a new sliver next to it, those are checked in turn
+    const queue = triangles.map((_, t) => t);
+    for (let steps = 0; queue.length && steps < SLIVER_STEP_LIMIT; steps++) {
+        const t = queue.pop();
+        if (dropped.has(t)) continue;
+
+        const corners = triangles[t];
+        const points = corners.map(v => geom.vertices[v]);
+        const lengths = points.map((pt, k) => pt.distanceTo(points[(k + 1) % 3]));
+        const k = lengths.indexOf(Math.max(...lengths));
+        const area = new THREE.Triangle(points[0], points[1], points[2]).getArea();
+        if (!lengths[k] || 2 * area / lengths[k] >= SLIVER_HEIGHT) continue;
+
+        // the sliver runs c, a, b with its longest edge from c to a, its neighbour runs a, c, d
+        const c = corners[k], a = corners[(k + 1) % 3], b = corners[(k + 2) % 3];
+        const n = owner.get(a + "_" + c);
+        if (n === undefined || dropped.has(n)) continue;
+
+        const d = triangles[n].find(v => v !== a && v !== c);
+        dropped.add(t);
+        dropped.add(n);
+        for (const split of [[a, b, d], [b, c, d]]) {
+            triangles.push(split);
+            own(triangles.length - 1);
+            queue.push(triangles.length - 1);
+        }
+    }
+    if (!dropped.size) return;
+
+    const faces = geom.faces.length;
+    geom.faceVertexUvs[0] = geom.faceVertexUvs[0].filter((_, t) => !dropped.has(t));
+    geom.faces = geom.faces.filter((_, t) => !dropped.has(t));
+    triangles.forEach(([a, b, c], t) => {
+        if (t >= faces && !dropped.has(t)) {
+            addFace(geom, a, b, c);
+        }
+    });
+    geom.computeFaceNormals();
+}
+
+/**
+ * Extrusion settings of the handle
+ *
+ * @param {CutterSettings} settings - Handle thickness and rounding
+ * @returns {THREE.ExtrudeGeometryOptions} Extrusion settings
+ */
+function handleExtrusion(settings: CutterSettings): THREE.ExtrudeGeometryOptions {
+    const handleRound = Boolean(settings.handleRound);
+    return {
+        steps: 1,
+        depth: Number(settings.handleThickness),
+        bevelEnabled: handleRound,
+        bevelThickness: HANDLE_BEVEL,
+        bevelSize: HANDLE_BEVEL,
+        bevelOffset: 0,
+        bevelSegments: 5
+    };
+}
+
+/**
+ * Builds the cookie cutter as a mesh, ready for the preview or an exporter
+ *
+ * @param {point_t[]} points - Outline in pixels (or any unit, it is rescaled)
+ * @param {CutterSettings} settings - Cutter dimensions and quality settings
+ * @param {THREE.Material} material - Optional material for previews
+ * @returns {THREE.Mesh} The cookie cutter mesh
+ */
+export function buildCutterMesh(points: point_t[], settings: CutterSettings, material?: THREE.Material): THREE.Mesh {
+    return new THREE.Mesh(buildCutterGeometry(points, settings), material);
+}
@@ -0,0 +1,65 @@
+import { CutterWorkerClient } from "./cutterWorkerClient";
+import { cutter_response_t } from "../types";
+
+/**
+ * Stands in for the browser's Worker, answering only when a test tells it to
+ */
+class FakeWorker {
+    static latest: FakeWorker = null;
+
+    onmessage: (event: { data: cutter_response_t }) => void = null;
+    onerror: (event: { message: string }) => void = null;
+    posted: any[] = [];
+
+    constructor() {
+        FakeWorker.latest = this;
+    }
+
+    postMessage(message: any) {
+        this.posted.push(message);
+    }
+
+    answer(data: cutter_response_t) {
+        this.onmessage({ data });
+    }
+}
+
+const HANDLERS = { onPreview: () => { }, onProgress: () => { } };
+
+beforeAll(() => {
+    (<any>global).Worker = FakeWorker;
+});
+
+afterAll(() => {
+    delete (<any>global).Worker;
+});
+
+describe("CutterWorkerClient", () => {
+    it("is ready once the worker has loaded OpenCV.js", async () => {
+        const client = new CutterWorkerClient(HANDLERS, "worker.js", 1000);
+        FakeWorker.latest.answer({ type: "ready" });
+        await expect(client.ready).resolves.toBeUndefined();
+    });
+
+    it("fails to start when the worker can't load OpenCV.js", async () => {
+        const client = new CutterWorkerClient(HANDLERS, "worker.js", 1000);
+        FakeWorker.latest.answer({ type: "failed", message: "couldn't load the OpenCV library: 404" });
+        await expect(client.ready).rejects.toThrow("couldn't load the OpenCV library: 404");
+    });
+
+    it("fails the job waiting for a worker that couldn't start", async () => {
+        const client = new CutterWorkerClient(HANDLERS, "worker.js", 1000);
+        client.ready.catch(() => { });
+        const job = client.submit({}, <any>{}, <any>{}, 0);
+        FakeWorker.latest.answer({ type: "failed", message: "couldn't load the OpenCV library: 404" });
+        await expect(job).rejects.toThrow("couldn't load the OpenCV library");
+    });
+
+    it("gives up on a worker that never answers", async () => {
+        jest.useFakeTimers();
+        const client = new CutterWorkerClient(HANDLERS, "worker.js", 1000);
+        jest.advanceTimersByTime(1000);
+        jest.useRealTimers();
+        await expect(client.ready).rejects.toThrow("took too long");
+    });
+});
@@ -0,0 +1,229 @@
+/**
+ * @fileoverview Cutter Worker Client for Cookie Cutter Monster
+ *
+ * Main thread side of the cutter worker. It turns the worker's message
+ * protocol into a small promise based API: submit a change, get the preview
+ * through a callback and the finished mesh through the returned promise.
+ *
+ * Only the newest job matters. Submitting a new one settles the previous
+ * promise with null straight away and tells the worker to stop it, so stale
+ * meshes never reach the preview. The image, the contour selections and
+ * outline edits are sent again with every job until the worker has confirmed
+ * them with a preview, which keeps a cancelled detection from being lost.
+ *
+ * @author Cookie Cutter Monster Team
+ * @version 1.0.0
+ * @since 2020-08-01
+ */
+
+import { CUTTER_WORKER_TIMEOUT, CUTTER_WORKER_URL } from "../constants";
+import {
+    cutter_job_t,
+    cutter_mesh_t,
+    cutter_preview_t,
+    cutter_progress_t,
+    cutter_request_t,
+    cutter_response_t,
+    drawing_t,
+    pixels_t,
+    point_t
+} from "../types";
+import { CutterSettings } from "./cutterGeometry";
+import { DetectionSettings } from "./contourDetection";
+
+/**
+ * Callbacks for everything the worker reports besides the mesh
+ */
+export interface CutterWorkerHandlers {
+    /** A new edge detection preview for the latest job */
+    onPreview: (preview: cutter_preview_t) => void,
+    /** Progress of the latest job, null once nothing is running */
+    onProgress: (progress: cutter_progress_t | null) => void
+}
+
+/**
+ * What changed since the last job
+ */
+export interface CutterChange {
+    /** A new source image */
+    image?: pixels_t,
+    /** A drawn outline in place of an image */
+    drawing?: drawing_t,
+    /** A different contour to build the cutter from */
+    selection?: number,
+    /** Different contours to merge with the selected one, empty for none */
+    merge?: number[],
+    /** Different interior contours to put on the stamp */
+    stampSelection?: number[],
+    /** A hand edited outline, null to drop the edits */
+    outline?: point_t[] | null
+}
+
+/**
+ * The job the app is currently waiting for
+ */
+interface RunningJob {
+    id: number,
+    resolve: (mesh: cutter_mesh_t | null) => void,
+    reject: (err: Error) => void
+}
+
+/**
+ * Owns the cutter worker and keeps track of the latest job
+ */
+export class CutterWorkerClient {
+    /** Resolves once OpenCV.js has loaded inside the worker, rejects when it can't be loaded */
+    readonly ready: Promise<void>;
+
+    private worker: Worker;
+    private handlers: CutterWorkerHandlers;
+    private nextId = 0;
+    private running: RunningJob = null;
+    private unconfirmed: CutterChange = {};
+
+    /**
+     * Starts the worker
+     *
+     * @param {CutterWorkerHandlers} handlers - Preview and progress callbacks
+     * @param {string} url - URL of the worker script
+     * @param {number} timeout - Milliseconds to wait for OpenCV.js before giving up
+     */
+    constructor(handlers: CutterWorkerHandlers, url: string = CUTTER_WORKER_URL, timeout: number = CUTTER_WORKER_TIMEOUT) {
+        this.handlers = handlers;
+        this.worker = new Worker(url);
+
+        this.ready = new Promise((resolve, reject) => {
+            // a worker that never answers leaves nothing else to go by
+            const timer = setTimeout(() => fail(Error("the cutter worker took too long to load the OpenCV library")), timeout);
+            const fail = (err: Error) => {
+                clearTimeout(timer);
+                reject(err);
+                this.finish(null, err);
+            };
+
+            this.worker.onmessage = (event: MessageEvent) => {
+                const message: cutter_response_t = event.data;
+                if (message.type === "ready") {
+                    clearTimeout(timer);
+                    resolve();
+                } else if (message.type === "failed") {
+                    fail(Error(message.message));
+                } else {
+                    this.handleMessage(message);
+                }
+            };
+            this.worker.onerror = (event: ErrorEvent) => fail(Error(`the cutter worker failed: ${event.message}`));
+        });
+    }
+
+    /**
+     * Starts a new job, cancelling the one still running
+     *
+     * @param {CutterChange} change - New image, selections or edits, empty to just rebuild
+     * @param {CutterSettings} settings - Current cutter settings
+     * @param {DetectionSettings} detection - Current detection settings
+     * @param {number} minInnerRadius - Tightest allowed inward corner radius in mm, 0 to skip the corner check
+     * @returns {Promise<cutter_mesh_t | null>} The mesh, or null if a newer job replaced this one
+     */
+    submit(change: CutterChange, settings: CutterSettings, detection: DetectionSettings, minInnerRadius: number): Promise<cutter_mesh_t | null> {
+        if (change.image) {
+            // a new image makes any unconfirmed selection meaningless
+            this.unconfirmed = { image: change.image };
+        } else if (change.drawing) {
+            this.unconfirmed = { drawing: change.drawing };
+        }
+        if (change.selection !== undefined) {
+            // the stamp lines and edits belong to the old outline
+            delete this.unconfirmed.stampSelection;
+            delete this.unconfirmed.outline;
+            delete this.unconfirmed.merge;
+            this.unconfirmed.selection = change.selection;
+        }
+        if (change.merge !== undefined) {
+            // edits belong to the old merged outline
+            delete this.unconfirmed.outline;
+            this.unconfirmed.merge = change.merge;
+        }
+        if (change.stampSelection !== undefined) {
+            this.unconfirmed.stampSelection = change.stampSelection;
+        }
+        if (change.outline !== undefined) {
+            this.unconfirmed.outline = change.outline;
+        }
+
+        this.finish(null);
+
+        const job: cutter_job_t = { id: ++this.nextId, settings, detection, minInnerRadius, ...this.unconfirmed };
+        return new Promise((resolve, reject) => {
+            this.running = { id: job.id, resolve, reject };
+            this.post({ type: "job", job });
+        });
+    }
+
+    /**
+     * Stops the running job without starting a new one
+     */
+    cancel() {
+        if (this.running) {
+            this.post({ type: "cancel", id: this.running.id });
+            this.finish(null);
+        }
+    }
+
+    /**
+     * Sends a request to the worker
+     *
+     * @param {cutter_request_t} request - The request
+     */
+    private post(request: cutter_request_t) {
+        this.worker.postMessage(request);
+    }
+
+    /**
+     * Settles the running job's promise and clears the busy state
+     *
+     * @param {cutter_mesh_t | null} mesh - The finished mesh, null if cancelled
+     * @param {Error} err - Set when the job failed
+     */
+    private finish(mesh: cutter_mesh_t | null, err?: Error) {
+        if (!this.running) return;
+
+        const running = this.running;
+        this.running = null;
+        this.handlers.onProgress(null);
+
+        if (err) {
+            running.reject(err);
+        } else {
+            running.resolve(mesh);
+        }
+    }
+
+    /**
+     * Routes a worker message, dropping anything that belongs to an older job
+     *
+     * @param {cutter_response_t} message - Message from the worker
+     */
+    private handleMessage(message: cutter_response_t) {
+        if (message.type === "ready" || message.type === "failed" || !this.running || message.id !== this.running.id) return;
+
+        switch (message.type) {
+            case "progress":
+                this.handlers.onProgress(message.progress);
+                break;
+            case "preview":
+                this.unconfirmed = {};
+                this.handlers.onPreview(message.preview);
+                break;
+            case "mesh":
+                this.finish(message.mesh);
+                break;
+            case "cancelled":
+                this.finish(null);
+                break;
+            case "error":
+                this.finish(null, Error(message.message));
+                break;
+        }
+    }
+}
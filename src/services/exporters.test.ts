@@ -0,0 +1,66 @@
+import * as THREE from "three";
+import { exportMesh, exportOutline, exportSTLBuffer } from "./exporters";
+
+/** A 10 mm cube, 12 triangles */
+function cube(): THREE.Mesh {
+    return new THREE.Mesh(new THREE.BoxGeometry(10, 10, 10));
+}
+
+async function text(blob: Blob): Promise<string> {
+    return new TextDecoder().decode(await blob.arrayBuffer());
+}
+
+describe("exportSTLBuffer", () => {
+    it("writes a binary STL with a record per triangle", () => {
+        const data = exportSTLBuffer(cube());
+        expect(data.length).toBe(84 + 12 * 50);
+        expect(new DataView(data.buffer, data.byteOffset).getUint32(80, true)).toBe(12);
+    });
+
+    it("writes an ASCII STL on request", () => {
+        const stl = new TextDecoder().decode(exportSTLBuffer(cube(), false));
+        expect(stl.startsWith("solid")).toBe(true);
+        expect(stl.match(/facet normal/g)).toHaveLength(12);
+    });
+});
+
+describe("exportMesh", () => {
+    it("packs a 3MF archive in millimetres with the part name", async () => {
+        const file = exportMesh(cube(), "3mf", "Star & Moon");
+        expect(file.extension).toBe("3mf");
+
+        // entries are stored uncompressed, so the documents can be read straight from the archive
+        const archive = await text(file.blob);
+        expect(archive).toContain("[Content_Types].xml");
+        expect(archive).toContain("_rels/.rels");
+        expect(archive).toContain('<model unit="millimeter"');
+        expect(archive).toContain('name="Star &amp; Moon"');
+        expect(archive.match(/<triangle /g)).toHaveLength(12);
+        expect(archive.match(/<vertex /g)).toHaveLength(8);
+    });
+
+    it("writes OBJ files with the cube's vertices", async () => {
+        const file = exportMesh(cube(), "obj", "cube");
+        expect(file.extension).toBe("obj");
+        expect((await text(file.blob)).match(/^v /gm).length).toBeGreaterThanOrEqual(8);
+    });
+});
+
+describe("exportOutline", () => {
+    const layers = [{ name: "centerline", color: "#000000", paths: [[{ x: 10, y: 10 }, { x: 30, y: 10 }, { x: 30, y: 20 }]] }];
+
+    it("sizes SVG drawings in millimetres with a margin", async () => {
+        const file = exportOutline(layers, "svg", "cookie");
+        const svg = await text(file.blob);
+        expect(file.extension).toBe("svg");
+        expect(svg).toContain('width="24.000mm" height="14.000mm"');
+        expect(svg).toContain("M2.000 2.000L22.000 2.000L22.000 12.000Z");
+    });
+
+    it("writes one closed polyline per path to DXF files, y pointing up", async () => {
+        const dxf = await text(exportOutline(layers, "dxf", "cookie").blob);
+        expect(dxf.match(/LWPOLYLINE/g)).toHaveLength(1);
+        expect(dxf).toContain("CENTERLINE");
+        expect(dxf).toContain("10\n2.0000\n20\n12.0000");
+    });
+});
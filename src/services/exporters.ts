@@ -0,0 +1,308 @@
+/**
+ * @fileoverview Mesh Export Service for Cookie Cutter Monster
+ *
+ * This service converts the generated cookie cutter mesh into the file formats
+ * offered next to the download button. Only the cutter mesh is ever exported,
+ * so lights and helpers in the preview scene never end up in the file.
+ *
+ * Supported formats:
+ * - ASCII STL (largest, human readable)
+ * - Binary STL (compact, fastest to slice)
+ * - 3MF (zip container with millimetre units and a named part)
+ * - OBJ (widely supported by modelling tools)
+ *
+ * The 2D outline of the cutter can be exported as well, for laser cut
+ * templates, vinyl stencils and decorating guides:
+ * - SVG sized in millimetres
+ * - DXF with one LWPOLYLINE per path, in millimetres
+ *
+ * @author Cookie Cutter Monster Team
+ * @version 1.0.0
+ * @since 2020-08-01
+ */
+
+import * as THREE from "three";
+import { STLExporter } from "three/examples/jsm/exporters/STLExporter.js";
+import { OBJExporter } from "three/examples/jsm/exporters/OBJExporter.js";
+import { ExportFormat, OutlineFormat, point_t } from "../types";
+import { createZip, encodeText } from "./zip";
+
+/**
+ * The result of exporting a mesh, ready to be offered as a download
+ */
+export interface ExportedFile {
+    /** File contents */
+    blob: Blob,
+    /** File extension without the leading dot */
+    extension: string
+}
+
+/** Display labels for the export format picker */
+export const EXPORT_FORMAT_LABELS: { [key in ExportFormat]: string } = {
+    "stl-ascii": "STL (ASCII)",
+    "stl-binary": "STL (Binary)",
+    "3mf": "3MF",
+    "obj": "OBJ"
+};
+
+/** Display labels for the outline format picker */
+export const OUTLINE_FORMAT_LABELS: { [key in OutlineFormat]: string } = {
+    "svg": "SVG (mm)",
+    "dxf": "DXF (mm)"
+};
+
+/** Space in millimeters left around the paths of an exported outline */
+const OUTLINE_MARGIN = 2;
+
+/** Line width in millimeters of SVG outline paths, hairline so laser cutters treat them as cuts */
+const SVG_STROKE_WIDTH = .1;
+
+/**
+ * A named group of closed paths in an outline export, a group in SVG and a layer in DXF
+ */
+export interface OutlineLayer {
+    /** Layer name, letters, digits and dashes */
+    name: string,
+    /** Stroke colour in SVG files, as #rrggbb */
+    color: string,
+    /** Closed paths in millimetres */
+    paths: point_t[][]
+}
+
+/**
+ * Escapes a string for use inside XML attribute values and text
+ *
+ * @param {string} text - Raw text
+ * @returns {string} XML safe text
+ */
+function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;")
+        .replace(/'/g, "&apos;");
+}
+
+/**
+ * Builds the 3MF model document for a mesh
+ *
+ * Vertices are written in world space so the part keeps the same placement
+ * as in the STL export. The model declares millimetre units explicitly so
+ * slicers never have to guess the scale.
+ *
+ * @param {THREE.Mesh} mesh - The cookie cutter mesh
+ * @param {string} partName - Name of the part shown in the slicer
+ * @returns {string} The 3D/3dmodel.model XML document
+ */
+function build3MFModel(mesh: THREE.Mesh, partName: string): string {
+    let geometry: THREE.Geometry = mesh.geometry instanceof THREE.BufferGeometry
+        ? new THREE.Geometry().fromBufferGeometry(mesh.geometry)
+        : (<THREE.Geometry>mesh.geometry).clone();
+
+    mesh.updateMatrixWorld(true);
+    geometry.applyMatrix4(mesh.matrixWorld);
+    geometry.mergeVertices();
+
+    const vertices = geometry.vertices
+        .map(v => `<vertex x="${v.x.toFixed(5)}" y="${v.y.toFixed(5)}" z="${v.z.toFixed(5)}"/>`)
+        .join("");
+    const triangles = geometry.faces
+        .map(f => `<triangle v1="${f.a}" v2="${f.b}" v3="${f.c}"/>`)
+        .join("");
+    const name = escapeXml(partName);
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<model unit="millimeter" xml:lang="en-US" xmlns="http://schemas.microsoft.com/3dmanufacturing/core/2015/02">
+<metadata name="Title">${name}</metadata>
+<metadata name="Application">Cookie Cutter Monster</metadata>
+<resources>
+<object id="1" name="${name}" type="model"><mesh><vertices>${vertices}</vertices><triangles>${triangles}</triangles></mesh></object>
+</resources>
+<build><item objectid="1"/></build>
+</model>`;
+}
+
+/**
+ * Packages a mesh as a 3MF file
+ *
+ * @param {THREE.Mesh} mesh - The cookie cutter mesh
+ * @param {string} partName - Name of the part, usually the save file name
+ * @returns {Blob} The 3MF archive
+ */
+function export3MF(mesh: THREE.Mesh, partName: string): Blob {
+    const contentTypes = `<?xml version="1.0" encoding="UTF-8"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="model" ContentType="application/vnd.ms-package.3dmanufacturing-3dmodel+xml"/>
+</Types>`;
+    const rels = `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Target="/3D/3dmodel.model" Id="rel0" Type="http://schemas.microsoft.com/3dmanufacturing/2013/01/3dmodel"/>
+</Relationships>`;
+
+    return createZip([
+        { name: "[Content_Types].xml", data: encodeText(contentTypes) },
+        { name: "_rels/.rels", data: encodeText(rels) },
+        { name: "3D/3dmodel.model", data: encodeText(build3MFModel(mesh, partName)) }
+    ], "model/3mf");
+}
+
+/**
+ * Runs the STL exporter, whose typings only know the ASCII result
+ *
+ * @param {THREE.Mesh} mesh - The cookie cutter mesh
+ * @param {boolean} binary - Binary STL when true, ASCII otherwise
+ * @returns {string | DataView} The ASCII text, or the binary file in a DataView
+ */
+function parseSTL(mesh: THREE.Mesh, binary: boolean): string | DataView {
+    return <string | DataView><unknown>new STLExporter().parse(mesh, { binary });
+}
+
+/**
+ * Exports a mesh as STL bytes, for callers that write files themselves
+ *
+ * @param {THREE.Mesh} mesh - The cookie cutter mesh
+ * @param {boolean} binary - Binary STL when true, ASCII otherwise
+ * @returns {Uint8Array} STL file contents
+ */
+export function exportSTLBuffer(mesh: THREE.Mesh, binary: boolean = true): Uint8Array {
+    const data = parseSTL(mesh, binary);
+    if (typeof data === "string") {
+        return encodeText(data);
+    }
+    return new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+}
+
+/**
+ * Exports the cookie cutter mesh in the requested format
+ *
+ * @param {THREE.Mesh} mesh - The cookie cutter mesh (and nothing else from the scene)
+ * @param {ExportFormat} format - Target file format
+ * @param {string} partName - Name used inside formats that support named parts
+ * @returns {ExportedFile} The exported file and its extension
+ */
+export function exportMesh(mesh: THREE.Mesh, format: ExportFormat, partName: string): ExportedFile {
+    switch (format) {
+        case "stl-binary": {
+            return { blob: new Blob([parseSTL(mesh, true)], { type: "model/stl" }), extension: "stl" };
+        }
+        case "3mf":
+            return { blob: export3MF(mesh, partName || "cookie-cutter"), extension: "3mf" };
+        case "obj":
+            return { blob: new Blob([new OBJExporter().parse(mesh)], { type: "text/plain" }), extension: "obj" };
+        case "stl-ascii":
+        default:
+            return { blob: new Blob([parseSTL(mesh, false)], { type: "text/plain" }), extension: "stl" };
+    }
+}
+
+/**
+ * Moves outline layers so their paths start at the margin
+ *
+ * @param {OutlineLayer[]} layers - Layers in millimetres
+ * @returns {{ layers: OutlineLayer[], width: number, height: number }} Moved layers and the drawing size including margins
+ */
+function placeOutline(layers: OutlineLayer[]) {
+    const points: point_t[] = [].concat(...layers.map(layer => [].concat(...layer.paths)));
+    const minX = Math.min(...points.map(pt => pt.x)), minY = Math.min(...points.map(pt => pt.y));
+    const maxX = Math.max(...points.map(pt => pt.x)), maxY = Math.max(...points.map(pt => pt.y));
+
+    const moved = layers.map(layer => ({
+        ...layer,
+        paths: layer.paths.map(path => path.map(pt => ({
+            x: pt.x - minX + OUTLINE_MARGIN,
+            y: pt.y - minY + OUTLINE_MARGIN
+        })))
+    }));
+    return { layers: moved, width: maxX - minX + OUTLINE_MARGIN * 2, height: maxY - minY + OUTLINE_MARGIN * 2 };
+}
+
+/**
+ * Writes outline layers as an SVG document sized in millimetres
+ *
+ * One user unit is one millimetre, so the drawing prints and cuts at the
+ * size of the cutter.
+ *
+ * @param {OutlineLayer[]} layers - Layers in millimetres, y pointing down
+ * @param {string} title - Title of the drawing
+ * @returns {string} The SVG document
+ */
+function buildOutlineSVG(layers: OutlineLayer[], title: string): string {
+    const placed = placeOutline(layers);
+    const width = placed.width.toFixed(3), height = placed.height.toFixed(3);
+
+    const groups = placed.layers.map(layer => {
+        const paths = layer.paths.map(path =>
+            `<path d="M${path.map(pt => `${pt.x.toFixed(3)} ${pt.y.toFixed(3)}`).join("L")}Z"/>`);
+        return `<g id="${escapeXml(layer.name)}" fill="none" stroke="${layer.color}" stroke-width="${SVG_STROKE_WIDTH}">\n${paths.join("\n")}\n</g>`;
+    });
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<svg xmlns="http://www.w3.org/2000/svg" width="${width}mm" height="${height}mm" viewBox="0 0 ${width} ${height}">
+<title>${escapeXml(title)}</title>
+${groups.join("\n")}
+</svg>
+`;
+}
+
+/**
+ * Writes outline layers as a DXF drawing in millimetres
+ *
+ * Every path is a closed LWPOLYLINE on the layer of its group. The y axis
+ * is flipped, DXF points up where the image points down, so the drawing
+ * looks like the outline on screen.
+ *
+ * @param {OutlineLayer[]} layers - Layers in millimetres, y pointing down
+ * @returns {string} The DXF file contents
+ */
+function buildOutlineDXF(layers: OutlineLayer[]): string {
+    const placed = placeOutline(layers);
+    const lines = [
+        "0", "SECTION", "2", "HEADER",
+        "9", "$ACADVER", "1", "AC1015",
+        // drawing units: millimetres
+        "9", "$INSUNITS", "70", "4",
+        "0", "ENDSEC",
+        "0", "SECTION", "2", "ENTITIES"
+    ];
+
+    let handle = 0x100;
+    for (const layer of placed.layers) {
+        for (const path of layer.paths) {
+            lines.push(
+                "0", "LWPOLYLINE",
+                "5", (handle++).toString(16).toUpperCase(),
+                "100", "AcDbEntity",
+                "8", layer.name.toUpperCase(),
+                "100", "AcDbPolyline",
+                "90", String(path.length),
+                "70", "1"
+            );
+            for (const pt of path) {
+                lines.push("10", pt.x.toFixed(4), "20", (placed.height - pt.y).toFixed(4));
+            }
+        }
+    }
+
+    lines.push("0", "ENDSEC", "0", "EOF");
+    return lines.join("\n") + "\n";
+}
+
+/**
+ * Exports the outline of the cutter in the requested format
+ *
+ * @param {OutlineLayer[]} layers - Centerline and optional wall faces in millimetres
+ * @param {OutlineFormat} format - Target file format
+ * @param {string} title - Name of the drawing, usually the save file name
+ * @returns {ExportedFile} The exported file and its extension
+ */
+export function exportOutline(layers: OutlineLayer[], format: OutlineFormat, title: string): ExportedFile {
+    switch (format) {
+        case "dxf":
+            return { blob: new Blob([buildOutlineDXF(layers)], { type: "image/vnd.dxf" }), extension: "dxf" };
+        case "svg":
+        default:
+            return { blob: new Blob([buildOutlineSVG(layers, title || "cookie-cutter")], { type: "image/svg+xml" }), extension: "svg" };
+    }
+}
@@ -0,0 +1,68 @@
+import { CutterSettings } from "./cutterGeometry";
+import { findNarrowFeatures } from "./featureAnalysis";
+import { point_t } from "../types";
+
+const SETTINGS: CutterSettings = {
+    depth: 16, thickness: 1, tolerance: .15, smoothness: 0, cutterBevel: false,
+    handleRound: false, handleStyle: "none", handleWidth: 4.2, handleThickness: 2, fingerHoles: 2,
+    stamp: false, stampClearance: .5, mergeGap: 1, size: 50, sizeConstraint: "longest"
+};
+
+/** A 100 pixel square, 50 mm at the default size */
+const SQUARE: point_t[] = [{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 100, y: 100 }, { x: 0, y: 100 }];
+
+/** A square with a 2 pixel wide slot cut 60 pixels deep into its top */
+const SLOTTED: point_t[] = [
+    { x: 0, y: 0 }, { x: 100, y: 0 }, { x: 100, y: 100 }, { x: 51, y: 100 },
+    { x: 51, y: 40 }, { x: 49, y: 40 }, { x: 49, y: 100 }, { x: 0, y: 100 }
+];
+
+/** An L with a sharp inward corner at (40, 40) */
+const ELL: point_t[] = [
+    { x: 0, y: 0 }, { x: 100, y: 0 }, { x: 100, y: 40 }, { x: 40, y: 40 }, { x: 40, y: 100 }, { x: 0, y: 100 }
+];
+
+describe("findNarrowFeatures", () => {
+    it("finds nothing on a wide outline with round enough corners", () => {
+        expect(findNarrowFeatures(SQUARE, SETTINGS, 0)).toEqual([]);
+    });
+
+    it("reports an outline that is narrow all the way round as one feature", () => {
+        const features = findNarrowFeatures(SQUARE, { ...SETTINGS, size: 1.5 }, 0);
+        expect(features).toHaveLength(1);
+        expect(features[0].kind).toBe("narrow");
+        expect(features[0].fix).toBe("widen");
+        expect(features[0].size).toBeCloseTo(1.5, 1);
+        expect(features[0].points.length).toBeGreaterThanOrEqual(12);
+    });
+
+    it("suggests removing parts narrower than the wall", () => {
+        const features = findNarrowFeatures(SQUARE, { ...SETTINGS, size: .8 }, 0);
+        expect(features).toHaveLength(1);
+        expect(features[0].fix).toBe("remove");
+    });
+
+    it("suggests bridging gaps between walls", () => {
+        const gaps = findNarrowFeatures(SLOTTED, SETTINGS, 0).filter(feature => feature.kind === "gap");
+        expect(gaps.length).toBeGreaterThan(0);
+        for (const gap of gaps) {
+            expect(gap.fix).toBe("bridge");
+            expect(gap.size).toBeCloseTo(1, 1);
+        }
+    });
+
+    it("finds tight inward corners only when a minimum radius is set", () => {
+        expect(findNarrowFeatures(ELL, SETTINGS, 0)).toEqual([]);
+
+        const corners = findNarrowFeatures(ELL, SETTINGS, 2);
+        expect(corners).toHaveLength(1);
+        expect(corners[0].kind).toBe("corner");
+        expect(corners[0].size).toBeLessThan(2);
+    });
+
+    it("maps the features back to source image pixels", () => {
+        const [corner] = findNarrowFeatures(ELL, SETTINGS, 2);
+        const middle = corner.pixels[Math.floor(corner.pixels.length / 2)];
+        expect(Math.hypot(middle.x - 40, middle.y - 40)).toBeLessThan(4);
+    });
+});
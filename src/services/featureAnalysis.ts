@@ -0,0 +1,207 @@
+/**
+ * @fileoverview Narrow Feature Analysis for Cookie Cutter Monster
+ *
+ * Thin ears, tails and serifs either vanish or print as blobs once an outline
+ * is scaled to the cookie size and given a wall. This service looks at the
+ * outline in real-world millimetres, exactly as the cutter will be built, and
+ * reports every stretch that will not survive printing or cutting, together
+ * with a suggested fix.
+ *
+ * Checks:
+ * - Parts of the cookie narrower than twice the wall thickness
+ * - Gaps between walls narrower than twice the wall thickness
+ * - Inward corners tighter than the minimum inner radius
+ *
+ * @author Cookie Cutter Monster Team
+ * @version 1.0.0
+ * @since 2020-08-01
+ */
+
+import { narrow_feature_t, point_t } from "../types";
+import { CutterSettings, outlineTransform, scaleOutline } from "./cutterGeometry";
+import { signedArea } from "./polygonOffset";
+
+/** Longest distance in mm between two analysed points on the outline */
+const SAMPLE_STEP = .5;
+
+/**
+ * A point on the resampled outline
+ */
+interface OutlineSample {
+    /** Position in mm */
+    pt: point_t,
+    /** Unit normal pointing into the cookie */
+    inward: point_t,
+    /** Index of the outline edge the sample lies on */
+    edge: number
+}
+
+/**
+ * Places points evenly along a closed outline
+ *
+ * @param {point_t[]} path - Counter-clockwise outline in mm
+ * @param {number} step - Largest distance between samples
+ * @returns {OutlineSample[]} Samples with their inward normals
+ */
+function resample(path: point_t[], step: number): OutlineSample[] {
+    const samples: OutlineSample[] = [];
+
+    path.forEach((a, edge) => {
+        const b = path[(edge + 1) % path.length];
+        const length = Math.hypot(b.x - a.x, b.y - a.y);
+        if (!length) return;
+
+        const inward = { x: -(b.y - a.y) / length, y: (b.x - a.x) / length };
+        const count = Math.max(1, Math.ceil(length / step));
+        for (let i = 0; i < count; i++) {
+            const t = (i + .5) / count;
+            samples.push({ pt: { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t }, inward, edge });
+        }
+    });
+
+    return samples;
+}
+
+/**
+ * Distance along a ray to the nearest outline edge
+ *
+ * @param {point_t[]} path - Closed outline
+ * @param {OutlineSample} sample - Ray origin, its own edge is skipped
+ * @param {point_t} dir - Unit ray direction
+ * @returns {number} Distance to the first hit, Infinity if the ray escapes
+ */
+function castRay(path: point_t[], sample: OutlineSample, dir: point_t): number {
+    let nearest = Infinity;
+
+    for (let i = 0; i < path.length; i++) {
+        if (i === sample.edge) continue;
+
+        const a = path[i];
+        const b = path[(i + 1) % path.length];
+        const ex = b.x - a.x, ey = b.y - a.y;
+        const denom = dir.x * ey - dir.y * ex;
+        if (Math.abs(denom) < 1e-12) continue;
+
+        const ox = a.x - sample.pt.x, oy = a.y - sample.pt.y;
+        const t = (ox * ey - oy * ex) / denom;
+        const s = (ox * dir.y - oy * dir.x) / denom;
+        if (t > 1e-6 && s >= 0 && s <= 1) {
+            nearest = Math.min(nearest, t);
+        }
+    }
+
+    return nearest;
+}
+
+/**
+ * Radius of the circle through three points
+ *
+ * @param {point_t} a - Point before the corner
+ * @param {point_t} b - Corner point
+ * @param {point_t} c - Point after the corner
+ * @returns {number} Circumradius, Infinity for collinear points
+ */
+function circumradius(a: point_t, b: point_t, c: point_t): number {
+    const ab = Math.hypot(b.x - a.x, b.y - a.y);
+    const bc = Math.hypot(c.x - b.x, c.y - b.y);
+    const ca = Math.hypot(a.x - c.x, a.y - c.y);
+    const area2 = Math.abs((b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x));
+    return area2 ? ab * bc * ca / (2 * area2) : Infinity;
+}
+
+/**
+ * Finds the stretches of an outline that are too small to print or cut
+ *
+ * The outline goes through the same scaling, simplification and smoothing
+ * as the cutter, so the analysis matches the mesh. Widths are measured by
+ * casting a ray from evenly spaced points across the cookie and across the
+ * empty space outside. Corner radii are taken from the circle through each
+ * point and its neighbours one minimum radius away along the outline, so a
+ * corner counts as tight when it turns sharper than that circle.
+ *
+ * Stretches shorter than twice the wall thickness are ignored, so a single
+ * pointy tip is not reported as a feature of its own. An outline that is
+ * too narrow all the way round comes back as one feature covering the loop.
+ *
+ * @param {point_t[]} points - Selected outline in source image pixels
+ * @param {CutterSettings} settings - Cutter settings the mesh was built with
+ * @param {number} minInnerRadius - Tightest allowed inward corner radius in mm, 0 to skip
+ * @returns {narrow_feature_t[]} Problem stretches with suggested fixes
+ */
+export function findNarrowFeatures(points: point_t[], settings: CutterSettings, minInnerRadius: number): narrow_feature_t[] {
+    const thickness = Number(settings.thickness);
+    const limit = thickness * 2;
+    const { scale, offset } = outlineTransform(points, settings);
+
+    const outline: point_t[] = scaleOutline(points, settings);
+    if (outline.length < 3) return [];
+    if (signedArea(outline) < 0) outline.reverse();
+
+    const step = Math.min(SAMPLE_STEP, thickness / 2);
+    const samples = resample(outline, step);
+    const reach = Math.max(1, Math.round(minInnerRadius / step));
+
+    // measure every sample: width across the cookie, gap to the next wall and corner radius
+    const kinds = samples.map((sample, i) => {
+        const width = castRay(outline, sample, sample.inward);
+        const gap = castRay(outline, sample, { x: -sample.inward.x, y: -sample.inward.y });
+
+        let radius = Infinity;
+        if (minInnerRadius > 0) {
+            const before = samples[(i - reach + samples.length) % samples.length].pt;
+            const after = samples[(i + reach) % samples.length].pt;
+            const turn = (sample.pt.x - before.x) * (after.y - sample.pt.y) - (sample.pt.y - before.y) * (after.x - sample.pt.x);
+            if (turn < 0) {
+                radius = circumradius(before, sample.pt, after);
+            }
+        }
+
+        if (width < limit) return { kind: <narrow_feature_t["kind"]>"narrow", size: width };
+        if (gap < limit) return { kind: <narrow_feature_t["kind"]>"gap", size: gap };
+        if (radius < minInnerRadius) return { kind: <narrow_feature_t["kind"]>"corner", size: radius };
+        return null;
+    });
+
+    // start where no stretch wraps around the end of the list: at a clean
+    // sample, else where the problem changes, else the whole loop is one stretch
+    let start = kinds.findIndex(k => !k);
+    if (start === -1) {
+        start = kinds.findIndex((k, i) => k.kind !== kinds[(i || samples.length) - 1].kind);
+    }
+    if (start === -1) start = 0;
+
+    const features: narrow_feature_t[] = [];
+    let current: narrow_feature_t = null;
+    const close = () => {
+        if (current && (current.kind === "corner" || (current.points.length - 1) * step >= limit)) {
+            features.push(current);
+        }
+        current = null;
+    };
+
+    for (let n = 0; n < samples.length; n++) {
+        const i = (start + n) % samples.length;
+        const measured = kinds[i];
+
+        if (current && (!measured || measured.kind !== current.kind)) close();
+        if (!measured) continue;
+
+        if (!current) {
+            current = { kind: measured.kind, size: measured.size, fix: "widen", points: [], pixels: [] };
+        }
+        current.size = Math.min(current.size, measured.size);
+        current.points.push(samples[i].pt);
+    }
+    close();
+
+    for (const feature of features) {
+        if (feature.kind === "gap") {
+            feature.fix = "bridge";
+        } else if (feature.kind === "narrow" && feature.size < thickness) {
+            feature.fix = "remove";
+        }
+        feature.pixels = feature.points.map(pt => ({ x: (pt.x - offset.x) / scale, y: (pt.y - offset.y) / scale }));
+    }
+
+    return features;
+}
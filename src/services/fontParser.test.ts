@@ -0,0 +1,62 @@
+import { readFileSync } from "fs";
+import { join } from "path";
+import { OpenTypeFont } from "./fontParser";
+
+/**
+ * Reads a file from the bundled fonts folder
+ *
+ * @param {string} name - File name
+ * @returns {ArrayBuffer} Its contents
+ */
+function readFont(name: string): ArrayBuffer {
+    const file = readFileSync(join(__dirname, "../../fonts", name));
+    return file.buffer.slice(file.byteOffset, file.byteOffset + file.byteLength);
+}
+
+const font = new OpenTypeFont(readFont("glyphicons-halflings-regular.ttf"));
+
+describe("OpenTypeFont", () => {
+    it("reads the metrics of a TrueType font", () => {
+        expect(font.unitsPerEm).toBe(1200);
+        expect(font.ascender).toBeGreaterThan(0);
+        expect(font.descender).toBeLessThan(0);
+    });
+
+    it("maps characters to glyphs, the missing glyph for characters it lacks", () => {
+        expect(font.glyphIndex("+".codePointAt(0))).toBeGreaterThan(0);
+        expect(font.glyphIndex("☁".codePointAt(0))).toBeGreaterThan(0);
+        expect(font.glyphIndex("A".codePointAt(0))).toBe(0);
+    });
+
+    it("reads advance widths", () => {
+        expect(font.advanceWidth(font.glyphIndex("+".codePointAt(0)))).toBe(1200);
+    });
+
+    it("reads glyph outlines as closed contours of cubic curves", () => {
+        const contours = font.glyphContours(font.glyphIndex("+".codePointAt(0)));
+        expect(contours).toHaveLength(1);
+
+        const [contour] = contours;
+        contour.forEach((curve, i) => {
+            const next = contour[(i + 1) % contour.length];
+            expect(curve.end.x).toBeCloseTo(next.start.x);
+            expect(curve.end.y).toBeCloseTo(next.start.y);
+        });
+        for (const curve of contour) {
+            for (const pt of [curve.start, curve.control1, curve.control2, curve.end]) {
+                expect(pt.x).toBeGreaterThanOrEqual(0);
+                expect(pt.x).toBeLessThanOrEqual(1200);
+            }
+        }
+    });
+
+    it("has no outline for a space", () => {
+        expect(font.glyphContours(font.glyphIndex(" ".codePointAt(0)))).toEqual([]);
+    });
+
+    it("rejects WOFF files and files that aren't fonts", () => {
+        expect(() => new OpenTypeFont(readFont("glyphicons-halflings-regular.woff"))).toThrow("WOFF fonts are not supported");
+        expect(() => new OpenTypeFont(readFont("glyphicons-halflings-regular.svg"))).toThrow("not a TrueType or OpenType font");
+        expect(() => new OpenTypeFont(new ArrayBuffer(4))).toThrow("not a TrueType or OpenType font");
+    });
+});
@@ -0,0 +1,763 @@
+/**
+ * @fileoverview Font Parser for Cookie Cutter Monster
+ *
+ * Reads glyph outlines straight from TrueType and OpenType font files, so
+ * lettering can be turned into cutters without rendering text to an image
+ * first. Only what the text tool needs is read: the character map, the
+ * advance widths and the outlines.
+ *
+ * Supported:
+ * - TrueType outlines (glyf), including composite glyphs such as accented letters
+ * - PostScript outlines (CFF) with subroutines, hints are skipped
+ * - Unicode character maps in formats 4 and 12, and symbol fonts
+ *
+ * Outlines come back as cubic Bézier curves in font units with y pointing
+ * up; TrueType quadratics are raised to cubics.
+ *
+ * @author Cookie Cutter Monster Team
+ * @version 1.0.0
+ * @since 2020-08-01
+ */
+
+import { curve_t, point_t } from "../types";
+
+/** How deep composite glyphs and charstring subroutines may nest */
+const MAX_NESTING = 10;
+
+/** First code point of the private use area symbol fonts map their characters into */
+const SYMBOL_OFFSET = 0xF000;
+
+/**
+ * A font file opened for reading outlines
+ */
+export class OpenTypeFont {
+    /** Font units per em, the size all metrics are given in */
+    readonly unitsPerEm: number;
+    /** Height of the tallest letters above the baseline, in font units */
+    readonly ascender: number;
+    /** Depth of the descenders below the baseline, negative, in font units */
+    readonly descender: number;
+
+    private data: DataView;
+    private tables: { [tag: string]: number } = {};
+    private numGlyphs: number;
+    private numberOfHMetrics: number;
+    private cmap: { format: number, offset: number } = null;
+    private symbol = false;
+    private cff: CffFont = null;
+
+    /**
+     * Reads the tables of a font file
+     *
+     * @param {ArrayBuffer} buffer - Contents of a .ttf or .otf file
+     * @throws {Error} If the file is not a font or lacks the needed tables
+     */
+    constructor(buffer: ArrayBuffer) {
+        this.data = new DataView(buffer);
+        if (buffer.byteLength < 12) {
+            throw Error("that file is not a TrueType or OpenType font");
+        }
+
+        const version = this.data.getUint32(0);
+        if (version !== 0x00010000 && version !== 0x4F54544F && version !== 0x74727565) {
+            throw Error(version === 0x774F4646 || version === 0x774F4632
+                ? "WOFF fonts are not supported, use the TTF or OTF file"
+                : "that file is not a TrueType or OpenType font");
+        }
+
+        const numTables = this.data.getUint16(4);
+        for (let i = 0; i < numTables; i++) {
+            const record = 12 + i * 16;
+            const tag = String.fromCharCode(...[0, 1, 2, 3].map(n => this.data.getUint8(record + n)));
+            this.tables[tag] = this.data.getUint32(record + 8);
+        }
+        for (const tag of ["head", "maxp", "hhea", "hmtx", "cmap"]) {
+            if (this.tables[tag] === undefined) {
+                throw Error(`the font has no ${tag} table`);
+            }
+        }
+
+        this.unitsPerEm = this.data.getUint16(this.tables.head + 18);
+        this.numGlyphs = this.data.getUint16(this.tables.maxp + 4);
+        this.ascender = this.data.getInt16(this.tables.hhea + 4);
+        this.descender = this.data.getInt16(this.tables.hhea + 6);
+        this.numberOfHMetrics = this.data.getUint16(this.tables.hhea + 34);
+
+        this.readCmap();
+        if (this.tables["CFF "] !== undefined) {
+            this.cff = new CffFont(this.data, this.tables["CFF "]);
+        } else if (this.tables.glyf === undefined || this.tables.loca === undefined) {
+            throw Error("the font has no outlines");
+        }
+    }
+
+    /**
+     * Finds the glyph of a character
+     *
+     * @param {number} codePoint - Unicode code point
+     * @returns {number} Glyph index, 0 (the missing glyph) if the font lacks the character
+     */
+    glyphIndex(codePoint: number): number {
+        const glyph = this.lookup(codePoint);
+        if (glyph || !this.symbol || codePoint > 0xFF) return glyph;
+
+        return this.lookup(SYMBOL_OFFSET + codePoint);
+    }
+
+    /**
+     * Reads how far the pen moves after a glyph
+     *
+     * @param {number} glyph - Glyph index
+     * @returns {number} Advance width in font units
+     */
+    advanceWidth(glyph: number): number {
+        const metric = Math.min(glyph, this.numberOfHMetrics - 1);
+        return this.data.getUint16(this.tables.hmtx + metric * 4);
+    }
+
+    /**
+     * Reads the outline of a glyph
+     *
+     * @param {number} glyph - Glyph index
+     * @returns {curve_t[][]} Closed contours in font units, y pointing up
+     */
+    glyphContours(glyph: number): curve_t[][] {
+        if (glyph < 0 || glyph >= this.numGlyphs) return [];
+
+        return this.cff ? this.cff.contours(glyph) : this.glyfContours(glyph, 0);
+    }
+
+    /**
+     * Picks the best Unicode subtable of the character map
+     */
+    private readCmap() {
+        const cmap = this.tables.cmap;
+        const subtables: { platform: number, encoding: number, format: number, offset: number }[] = [];
+        const count = this.data.getUint16(cmap + 2);
+        for (let i = 0; i < count; i++) {
+            const offset = cmap + this.data.getUint32(cmap + 8 + i * 8);
+            subtables.push({
+                platform: this.data.getUint16(cmap + 4 + i * 8),
+                encoding: this.data.getUint16(cmap + 6 + i * 8),
+                format: this.data.getUint16(offset),
+                offset
+            });
+        }
+
+        const preferred = [
+            (t: any) => t.platform === 3 && t.encoding === 10 && t.format === 12,
+            (t: any) => t.platform === 0 && t.format === 12,
+            (t: any) => t.platform === 3 && t.encoding === 1 && t.format === 4,
+            (t: any) => t.platform === 0 && t.format === 4,
+            (t: any) => t.platform === 3 && t.encoding === 0 && t.format === 4
+        ];
+        for (const test of preferred) {
+            const found = subtables.find(test);
+            if (found) {
+                this.cmap = { format: found.format, offset: found.offset };
+                this.symbol = found.platform === 3 && found.encoding === 0;
+                return;
+            }
+        }
+        throw Error("the font has no Unicode character map");
+    }
+
+    /**
+     * Looks a code point up in the character map
+     *
+     * @param {number} codePoint - Code point
+     * @returns {number} Glyph index, 0 if missing
+     */
+    private lookup(codePoint: number): number {
+        const { format, offset } = this.cmap;
+        const data = this.data;
+
+        if (format === 12) {
+            const groups = data.getUint32(offset + 12);
+            for (let i = 0; i < groups; i++) {
+                const group = offset + 16 + i * 12;
+                const start = data.getUint32(group), end = data.getUint32(group + 4);
+                if (codePoint >= start && codePoint <= end) {
+                    return data.getUint32(group + 8) + codePoint - start;
+                }
+            }
+            return 0;
+        }
+
+        if (codePoint > 0xFFFF) return 0;
+        const segments = data.getUint16(offset + 6) / 2;
+        const ends = offset + 14;
+        const starts = ends + segments * 2 + 2;
+        const deltas = starts + segments * 2;
+        const rangeOffsets = deltas + segments * 2;
+        for (let i = 0; i < segments; i++) {
+            if (data.getUint16(ends + i * 2) < codePoint) continue;
+
+            const start = data.getUint16(starts + i * 2);
+            if (start > codePoint) return 0;
+
+            const delta = data.getInt16(deltas + i * 2);
+            const rangeOffset = data.getUint16(rangeOffsets + i * 2);
+            if (!rangeOffset) return (codePoint + delta) & 0xFFFF;
+
+            const glyph = data.getUint16(rangeOffsets + i * 2 + rangeOffset + (codePoint - start) * 2);
+            return glyph ? (glyph + delta) & 0xFFFF : 0;
+        }
+        return 0;
+    }
+
+    /**
+     * Reads a TrueType glyph, following composite glyphs
+     *
+     * @param {number} glyph - Glyph index
+     * @param {number} depth - Nesting level of composite glyphs
+     * @returns {curve_t[][]} Closed contours in font units
+     */
+    private glyfContours(glyph: number, depth: number): curve_t[][] {
+        const data = this.data;
+        const longOffsets = data.getInt16(this.tables.head + 50) === 1;
+        const loca = this.tables.loca;
+        const start = longOffsets ? data.getUint32(loca + glyph * 4) : data.getUint16(loca + glyph * 2) * 2;
+        const end = longOffsets ? data.getUint32(loca + glyph * 4 + 4) : data.getUint16(loca + glyph * 2 + 2) * 2;
+        if (end <= start) return [];
+
+        const offset = this.tables.glyf + start;
+        const contourCount = data.getInt16(offset);
+        if (contourCount >= 0) return this.simpleGlyph(offset, contourCount);
+        if (depth >= MAX_NESTING) return [];
+
+        // composite glyph: a list of other glyphs, each moved and scaled
+        const contours: curve_t[][] = [];
+        let pos = offset + 10;
+        let flags: number;
+        do {
+            flags = data.getUint16(pos);
+            const component = data.getUint16(pos + 2);
+            pos += 4;
+
+            let dx: number, dy: number;
+            if (flags & 0x0001) {
+                dx = data.getInt16(pos);
+                dy = data.getInt16(pos + 2);
+                pos += 4;
+            } else {
+                dx = data.getInt8(pos);
+                dy = data.getInt8(pos + 1);
+                pos += 2;
+            }
+            // anchor point matching is rare in text fonts, such components stay in place
+            if (!(flags & 0x0002)) dx = dy = 0;
+
+            let a = 1, b = 0, c = 0, d = 1;
+            if (flags & 0x0008) {
+                a = d = data.getInt16(pos) / 16384;
+                pos += 2;
+            } else if (flags & 0x0040) {
+                a = data.getInt16(pos) / 16384;
+                d = data.getInt16(pos + 2) / 16384;
+                pos += 4;
+            } else if (flags & 0x0080) {
+                a = data.getInt16(pos) / 16384;
+                b = data.getInt16(pos + 2) / 16384;
+                c = data.getInt16(pos + 4) / 16384;
+                d = data.getInt16(pos + 6) / 16384;
+                pos += 8;
+            }
+
+            const move = (pt: point_t) => ({ x: a * pt.x + c * pt.y + dx, y: b * pt.x + d * pt.y + dy });
+            for (const contour of this.glyfContours(component, depth + 1)) {
+                contours.push(contour.map(curve => ({
+                    start: move(curve.start),
+                    control1: move(curve.control1),
+                    control2: move(curve.control2),
+                    end: move(curve.end)
+                })));
+            }
+        } while (flags & 0x0020);
+
+        return contours;
+    }
+
+    /**
+     * Reads the points of a simple TrueType glyph and joins them into curves
+     *
+     * @param {number} offset - Start of the glyph in the file
+     * @param {number} contourCount - Number of contours
+     * @returns {curve_t[][]} Closed contours in font units
+     */
+    private simpleGlyph(offset: number, contourCount: number): curve_t[][] {
+        const data = this.data;
+        const endPoints: number[] = [];
+        for (let i = 0; i < contourCount; i++) {
+            endPoints.push(data.getUint16(offset + 10 + i * 2));
+        }
+        const pointCount = contourCount ? endPoints[contourCount - 1] + 1 : 0;
+
+        let pos = offset + 10 + contourCount * 2;
+        pos += 2 + data.getUint16(pos);
+
+        const flags: number[] = [];
+        while (flags.length < pointCount) {
+            const flag = data.getUint8(pos++);
+            flags.push(flag);
+            if (flag & 0x08) {
+                const repeat = data.getUint8(pos++);
+                for (let r = 0; r < repeat; r++) flags.push(flag);
+            }
+        }
+
+        const readCoordinates = (shortFlag: number, sameFlag: number) => {
+            const values: number[] = [];
+            let value = 0;
+            for (const flag of flags) {
+                if (flag & shortFlag) {
+                    const delta = data.getUint8(pos++);
+                    value += flag & sameFlag ? delta : -delta;
+                } else if (!(flag & sameFlag)) {
+                    value += data.getInt16(pos);
+                    pos += 2;
+                }
+                values.push(value);
+            }
+            return values;
+        };
+        const xs = readCoordinates(0x02, 0x10);
+        const ys = readCoordinates(0x04, 0x20);
+
+        const contours: curve_t[][] = [];
+        let first = 0;
+        for (const last of endPoints) {
+            const points = [];
+            for (let i = first; i <= last; i++) {
+                points.push({ x: xs[i], y: ys[i], onCurve: Boolean(flags[i] & 0x01) });
+            }
+            first = last + 1;
+
+            const contour = quadraticContour(points);
+            if (contour.length) contours.push(contour);
+        }
+        return contours;
+    }
+}
+
+/**
+ * Joins the on and off curve points of a TrueType contour into cubic curves
+ *
+ * Two off curve points in a row imply an on curve point halfway between them.
+ *
+ * @param {{ x: number, y: number, onCurve: boolean }[]} points - Contour points in order
+ * @returns {curve_t[]} Closed contour
+ */
+function quadraticContour(points: { x: number, y: number, onCurve: boolean }[]): curve_t[] {
+    if (points.length < 2) return [];
+
+    // make the implied on curve points explicit
+    const expanded: { x: number, y: number, onCurve: boolean }[] = [];
+    points.forEach((pt, i) => {
+        const previous = points[(i + points.length - 1) % points.length];
+        if (!pt.onCurve && !previous.onCurve) {
+            expanded.push({ x: (pt.x + previous.x) / 2, y: (pt.y + previous.y) / 2, onCurve: true });
+        }
+        expanded.push(pt);
+    });
+
+    const first = expanded.findIndex(pt => pt.onCurve);
+    const ordered = [...expanded.slice(first), ...expanded.slice(0, first)];
+    const start = { x: ordered[0].x, y: ordered[0].y };
+
+    const curves: curve_t[] = [];
+    let current = start;
+    for (let i = 1; i <= ordered.length; i++) {
+        const pt = ordered[i % ordered.length];
+        if (pt.onCurve) {
+            const end = { x: pt.x, y: pt.y };
+            if (end.x !== current.x || end.y !== current.y) curves.push(lineTo(current, end));
+            current = end;
+        } else {
+            const next = ordered[++i % ordered.length];
+            const end = { x: next.x, y: next.y };
+            curves.push(quadraticToCubic(current, { x: pt.x, y: pt.y }, end));
+            current = end;
+        }
+    }
+    return curves;
+}
+
+/**
+ * Builds a straight segment as a curve
+ *
+ * @param {point_t} from - Start point
+ * @param {point_t} to - End point
+ * @returns {curve_t} Curve with its control points at thirds of the line
+ */
+function lineTo(from: point_t, to: point_t): curve_t {
+    return {
+        start: from,
+        control1: { x: from.x + (to.x - from.x) / 3, y: from.y + (to.y - from.y) / 3 },
+        control2: { x: from.x + (to.x - from.x) * 2 / 3, y: from.y + (to.y - from.y) * 2 / 3 },
+        end: to
+    };
+}
+
+/**
+ * Raises a quadratic Bézier to the equivalent cubic
+ *
+ * @param {point_t} from - Start point
+ * @param {point_t} control - Quadratic control point
+ * @param {point_t} to - End point
+ * @returns {curve_t} The same curve as a cubic
+ */
+function quadraticToCubic(from: point_t, control: point_t, to: point_t): curve_t {
+    return {
+        start: from,
+        control1: { x: from.x + (control.x - from.x) * 2 / 3, y: from.y + (control.y - from.y) * 2 / 3 },
+        control2: { x: to.x + (control.x - to.x) * 2 / 3, y: to.y + (control.y - to.y) * 2 / 3 },
+        end: to
+    };
+}
+
+/**
+ * The PostScript outlines of an OpenType font (the CFF table)
+ */
+class CffFont {
+    private data: DataView;
+    private charStrings: { start: number, end: number }[];
+    private globalSubrs: { start: number, end: number }[];
+    private localSubrs: { start: number, end: number }[] = [];
+
+    /**
+     * Reads the indexes and dictionaries of a CFF table
+     *
+     * @param {DataView} data - The whole font file
+     * @param {number} offset - Start of the CFF table
+     * @throws {Error} If the font is CID keyed
+     */
+    constructor(data: DataView, offset: number) {
+        this.data = data;
+
+        let pos = offset + data.getUint8(offset + 2);
+        pos = this.readIndex(pos).next;                     // names
+        const topDicts = this.readIndex(pos);
+        pos = this.readIndex(topDicts.next).next;            // strings
+        this.globalSubrs = this.readIndex(pos).entries;
+
+        const top = this.readDict(topDicts.entries[0].start, topDicts.entries[0].end);
+        if (top["12 30"]) {
+            throw Error("CID keyed OpenType fonts are not supported");
+        }
+        this.charStrings = this.readIndex(offset + top["17"][0]).entries;
+
+        const priv = top["18"];
+        if (priv) {
+            const privateStart = offset + priv[1];
+            const privateDict = this.readDict(privateStart, privateStart + priv[0]);
+            if (privateDict["19"]) {
+                this.localSubrs = this.readIndex(privateStart + privateDict["19"][0]).entries;
+            }
+        }
+    }
+
+    /**
+     * Runs the charstring of a glyph
+     *
+     * @param {number} glyph - Glyph index
+     * @returns {curve_t[][]} Closed contours in font units
+     */
+    contours(glyph: number): curve_t[][] {
+        const entry = this.charStrings[glyph];
+        if (!entry) return [];
+
+        const state: CharStringState = {
+            stack: [], contours: [], current: null, x: 0, y: 0, stems: 0, widthRead: false, done: false
+        };
+        this.run(entry, state, 0);
+        closeContour(state);
+        return state.contours.filter(contour => contour.length);
+    }
+
+    /**
+     * Reads a CFF INDEX structure
+     *
+     * @param {number} pos - Start of the index
+     * @returns {{ entries: { start: number, end: number }[], next: number }} Byte ranges of the entries and the end of the index
+     */
+    private readIndex(pos: number) {
+        const data = this.data;
+        const count = data.getUint16(pos);
+        if (!count) return { entries: [], next: pos + 2 };
+
+        const offSize = data.getUint8(pos + 2);
+        const readOffset = (i: number) => {
+            let value = 0;
+            for (let b = 0; b < offSize; b++) value = value * 256 + data.getUint8(pos + 3 + i * offSize + b);
+            return value;
+        };
+        const base = pos + 2 + (count + 1) * offSize;
+        const entries = [];
+        for (let i = 0; i < count; i++) {
+            entries.push({ start: base + readOffset(i), end: base + readOffset(i + 1) });
+        }
+        return { entries, next: base + readOffset(count) };
+    }
+
+    /**
+     * Reads a CFF DICT into operands keyed by operator
+     *
+     * @param {number} start - First byte of the dict
+     * @param {number} end - Byte after the dict
+     * @returns {{ [operator: string]: number[] }} Operands of every operator, escaped ones as "12 n"
+     */
+    private readDict(start: number, end: number) {
+        const data = this.data;
+        const dict: { [operator: string]: number[] } = {};
+        let operands: number[] = [];
+        let pos = start;
+
+        while (pos < end) {
+            const b0 = data.getUint8(pos++);
+            if (b0 <= 21) {
+                const key = b0 === 12 ? "12 " + data.getUint8(pos++) : String(b0);
+                dict[key] = operands;
+                operands = [];
+            } else if (b0 === 28) {
+                operands.push(data.getInt16(pos));
+                pos += 2;
+            } else if (b0 === 29) {
+                operands.push(data.getInt32(pos));
+                pos += 4;
+            } else if (b0 === 30) {
+                // real number, skipped nibble by nibble up to the end marker
+                let text = "";
+                for (let done = false; !done;) {
+                    const byte = data.getUint8(pos++);
+                    for (const nibble of [byte >> 4, byte & 15]) {
+                        if (nibble === 15) { done = true; break; }
+                        text += "0123456789.EE?-"[nibble] + (nibble === 12 ? "-" : "");
+                    }
+                }
+                operands.push(parseFloat(text));
+            } else if (b0 >= 32 && b0 <= 246) {
+                operands.push(b0 - 139);
+            } else if (b0 >= 247 && b0 <= 250) {
+                operands.push((b0 - 247) * 256 + data.getUint8(pos++) + 108);
+            } else if (b0 >= 251 && b0 <= 254) {
+                operands.push(-(b0 - 251) * 256 - data.getUint8(pos++) - 108);
+            }
+        }
+        return dict;
+    }
+
+    /**
+     * Interprets a Type 2 charstring
+     *
+     * @param {{ start: number, end: number }} range - Bytes of the charstring or subroutine
+     * @param {CharStringState} state - Pen, stack and contours so far
+     * @param {number} depth - Subroutine nesting level
+     */
+    private run(range: { start: number, end: number }, state: CharStringState, depth: number) {
+        const data = this.data;
+        const stack = state.stack;
+        let pos = range.start;
+
+        // the first stack clearing operator may carry the glyph width first
+        const takeWidth = (expectOdd: boolean) => {
+            if (!state.widthRead && (stack.length % 2 === 1) === expectOdd) stack.shift();
+            state.widthRead = true;
+        };
+        const stems = () => {
+            takeWidth(true);
+            state.stems += stack.length >> 1;
+            stack.length = 0;
+        };
+        const move = (dx: number, dy: number) => {
+            closeContour(state);
+            state.x += dx;
+            state.y += dy;
+            state.current = [];
+        };
+        const line = (dx: number, dy: number) => {
+            const from = { x: state.x, y: state.y };
+            state.x += dx;
+            state.y += dy;
+            state.current.push(lineTo(from, { x: state.x, y: state.y }));
+        };
+        const curve = (dx1: number, dy1: number, dx2: number, dy2: number, dx3: number, dy3: number) => {
+            const start = { x: state.x, y: state.y };
+            const control1 = { x: start.x + dx1, y: start.y + dy1 };
+            const control2 = { x: control1.x + dx2, y: control1.y + dy2 };
+            state.x = control2.x + dx3;
+            state.y = control2.y + dy3;
+            state.current.push({ start, control1, control2, end: { x: state.x, y: state.y } });
+        };
+        const bias = (subrs: any[]) => subrs.length < 1240 ? 107 : subrs.length < 33900 ? 1131 : 32768;
+
+        while (pos < range.end && !state.done) {
+            const b0 = data.getUint8(pos++);
+
+            if (b0 >= 32 || b0 === 28) {
+                if (b0 === 28) {
+                    stack.push(data.getInt16(pos));
+                    pos += 2;
+                } else if (b0 <= 246) {
+                    stack.push(b0 - 139);
+                } else if (b0 <= 250) {
+                    stack.push((b0 - 247) * 256 + data.getUint8(pos++) + 108);
+                } else if (b0 <= 254) {
+                    stack.push(-(b0 - 251) * 256 - data.getUint8(pos++) - 108);
+                } else {
+                    stack.push(data.getInt32(pos) / 65536);
+                    pos += 4;
+                }
+                continue;
+            }
+
+            switch (b0) {
+                case 1: case 3: case 18: case 23:                       // stem hints
+                    stems();
+                    break;
+                case 19: case 20:                                       // hintmask, cntrmask
+                    stems();
+                    pos += (state.stems + 7) >> 3;
+                    break;
+                case 21:                                                // rmoveto
+                    takeWidth(true);
+                    move(stack[0], stack[1]);
+                    stack.length = 0;
+                    break;
+                case 22:                                                // hmoveto
+                    takeWidth(false);
+                    move(stack[0], 0);
+                    stack.length = 0;
+                    break;
+                case 4:                                                 // vmoveto
+                    takeWidth(false);
+                    move(0, stack[0]);
+                    stack.length = 0;
+                    break;
+                case 5:                                                 // rlineto
+                    for (let i = 0; i + 1 < stack.length; i += 2) line(stack[i], stack[i + 1]);
+                    stack.length = 0;
+                    break;
+                case 6: case 7:                                         // hlineto, vlineto
+                    stack.forEach((d, i) => (i % 2 === (b0 === 6 ? 0 : 1)) ? line(d, 0) : line(0, d));
+                    stack.length = 0;
+                    break;
+                case 8:                                                 // rrcurveto
+                    for (let i = 0; i + 5 < stack.length; i += 6) curve(...<Six>stack.slice(i, i + 6));
+                    stack.length = 0;
+                    break;
+                case 24: {                                              // rcurveline
+                    let i = 0;
+                    for (; i + 7 < stack.length; i += 6) curve(...<Six>stack.slice(i, i + 6));
+                    line(stack[i], stack[i + 1]);
+                    stack.length = 0;
+                    break;
+                }
+                case 25: {                                              // rlinecurve
+                    let i = 0;
+                    for (; i + 7 < stack.length; i += 2) line(stack[i], stack[i + 1]);
+                    curve(...<Six>stack.slice(i, i + 6));
+                    stack.length = 0;
+                    break;
+                }
+                case 26: {                                              // vvcurveto
+                    let i = 0, dx1 = 0;
+                    if (stack.length % 2) dx1 = stack[i++];
+                    for (; i + 3 < stack.length; i += 4, dx1 = 0) curve(dx1, stack[i], stack[i + 1], stack[i + 2], 0, stack[i + 3]);
+                    stack.length = 0;
+                    break;
+                }
+                case 27: {                                              // hhcurveto
+                    let i = 0, dy1 = 0;
+                    if (stack.length % 2) dy1 = stack[i++];
+                    for (; i + 3 < stack.length; i += 4, dy1 = 0) curve(stack[i], dy1, stack[i + 1], stack[i + 2], stack[i + 3], 0);
+                    stack.length = 0;
+                    break;
+                }
+                case 30: case 31: {                                     // vhcurveto, hvcurveto
+                    let horizontal = b0 === 31;
+                    for (let i = 0; i + 3 < stack.length; i += 4, horizontal = !horizontal) {
+                        const last = i + 5 === stack.length ? stack[i + 4] : 0;
+                        if (horizontal) {
+                            curve(stack[i], 0, stack[i + 1], stack[i + 2], last, stack[i + 3]);
+                        } else {
+                            curve(0, stack[i], stack[i + 1], stack[i + 2], stack[i + 3], last);
+                        }
+                    }
+                    stack.length = 0;
+                    break;
+                }
+                case 10: case 29: {                                     // callsubr, callgsubr
+                    const subrs = b0 === 10 ? this.localSubrs : this.globalSubrs;
+                    const subr = subrs[stack.pop() + bias(subrs)];
+                    if (subr && depth < MAX_NESTING) this.run(subr, state, depth + 1);
+                    break;
+                }
+                case 11:                                                // return
+                    return;
+                case 14:                                                // endchar
+                    takeWidth(true);
+                    state.done = true;
+                    break;
+                case 12: {
+                    const b1 = data.getUint8(pos++);
+                    const s = stack;
+                    if (b1 === 35) {                                    // flex
+                        curve(s[0], s[1], s[2], s[3], s[4], s[5]);
+                        curve(s[6], s[7], s[8], s[9], s[10], s[11]);
+                    } else if (b1 === 34) {                             // hflex
+                        const y = state.y;
+                        curve(s[0], 0, s[1], s[2], s[3], 0);
+                        curve(s[4], 0, s[5], y - state.y, s[6], 0);
+                    } else if (b1 === 36) {                             // hflex1
+                        const y = state.y;
+                        curve(s[0], s[1], s[2], s[3], s[4], 0);
+                        curve(s[5], 0, s[6], s[7], s[8], y - state.y - s[7]);
+                    } else if (b1 === 37) {                             // flex1
+                        const x = state.x, y = state.y;
+                        curve(s[0], s[1], s[2], s[3], s[4], s[5]);
+                        const dx = state.x + s[6] + s[8] - x, dy = state.y + s[7] + s[9] - y;
+                        const horizontal = Math.abs(dx) > Math.abs(dy);
+                        curve(s[6], s[7], s[8], s[9], horizontal ? s[10] : x - state.x - s[6] - s[8], horizontal ? y - state.y - s[7] - s[9] : s[10]);
+                    }
+                    stack.length = 0;
+                    break;
+                }
+                default:
+                    stack.length = 0;
+            }
+        }
+    }
+}
+
+/** Six charstring operands of a curve */
+type Six = [number, number, number, number, number, number];
+
+/**
+ * Interpreter state while running a charstring and its subroutines
+ */
+interface CharStringState {
+    stack: number[],
+    contours: curve_t[][],
+    current: curve_t[] | null,
+    x: number,
+    y: number,
+    stems: number,
+    widthRead: boolean,
+    done: boolean
+}
+
+/**
+ * Closes the contour being drawn back to its first point
+ *
+ * @param {CharStringState} state - Interpreter state
+ */
+function closeContour(state: CharStringState) {
+    const contour = state.current;
+    if (!contour || !contour.length) return;
+
+    const start = contour[0].start, end = contour[contour.length - 1].end;
+    if (start.x !== end.x || start.y !== end.y) contour.push(lineTo(end, start));
+    state.contours.push(contour);
+    state.current = null;
+}
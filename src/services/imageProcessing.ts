@@ -1,665 +1,907 @@
 /**
  * @fileoverview Image Processing Service for Cookie Cutter Monster
- * 
- * This service handles the core image processing workflow using OpenCV.js for computer vision
- * operations and Three.js for 3D model generation. It processes user-uploaded images to detect
- * contours, generates editable boundaries, and creates 3D printable STL files for cookie cutters.
- * 
+ *
+ * This service connects the page to the cutter worker, which runs OpenCV.js
+ * and builds the 3D model off the main thread. It hands images and drawings
+ * to the worker, shows the detected contours for picking and editing, and
+ * displays and exports the resulting cookie cutter with Three.js.
+ *
  * Key Features:
- * - Image preprocessing with padding and adaptive thresholding
- * - Contour detection and selection for cookie cutter shapes
- * - Interactive contour picking via canvas clicks
- * - 3D extrusion of shapes with configurable parameters
- * - STL file export for 3D printing
+ * - Contour picking and outline editing on the edge detection canvas
+ * - Live rebuilds when a setting changes, cancelling outdated work
+ * - Printability report and narrow feature shading of every mesh
+ * - STL, SVG and DXF export, and project files and share links
+ * - Saving the open project in the browser after every change
  * - Real-time 3D preview with orbital controls
- * 
+ *
  * @author Cookie Cutter Monster Team
  * @version 1.0.0
  * @since 2020-08-01
  */
 
 //@ts-nocheck
-import { MAX_DIM } from "../constants";
-import { CookieState_t } from "../types";
-import cookieState from "./cookieState";
+import { CookieState_t, cutter_mesh_t, cutter_preview_t, cutter_progress_t, drawing_t, EditTool, MaskView, mesh_report_t, narrow_feature_t, project_file_t, project_t, ProjectSettings } from "../types";
+import { CAMERA_DEBUG, PROJECT_SAVE_DELAY, PROJECT_THUMBNAIL_SIZE } from "../constants";
+import cookieState, { StateKey } from "./cookieState";
+import projectStore, { pickProjectSettings } from "./projectStore";
+import { buildProjectFile } from "./projectFile";
 import * as THREE from "three";
 import { OrbitControls } from "three/examples/jsm/controls/OrbitControls.js";
-import { STLExporter } from 'three/examples/jsm/exporters/STLExporter.js';
+import { exportMesh, exportOutline, OutlineLayer } from "./exporters";
+import { CutterSettings, offsetWall, outlineBounds, pickCutterSettings, scaleOutline } from "./cutterGeometry";
+import { pickDetectionSettings } from "./contourDetection";
+import { CutterChange, CutterWorkerClient } from "./cutterWorkerClient";
+import { hasMeshProblems, repairMesh, validateMesh } from "./meshValidation";
+import { OutlineEditor } from "./outlineEditor";
+
+/**
+ * Callbacks that keep the UI in step with the cutter
+ */
+export interface CutterViewListeners {
+    /** Busy state of the worker, null when idle, and the message of the last failed job or project save */
+    onStatus: (progress: cutter_progress_t | null, error: string) => void,
+    /** Printability report of every new cutter mesh */
+    onReport: (report: mesh_report_t) => void,
+    /** Features too narrow to print or cut on the current outline */
+    onFeatures: (features: narrow_feature_t[]) => void,
+    /** Bounding box in pixels of every new outline, for sizes shown before the mesh is built */
+    onOutline: (bounds: { width: number, height: number }) => void
+}
+
+/** The picked contours and outline edits, sent to the worker together */
+const SELECTION_KEYS: StateKey[] = ["selection", "merge", "stampSelection", "outline"];
+
+/** Settings that change how the image is searched, and with it the contour numbers */
+const DETECTION_KEYS = <StateKey[]>Object.keys(pickDetectionSettings(cookieState.get()));
+
+/** Every setting that changes the cutter, the detection or the feature check */
+const REBUILD_KEYS = <StateKey[]>Object.keys(pickCutterSettings(cookieState.get())).concat(DETECTION_KEYS, ["minInnerRadius"]);
+
+/** Shading colour of narrow features, the accent orange */
+const FEATURE_COLOR = 0xFF6B35;
+
+/** Colour of the stamp in the 3D preview */
+const STAMP_COLOR = 0x22AA88;
+
+/** Space between the cutter and the stamp beside it in the 3D preview, in millimeters */
+const STAMP_PREVIEW_GAP = 10;
+
+var client: CutterWorkerClient = null;
+var listeners: CutterViewListeners = null;
+
+var scene: THREE.Scene = null;
+var renderer: THREE.WebGLRenderer = null;
+var camera: THREE.PerspectiveCamera = null;
+var controls: OrbitControls = null;
+var canvasOutput: HTMLCanvasElement = null;
+var editor: OutlineEditor = null;
+var editTool: EditTool = "off";
+var maskView: MaskView = "off";
+
+var preview: cutter_preview_t = null;
+var cutterMesh: THREE.Mesh = null;
+var stampMesh: THREE.Mesh = null;
+var meshReport: mesh_report_t = null;
+var meshSettings: CutterSettings = null;
+var features: narrow_feature_t[] = [];
+var featureMarkers = new THREE.Group();
+var saveFilename = "";
+var hasImage = false;
+var lastSettings = "";
+var selectionShown = "";
+var building: Promise<any> = Promise.resolve();
+var project: project_t = null;
+var saveTimer = 0;
+
+/**
+ * Starts the cutter worker, which loads OpenCV.js in the background
+ *
+ * @param {CutterViewListeners} viewListeners - Callbacks for the busy state, reports and features
+ * @returns {Promise<void>} Resolves once the worker is ready for images
+ */
+export function startCutterWorker(viewListeners: CutterViewListeners): Promise<void> {
+    listeners = viewListeners;
+    client = new CutterWorkerClient({
+        onPreview: showPreview,
+        onProgress: progress => listeners.onStatus(progress, "")
+    });
+
+    cookieState.subscribe(REBUILD_KEYS, (state, changed) => {
+        // a new detection numbers the contours anew, the picked ones no longer apply
+        if (changed.some(key => DETECTION_KEYS.includes(key))) {
+            cookieState.forget(SELECTION_KEYS);
+        }
+        refreshCutter();
+    });
+    cookieState.subscribe(SELECTION_KEYS, applySelection);
+
+    // the open project keeps up with every change, and with its name in the recent projects list
+    cookieState.watch(pickProjectSettings, saveProjectSoon);
+    projectStore.subscribe((id, saved) => {
+        if (!project || id !== project.id) return;
+        if (saved) {
+            project.name = saved.name;
+        } else {
+            project = null;
+        }
+    });
+    return client.ready;
+}
 
 /**
  * Main image processing function that orchestrates the complete workflow
- * 
+ *
  * This function handles the entire pipeline from image upload to 3D model generation:
- * 1. Sets up Three.js scene, camera, and renderer
- * 2. Processes the input image with OpenCV.js
- * 3. Detects and displays contours for user selection
- * 4. Generates initial 3D model from the largest detected contour
- * 5. Sets up event handlers for interactive contour selection and STL export
- * 
- * @param {any} cv - The OpenCV.js module instance
+ * 1. Sets up Three.js scene, camera, and renderer on first use
+ * 2. Reads the input image pixels and sends them to the cutter worker
+ * 3. Displays the detected contours for user selection
+ * 4. Shows the 3D model the worker built from the largest detected contour
+ *
  * @param {Element | null} imgElement - The HTML image element containing the source image
  * @param {Element | null} canvasElement - The canvas element for displaying processed results
- * @param {string} saveFilename - Base filename for STL export (without extension)
+ * @param {string} filename - Base filename for STL export (without extension)
+ * @param {project_t | null} opened - The saved project the image belongs to, null to start a new project
  */
-export default function processImage(
-    cv: any,
+export default async function processImage(
     imgElement: Element | null,
     canvasElement: Element | null,
-    saveFilename: string) {
+    filename: string,
+    opened: project_t | null = null) {
 
     /* height and width of image can't be zero */
     imgElement.height = imgElement.height || 1;
     imgElement.width = imgElement.width || 1;
 
-    console.log('canvasElement: ', canvasElement instanceof HTMLCanvasElement)
+    setupScene(canvasElement);
+    saveFilename = filename;
+    hasImage = true;
 
+    // wait for the new src to finish loading before reading its pixels
+    await imgElement.decode().catch(() => { });
 
-    if (canvasElement) {
-        canvasElement.addEventListener('click', function (evt: any) {
+    project = opened;
+    forgetSelection();
+    buildCutter({ image: readPixels(imgElement), ...selectionChange(opened && opened.settings) });
 
-            const rect = canvasElement.getBoundingClientRect();
-            //TODO Relative Offsets
-            const x = evt.clientX - (rect.left)
-            const y = evt.clientY - (rect.top)
-            updateContourSelection(x, y)
-        });
+    if (!opened) {
+        fetch(imgElement.src)
+            .then(response => response.blob())
+            .then(image => startProject(filename, { image }))
+            .catch(err => listeners.onStatus(null, `couldn't save the project: ${err.message}`));
     }
+}
 
-    const scene = new THREE.Scene();
-    const renderer = new THREE.WebGLRenderer({ alpha: true });
-    const camera = new THREE.PerspectiveCamera(75, 200 / 200, 2, 1000);
-    const controls = new OrbitControls(camera, renderer.domElement);
-    const exporter = new STLExporter();
-
+/**
+ * Makes a cutter from a drawn outline instead of an image
+ *
+ * The drawing goes through the same worker pipeline as a detected contour,
+ * so every setting, the outline tools and the exports work the same way.
+ *
+ * @param {drawing_t} drawing - The drawn outline and the size of its pad
+ * @param {Element | null} canvasElement - The canvas element for displaying the outline
+ * @param {string} filename - Base filename for STL export (without extension)
+ * @param {project_t | null} opened - The saved project the drawing belongs to, null to start a new project
+ */
+export function processDrawing(drawing: drawing_t, canvasElement: Element | null, filename: string, opened: project_t | null = null) {
+    setupScene(canvasElement);
+    saveFilename = filename;
+    hasImage = true;
 
-    var contours: any;
-    var contourMap: any;
-    var contourNumMap: any;
-    var hierarchy: any;
-    var lastCnt: any;
-    var panel3d = document.getElementById('threeoutput')
+    project = opened;
+    forgetSelection();
+    buildCutter({ drawing, ...selectionChange(opened && opened.settings) });
 
-    var width = panel3d.clientWidth
-    var height = 300
-    if (width < 300) {
-    height = width
+    if (!opened) {
+        startProject(filename, { drawing });
     }
+}
 
-
-    renderer.setSize(width, height);
-    camera.up.set(0, 0, 1)
-    camera.position.z = 100;
-    camera.position.x = 40;
-    camera.position.y = 122;
-    camera.rotation.z = -3;
-    camera.rotation.x = 0;
-    camera.rotation.y = 0;
-    camera.lookAt(new THREE.Vector3(50, 0, 50)); // Set look at coordinate like this
-    
-    // Clear any existing renderer canvases before adding new one
-    while (panel3d.firstChild) {
-        panel3d.removeChild(panel3d.firstChild);
+/**
+ * Opens a saved project in place of the current cutter
+ *
+ * The settings come back first, without rebuilding the old cutter or
+ * making an undo step, and the history of the previous cutter is dropped.
+ * The image or drawing then goes to the worker together with the contours
+ * picked and the edits made in the project.
+ *
+ * @param {project_t} opened - The saved project
+ * @param {HTMLImageElement} imgElement - The HTML image element the source image is shown in
+ * @param {Element | null} canvasElement - The canvas element for displaying processed results
+ */
+export async function openProject(opened: project_t, imgElement: HTMLImageElement, canvasElement: Element | null) {
+    hasImage = false;
+    project = null;
+
+    const imageSrc = opened.image ? URL.createObjectURL(opened.image) : "";
+    // projects saved before the size constraint existed sized the longest side
+    cookieState.update({ sizeConstraint: "longest", ...opened.settings, imageSrc }, { record: false });
+    cookieState.clearHistory();
+
+    if (opened.image) {
+        imgElement.src = imageSrc;
+        imgElement.height = opened.settings.imageHeight;
+        imgElement.width = opened.settings.imageWidth;
+        await processImage(imgElement, canvasElement, opened.settings.saveFileName, opened);
+    } else {
+        processDrawing(opened.drawing, canvasElement, opened.settings.saveFileName, opened);
     }
-    
-    panel3d.appendChild(renderer.domElement);
+}
 
-    
-    const buttonExportASCII = document.getElementById('exportASCII');
-    buttonExportASCII.addEventListener('click', saveTextAsFile);
-
-
-    onImageLoad();
-
-    /**
-     * Processes the loaded image using OpenCV.js computer vision operations
-     * 
-     * This function performs the core image processing workflow:
-     * 1. Adds padding to prevent edge artifacts
-     * 2. Converts to grayscale and applies adaptive thresholding
-     * 3. Finds contours using OpenCV's findContours algorithm
-     * 4. Filters contours by area to exclude noise and boundary
-     * 5. Draws contours on canvas for visualization
-     * 6. Generates 3D model from the largest valid contour
-     * 
-     * The function uses adaptive thresholding to handle varying lighting conditions
-     * and creates multiple contour maps for interactive selection.
-     */
-    function onImageLoad() {
-
-        console.log(imgElement)
-
-        //Add Some Padding so images close to the edge still work
-        const srcPre = cv.imread(imgElement);
-        const src = new cv.Mat();
-        // You can try more different parameters
-        const offset = 10
-        cv.copyMakeBorder(srcPre, src, offset, offset, offset, offset, cv.BORDER_WRAP);
-
-        const dst = src.clone()
-        contourMap = cv.Mat.zeros(src.rows, src.cols, cv.CV_8UC3);
-        contourNumMap = []
-        var contIndex = 1
-
-        cv.cvtColor(src, src, cv.COLOR_RGBA2GRAY, 0);
-        cv.adaptiveThreshold(src, src, 255, cv.ADAPTIVE_THRESH_GAUSSIAN_C, cv.THRESH_BINARY, 5, 1);
-        cv.cvtColor(dst, dst, cv.COLOR_RGBA2GRAY, 0);
-        cv.cvtColor(dst, dst, cv.COLOR_GRAY2RGBA, 0);
-
-        if (contours) {
-            contours.delete();
-            contours = new cv.MatVector();
-        } else {
-            contours = new cv.MatVector();
-        }
+/**
+ * Reads the id of the project the cutter belongs to
+ *
+ * @returns {string} Id of the open project, empty before the first save
+ */
+export function currentProjectId(): string {
+    return project ? project.id : "";
+}
 
+/**
+ * Makes a new image or drawing the open project, and saves it
+ *
+ * @param {string} name - Name for the recent projects list
+ * @param {{ image?: Blob, drawing?: drawing_t }} source - What the cutter is made from
+ */
+function startProject(name: string, source: { image?: Blob, drawing?: drawing_t }) {
+    project = projectStore.create(name, source, pickProjectSettings(cookieState.get()));
+    saveProjectSoon();
+}
 
-        hierarchy = new cv.Mat();
-        // You can try more different parameters
-        cv.findContours(src, contours, hierarchy, cv.RETR_LIST, cv.CHAIN_APPROX_SIMPLE);
-        let largestContour = 0
-        let maxArea = 0.0
-        let clockwise = true
-        let boundaryCountourAreaCutoff = (src.cols * src.rows) * .90 // If an Area is 98% of the entire image is probably the bounday
+/**
+ * Saves the open project once the changes have settled
+ *
+ * Nothing is saved while the worker has yet to pick a contour in a new
+ * image, the preview that follows saves the project with its pick.
+ */
+function saveProjectSoon() {
+    if (!project) return;
 
-        // find the biggest (reasonable Contour)
-        for (let i = 0; i < contours.size(); ++i) {
+    clearTimeout(saveTimer);
+    saveTimer = setTimeout(() => {
+        const state = cookieState.get();
+        if (!project || state.selection < 0) return;
 
-            let cnt = contours.get(i);
-            let area = cv.contourArea(cnt, true);
-            let cw = true
-            if (area < 0) {
-                cw = false
-                area = -area
-            }
+        project.settings = pickProjectSettings(state);
+        projectStore.save(project).catch(err => listeners.onStatus(null, err.message));
+    }, PROJECT_SAVE_DELAY);
+}
 
-            if (area > boundaryCountourAreaCutoff * .1 && area < boundaryCountourAreaCutoff) {
-                cv.drawContours(dst, contours, i, new cv.Scalar(0, 0, 255, 255), 1, cv.LINE_8, hierarchy, 100);
-                //Draw a line with the contour # so we can find it from clicks
-                cv.drawContours(contourMap, contours, i, new cv.Scalar(contIndex, 0, 255, 255), 30, cv.LINE_8, hierarchy, 100);
+/**
+ * Takes a small picture of the 3D preview for the recent projects list
+ *
+ * @returns {string} PNG data URL
+ */
+function takeThumbnail(): string {
+    // the drawing buffer of the renderer can only be read right after rendering
+    renderer.render(scene, camera);
+
+    const source = renderer.domElement;
+    const scale = PROJECT_THUMBNAIL_SIZE / Math.max(source.width, source.height, 1);
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.max(1, Math.round(source.width * scale));
+    canvas.height = Math.max(1, Math.round(source.height * scale));
+    canvas.getContext("2d").drawImage(source, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL("image/png");
+}
 
-                contourNumMap.push(i)
-                contIndex++
-            }
+/**
+ * Drops the picked contours and edits of the previous image, and their undo steps
+ *
+ * The worker picks the largest contour of the new image, which comes back
+ * with its preview.
+ */
+function forgetSelection() {
+    selectionShown = "";
+    cookieState.update({ selection: -1, merge: [], stampSelection: null, outline: null }, { record: false });
+    cookieState.forget(SELECTION_KEYS);
+}
 
-            if (area < boundaryCountourAreaCutoff && area * 1.0 > maxArea * 1.0) {
-                largestContour = i
-                maxArea = area
-                clockwise = cw
+/**
+ * Sends the picked contours and outline edits of the cookie state to the worker
+ *
+ * Runs for clicks and edits as well as for undo and redo. Nothing is sent
+ * while the state matches what the worker showed last, which is the case
+ * right after a preview arrived.
+ *
+ * @param {CookieState_t} state - The cookie state after the change
+ */
+function applySelection(state: CookieState_t) {
+    if (!hasImage || state.selection < 0) return;
 
-            }
+    const key = JSON.stringify(SELECTION_KEYS.map(k => state[k]));
+    if (key === selectionShown) return;
+    selectionShown = key;
 
-        }
-        contIndex = 1
-        //Draw a Thin Contour Line to reduce over righting
-        for (let i = 0; i < contours.size(); ++i) {
+    buildCutter(selectionChange(state));
+}
 
-            let cnt = contours.get(i);
-            let area = cv.contourArea(cnt, false);
+/**
+ * Turns the picked contours and outline edits into a change for the worker
+ *
+ * @param {ProjectSettings | null} settings - The cookie state or the settings of a saved project
+ * @returns {CutterChange} The selection, merge, edits and stamp lines, empty when nothing was picked yet
+ */
+function selectionChange(settings: ProjectSettings | null): CutterChange {
+    if (!settings || settings.selection < 0) return {};
 
-            if (area > boundaryCountourAreaCutoff * .1 && area < boundaryCountourAreaCutoff) {
-                cv.drawContours(contourMap, contours, i, new cv.Scalar(contIndex, 0, 255, 255), 10, cv.LINE_8, hierarchy, 100);
-                contIndex++
-            }
-        }
+    const change: CutterChange = { selection: settings.selection, merge: settings.merge, outline: settings.outline };
+    // the worker only knows the interior lines while the stamp is on
+    if (settings.stamp && settings.stampSelection) {
+        change.stampSelection = settings.stampSelection;
+    }
+    return change;
+}
 
-        contIndex = 1
-        //Draw a Thin Contour Line to reduce over righting
-        for (let i = 0; i < contours.size(); ++i) {
+/**
+ * Rebuilds the cutter after a setting changed in the cookie state
+ *
+ * Does nothing until an image has been processed, or when none of the
+ * settings that shape the cutter, the detection or the narrow feature check
+ * changed. A rebuild still running in the worker is cancelled; new detection
+ * settings make the worker search the image again and redraw the canvas.
+ */
+function refreshCutter() {
+    if (!hasImage) return;
 
-            let cnt = contours.get(i);
-            let area = cv.contourArea(cnt, false);
+    const state = cookieState.get();
+    if (JSON.stringify([pickCutterSettings(state), pickDetectionSettings(state), Number(state.minInnerRadius)]) === lastSettings) return;
+    buildCutter({});
+}
 
-            if (area > boundaryCountourAreaCutoff * .1 && area < boundaryCountourAreaCutoff) {
-                cv.drawContours(contourMap, contours, i, new cv.Scalar(contIndex, 0, 255, 255), 3, cv.LINE_8, hierarchy, 100);
-                contIndex++
-            }
-        }
+/**
+ * Picks the outline editing tool
+ *
+ * While a tool is picked, the edge detection canvas edits the selected outline
+ * instead of picking contours. The tool is remembered until the canvas exists.
+ *
+ * @param {EditTool} tool - The editing tool, "off" to go back to picking contours
+ */
+export function setEditTool(tool: EditTool) {
+    editTool = tool;
+    if (!editor) return;
 
+    editor.setTool(tool);
+}
 
-        cv.drawContours(dst, contours, largestContour, new cv.Scalar(255, 0, 0, 255), 2, cv.LINE_8, hierarchy, 100);
+/**
+ * Switches the edge detection canvas between the image and the detection masks
+ *
+ * @param {MaskView} view - The mask to show, "off" for the image with its contours
+ */
+export function setMaskView(view: MaskView) {
+    maskView = view;
+    if (preview) drawCanvas();
+}
 
-        let cnt = contours.get(largestContour);
+/**
+ * Drops every edit and goes back to the detected contour
+ */
+export function resetOutline() {
+    if (!hasImage) return;
+    cookieState.update({ outline: null });
+}
 
+/**
+ * Reads the RGBA pixels of an image element at its display size
+ *
+ * @param {HTMLImageElement} imgElement - The loaded source image
+ * @returns {ImageData} The image pixels
+ */
+function readPixels(imgElement: HTMLImageElement): ImageData {
+    const canvas = document.createElement("canvas");
+    canvas.width = imgElement.width;
+    canvas.height = imgElement.height;
 
-        //Limit the Output Size
-        let scale = MAX_DIM / Math.max(dst.cols, dst.rows)
-        let dsize = new cv.Size(scale * dst.cols, scale * dst.rows);
-        cv.resize(dst, dst, dsize, 0, 0, cv.INTER_LINEAR);
-        cv.resize(contourMap, contourMap, dsize, 0, 0, cv.INTER_LINEAR);
+    const ctx = canvas.getContext("2d");
+    ctx.drawImage(imgElement, 0, 0, canvas.width, canvas.height);
+    return ctx.getImageData(0, 0, canvas.width, canvas.height);
+}
 
-        cv.imshow('canvasOutput', dst);
-        src.delete(); dst.delete();
+/**
+ * Sends a job to the cutter worker and shows the resulting mesh
+ *
+ * @param {CutterChange} change - New image and/or contour selection, empty to just rebuild
+ */
+function buildCutter(change: CutterChange) {
+    const settings = pickCutterSettings(cookieState.get());
+    const detection = pickDetectionSettings(cookieState.get());
+    const minInnerRadius = Number(cookieState.get().minInnerRadius);
+    lastSettings = JSON.stringify([settings, detection, minInnerRadius]);
+
+    building = client.submit(change, settings, detection, minInnerRadius)
+        .then(mesh => {
+            if (!mesh) return;
+            meshSettings = settings;
+            showMesh(mesh);
+            showFeatures(mesh.features);
+
+            if (project) {
+                project.thumbnail = takeThumbnail();
+                saveProjectSoon();
+            }
+        })
+        .catch(err => listeners.onStatus(null, err.message));
+}
 
+/**
+ * Sets up the Three.js scene, the 3D preview and the event handlers
+ *
+ * Only runs once; later images reuse the same renderer, so click and export
+ * handlers are never registered twice.
+ *
+ * @param {HTMLCanvasElement} canvasElement - The canvas showing the edge detection
+ */
+function setupScene(canvasElement: HTMLCanvasElement) {
+    if (renderer) return;
+
+    canvasOutput = canvasElement;
+    editor = new OutlineEditor(canvasOutput, {
+        onChange: () => preview && drawCanvas(),
+        onCommit: outline => cookieState.update({ outline })
+    });
+    editor.setTool(editTool);
+
+    canvasOutput.addEventListener('click', function (evt: any) {
+        // clicks belong to the outline editor while it is in use
+        if (editor.active) return;
+
+        // the canvas may be scaled by CSS, map the click back to preview pixels
+        const rect = canvasOutput.getBoundingClientRect();
+        const x = Math.floor((evt.clientX - rect.left) * canvasOutput.width / rect.width)
+        const y = Math.floor((evt.clientY - rect.top) * canvasOutput.height / rect.height)
+        updateContourSelection(x, y, evt.shiftKey)
+    });
+
+    scene = new THREE.Scene();
+    renderer = new THREE.WebGLRenderer({ alpha: true });
+    camera = new THREE.PerspectiveCamera(75, 200 / 200, 2, 1000);
+    controls = new OrbitControls(camera, renderer.domElement);
 
-        lastCnt = cnt
-        generateSTL(cnt)
-        animate();
+    var panel3d = document.getElementById('threeoutput')
 
+    var width = panel3d.clientWidth
+    var height = 300
+    if (width < 300) {
+    height = width
     }
-    
-    /**
-     * Generates a 3D cookie cutter model from a contour and exports as STL
-     * 
-     * This function creates a complete 3D printable cookie cutter by:
-     * 1. Reading user configuration (depth, thickness, tolerance, etc.)
-     * 2. Creating inner and outer shapes with specified wall thickness
-     * 3. Extruding shapes to create the cutting edge and handle
-     * 4. Optionally applying bevels for sharper cutting edges
-     * 5. Merging geometries into a single mesh
-     * 6. Adding lighting and rendering the 3D preview
-     * 
-     * The generated model includes both the cutting edge and a handle for easy use.
-     * 
-     * @param {any} cnt - OpenCV contour object containing the shape boundary points
-     */
-    function generateSTL(cnt: any) {
-        const height = Number(cookieState.get().depth);
-        const handleWidth = 4.2;
-        const handleThickness = 2;
-        const width = Number(cookieState.get().thickness);
-        const tolerance = Number(cookieState.get().tolerance);
-
-        const bevelCutter = Boolean(cookieState.get().cutterBevel);
-        const handleRound = Boolean(cookieState.get().handleRound);
-
-
-        var extrudeSettings = {
-            steps: 1,
-            depth: 0,
-            bevelEnabled: true,
-            bevelThickness: height / 2,
-            bevelSize: width / 2,
-            bevelOffset: 0,
-            bevelSegments: 1
-        };
-
-        var extrudeSettings2 = {
-            steps: 1,
-            depth: height / 2,
-            bevelEnabled: false,
-        };
-
-        if (!bevelCutter) {
-            extrudeSettings2.depth = height
-        }
 
 
-        var handleExtrudeSettings = {
-            steps: 1,
-            depth: handleThickness,
-            bevelEnabled: handleRound,
-            bevelThickness: .6,
-            bevelSize: .6,
-            bevelOffset: 0,
-            bevelSegments: 5
-        };
+    renderer.setSize(width, height);
+    camera.up.set(0, 0, 1)
+    camera.position.z = 100;
+    camera.position.x = 40;
+    camera.position.y = 122;
+    camera.rotation.z = -3;
+    camera.rotation.x = 0;
+    camera.rotation.y = 0;
+    camera.lookAt(new THREE.Vector3(50, 0, 50)); // Set look at coordinate like this
 
+    // Clear the placeholder before adding the renderer canvas
+    while (panel3d.firstChild) {
+        panel3d.removeChild(panel3d.firstChild);
+    }
 
-        const cookieSize = cookieState.get().size;
+    panel3d.appendChild(renderer.domElement);
 
-        //Add some width to the contour to create a shape, and scale to the cookieSize
 
+    const buttonExportASCII = document.getElementById('exportASCII');
+    buttonExportASCII.addEventListener('click', saveTextAsFile);
 
-        var outShape
-        var outShape2
+    animate();
+}
 
+/**
+ * Draws the worker's edge detection preview on the canvas
+ *
+ * The preview shows the candidate contours in blue and the selected one in
+ * red. Its contour map is kept so clicks can be mapped to contours. The
+ * contours and edits it shows are written back to the cookie state without
+ * an undo step, so the state always matches the canvas.
+ *
+ * @param {cutter_preview_t} newPreview - Preview sent by the worker
+ */
+function showPreview(newPreview: cutter_preview_t) {
+    preview = newPreview;
+    editor.setOutline(preview.outline, preview.scale, preview.edited);
+
+    // the old features belong to the previous outline
+    features = [];
+    drawCanvas();
+    listeners.onOutline(outlineBounds(preview.outline));
+
+    const shown: Partial<CookieState_t> = {
+        selection: preview.selected,
+        merge: preview.merged,
+        stampSelection: preview.stampMap.length ? preview.stampSelected : null,
+        outline: preview.edited ? preview.outline : null
+    };
+    selectionShown = JSON.stringify(SELECTION_KEYS.map(k => shown[k]));
+    cookieState.update(shown, { record: false });
+}
 
-        if (bevelCutter) {
-            outShape = getScaledOutlineShape(cnt, width / 2, handleWidth, cookieSize, tolerance)
-            outShape2 = getScaledOutlineShape(cnt, width * 3 / 2, handleWidth, cookieSize, tolerance)
-        } else {
-            outShape = getScaledOutlineShape(cnt, width / 2, handleWidth, cookieSize, tolerance)
-        }
+/**
+ * Paints the preview and shades the narrow features on top of it
+ *
+ * Every feature is numbered to match the list next to the canvas. The outline
+ * editor draws its vertices last. While a mask view is on, the mask takes
+ * the place of the preview image.
+ */
+function drawCanvas() {
+    const shown = maskView !== "off" && preview.masks ? preview.masks[maskView] : preview.image;
+    const { data, width, height } = shown;
+    canvasOutput.width = width;
+    canvasOutput.height = height;
 
+    const ctx = canvasOutput.getContext("2d");
+    ctx.putImageData(new ImageData(data, width, height), 0, 0);
 
-        const handleoutShape = getScaledOutlineShape(cnt, handleWidth, handleWidth, cookieSize, tolerance)
+    ctx.strokeStyle = "rgba(255, 107, 53, 0.55)";
+    ctx.fillStyle = "#FF6B35";
+    ctx.lineWidth = 10;
+    ctx.lineCap = "round";
+    ctx.lineJoin = "round";
+    ctx.font = "bold 14px sans-serif";
 
-        var material = new THREE.MeshStandardMaterial({ color: 'purple' });
-        material.color.set(0xAA22AA);
+    features.forEach((feature, n) => {
+        const pixels = feature.pixels.map(pt => ({ x: pt.x * preview.scale, y: pt.y * preview.scale }));
 
-        var geom = new THREE.Geometry();
+        ctx.beginPath();
+        pixels.forEach((pt, i) => i ? ctx.lineTo(pt.x, pt.y) : ctx.moveTo(pt.x, pt.y));
+        if (pixels.length === 1) ctx.lineTo(pixels[0].x + .1, pixels[0].y);
+        ctx.stroke();
 
-        //Extrude the Cutter (using compatible API)
-        if (bevelCutter) {
-            var cgeometry = new THREE.Geometry().fromBufferGeometry(new THREE.ExtrudeBufferGeometry(outShape, extrudeSettings));
-            cgeometry.applyMatrix(new THREE.Matrix4().makeTranslation(0, 0, height / 2));
-            var cmesh = new THREE.Mesh(cgeometry, material);
-            cmesh.updateMatrix()
+        const label = pixels[Math.floor(pixels.length / 2)];
+        ctx.fillText(String(n + 1), label.x + 8, label.y - 8);
+    });
 
-            var c2geometry = new THREE.Geometry().fromBufferGeometry(new THREE.ExtrudeBufferGeometry(outShape2, extrudeSettings2));
-            var c2mesh = new THREE.Mesh(c2geometry, material);
-            c2mesh.updateMatrix()
+    editor.draw(ctx);
+}
 
-            geom.mergeMesh(c2mesh);
-            geom.mergeMesh(cmesh);
+/**
+ * Shows the narrow features the worker found along with the mesh
+ *
+ * They were found with the settings the displayed mesh was built with, so
+ * the shading always matches the 3D preview.
+ *
+ * @param {narrow_feature_t[]} found - Problem stretches of the selected outline
+ */
+function showFeatures(found: narrow_feature_t[]) {
+    features = found;
 
-        } else {
-            var c2geometry = new THREE.Geometry().fromBufferGeometry(new THREE.ExtrudeBufferGeometry(outShape, extrudeSettings2));
-            var c2mesh = new THREE.Mesh(c2geometry, material);
-            c2mesh.updateMatrix()
+    drawCanvas();
+    showFeatureMarkers();
+    listeners.onFeatures(features);
+}
 
-            geom.mergeMesh(c2mesh);
-        }
+/**
+ * Marks the narrow features in the 3D preview
+ *
+ * Each feature gets a line along the top of the cutting edge and a ball in
+ * the middle, in the same colour as the shading on the canvas.
+ */
+function showFeatureMarkers() {
+    scene.remove(featureMarkers);
+    featureMarkers.children.forEach(marker => marker.geometry.dispose());
+    featureMarkers = new THREE.Group();
+
+    const z = Number(meshSettings.depth) + .5;
+    const lineMaterial = new THREE.LineBasicMaterial({ color: FEATURE_COLOR });
+    const ballMaterial = new THREE.MeshBasicMaterial({ color: FEATURE_COLOR });
+
+    for (const feature of features) {
+        const points = feature.points.map(pt => new THREE.Vector3(pt.x, pt.y, z));
+        featureMarkers.add(new THREE.Line(new THREE.BufferGeometry().setFromPoints(points), lineMaterial));
+
+        const ball = new THREE.Mesh(new THREE.SphereBufferGeometry(1, 12, 8), ballMaterial);
+        ball.position.copy(points[Math.floor(points.length / 2)]);
+        featureMarkers.add(ball);
+    }
 
-        //Extrude the Handle
-        var hgeometry = new THREE.Geometry().fromBufferGeometry(new THREE.ExtrudeBufferGeometry(handleoutShape, handleExtrudeSettings));
-        var hmesh = new THREE.Mesh(hgeometry, material);
-        hmesh.updateMatrix()
+    scene.add(featureMarkers);
+}
 
-        geom.mergeMesh(hmesh);
-        geom.mergeVertices()
+/**
+ * Shows a cutter mesh built by the worker in the 3D preview
+ *
+ * The geometry comes from the headless core (scaling, simplification, wall
+ * and handle offsetting, extrusion and merging) using the cookie state at
+ * the time of the request. This function only swaps the result into the
+ * scene, adds lighting and renders the 3D preview.
+ *
+ * @param {cutter_mesh_t} mesh - Triangle arrays sent by the worker
+ */
+function showMesh(mesh: cutter_mesh_t) {
+    var material = new THREE.MeshStandardMaterial({ color: 'purple' });
+    material.color.set(0xAA22AA);
+
+    // Remove the Old Objects
+    while (scene.children.length > 0) {
+        const child = scene.children[0];
+        if (child.geometry) child.geometry.dispose();
+        scene.remove(child);
+    }
 
-        // Remove the Old Objects
-        while (scene.children.length > 0) {
-            scene.remove(scene.children[0]);
-        }
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(mesh.positions, 3));
+    geometry.setAttribute('normal', new THREE.BufferAttribute(mesh.normals, 3));
+
+    cutterMesh = new THREE.Mesh(geometry, material);
+    scene.add(cutterMesh);
+
+    stampMesh = null;
+    if (mesh.stamp) {
+        const stampGeometry = new THREE.BufferGeometry();
+        stampGeometry.setAttribute('position', new THREE.BufferAttribute(mesh.stamp.positions, 3));
+        stampGeometry.setAttribute('normal', new THREE.BufferAttribute(mesh.stamp.normals, 3));
+        stampMesh = new THREE.Mesh(stampGeometry, new THREE.MeshStandardMaterial({ color: STAMP_COLOR }));
+
+        // the stamp fits inside the cutter, move it out next to it for the preview only
+        geometry.computeBoundingBox();
+        stampGeometry.computeBoundingBox();
+        stampMesh.position.x = geometry.boundingBox.max.x - stampGeometry.boundingBox.min.x + STAMP_PREVIEW_GAP;
+        scene.add(stampMesh);
+    }
 
-        scene.add(new THREE.Mesh(geom, material));
+    meshReport = mesh.report;
+    listeners.onReport(meshReport);
 
-        var light = new THREE.PointLight(0xffffff, 2, 200);
-        light.position.set(50, 50, 50);
-        scene.add(light);
-        var light = new THREE.PointLight(0xffffff, 2, 100);
-        light.position.set(-50, -50, -50);
+    var light = new THREE.PointLight(0xffffff, 2, 200);
+    light.position.set(50, 50, 50);
+    scene.add(light);
+    var light = new THREE.PointLight(0xffffff, 2, 100);
+    light.position.set(-50, -50, -50);
 
-        renderer.render(scene, camera);
-        controls.update();
-    }
+    renderer.render(scene, camera);
+    controls.update();
+}
 
-    /**
-     * Creates a scaled outline shape with inner and outer boundaries for 3D extrusion
-     * 
-     * This function generates the cookie cutter cross-section by:
-     * 1. Calculating optimal scaling to fit within desired dimensions
-     * 2. Drawing the contour with specified line thickness on a high-resolution canvas
-     * 3. Using contour detection to find inner and outer boundaries
-     * 4. Converting to Three.js Vector2 points for geometry creation
-     * 5. Creating a THREE.Shape with holes for proper extrusion
-     * 
-     * The approach uses a "draw and detect" method to ensure clean boundaries
-     * without overlapping artifacts that can occur with mathematical offset approaches.
-     * 
-     * @param {any} cnt - OpenCV contour object with shape boundary points
-     * @param {number} width - Wall thickness in millimeters
-     * @param {number} maxBoundaryOffetWidth - Maximum boundary offset width
-     * @param {number} maxDesiredOut - Maximum desired output dimension
-     * @param {any} tol - Tolerance for point simplification to reduce geometry complexity
-     * @returns {THREE.Shape} Three.js shape object ready for extrusion
-     */
-    function getScaledOutlineShape(
-        cnt: any,
-        width: number,
-        maxBoundaryOffetWidth: number,
-        maxDesiredOut: number,
-        tol: any
-    ) {
-        let rect = cv.boundingRect(cnt);
-        let maxCntDimension = Math.max(rect.width, rect.height);
-
-
-        let walloffset = Math.ceil((maxBoundaryOffetWidth + 1) * 12)
-        //We Could do the math, but things run into trouble with overlaps, we can cheat
-        //lets draw and image using the contour scaled 10x our cookie cutter size
-        //width 10x then we can extract the inner and outer contours and scale them back to be our boundary insuring no werid overlaps
-        let dst = cv.Mat.zeros(maxDesiredOut * 10 + walloffset * 2, maxDesiredOut * 10 + walloffset * 2, cv.CV_8UC3);
-        let lineThickness = 10 * width
-
-        const scale = (maxDesiredOut * 10) / maxCntDimension
-
-        for (let i = 0; i < cnt.rows; i++) {
-            const nexti = (i + 1) % (cnt.rows)
-            var X1 = Math.round(scale * (cnt.data32S[i * 2] - rect.x) + walloffset)
-            var Y1 = Math.round(scale * (cnt.data32S[i * 2 + 1] - rect.y) + walloffset)
-            var X2 = Math.round(scale * (cnt.data32S[nexti * 2] - rect.x) + walloffset)
-            var Y2 = Math.round(scale * (cnt.data32S[nexti * 2 + 1] - rect.y) + walloffset)
-            cv.line(dst, new cv.Point(X1, Y1), new cv.Point(X2, Y2), new cv.Scalar(255, 255, 255), lineThickness)
-        }
+/**
+ * Animation loop for Three.js scene rendering
+ *
+ * This function continuously renders the 3D scene and:
+ * 1. Updates orbital controls for smooth camera movement
+ * 2. Renders the scene with current camera position
+ * 3. Calls camera debug function if enabled
+ * 4. Requests the next animation frame for smooth 60fps rendering
+ *
+ * The animation loop is essential for interactive 3D preview functionality.
+ */
+function animate() {
 
+    requestAnimationFrame(animate);
 
-        cv.threshold(dst, dst, 70, 255, cv.THRESH_BINARY_INV);
-        cv.cvtColor(dst, dst, cv.COLOR_RGBA2GRAY, 0);
-        cv.threshold(dst, dst, 120, 200, cv.THRESH_BINARY);
+    // required if controls.enableDamping or controls.autoRotate are set to true
+    controls.update();
 
+    renderer.render(scene, camera);
 
-        //OK Now we should be able to do some contour detection to find the inner and outer lines
-        let contours = new cv.MatVector();
-        let hierarchy = new cv.Mat();
-        cv.findContours(dst, contours, hierarchy, cv.RETR_LIST, cv.CHAIN_APPROX_SIMPLE);
+    camera_debug(); // debug the camera if CAMERA_DEBUG = true
 
-        let largestContour = 1
-        let otherContour = 0
-        let maxArea = 0.0
-        let boundaryCountourAreaCutoff = (dst.cols * dst.rows) * .95 // If an Area is 95% of the entire image is probably the bounday
-        // find the biggest (reasonable Contour)
-        for (let i = 0; i < contours.size(); ++i) {
+}
 
-            let ncnt = contours.get(i);
-            let area = cv.contourArea(ncnt, false);
+/**
+ * Debug function for camera position monitoring
+ *
+ * When CAMERA_DEBUG is on, it writes the current camera coordinates to the
+ * cookie state, where the camera debug overlay subscribes to them. The
+ * camera is not a choice to undo, so no undo step is made.
+ */
+function camera_debug() {
+    if (!CAMERA_DEBUG) return;
+
+    cookieState.update({
+        camera_pos: {
+            x: Number(camera.position.x.toFixed(3)),
+            y: Number(camera.position.y.toFixed(3)),
+            z: Number(camera.position.z.toFixed(3)),
+            rx: Number(camera.rotation.x.toFixed(3)),
+            ry: Number(camera.rotation.y.toFixed(3)),
+            rz: Number(camera.rotation.z.toFixed(3)),
+        }
+    }, { record: false });
+}
 
-            if (area * 1.0 > maxArea * 1.0 && area < boundaryCountourAreaCutoff) {
-                otherContour = largestContour
-                largestContour = i
-                maxArea = area
+/**
+ * Handles user clicks on the canvas to select different contours interactively
+ *
+ * This function enables users to click on the processed image canvas to select
+ * different detected contours for their cookie cutter. The workflow:
+ * 1. Maps click coordinates to contour map pixel values
+ * 2. Identifies which contour was clicked based on the contour number
+ * 3. Writes the selection to the cookie state, which has the worker highlight
+ *    it and rebuild the model, and makes it an undo step
+ *
+ * This allows users to choose from multiple detected shapes in complex images.
+ * Shift-clicks add the contour to the selection or take it out again, and
+ * the worker merges every selected contour into one outline. While a stamp
+ * is on, clicks on its interior lines come first and add or remove the line
+ * from the stamp instead.
+ *
+ * @param {number} x - X coordinate of the click in preview pixels
+ * @param {number} y - Y coordinate of the click in preview pixels
+ * @param {boolean} extend - Whether to add or remove the contour instead of picking only it
+ */
+function updateContourSelection(x: number, y: number, extend: boolean = false) {
+
+    //Figure out if we clicked close enough to a countor
+    if (!preview || x < 0 || y < 0 || x >= preview.image.width || y >= preview.image.height) return;
+
+    const detail = preview.stampMap.length ? preview.stampMap[y * preview.image.width + x] : 0;
+    if (detail != 0) {
+        const i = preview.details[detail - 1];
+        const stampSelection = preview.stampSelected.includes(i)
+            ? preview.stampSelected.filter(selected => selected !== i)
+            : preview.stampSelected.concat(i);
+        cookieState.update({ stampSelection });
+        return;
+    }
 
-            }
-        }
+    const n = preview.contourMap[y * preview.image.width + x];
+    if (n == 0) return;
 
-        const outer = getThreeVector(contours.get(largestContour), .1, tol)
-        const inner = getThreeVector(contours.get(otherContour), .1, tol)
+    const i = preview.candidates[n - 1];
+    const members = [preview.selected].concat(preview.merged);
+    if (!extend && members.length === 1 && i === preview.selected) return;
 
-        const outShape = new THREE.Shape(outer);
-        const hole = new THREE.Path();
-        hole.setFromPoints(inner);
-        outShape.holes = [hole];
-        return outShape
+    const picked = !extend ? [i]
+        : members.includes(i) ? members.filter(member => member !== i) : members.concat(i);
+    if (!picked.length) return;
 
+    // edits belong to the old outline, the stamp lines to the old selected contour
+    const selection: Partial<CookieState_t> = { selection: picked[0], merge: picked.slice(1), outline: null };
+    if (picked[0] !== preview.selected) {
+        selection.stampSelection = null;
     }
+    cookieState.update(selection);
+}
 
-    /**
-     * Converts an OpenCV contour to an array of Three.js Vector2 points
-     * 
-     * This function optimizes the contour for 3D rendering by:
-     * 1. Extracting x,y coordinates from OpenCV contour data
-     * 2. Applying scaling factor for proper sizing
-     * 3. Filtering points based on tolerance to reduce complexity
-     * 4. Converting to Three.js Vector2 format for geometry creation
-     * 
-     * The tolerance filtering removes redundant points that are too close together,
-     * which reduces file size and improves 3D printing performance without
-     * significantly affecting shape accuracy.
-     * 
-     * @param {any} cnt - OpenCV contour object containing point data
-     * @param {number} scaleF - Scaling factor to apply to coordinates
-     * @param {number} tolerace - Minimum distance between points (filters redundant points)
-     * @returns {THREE.Vector2[]} Array of Three.js Vector2 points ready for shape creation
-     */
-    function getThreeVector(cnt: any, scaleF: any, tolerace: any) {
-        const cPoints = []
-        const scale = scaleF
-        var lastX = -1000
-        var lastY = -1000
-        for (let i = 0; i < cnt.rows; i++) {
-
-            //Since its unlikely the printer will printer in better than .2 percistion if we are withing .2 in both directions we wont add the point
-            //To save render size, we will make this adjustable
-            const currentX = cnt.data32S[i * 2] * scale
-            const currentY = cnt.data32S[i * 2 + 1] * scale
-            if (lastX + tolerace < currentX || lastX - tolerace > currentX || lastY + tolerace < currentY || lastY - tolerace > currentY) {
-                var a = new THREE.Vector2(currentX, currentY)
-                cPoints.push(a);
-                lastX = currentX
-                lastY = currentY
-            }
+/**
+ * Exports the current 3D model in the selected file format for download
+ *
+ * This function handles the client-side file export process:
+ * 1. Sanitizes the filename to prevent security issues
+ * 2. Waits for any rebuild still running so the file matches the settings
+ * 3. Refuses or repairs meshes that failed the printability check, if asked to
+ * 4. Converts only the cutter mesh (no lights) to the chosen format
+ *    (ASCII STL, binary STL, 3MF or OBJ)
+ * 5. Creates a downloadable blob and triggers browser download
+ * 6. Downloads the stamp as a second file, when there is one
+ * 7. Handles cross-browser compatibility for file downloads
+ *
+ * Security: Filename is sanitized to prevent path traversal and XSS attacks.
+ *
+ * @see https://stackoverflow.com/questions/609530/download-textarea-contents-as-a-file-using-only-javascript-no-server-side
+ */
+async function saveTextAsFile() {
+    await waitForBuild();
+    if (!cutterMesh) return;
+
+    var exportedMesh = cutterMesh;
+    if (hasMeshProblems(meshReport)) {
+        const meshCheck = cookieState.get().meshCheck;
+        if (meshCheck === "refuse") {
+            listeners.onStatus(null, "the cutter mesh failed the print check, download refused");
+            return;
+        }
+        if (meshCheck === "repair") {
+            const repaired = repairMesh(cutterMesh.geometry.getAttribute('position').array);
+            const geometry = new THREE.BufferGeometry();
+            geometry.setAttribute('position', new THREE.BufferAttribute(repaired, 3));
+            exportedMesh = new THREE.Mesh(geometry);
+
+            // show what is left after the repair
+            listeners.onReport(validateMesh(repaired));
         }
-
-        return cPoints;
     }
 
-    /**
-     * Animation loop for Three.js scene rendering
-     * 
-     * This function continuously renders the 3D scene and:
-     * 1. Updates orbital controls for smooth camera movement
-     * 2. Renders the scene with current camera position
-     * 3. Calls camera debug function if enabled
-     * 4. Requests the next animation frame for smooth 60fps rendering
-     * 
-     * The animation loop is essential for interactive 3D preview functionality.
-     */
-    function animate() {
+    // Sanitize filename to prevent any potential issues
+    var sanitizedFilename = saveFilename.replace(/[^a-zA-Z0-9_-]/g, '_');
+    var format = cookieState.get().exportFormat;
+    var exported = exportMesh(exportedMesh, format, saveFilename);
+    downloadFile(exported.blob, sanitizedFilename + "." + exported.extension);
 
-        requestAnimationFrame(animate);
+    if (stampMesh) {
+        var exportedStamp = exportMesh(new THREE.Mesh(stampMesh.geometry), format, saveFilename + " stamp");
+        downloadFile(exportedStamp.blob, sanitizedFilename + "-stamp." + exportedStamp.extension);
+    }
+}
 
-        // required if controls.enableDamping or controls.autoRotate are set to true
-        controls.update();
+/**
+ * Exports the outline of the current cutter as a 2D drawing
+ *
+ * The centerline is the scaled and simplified outline the wall is built
+ * around, in millimetres. With the wall option on, the outer and inner faces
+ * of the cutting wall are added on their own layers.
+ */
+export async function downloadOutline() {
+    await waitForBuild();
+    if (!cutterMesh || !preview || !preview.outline.length) return;
+
+    const state = cookieState.get();
+    const centerline = scaleOutline(preview.outline, meshSettings);
+    const layers: OutlineLayer[] = [{ name: "centerline", color: "#D32F2F", paths: [centerline] }];
+    if (state.outlineWalls) {
+        // the same faces as the cutting wall of the mesh
+        const wall = offsetWall(centerline, Number(meshSettings.thickness) / 2, Number(meshSettings.tolerance));
+        layers.push(
+            { name: "wall-outer", color: "#1976D2", paths: wall.outer },
+            { name: "wall-inner", color: "#388E3C", paths: wall.inner }
+        );
+    }
 
-        renderer.render(scene, camera);
+    var sanitizedFilename = saveFilename.replace(/[^a-zA-Z0-9_-]/g, '_');
+    var exported = exportOutline(layers, state.outlineFormat, saveFilename);
+    downloadFile(exported.blob, sanitizedFilename + "-outline." + exported.extension);
+}
 
-        camera_debug(); // debug the camera if CAMERA_DEBUG = true
+/**
+ * Writes the current cutter as a portable project file
+ *
+ * The file holds the simplified outline in millimetres and every setting,
+ * and the source image when asked to and the cutter was made from one.
+ *
+ * @param {boolean} embedImage - Whether to put the source image in the file
+ * @returns {Promise<project_file_t | null>} The project file, null while there is no cutter
+ */
+export async function exportProjectFile(embedImage: boolean): Promise<project_file_t | null> {
+    await waitForBuild();
+    if (!cutterMesh || !preview || !preview.outline.length) return null;
 
-    }
+    const outline = scaleOutline(preview.outline, meshSettings);
+    const image = embedImage && project ? project.image : null;
+    return buildProjectFile(project ? project.name : saveFilename, cookieState.get(), outline, image);
+}
 
-    const cameraDebugElem = document.querySelector("#cameraDebug");
-
-    /**
-     * Debug function for camera position monitoring (currently disabled)
-     * 
-     * This function was used during development to track camera position and rotation
-     * for debugging the 3D scene setup. Currently commented out but preserved for
-     * future debugging needs.
-     * 
-     * When enabled, it updates the cookie state with current camera coordinates.
-     */
-    function camera_debug() {
-        // if (!cameraDebugElem) return;
-
-        // cookieState.update(<CookieState_t>{
-        //     camera_pos: {
-        //         x: Number(camera.position.x.toFixed(3)),
-        //         y: Number(camera.position.y.toFixed(3)),
-        //         z: Number(camera.position.z.toFixed(3)),
-        //         rx: Number(camera.rotation.x.toFixed(3)),
-        //         ry: Number(camera.rotation.y.toFixed(3)),
-        //         rz: Number(camera.rotation.z.toFixed(3)),
-        //     }
-        // });
-    }
+/**
+ * Downloads the current cutter as a project file (.ccm)
+ *
+ * @param {boolean} embedImage - Whether to put the source image in the file
+ */
+export async function downloadProjectFile(embedImage: boolean) {
+    const file = await exportProjectFile(embedImage);
+    if (!file) return;
 
-    /**
-     * Handles user clicks on the canvas to select different contours interactively
-     * 
-     * This function enables users to click on the processed image canvas to select
-     * different detected contours for their cookie cutter. The workflow:
-     * 1. Maps click coordinates to contour map pixel values
-     * 2. Identifies which contour was clicked based on color mapping
-     * 3. Reprocesses the image highlighting the selected contour
-     * 4. Regenerates the 3D model using the newly selected contour
-     * 5. Updates the display with the new contour and 3D preview
-     * 
-     * This allows users to choose from multiple detected shapes in complex images.
-     * 
-     * @param {number} x - X coordinate of the click on the canvas
-     * @param {number} y - Y coordinate of the click on the canvas
-     */
-    function updateContourSelection(x, y) {
-
-        //Figure out if we clicked close enough to a countor
-
-
-        if (contourMap) {
-            var co = contourMap.ucharPtr(y, x)[0];
-            if (co != 0) {
-                co = contourNumMap[co - 1]
-
-                //Add Some Padding so images close to the edge still work
-                let srcPre = cv.imread(imgElement);
-                let dst = new cv.Mat();
-                // You can try more different parameters
-                const offset = 10
-                cv.copyMakeBorder(srcPre, dst, offset, offset, offset, offset, cv.BORDER_REPLICATE);
-
-
-                cv.cvtColor(dst, dst, cv.COLOR_RGBA2GRAY, 0);
-                cv.cvtColor(dst, dst, cv.COLOR_GRAY2RGBA, 0);
-                let boundaryCountourAreaCutoff = (dst.cols * dst.rows) * .90 // If an Area is 98% of the entire image is probably the bounday
-
-                for (let i = 0; i < contours.size(); ++i) {
-
-                    let cnt = contours.get(i);
-                    let area = cv.contourArea(cnt, true);
-                    let cw = true
-                    if (area < 0) {
-                        cw = false
-                        area = -area
-                    }
-                    if (area > boundaryCountourAreaCutoff * .1 && area < boundaryCountourAreaCutoff) {
-                        cv.drawContours(dst, contours, i, new cv.Scalar(0, 0, 255, 255), 1, cv.LINE_8, hierarchy, 100);
-                    }
-                }
-
-                cv.drawContours(dst, contours, co, new cv.Scalar(255, 0, 0, 255), 2, cv.LINE_8, hierarchy, 100);
-                let cnt = contours.get(co);
-
-                //Limit the Output Size
-                let scale = MAX_DIM / Math.max(dst.cols, dst.rows)
-                let dsize = new cv.Size(scale * dst.cols, scale * dst.rows);
-                cv.resize(dst, dst, dsize, 0, 0, cv.INTER_LINEAR);
-
-                cv.imshow('canvasOutput', dst);
-                dst.delete();
-
-                lastCnt = cnt
-                generateSTL(cnt)
-                animate();
-
-            };
-        };
-    };
+    var sanitizedFilename = saveFilename.replace(/[^a-zA-Z0-9_-]/g, '_');
+    downloadFile(new Blob([JSON.stringify(file, null, 2)], { type: "application/json" }), sanitizedFilename + ".ccm");
+}
 
-    /**
-     * Exports the current 3D model as an STL file for download
-     * 
-     * This function handles the client-side file export process:
-     * 1. Sanitizes the filename to prevent security issues
-     * 2. Regenerates the STL geometry from the current contour
-     * 3. Uses Three.js STLExporter to convert geometry to STL format
-     * 4. Creates a downloadable blob and triggers browser download
-     * 5. Handles cross-browser compatibility for file downloads
-     * 
-     * The STL format is the standard for 3D printing, containing triangulated
-     * mesh data that slicing software can process for printer instructions.
-     * 
-     * Security: Filename is sanitized to prevent path traversal and XSS attacks.
-     * 
-     * @see https://stackoverflow.com/questions/609530/download-textarea-contents-as-a-file-using-only-javascript-no-server-side
-     */
-    function saveTextAsFile() {
-        // Sanitize filename to prevent any potential issues
-        var sanitizedFilename = saveFilename.replace(/[^a-zA-Z0-9_-]/g, '_');
-        var fileNameToSaveAs = sanitizedFilename + ".stl"
-        console.log(fileNameToSaveAs)
-        generateSTL(lastCnt)
-        var textToWrite = exporter.parse(scene);
-
-        var textFileAsBlob = new Blob([textToWrite], { type: 'text/plain' });
-        var downloadLink = document.createElement("a");
-        downloadLink.download = fileNameToSaveAs;
-        downloadLink.textContent = "Download File";
-        if (window.webkitURL != null) {
-            // Chrome allows the link to be clicked
-            // without actually adding it to the DOM.
-            downloadLink.href = window.webkitURL.createObjectURL(textFileAsBlob);
-        }
-        else {
-            // Firefox requires the link to be added to the DOM
-            // before it can be clicked.
-            downloadLink.href = window.URL.createObjectURL(textFileAsBlob);
-            downloadLink.onclick = destroyClickedElement;
-            downloadLink.style.display = "none";
-            document.body.appendChild(downloadLink);
-        }
+/**
+ * Waits until the cutter matches the latest settings
+ *
+ * @returns {Promise<void>} Resolves once no rebuild is running
+ */
+async function waitForBuild() {
+    // a newer rebuild may start while we wait, wait for that one too
+    let pending;
+    do {
+        pending = building;
+        await pending;
+    } while (pending !== building);
+}
 
-        downloadLink.click();
+/**
+ * Offers a file to the browser as a download
+ *
+ * @param {Blob} textFileAsBlob - File contents
+ * @param {string} fileNameToSaveAs - Sanitized file name with extension
+ */
+export function downloadFile(textFileAsBlob: Blob, fileNameToSaveAs: string) {
+    var downloadLink = document.createElement("a");
+    downloadLink.download = fileNameToSaveAs;
+    downloadLink.textContent = "Download File";
+    if (window.webkitURL != null) {
+        // Chrome allows the link to be clicked
+        // without actually adding it to the DOM.
+        downloadLink.href = window.webkitURL.createObjectURL(textFileAsBlob);
+    }
+    else {
+        // Firefox requires the link to be added to the DOM
+        // before it can be clicked.
+        downloadLink.href = window.URL.createObjectURL(textFileAsBlob);
+        downloadLink.onclick = destroyClickedElement;
+        downloadLink.style.display = "none";
+        document.body.appendChild(downloadLink);
     }
 
-};
+    downloadLink.click();
+}
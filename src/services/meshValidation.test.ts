@@ -0,0 +1,125 @@
+import * as THREE from "three";
+import { buildCutterGeometry, CutterSettings } from "./cutterGeometry";
+import { hasMeshProblems, repairMesh, validateMesh } from "./meshValidation";
+import { point_t } from "../types";
+
+const SETTINGS: CutterSettings = {
+    depth: 16, thickness: 1, tolerance: .15, smoothness: 0, cutterBevel: false,
+    handleRound: false, handleStyle: "flange", handleWidth: 4.2, handleThickness: 2, fingerHoles: 2,
+    stamp: false, stampClearance: .5, mergeGap: 1, size: 76, sizeConstraint: "longest"
+};
+
+const SQUARE: point_t[] = [{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 100, y: 100 }, { x: 0, y: 100 }];
+
+const CIRCLE: point_t[] = Array.from({ length: 200 }, (_, i) => ({
+    x: 50 + 50 * Math.cos(i * Math.PI / 100),
+    y: 50 + 50 * Math.sin(i * Math.PI / 100)
+}));
+
+/** A circle traced on a pixel grid, in stair steps like the contours found in images */
+const TRACED_CIRCLE: point_t[] = (() => {
+    const points: point_t[] = [];
+    for (let i = 0; i < 2000; i++) {
+        const x = Math.round(250 + 200 * Math.cos(i * Math.PI / 1000));
+        const y = Math.round(250 + 200 * Math.sin(i * Math.PI / 1000));
+        const last = points[points.length - 1];
+        if (last && last.x === x && last.y === y) continue;
+        if (last && last.x !== x && last.y !== y) points.push({ x, y: last.y });
+        points.push({ x, y });
+    }
+    return points;
+})();
+
+function positionsOf(geometry: THREE.Geometry | THREE.BufferGeometry): Float32Array {
+    const buffer = geometry instanceof THREE.BufferGeometry ? geometry.toNonIndexed() : new THREE.BufferGeometry().fromGeometry(geometry);
+    return <Float32Array>buffer.getAttribute("position").array;
+}
+
+/** Reverses the triangle starting at a position */
+function flip(positions: Float32Array, start: number) {
+    const second = positions.slice(start + 3, start + 6);
+    positions.copyWithin(start + 3, start + 6, start + 9);
+    positions.set(second, start + 6);
+}
+
+function checkCutter(points: point_t[], settings: Partial<CutterSettings>) {
+    return validateMesh(positionsOf(buildCutterGeometry(points, { ...SETTINGS, ...settings })));
+}
+
+describe("validateMesh", () => {
+    it("passes a closed box and measures it", () => {
+        const report = validateMesh(positionsOf(new THREE.BoxBufferGeometry(10, 20, 30)));
+        expect(report.watertight).toBe(true);
+        expect(report.triangles).toBe(12);
+        expect(report.size.x).toBeCloseTo(10);
+        expect(report.size.y).toBeCloseTo(20);
+        expect(report.size.z).toBeCloseTo(30);
+        expect(hasMeshProblems(report)).toBe(false);
+    });
+
+    it("finds the open edges of a box without its lid", () => {
+        const positions = positionsOf(new THREE.BoxBufferGeometry(10, 10, 10));
+        const report = validateMesh(positions.slice(0, positions.length - 18));
+        expect(report.watertight).toBe(false);
+        expect(report.openEdges).toBe(4);
+        expect(hasMeshProblems(report)).toBe(true);
+    });
+
+    it("finds a flipped triangle", () => {
+        const positions = positionsOf(new THREE.BoxBufferGeometry(10, 10, 10));
+        flip(positions, 0);
+        expect(validateMesh(positions).flippedEdges).toBe(3);
+    });
+
+    it.each([
+        ["square", SQUARE, false],
+        ["circle", CIRCLE, false],
+        ["bevelled square", SQUARE, true],
+        ["bevelled circle", CIRCLE, true],
+        ["traced circle", TRACED_CIRCLE, false],
+        ["bevelled traced circle", TRACED_CIRCLE, true]
+    ])("passes a generated %s cutter", (_, points: point_t[], cutterBevel: boolean) => {
+        for (const handleStyle of ["flange", "plate", "none"] as const) {
+            const report = checkCutter(points, { cutterBevel, handleStyle });
+            expect(report.warnings).toEqual([]);
+            expect(hasMeshProblems(report)).toBe(false);
+        }
+    });
+
+    it("measures the printed wall as half the thickness", () => {
+        expect(checkCutter(SQUARE, { thickness: 2 }).minWallWidth).toBeCloseTo(1);
+    });
+});
+
+describe("repairMesh", () => {
+    it("turns an inside out box the right way", () => {
+        const positions = positionsOf(new THREE.BoxBufferGeometry(10, 10, 10));
+        for (let i = 0; i < positions.length; i += 9) {
+            flip(positions, i);
+        }
+
+        const repaired = repairMesh(positions);
+        const box = positionsOf(new THREE.BoxBufferGeometry(10, 10, 10));
+        const volume = (p: Float32Array) => {
+            let total = 0;
+            for (let i = 0; i < p.length; i += 9) {
+                total += p[i] * (p[i + 4] * p[i + 8] - p[i + 5] * p[i + 7]) -
+                    p[i + 1] * (p[i + 3] * p[i + 8] - p[i + 5] * p[i + 6]) +
+                    p[i + 2] * (p[i + 3] * p[i + 7] - p[i + 4] * p[i + 6]);
+            }
+            return total / 6;
+        };
+        expect(volume(positions)).toBeCloseTo(-1000);
+        expect(volume(repaired)).toBeCloseTo(volume(box));
+    });
+
+    it("drops triangles without area", () => {
+        const positions = positionsOf(new THREE.BoxBufferGeometry(10, 10, 10));
+        const withSliver = new Float32Array(positions.length + 9);
+        withSliver.set(positions);
+        withSliver.set([0, 0, 0, 1, 1, 1, 2, 2, 2], positions.length);
+
+        expect(validateMesh(withSliver).degenerateTriangles).toBe(1);
+        expect(validateMesh(repairMesh(withSliver)).degenerateTriangles).toBe(0);
+    });
+});
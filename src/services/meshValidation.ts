@@ -0,0 +1,454 @@
+/**
+ * @fileoverview Mesh Validation Service for Cookie Cutter Monster
+ *
+ * This service checks a finished cutter mesh before it is downloaded and can
+ * repair the problems that are safe to fix automatically. It works on plain
+ * triangle position arrays, so it runs in the cutter worker right after the
+ * mesh is built as well as on the main thread at download time.
+ *
+ * Checks:
+ * - Watertightness, open and non-manifold edges
+ * - Flipped faces (neighbouring triangles with opposite orientation)
+ * - Degenerate triangles
+ * - Bounding box in millimetres
+ * - Minimum wall width and feature width, measured on horizontal slices
+ *
+ * @author Cookie Cutter Monster Team
+ * @version 1.0.0
+ * @since 2020-08-01
+ */
+
+import { MIN_PRINTABLE_WIDTH } from "../constants";
+import { mesh_report_t, point_t } from "../types";
+
+/** Vertices closer than this (mm) are treated as the same vertex */
+const WELD_PRECISION = 1e4;
+
+/** Triangles with less area than this (mm²) are degenerate */
+const MIN_TRIANGLE_AREA = 1e-9;
+
+/** Walls and gaps wider than this (mm) are not measured */
+const MEASURE_LIMIT = 20;
+
+/** Cell size (mm) of the grid used to find slice segments near a ray */
+const GRID_CELL = 2;
+
+/**
+ * A triangle mesh with shared vertices
+ */
+interface WeldedMesh {
+    /** Vertex coordinates, three per vertex */
+    vertices: number[],
+    /** Vertex indices, three per triangle */
+    triangles: number[][]
+}
+
+/**
+ * One segment of a horizontal slice through the mesh
+ */
+interface SliceSegment {
+    a: point_t,
+    b: point_t,
+    /** Unit normal pointing out of the material */
+    normal: point_t
+}
+
+/**
+ * Merges vertices that share a position
+ *
+ * @param {Float32Array} positions - Non-indexed triangles, nine floats each
+ * @returns {WeldedMesh} Shared vertices and triangle indices
+ */
+function weld(positions: Float32Array): WeldedMesh {
+    const lookup = new Map<string, number>();
+    const vertices: number[] = [];
+    const indices: number[] = [];
+
+    for (let i = 0; i < positions.length; i += 3) {
+        const key = Math.round(positions[i] * WELD_PRECISION) + "," +
+            Math.round(positions[i + 1] * WELD_PRECISION) + "," +
+            Math.round(positions[i + 2] * WELD_PRECISION);
+
+        let index = lookup.get(key);
+        if (index === undefined) {
+            index = vertices.length / 3;
+            lookup.set(key, index);
+            vertices.push(positions[i], positions[i + 1], positions[i + 2]);
+        }
+        indices.push(index);
+    }
+
+    const triangles: number[][] = [];
+    for (let i = 0; i < indices.length; i += 3) {
+        triangles.push([indices[i], indices[i + 1], indices[i + 2]]);
+    }
+    return { vertices, triangles };
+}
+
+/**
+ * Computes twice the area of a triangle
+ *
+ * @param {number[]} v - Vertex coordinates
+ * @param {number[]} tri - Vertex indices
+ * @returns {number} Length of the triangle's cross product
+ */
+function doubleArea(v: number[], tri: number[]): number {
+    const [a, b, c] = tri.map(i => i * 3);
+    const ux = v[b] - v[a], uy = v[b + 1] - v[a + 1], uz = v[b + 2] - v[a + 2];
+    const wx = v[c] - v[a], wy = v[c + 1] - v[a + 1], wz = v[c + 2] - v[a + 2];
+    return Math.hypot(uy * wz - uz * wy, uz * wx - ux * wz, ux * wy - uy * wx);
+}
+
+/**
+ * Tells whether a triangle has no area or repeats a vertex
+ *
+ * @param {number[]} v - Vertex coordinates
+ * @param {number[]} tri - Vertex indices
+ * @returns {boolean} True if the triangle is degenerate
+ */
+function isDegenerate(v: number[], tri: number[]): boolean {
+    const [a, b, c] = tri;
+    return a === b || b === c || a === c || doubleArea(v, tri) / 2 < MIN_TRIANGLE_AREA;
+}
+
+/**
+ * Key of the undirected edge between two vertices
+ *
+ * @param {number} a - First vertex index
+ * @param {number} b - Second vertex index
+ * @returns {string} Same key for a-b and b-a
+ */
+function edgeKey(a: number, b: number): string {
+    return a < b ? a + "_" + b : b + "_" + a;
+}
+
+/**
+ * Cuts the mesh with a horizontal plane
+ *
+ * @param {Float32Array} positions - Non-indexed triangles
+ * @param {number} z - Height of the plane
+ * @returns {SliceSegment[]} Cross-section segments with outward normals
+ */
+function sliceMesh(positions: Float32Array, z: number): SliceSegment[] {
+    const segments: SliceSegment[] = [];
+
+    for (let i = 0; i < positions.length; i += 9) {
+        const corners = [0, 3, 6].map(o => ({ x: positions[i + o], y: positions[i + o + 1], z: positions[i + o + 2] }));
+        const points: point_t[] = [];
+
+        for (let k = 0; k < 3; k++) {
+            const p = corners[k];
+            const q = corners[(k + 1) % 3];
+            if ((p.z >= z) !== (q.z >= z)) {
+                const t = (z - p.z) / (q.z - p.z);
+                points.push({ x: p.x + (q.x - p.x) * t, y: p.y + (q.y - p.y) * t });
+            }
+        }
+        if (points.length !== 2) continue;
+
+        // the face normal, flattened, points out of the material
+        const [a, b, c] = corners;
+        const nx = (b.y - a.y) * (c.z - a.z) - (b.z - a.z) * (c.y - a.y);
+        const ny = (b.z - a.z) * (c.x - a.x) - (b.x - a.x) * (c.z - a.z);
+        const length = Math.hypot(nx, ny);
+        if (!length || Math.hypot(points[1].x - points[0].x, points[1].y - points[0].y) < 1e-9) continue;
+
+        // keep the material on the left, so outer loops run counter-clockwise
+        const normal = { x: nx / length, y: ny / length };
+        const [p, q] = points;
+        const outwardIsRight = (q.y - p.y) * normal.x - (q.x - p.x) * normal.y > 0;
+        segments.push(outwardIsRight ? { a: p, b: q, normal } : { a: q, b: p, normal });
+    }
+
+    return segments;
+}
+
+/**
+ * Finds the shortest wall thickness and gap across a slice
+ *
+ * The wall and the handle are separate bodies that overlap, so a slice can
+ * hold loops inside other loops. Widths are therefore measured on the
+ * outline of the combined material: a ray is cast from the middle of every
+ * segment on that outline, inwards until it leaves all material and
+ * outwards until it hits the next wall.
+ *
+ * @param {SliceSegment[]} segments - Cross-section of the mesh
+ * @returns {{ wall: number, gap: number }} Smallest distances found, Infinity if none
+ */
+function measureSlice(segments: SliceSegment[]) {
+    const grid = new Map<number, SliceSegment[]>();
+    const cellKey = (ix: number, iy: number) => ix * 1000003 + iy;
+    let maxCell = -Infinity;
+
+    for (const seg of segments) {
+        const x0 = Math.floor(Math.min(seg.a.x, seg.b.x) / GRID_CELL);
+        const x1 = Math.floor(Math.max(seg.a.x, seg.b.x) / GRID_CELL);
+        const y0 = Math.floor(Math.min(seg.a.y, seg.b.y) / GRID_CELL);
+        const y1 = Math.floor(Math.max(seg.a.y, seg.b.y) / GRID_CELL);
+        maxCell = Math.max(maxCell, x1);
+        for (let ix = x0; ix <= x1; ix++) {
+            for (let iy = y0; iy <= y1; iy++) {
+                const key = cellKey(ix, iy);
+                if (!grid.has(key)) grid.set(key, []);
+                grid.get(key).push(seg);
+            }
+        }
+    }
+
+    // how many bodies contain a point, counted along a ray in +x
+    const depthAt = (pt: point_t): number => {
+        const seen = new Set<SliceSegment>();
+        const iy = Math.floor(pt.y / GRID_CELL);
+        let depth = 0;
+
+        for (let ix = Math.floor(pt.x / GRID_CELL); ix <= maxCell; ix++) {
+            for (const seg of grid.get(cellKey(ix, iy)) || []) {
+                if (seen.has(seg)) continue;
+                seen.add(seg);
+
+                if ((seg.a.y <= pt.y) !== (seg.b.y <= pt.y)) {
+                    const x = seg.a.x + (pt.y - seg.a.y) / (seg.b.y - seg.a.y) * (seg.b.x - seg.a.x);
+                    if (x > pt.x) depth += seg.b.y > seg.a.y ? 1 : -1;
+                }
+            }
+        }
+        return depth;
+    };
+
+    // walks a ray through the slice until the depth reaches the target
+    const cast = (from: SliceSegment, origin: point_t, dir: point_t, depth: number, stopInside: boolean): number => {
+        const end = { x: origin.x + dir.x * MEASURE_LIMIT, y: origin.y + dir.y * MEASURE_LIMIT };
+        const seen = new Set<SliceSegment>([from]);
+        const hits: { t: number, entering: boolean }[] = [];
+
+        for (let ix = Math.floor(Math.min(origin.x, end.x) / GRID_CELL); ix <= Math.floor(Math.max(origin.x, end.x) / GRID_CELL); ix++) {
+            for (let iy = Math.floor(Math.min(origin.y, end.y) / GRID_CELL); iy <= Math.floor(Math.max(origin.y, end.y) / GRID_CELL); iy++) {
+                for (const seg of grid.get(cellKey(ix, iy)) || []) {
+                    if (seen.has(seg)) continue;
+                    seen.add(seg);
+
+                    const ex = seg.b.x - seg.a.x, ey = seg.b.y - seg.a.y;
+                    const denom = dir.x * ey - dir.y * ex;
+                    if (Math.abs(denom) < 1e-12) continue;
+
+                    const ox = seg.a.x - origin.x, oy = seg.a.y - origin.y;
+                    const t = (ox * ey - oy * ex) / denom;
+                    const s = (ox * dir.y - oy * dir.x) / denom;
+                    if (t > 1e-6 && t < MEASURE_LIMIT && s >= 0 && s <= 1) {
+                        hits.push({ t, entering: dir.x * seg.normal.x + dir.y * seg.normal.y < 0 });
+                    }
+                }
+            }
+        }
+
+        hits.sort((p, q) => p.t - q.t);
+        for (const hit of hits) {
+            depth += hit.entering ? 1 : -1;
+            if (stopInside ? depth > 0 : depth <= 0) return hit.t;
+        }
+        return Infinity;
+    };
+
+    let wall = Infinity;
+    let gap = Infinity;
+    for (const seg of segments) {
+        const mid = { x: (seg.a.x + seg.b.x) / 2, y: (seg.a.y + seg.b.y) / 2 };
+        const outside = { x: mid.x + seg.normal.x * 1e-4, y: mid.y + seg.normal.y * 1e-4 };
+        const inside = { x: mid.x - seg.normal.x * 1e-4, y: mid.y - seg.normal.y * 1e-4 };
+
+        // segments buried inside another body are not part of the outline
+        if (depthAt(outside) > 0) continue;
+
+        wall = Math.min(wall, cast(seg, mid, { x: -seg.normal.x, y: -seg.normal.y }, depthAt(inside), false));
+        gap = Math.min(gap, cast(seg, mid, seg.normal, 0, true));
+    }
+    return { wall, gap };
+}
+
+/**
+ * Tells whether a report contains problems that refuse or repair act on
+ *
+ * Thin walls and narrow features are only warnings; they need different
+ * settings, not a mesh repair.
+ *
+ * @param {mesh_report_t} report - Mesh check result
+ * @returns {boolean} True if the mesh has topology problems
+ */
+export function hasMeshProblems(report: mesh_report_t): boolean {
+    return Boolean(report) &&
+        (!report.watertight || report.flippedEdges > 0 || report.degenerateTriangles > 0);
+}
+
+/**
+ * Checks a cutter mesh for printability
+ *
+ * Walls are measured on slices near the bottom, in the middle and just
+ * below the top of the mesh, avoiding the flat caps of the handle and the
+ * bevel. Feature widths are measured on the top slice only, at the cutting
+ * edge, because the handle fills narrow gaps further down.
+ *
+ * @param {Float32Array} positions - Non-indexed triangles in millimetres
+ * @returns {mesh_report_t} The printability report
+ */
+export function validateMesh(positions: Float32Array): mesh_report_t {
+    const { vertices, triangles } = weld(positions);
+
+    // count how often each edge is used and in which direction
+    const edges = new Map<string, { count: number, direction: number }>();
+    let degenerateTriangles = 0;
+    for (const tri of triangles) {
+        if (isDegenerate(vertices, tri)) {
+            degenerateTriangles++;
+        }
+        if (tri[0] === tri[1] || tri[1] === tri[2] || tri[0] === tri[2]) continue;
+
+        for (let k = 0; k < 3; k++) {
+            const a = tri[k], b = tri[(k + 1) % 3];
+            const key = edgeKey(a, b);
+            const edge = edges.get(key) || { count: 0, direction: 0 };
+            edge.count++;
+            edge.direction += a < b ? 1 : -1;
+            edges.set(key, edge);
+        }
+    }
+
+    let openEdges = 0, nonManifoldEdges = 0, flippedEdges = 0;
+    edges.forEach(edge => {
+        if (edge.count === 1) openEdges++;
+        else if (edge.count > 2) nonManifoldEdges++;
+        else if (edge.direction !== 0) flippedEdges++;
+    });
+
+    const min = [Infinity, Infinity, Infinity];
+    const max = [-Infinity, -Infinity, -Infinity];
+    for (let i = 0; i < positions.length; i++) {
+        min[i % 3] = Math.min(min[i % 3], positions[i]);
+        max[i % 3] = Math.max(max[i % 3], positions[i]);
+    }
+    const size = triangles.length
+        ? { x: max[0] - min[0], y: max[1] - min[1], z: max[2] - min[2] }
+        : { x: 0, y: 0, z: 0 };
+
+    let wall = Infinity;
+    let gap = Infinity;
+    [.06, .3, .97].forEach((level, n, levels) => {
+        const measured = measureSlice(sliceMesh(positions, min[2] + size.z * level));
+        wall = Math.min(wall, measured.wall);
+        if (n === levels.length - 1) gap = measured.gap;
+    });
+
+    const report: mesh_report_t = {
+        triangles: triangles.length,
+        watertight: openEdges === 0 && nonManifoldEdges === 0,
+        openEdges,
+        nonManifoldEdges,
+        flippedEdges,
+        degenerateTriangles,
+        size,
+        minWallWidth: isFinite(wall) ? wall : null,
+        minFeatureWidth: isFinite(gap) ? gap : null,
+        warnings: []
+    };
+
+    if (openEdges) report.warnings.push(`${openEdges} open edges, the mesh has holes`);
+    if (nonManifoldEdges) report.warnings.push(`${nonManifoldEdges} edges are shared by more than two faces`);
+    if (flippedEdges) report.warnings.push(`${flippedEdges} edges join faces that point in opposite directions`);
+    if (degenerateTriangles) report.warnings.push(`${degenerateTriangles} triangles have no area`);
+    if (report.minWallWidth !== null && report.minWallWidth < MIN_PRINTABLE_WIDTH) {
+        report.warnings.push(`the thinnest wall is ${report.minWallWidth.toFixed(2)} mm, below the ${MIN_PRINTABLE_WIDTH} mm a nozzle can print`);
+    }
+    if (report.minFeatureWidth !== null && report.minFeatureWidth < MIN_PRINTABLE_WIDTH) {
+        report.warnings.push(`walls come within ${report.minFeatureWidth.toFixed(2)} mm of each other and may fuse`);
+    }
+
+    return report;
+}
+
+/**
+ * Repairs what can be repaired safely
+ *
+ * 1. Welds vertices that share a position
+ * 2. Drops degenerate and duplicate triangles
+ * 3. Flips triangles so neighbours agree on their orientation
+ * 4. Turns every connected part so its normals point outwards
+ *
+ * Holes and non-manifold edges are left alone; closing them would change
+ * the shape of the cutter.
+ *
+ * @param {Float32Array} positions - Non-indexed triangles in millimetres
+ * @returns {Float32Array} Repaired non-indexed triangles
+ */
+export function repairMesh(positions: Float32Array): Float32Array {
+    const { vertices, triangles } = weld(positions);
+
+    const seen = new Set<string>();
+    const kept = triangles.filter(tri => {
+        if (isDegenerate(vertices, tri)) return false;
+        const key = tri.slice().sort((a, b) => a - b).join("_");
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+    });
+
+    const edgeFaces = new Map<string, number[]>();
+    kept.forEach((tri, f) => {
+        for (let k = 0; k < 3; k++) {
+            const key = edgeKey(tri[k], tri[(k + 1) % 3]);
+            if (!edgeFaces.has(key)) edgeFaces.set(key, []);
+            edgeFaces.get(key).push(f);
+        }
+    });
+
+    const hasDirectedEdge = (tri: number[], a: number, b: number) =>
+        (tri[0] === a && tri[1] === b) || (tri[1] === a && tri[2] === b) || (tri[2] === a && tri[0] === b);
+
+    const visited = new Array(kept.length).fill(false);
+    for (let start = 0; start < kept.length; start++) {
+        if (visited[start]) continue;
+
+        // walk the connected part, flipping each neighbour to match the face we came from
+        visited[start] = true;
+        const component = [start];
+        for (let i = 0; i < component.length; i++) {
+            const tri = kept[component[i]];
+            for (let k = 0; k < 3; k++) {
+                const a = tri[k], b = tri[(k + 1) % 3];
+                const faces = edgeFaces.get(edgeKey(a, b));
+                if (faces.length !== 2) continue;
+
+                const next = faces[0] === component[i] ? faces[1] : faces[0];
+                if (visited[next]) continue;
+                visited[next] = true;
+
+                if (hasDirectedEdge(kept[next], a, b)) {
+                    const [x, y, z] = kept[next];
+                    kept[next] = [x, z, y];
+                }
+                component.push(next);
+            }
+        }
+
+        // a negative signed volume means the part is inside out
+        let volume = 0;
+        for (const f of component) {
+            const [a, b, c] = kept[f].map(i => i * 3);
+            volume += vertices[a] * (vertices[b + 1] * vertices[c + 2] - vertices[b + 2] * vertices[c + 1]) -
+                vertices[a + 1] * (vertices[b] * vertices[c + 2] - vertices[b + 2] * vertices[c]) +
+                vertices[a + 2] * (vertices[b] * vertices[c + 1] - vertices[b + 1] * vertices[c]);
+        }
+        if (volume < 0) {
+            for (const f of component) {
+                const [x, y, z] = kept[f];
+                kept[f] = [x, z, y];
+            }
+        }
+    }
+
+    const repaired = new Float32Array(kept.length * 9);
+    kept.forEach((tri, f) => {
+        tri.forEach((v, k) => {
+            repaired.set(vertices.slice(v * 3, v * 3 + 3), f * 9 + k * 3);
+        });
+    });
+    return repaired;
+}
@@ -0,0 +1,351 @@
+/**
+ * @fileoverview Outline Editor for Cookie Cutter Monster
+ *
+ * Lets users fix a bad edge of the selected outline right on the edge
+ * detection canvas instead of editing the source image. The outline is shown
+ * as draggable vertices; the editor works in canvas pixels and hands finished
+ * edits back in source image pixels, so they go through the same pipeline as
+ * a detected contour.
+ *
+ * Tools:
+ * - Move, add and delete vertices
+ * - Drag a whole segment
+ * - Erase brush that removes vertices, straightening the outline
+ * - Smooth brush that relaxes vertices
+ *
+ * An untouched outline is simplified to one canvas pixel before it is shown,
+ * so there are handles where the shape turns rather than on every traced
+ * pixel. Nothing is rebuilt until the first edit.
+ *
+ * @author Cookie Cutter Monster Team
+ * @version 1.0.0
+ * @since 2020-08-01
+ */
+
+import { EditTool, point_t } from "../types";
+import { simplifyClosedPath } from "./outlineSimplify";
+
+/** How close in canvas pixels a press has to be to grab a vertex or an edge */
+const HIT_RADIUS = 8;
+
+/** Radius of the erase and smooth brushes in canvas pixels */
+const BRUSH_RADIUS = 14;
+
+/** How far the smooth brush moves a vertex towards its neighbours per pointer move */
+const SMOOTH_STRENGTH = .3;
+
+/** Fewest vertices an outline can be edited down to */
+const MIN_VERTICES = 3;
+
+/**
+ * Callbacks from the editor to the page
+ */
+export interface OutlineEditorHandlers {
+    /** The outline changed on screen and the canvas needs repainting */
+    onChange: () => void,
+    /** An edit is finished, with the outline in source image pixels */
+    onCommit: (outline: point_t[]) => void
+}
+
+/**
+ * What the pointer is doing between press and release
+ */
+type DragState =
+    { kind: "vertex", index: number } |
+    { kind: "segment", index: number, last: point_t } |
+    { kind: "brush" };
+
+/**
+ * Vertex editor on top of the edge detection canvas
+ */
+export class OutlineEditor {
+    private canvas: HTMLCanvasElement;
+    private handlers: OutlineEditorHandlers;
+    private tool: EditTool = "off";
+    private points: point_t[] = [];
+    private scale = 1;
+    private drag: DragState = null;
+    private changed = false;
+    private pointer: point_t = null;
+
+    /**
+     * Attaches the editor to a canvas
+     *
+     * @param {HTMLCanvasElement} canvas - The edge detection canvas
+     * @param {OutlineEditorHandlers} handlers - Repaint and commit callbacks
+     */
+    constructor(canvas: HTMLCanvasElement, handlers: OutlineEditorHandlers) {
+        this.canvas = canvas;
+        this.handlers = handlers;
+
+        canvas.addEventListener("pointerdown", evt => this.handleDown(evt));
+        canvas.addEventListener("pointermove", evt => this.handleMove(evt));
+        canvas.addEventListener("pointerup", evt => this.handleUp(evt));
+        canvas.addEventListener("pointerleave", () => {
+            this.pointer = null;
+            if (this.active) this.handlers.onChange();
+        });
+    }
+
+    /**
+     * Whether an editing tool is picked and there is an outline to edit
+     *
+     * @returns {boolean} True while pointer input belongs to the editor
+     */
+    get active(): boolean {
+        return this.tool !== "off" && this.points.length >= MIN_VERTICES;
+    }
+
+    /**
+     * Picks the editing tool
+     *
+     * @param {EditTool} tool - The new tool, "off" to stop editing
+     */
+    setTool(tool: EditTool) {
+        this.tool = tool;
+        this.drag = null;
+        this.canvas.style.cursor = tool === "off" ? "" : "crosshair";
+        this.handlers.onChange();
+    }
+
+    /**
+     * Shows a new outline from the worker
+     *
+     * Ignored in the middle of a drag, the drag's own edit follows shortly.
+     *
+     * @param {point_t[]} outline - Outline in source image pixels
+     * @param {number} scale - Canvas pixels per source pixel
+     * @param {boolean} edited - Whether the outline already carries edits
+     */
+    setOutline(outline: point_t[], scale: number, edited: boolean) {
+        if (this.drag) return;
+
+        this.scale = scale;
+        const points = outline.map(pt => ({ x: pt.x * scale, y: pt.y * scale }));
+        this.points = edited || points.length <= MIN_VERTICES ? points : simplifyClosedPath(points, 1);
+    }
+
+    /**
+     * Draws the outline, its vertices and the brush on the canvas
+     *
+     * @param {CanvasRenderingContext2D} ctx - Context of the edge detection canvas
+     */
+    draw(ctx: CanvasRenderingContext2D) {
+        if (!this.active) return;
+
+        ctx.save();
+        ctx.strokeStyle = "#D32F2F";
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        this.points.forEach((pt, i) => i ? ctx.lineTo(pt.x, pt.y) : ctx.moveTo(pt.x, pt.y));
+        ctx.closePath();
+        ctx.stroke();
+
+        ctx.fillStyle = "#FFFFFF";
+        ctx.lineWidth = 1.5;
+        for (const pt of this.points) {
+            ctx.beginPath();
+            ctx.arc(pt.x, pt.y, 3.5, 0, Math.PI * 2);
+            ctx.fill();
+            ctx.stroke();
+        }
+
+        if (this.pointer && (this.tool === "erase" || this.tool === "smooth")) {
+            ctx.strokeStyle = "rgba(0, 0, 0, 0.6)";
+            ctx.setLineDash([4, 3]);
+            ctx.beginPath();
+            ctx.arc(this.pointer.x, this.pointer.y, BRUSH_RADIUS, 0, Math.PI * 2);
+            ctx.stroke();
+        }
+        ctx.restore();
+    }
+
+    /**
+     * Maps a pointer event to canvas pixels, the canvas may be scaled by CSS
+     *
+     * @param {PointerEvent} evt - Pointer event on the canvas
+     * @returns {point_t} Position in canvas pixels
+     */
+    private toCanvas(evt: PointerEvent): point_t {
+        const rect = this.canvas.getBoundingClientRect();
+        return {
+            x: (evt.clientX - rect.left) * this.canvas.width / rect.width,
+            y: (evt.clientY - rect.top) * this.canvas.height / rect.height
+        };
+    }
+
+    /**
+     * Finds the vertex closest to a point
+     *
+     * @param {point_t} pt - Position in canvas pixels
+     * @returns {number} Index of the vertex within HIT_RADIUS, -1 if none
+     */
+    private vertexAt(pt: point_t): number {
+        let found = -1, nearest = HIT_RADIUS;
+        this.points.forEach((vertex, i) => {
+            const distance = Math.hypot(vertex.x - pt.x, vertex.y - pt.y);
+            if (distance <= nearest) {
+                found = i;
+                nearest = distance;
+            }
+        });
+        return found;
+    }
+
+    /**
+     * Finds the edge closest to a point
+     *
+     * @param {point_t} pt - Position in canvas pixels
+     * @returns {{ index: number, at: point_t } | null} Start vertex of the edge within HIT_RADIUS and the closest point on it
+     */
+    private edgeAt(pt: point_t): { index: number, at: point_t } | null {
+        let found = null, nearest = HIT_RADIUS;
+        this.points.forEach((a, i) => {
+            const b = this.points[(i + 1) % this.points.length];
+            const dx = b.x - a.x, dy = b.y - a.y;
+            const lengthSq = dx * dx + dy * dy;
+            const t = lengthSq ? Math.max(0, Math.min(1, ((pt.x - a.x) * dx + (pt.y - a.y) * dy) / lengthSq)) : 0;
+            const at = { x: a.x + t * dx, y: a.y + t * dy };
+            const distance = Math.hypot(at.x - pt.x, at.y - pt.y);
+            if (distance <= nearest) {
+                found = { index: i, at };
+                nearest = distance;
+            }
+        });
+        return found;
+    }
+
+    /**
+     * Applies a brush stroke at a point
+     *
+     * @param {point_t} pt - Brush centre in canvas pixels
+     */
+    private brush(pt: point_t) {
+        const inside = (vertex: point_t) => Math.hypot(vertex.x - pt.x, vertex.y - pt.y) <= BRUSH_RADIUS;
+
+        if (this.tool === "erase") {
+            const kept = this.points.filter(vertex => !inside(vertex));
+            if (kept.length < this.points.length && kept.length >= MIN_VERTICES) {
+                this.points = kept;
+                this.changed = true;
+            }
+            return;
+        }
+
+        const count = this.points.length;
+        this.points = this.points.map((vertex, i) => {
+            if (!inside(vertex)) return vertex;
+
+            const before = this.points[(i - 1 + count) % count];
+            const after = this.points[(i + 1) % count];
+            this.changed = true;
+            return {
+                x: vertex.x + ((before.x + after.x) / 2 - vertex.x) * SMOOTH_STRENGTH,
+                y: vertex.y + ((before.y + after.y) / 2 - vertex.y) * SMOOTH_STRENGTH
+            };
+        });
+    }
+
+    /**
+     * Starts an edit where the pointer was pressed
+     *
+     * @param {PointerEvent} evt - Pointer down event
+     */
+    private handleDown(evt: PointerEvent) {
+        if (!this.active) return;
+
+        const pt = this.toCanvas(evt);
+        this.changed = false;
+
+        switch (this.tool) {
+            case "move": {
+                const index = this.vertexAt(pt);
+                if (index >= 0) this.drag = { kind: "vertex", index };
+                break;
+            }
+            case "add": {
+                const edge = this.edgeAt(pt);
+                if (!edge) break;
+                this.points.splice(edge.index + 1, 0, edge.at);
+                this.drag = { kind: "vertex", index: edge.index + 1 };
+                this.changed = true;
+                break;
+            }
+            case "delete": {
+                const index = this.vertexAt(pt);
+                if (index >= 0 && this.points.length > MIN_VERTICES) {
+                    this.points.splice(index, 1);
+                    this.commit();
+                }
+                break;
+            }
+            case "segment": {
+                const edge = this.edgeAt(pt);
+                if (edge) this.drag = { kind: "segment", index: edge.index, last: pt };
+                break;
+            }
+            case "erase":
+            case "smooth":
+                this.drag = { kind: "brush" };
+                this.brush(pt);
+                break;
+        }
+
+        if (this.drag) {
+            this.canvas.setPointerCapture(evt.pointerId);
+        }
+        this.handlers.onChange();
+    }
+
+    /**
+     * Follows the pointer during an edit and moves the brush outline
+     *
+     * @param {PointerEvent} evt - Pointer move event
+     */
+    private handleMove(evt: PointerEvent) {
+        if (!this.active) return;
+
+        const pt = this.toCanvas(evt);
+        this.pointer = pt;
+
+        const drag = this.drag;
+        if (drag && drag.kind === "vertex") {
+            this.points[drag.index] = pt;
+            this.changed = true;
+        } else if (drag && drag.kind === "segment") {
+            const dx = pt.x - drag.last.x, dy = pt.y - drag.last.y;
+            for (const i of [drag.index, (drag.index + 1) % this.points.length]) {
+                this.points[i] = { x: this.points[i].x + dx, y: this.points[i].y + dy };
+            }
+            drag.last = pt;
+            this.changed = true;
+        } else if (drag) {
+            this.brush(pt);
+        }
+
+        this.handlers.onChange();
+    }
+
+    /**
+     * Finishes an edit and hands it over when anything changed
+     *
+     * @param {PointerEvent} evt - Pointer up event
+     */
+    private handleUp(evt: PointerEvent) {
+        if (!this.drag) return;
+
+        this.drag = null;
+        this.canvas.releasePointerCapture(evt.pointerId);
+        if (this.changed) {
+            this.commit();
+        }
+    }
+
+    /**
+     * Sends the outline back in source image pixels
+     */
+    private commit() {
+        this.changed = false;
+        this.handlers.onCommit(this.points.map(pt => ({ x: pt.x / this.scale, y: pt.y / this.scale })));
+    }
+}
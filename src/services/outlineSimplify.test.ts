@@ -0,0 +1,71 @@
+import { refineOutline, simplifyClosedPath, smoothClosedPath } from "./outlineSimplify";
+import { point_t } from "../types";
+
+/** A 10 × 10 square traced on a pixel grid, one point per pixel along every edge */
+const TRACED_SQUARE: point_t[] = [].concat(
+    Array.from({ length: 10 }, (_, i) => ({ x: i, y: 0 })),
+    Array.from({ length: 10 }, (_, i) => ({ x: 10, y: i })),
+    Array.from({ length: 10 }, (_, i) => ({ x: 10 - i, y: 10 })),
+    Array.from({ length: 10 }, (_, i) => ({ x: 0, y: 10 - i }))
+);
+
+/** A circle of radius 10 with a point every degree */
+const CIRCLE: point_t[] = Array.from({ length: 360 }, (_, i) => ({
+    x: 10 * Math.cos(i * Math.PI / 180),
+    y: 10 * Math.sin(i * Math.PI / 180)
+}));
+
+describe("simplifyClosedPath", () => {
+    it("reduces a traced square to its corners", () => {
+        const simplified = simplifyClosedPath(TRACED_SQUARE, .1);
+        expect(simplified).toHaveLength(4);
+        expect(simplified).toEqual(expect.arrayContaining([
+            { x: 0, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 10 }, { x: 0, y: 10 }
+        ]));
+    });
+
+    it("keeps every point within the deviation of the simplified outline", () => {
+        const simplified = simplifyClosedPath(CIRCLE, .05);
+        expect(simplified.length).toBeLessThan(CIRCLE.length);
+        for (const pt of simplified) {
+            expect(Math.hypot(pt.x, pt.y)).toBeCloseTo(10);
+        }
+        // the sagitta of the longest chord stays below the deviation
+        const longest = Math.max(...simplified.map((pt, i) => {
+            const next = simplified[(i + 1) % simplified.length];
+            return Math.hypot(next.x - pt.x, next.y - pt.y);
+        }));
+        expect(10 - Math.sqrt(100 - longest * longest / 4)).toBeLessThanOrEqual(.05);
+    });
+
+    it("leaves the outline alone without a deviation", () => {
+        expect(simplifyClosedPath(CIRCLE, 0)).toEqual(CIRCLE);
+    });
+});
+
+describe("smoothClosedPath", () => {
+    it("cuts every corner into two points a quarter along its edges", () => {
+        const square = [{ x: 0, y: 0 }, { x: 4, y: 0 }, { x: 4, y: 4 }, { x: 0, y: 4 }];
+        const smoothed = smoothClosedPath(square, 1);
+        expect(smoothed).toHaveLength(8);
+        expect(smoothed[0]).toEqual({ x: 1, y: 0 });
+        expect(smoothed[1]).toEqual({ x: 3, y: 0 });
+    });
+
+    it("leaves the outline alone without passes", () => {
+        expect(smoothClosedPath(TRACED_SQUARE, 0)).toEqual(TRACED_SQUARE);
+    });
+});
+
+describe("refineOutline", () => {
+    it("smooths a simplified outline without growing it past the original", () => {
+        const refined = refineOutline(TRACED_SQUARE, .1, 2);
+        expect(refined.length).toBeGreaterThan(4);
+        for (const pt of refined) {
+            expect(pt.x).toBeGreaterThanOrEqual(0);
+            expect(pt.x).toBeLessThanOrEqual(10);
+            expect(pt.y).toBeGreaterThanOrEqual(0);
+            expect(pt.y).toBeLessThanOrEqual(10);
+        }
+    });
+});
@@ -0,0 +1,155 @@
+/**
+ * @fileoverview Outline Simplification and Smoothing for Cookie Cutter Monster
+ *
+ * Traced contours follow the pixel grid, so straight edges come out as stair
+ * steps and curves as jagged runs of points. This service cleans them up in
+ * real-world millimetres before walls are built from them:
+ *
+ * - Ramer–Douglas–Peucker simplification removes every point that deviates
+ *   less than a maximum distance from the simplified outline
+ * - Chaikin corner cutting optionally rounds the remaining corners so stair
+ *   steps turn into smooth curves
+ *
+ * All paths are closed; the last point should not repeat the first.
+ *
+ * @author Cookie Cutter Monster Team
+ * @version 1.0.0
+ * @since 2020-08-01
+ */
+
+import { point_t } from "../types";
+
+/**
+ * Distance from a point to the segment ab
+ *
+ * @param {point_t} pt - Point to measure
+ * @param {point_t} a - Segment start
+ * @param {point_t} b - Segment end
+ * @returns {number} Shortest distance
+ */
+function distanceToSegment(pt: point_t, a: point_t, b: point_t): number {
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lenSq = dx * dx + dy * dy;
+    let t = lenSq ? ((pt.x - a.x) * dx + (pt.y - a.y) * dy) / lenSq : 0;
+    t = Math.max(0, Math.min(1, t));
+    return Math.hypot(a.x + dx * t - pt.x, a.y + dy * t - pt.y);
+}
+
+/**
+ * Simplifies an open polyline with the Ramer–Douglas–Peucker algorithm
+ *
+ * Uses an explicit stack so long contours cannot overflow the call stack.
+ *
+ * @param {point_t[]} points - Polyline, first and last points are always kept
+ * @param {number} maxDeviation - Largest allowed distance from the original
+ * @returns {point_t[]} Simplified polyline
+ */
+function simplifyPolyline(points: point_t[], maxDeviation: number): point_t[] {
+    if (points.length < 3) return points.slice();
+
+    const keep = new Uint8Array(points.length);
+    keep[0] = 1;
+    keep[points.length - 1] = 1;
+
+    const stack: number[][] = [[0, points.length - 1]];
+    while (stack.length) {
+        const [first, last] = stack.pop();
+        let index = -1;
+        let farthest = maxDeviation;
+
+        for (let i = first + 1; i < last; i++) {
+            const distance = distanceToSegment(points[i], points[first], points[last]);
+            if (distance > farthest) {
+                index = i;
+                farthest = distance;
+            }
+        }
+
+        if (index !== -1) {
+            keep[index] = 1;
+            stack.push([first, index], [index, last]);
+        }
+    }
+
+    return points.filter((_, i) => keep[i] === 1);
+}
+
+/**
+ * Simplifies a closed outline so it never deviates more than maxDeviation
+ *
+ * The outline is split at the point farthest from its first point, which is
+ * always a true corner of the shape, and both halves are simplified with
+ * Ramer–Douglas–Peucker.
+ *
+ * @param {point_t[]} path - Closed outline
+ * @param {number} maxDeviation - Largest allowed deviation, in the units of the points
+ * @returns {point_t[]} Simplified closed outline
+ */
+export function simplifyClosedPath(path: point_t[], maxDeviation: number): point_t[] {
+    if (path.length < 4 || maxDeviation <= 0) return path.slice();
+
+    let split = 0;
+    let farthest = -1;
+    for (let i = 1; i < path.length; i++) {
+        const distance = Math.hypot(path[i].x - path[0].x, path[i].y - path[0].y);
+        if (distance > farthest) {
+            split = i;
+            farthest = distance;
+        }
+    }
+
+    const firstHalf = simplifyPolyline(path.slice(0, split + 1), maxDeviation);
+    const secondHalf = simplifyPolyline(path.slice(split).concat([path[0]]), maxDeviation);
+
+    // drop the shared split point and the repeated start point
+    const result = firstHalf.concat(secondHalf.slice(1, -1));
+    return result.length > 2 ? result : path.slice();
+}
+
+/**
+ * Smooths a closed outline with Chaikin's corner cutting
+ *
+ * Every pass replaces each corner with two points a quarter of the way along
+ * its edges, converging on a quadratic B-spline through the outline.
+ *
+ * @param {point_t[]} path - Closed outline
+ * @param {number} iterations - Number of passes, 0 leaves the outline untouched
+ * @returns {point_t[]} Smoothed closed outline
+ */
+export function smoothClosedPath(path: point_t[], iterations: number): point_t[] {
+    let result = path.slice();
+
+    for (let pass = 0; pass < iterations && result.length > 2; pass++) {
+        const next: point_t[] = [];
+        for (let i = 0; i < result.length; i++) {
+            const a = result[i];
+            const b = result[(i + 1) % result.length];
+            next.push(
+                { x: a.x * .75 + b.x * .25, y: a.y * .75 + b.y * .25 },
+                { x: a.x * .25 + b.x * .75, y: a.y * .25 + b.y * .75 }
+            );
+        }
+        result = next;
+    }
+
+    return result;
+}
+
+/**
+ * Cleans up a traced outline: simplify to the requested detail, then smooth
+ *
+ * Smoothing multiplies the point count, so the result is simplified once more
+ * with the same deviation to keep files small.
+ *
+ * @param {point_t[]} path - Closed outline in millimetres
+ * @param {number} maxDeviation - Detail level as a maximum deviation in mm
+ * @param {number} smoothness - Number of smoothing passes
+ * @returns {point_t[]} Cleaned closed outline
+ */
+export function refineOutline(path: point_t[], maxDeviation: number, smoothness: number): point_t[] {
+    const simplified = simplifyClosedPath(path, maxDeviation);
+    if (!smoothness) return simplified;
+
+    return simplifyClosedPath(smoothClosedPath(simplified, smoothness), maxDeviation / 4);
+}
@@ -0,0 +1,84 @@
+import { cleanPath, mergeOutlines, offsetPolygon, pointInPolygon, signedArea, unionPaths, windingNumber } from "./polygonOffset";
+import { point_t } from "../types";
+
+/** A 10 × 10 square, counter-clockwise */
+const SQUARE: point_t[] = [{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 10 }, { x: 0, y: 10 }];
+
+/** The square moved right by a number of units */
+function shifted(path: point_t[], dx: number): point_t[] {
+    return path.map(pt => ({ x: pt.x + dx, y: pt.y }));
+}
+
+describe("signedArea", () => {
+    it("is positive counter-clockwise and negative clockwise", () => {
+        expect(signedArea(SQUARE)).toBeCloseTo(100);
+        expect(signedArea(SQUARE.slice().reverse())).toBeCloseTo(-100);
+    });
+});
+
+describe("windingNumber and pointInPolygon", () => {
+    it("tells points inside from points outside", () => {
+        expect(pointInPolygon({ x: 5, y: 5 }, SQUARE)).toBe(true);
+        expect(pointInPolygon({ x: 15, y: 5 }, SQUARE)).toBe(false);
+        expect(windingNumber({ x: 5, y: 5 }, [SQUARE])).toBe(1);
+        expect(windingNumber({ x: 5, y: 5 }, [SQUARE, SQUARE])).toBe(2);
+    });
+});
+
+describe("cleanPath", () => {
+    it("drops repeated and collinear points", () => {
+        const path = [SQUARE[0], { x: 5, y: 0 }, SQUARE[1], SQUARE[1], SQUARE[2], SQUARE[3]];
+        expect(cleanPath(path)).toEqual(SQUARE);
+    });
+
+    it("returns nothing for a path without area", () => {
+        expect(cleanPath([{ x: 0, y: 0 }, { x: 1, y: 1 }, { x: 2, y: 2 }])).toEqual([]);
+    });
+});
+
+describe("offsetPolygon", () => {
+    it("grows a square by the offset with mitered corners", () => {
+        const [grown] = offsetPolygon(SQUARE, 1, { joinType: "miter" });
+        expect(signedArea(grown)).toBeCloseTo(144);
+    });
+
+    it("grows a square with round corners close to the true area", () => {
+        const [grown] = offsetPolygon(SQUARE, 1, { joinType: "round", arcTolerance: .001 });
+        expect(signedArea(grown)).toBeCloseTo(140 + Math.PI, 1);
+    });
+
+    it("shrinks a clockwise square into a counter-clockwise one", () => {
+        const [shrunk] = offsetPolygon(SQUARE.slice().reverse(), -1);
+        expect(signedArea(shrunk)).toBeCloseTo(64);
+    });
+
+    it("shrinks a thin rectangle whose corners use more than half an edge", () => {
+        const rectangle = [{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 4 }, { x: 0, y: 4 }];
+        const [shrunk] = offsetPolygon(rectangle, -1.5);
+        expect(signedArea(shrunk)).toBeCloseTo(7);
+    });
+
+    it("shrinks a square to nothing once the offset passes its middle", () => {
+        expect(offsetPolygon(SQUARE, -6)).toEqual([]);
+    });
+});
+
+describe("unionPaths", () => {
+    it("joins overlapping squares into one outline", () => {
+        const union = unionPaths([SQUARE, shifted(SQUARE, 5)]);
+        expect(union.length).toBe(1);
+        expect(signedArea(union[0])).toBeCloseTo(150);
+    });
+});
+
+describe("mergeOutlines", () => {
+    it("keeps outlines apart that are further away than the gap", () => {
+        expect(mergeOutlines([SQUARE, shifted(SQUARE, 12)], 1).length).toBe(2);
+    });
+
+    it("joins outlines closer than the gap, largest first", () => {
+        const merged = mergeOutlines([SQUARE, shifted(SQUARE, 11)], 2, { joinType: "miter" });
+        expect(merged.length).toBe(1);
+        expect(signedArea(merged[0])).toBeGreaterThan(200);
+    });
+});
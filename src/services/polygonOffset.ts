@@ -0,0 +1,553 @@
+/**
+ * @fileoverview Polygon Offsetting Engine for Cookie Cutter Monster
+ *
+ * This service grows and shrinks outlines with vector maths instead of drawing
+ * them onto a raster. It is used to turn a single contour into the inner and
+ * outer paths of a cutter wall or handle, directly in millimetres.
+ *
+ * How it works:
+ * 1. Every edge is moved along its normal by the offset distance
+ * 2. Corners facing the offset direction get a round, miter or square join
+ * 3. Corners facing away use the intersection of the two offset edges, or
+ *    are connected through the original vertex when the edges are too short,
+ *    which leaves small loops behind
+ * 4. The raw result is split at every self-intersection and only the regions
+ *    with a positive winding number are kept, removing those loops as well as
+ *    any overlaps created on concave shapes
+ *
+ * Coordinates are plain {x, y} objects, so THREE.Vector2 arrays can be passed
+ * in directly. Paths are implicitly closed; the last point should not repeat
+ * the first.
+ *
+ * @author Cookie Cutter Monster Team
+ * @version 1.0.0
+ * @since 2020-08-01
+ */
+
+import { JoinType, point_t } from "../types";
+
+/**
+ * Options controlling the shape of offset corners
+ */
+export interface OffsetOptions {
+    /** Corner style for convex corners (default: round) */
+    joinType?: JoinType,
+    /** Maximum miter length as a multiple of the offset distance (default: 2) */
+    miterLimit?: number,
+    /** Maximum distance a round join may deviate from a true arc (default: 0.02) */
+    arcTolerance?: number
+}
+
+/** Points closer than this are treated as the same node when splitting edges */
+const NODE_PRECISION = 1e6;
+
+/** Distance below which an end point is considered to lie on another segment */
+const ON_SEGMENT_EPSILON = 1 / NODE_PRECISION;
+
+/** Distance used to sample the winding number either side of an edge */
+const SIDE_EPSILON = 1e-6;
+
+/**
+ * Distance from the line through its neighbours below which a point counts
+ * as straight. Far below print resolution, but above the rounding of the
+ * 32-bit floats meshes are stored in, where such points would otherwise end
+ * up as triangles without area
+ */
+const COLLINEAR_EPSILON = 1e-4;
+
+/**
+ * A node of the planar graph built while resolving self-intersections
+ */
+interface GraphNode {
+    x: number,
+    y: number,
+    /** Outgoing edges that bound a filled region */
+    out: GraphEdge[]
+}
+
+/**
+ * A directed edge of the planar graph
+ */
+interface GraphEdge {
+    from: GraphNode,
+    to: GraphNode,
+    used: boolean
+}
+
+/**
+ * Computes the signed area of a closed path
+ *
+ * Positive values mean the path runs counter-clockwise in a y-up coordinate
+ * system (clockwise on screen, where y points down).
+ *
+ * @param {point_t[]} path - Closed path
+ * @returns {number} Signed area
+ */
+export function signedArea(path: point_t[]): number {
+    let area = 0;
+    for (let i = 0, j = path.length - 1; i < path.length; j = i++) {
+        area += (path[j].x - path[i].x) * (path[j].y + path[i].y);
+    }
+    return area / 2;
+}
+
+/**
+ * Computes the winding number of a point with respect to a set of closed paths
+ *
+ * @param {point_t} pt - Point to test
+ * @param {point_t[][]} paths - Closed paths
+ * @returns {number} Sum of the winding numbers of every path around the point
+ */
+export function windingNumber(pt: point_t, paths: point_t[][]): number {
+    let wn = 0;
+    for (const path of paths) {
+        for (let i = 0, j = path.length - 1; i < path.length; j = i++) {
+            wn += crossing(pt, path[j], path[i]);
+        }
+    }
+    return wn;
+}
+
+/**
+ * Contribution of the directed segment ab to the winding number around a point
+ *
+ * @returns {number} +1 for an upward crossing with the point on the left,
+ *                   -1 for a downward crossing with the point on the right, else 0
+ */
+function crossing(pt: point_t, a: point_t, b: point_t): number {
+    const isLeft = (b.x - a.x) * (pt.y - a.y) - (pt.x - a.x) * (b.y - a.y);
+    if (a.y <= pt.y) {
+        if (b.y > pt.y && isLeft > 0) return 1;
+    } else if (b.y <= pt.y && isLeft < 0) {
+        return -1;
+    }
+    return 0;
+}
+
+/**
+ * Answers many winding number queries against the same paths
+ *
+ * Segments are bucketed into horizontal bands so each query only looks at
+ * the segments that span its y coordinate.
+ *
+ * @param {point_t[][]} paths - Closed paths
+ * @returns {(pt: point_t) => number} Winding number lookup
+ */
+function windingIndex(paths: point_t[][]): (pt: point_t) => number {
+    const segments: point_t[][] = [];
+    let minY = Infinity;
+    let maxY = -Infinity;
+    for (const path of paths) {
+        for (let i = 0, j = path.length - 1; i < path.length; j = i++) {
+            segments.push([path[j], path[i]]);
+            minY = Math.min(minY, path[i].y);
+            maxY = Math.max(maxY, path[i].y);
+        }
+    }
+
+    const bandCount = Math.max(1, Math.ceil(segments.length / 8));
+    const bandHeight = (maxY - minY) / bandCount || 1;
+    const bandOf = (y: number) => Math.min(bandCount - 1, Math.max(0, Math.floor((y - minY) / bandHeight)));
+    const bands: point_t[][][] = [];
+    for (let b = 0; b < bandCount; b++) bands.push([]);
+    for (const seg of segments) {
+        const from = bandOf(Math.min(seg[0].y, seg[1].y));
+        const to = bandOf(Math.max(seg[0].y, seg[1].y));
+        for (let b = from; b <= to; b++) bands[b].push(seg);
+    }
+
+    return (pt: point_t) => {
+        if (pt.y < minY || pt.y > maxY) return 0;
+        let wn = 0;
+        for (const seg of bands[bandOf(pt.y)]) {
+            wn += crossing(pt, seg[0], seg[1]);
+        }
+        return wn;
+    };
+}
+
+/**
+ * Tests whether a point lies inside a closed path (non-zero rule)
+ *
+ * @param {point_t} pt - Point to test
+ * @param {point_t[]} path - Closed path
+ * @returns {boolean} True if the point is inside
+ */
+export function pointInPolygon(pt: point_t, path: point_t[]): boolean {
+    return windingNumber(pt, [path]) !== 0;
+}
+
+/**
+ * Removes repeated points, points that lie on a straight line between their
+ * neighbours and the tips of zero-width spikes
+ *
+ * @param {point_t[]} path - Closed path
+ * @param {number} epsilon - Distance below which points are considered equal or on a line
+ * @returns {point_t[]} Cleaned path
+ */
+export function cleanPath(path: point_t[], epsilon: number = COLLINEAR_EPSILON): point_t[] {
+    let result = path.filter((pt, i) => {
+        const prev = path[(i + path.length - 1) % path.length];
+        return Math.abs(pt.x - prev.x) > epsilon || Math.abs(pt.y - prev.y) > epsilon;
+    });
+
+    let changed = true;
+    while (changed && result.length > 2) {
+        changed = false;
+        const kept: point_t[] = [];
+        for (let i = 0; i < result.length; i++) {
+            const prev = kept.length ? kept[kept.length - 1] : result[result.length - 1];
+            const pt = result[i];
+            const next = result[(i + 1) % result.length];
+            const cross = (pt.x - prev.x) * (next.y - pt.y) - (pt.y - prev.y) * (next.x - pt.x);
+            if (Math.abs(cross) <= epsilon * Math.hypot(next.x - prev.x, next.y - prev.y)) {
+                changed = true;
+            } else {
+                kept.push(pt);
+            }
+        }
+        result = kept;
+    }
+
+    return result.length > 2 ? result : [];
+}
+
+/**
+ * Builds the raw, possibly self-intersecting offset of one path
+ *
+ * The path is offset to its right-hand side in y-up coordinates, which is
+ * outwards for a counter-clockwise path.
+ *
+ * @param {point_t[]} path - Cleaned closed path
+ * @param {number} delta - Positive offset distance
+ * @param {OffsetOptions} options - Join settings
+ * @returns {point_t[]} Raw offset path
+ */
+function rawOffset(path: point_t[], delta: number, options: OffsetOptions): point_t[] {
+    const joinType = options.joinType || "round";
+    const miterLimit = Math.max(options.miterLimit || 2, 1);
+    const arcTolerance = Math.min(options.arcTolerance || 0.02, delta / 4);
+    const n = path.length;
+
+    const normals: point_t[] = [];
+    const tangents: point_t[] = [];
+    const lengths: number[] = [];
+    for (let i = 0; i < n; i++) {
+        const a = path[i];
+        const b = path[(i + 1) % n];
+        const len = Math.hypot(b.x - a.x, b.y - a.y);
+        const t = { x: (b.x - a.x) / len, y: (b.y - a.y) / len };
+        tangents.push(t);
+        normals.push({ x: t.y, y: -t.x });
+        lengths.push(len);
+    }
+
+    const out: point_t[] = [];
+    const push = (p: point_t, nx: number, ny: number) => out.push({ x: p.x + nx * delta, y: p.y + ny * delta });
+
+    for (let j = 0; j < n; j++) {
+        const i = (j + n - 1) % n;
+        const p = path[j];
+        const n1 = normals[i];
+        const n2 = normals[j];
+        const sinA = n1.x * n2.y - n1.y * n2.x;
+        const cosA = n1.x * n2.x + n1.y * n2.y;
+
+        if (Math.abs(sinA) < 1e-12 && cosA > 0) {
+            // straight through, a single point is enough
+            push(p, n1.x, n1.y);
+            continue;
+        }
+
+        if (sinA < 0) {
+            // corner faces away from the offset. When both offset edges are long
+            // enough to meet, their intersection is the exact answer. Each edge is
+            // shared with the corner at its other end, so neither may use more
+            // than half of it or the edge turns around and leaves a false loop
+            const r = 1 + cosA;
+            if (r > 0.5 && delta * -sinA / r < Math.min(lengths[i], lengths[j]) / 2) {
+                push(p, (n1.x + n2.x) / r, (n1.y + n2.y) / r);
+                continue;
+            }
+
+            // otherwise connect through the vertex and let the clean-up remove the loop
+            push(p, n1.x, n1.y);
+            out.push({ x: p.x, y: p.y });
+            push(p, n2.x, n2.y);
+            continue;
+        }
+
+        if (joinType === "miter" && 1 + cosA >= 2 / (miterLimit * miterLimit)) {
+            const r = 1 + cosA;
+            push(p, (n1.x + n2.x) / r, (n1.y + n2.y) / r);
+        } else if (joinType === "round") {
+            const angle = Math.atan2(sinA, cosA);
+            const stepAngle = 2 * Math.acos(Math.max(-1, Math.min(1, 1 - arcTolerance / delta)));
+            const steps = Math.max(1, Math.ceil(angle / stepAngle));
+            const start = Math.atan2(n1.y, n1.x);
+            for (let s = 0; s <= steps; s++) {
+                const a = start + angle * s / steps;
+                push(p, Math.cos(a), Math.sin(a));
+            }
+        } else {
+            // square join, also the fallback for miters beyond the limit
+            const t1 = tangents[i];
+            const t2 = tangents[j];
+            const bx = n1.x + n2.x;
+            const by = n1.y + n2.y;
+            const blen = Math.hypot(bx, by);
+            // a full reversal has no bisector, cap it straight ahead instead
+            const b = blen > 1e-6 ? { x: bx / blen, y: by / blen } : t1;
+            const along = (1 - (n1.x * b.x + n1.y * b.y)) / Math.max(t1.x * b.x + t1.y * b.y, 1e-12);
+            push(p, n1.x + t1.x * along, n1.y + t1.y * along);
+            push(p, n2.x - t2.x * along, n2.y - t2.y * along);
+        }
+    }
+
+    return out;
+}
+
+/**
+ * A point where a segment is split, with its parameter along the segment
+ */
+interface SplitPoint {
+    t: number,
+    x: number,
+    y: number
+}
+
+/**
+ * Finds the parameter along segment ab where it crosses segment cd
+ *
+ * @returns {number[] | null} Parameters [t, u] along ab and cd, or null
+ */
+function segmentIntersection(a: point_t, b: point_t, c: point_t, d: point_t): number[] | null {
+    const rx = b.x - a.x;
+    const ry = b.y - a.y;
+    const sx = d.x - c.x;
+    const sy = d.y - c.y;
+    const denom = rx * sy - ry * sx;
+    if (Math.abs(denom) < 1e-18) return null;
+
+    const t = ((c.x - a.x) * sy - (c.y - a.y) * sx) / denom;
+    const u = ((c.x - a.x) * ry - (c.y - a.y) * rx) / denom;
+    if (t < 0 || t > 1 || u < 0 || u > 1) return null;
+    return [t, u];
+}
+
+/**
+ * Splits a segment where a point lies on it, used for overlapping parallel segments
+ *
+ * @param {{ a: point_t, b: point_t, splits: SplitPoint[] }} seg - Segment to split
+ * @param {point_t} pt - Candidate split point
+ */
+function splitAtPoint(seg: { a: point_t, b: point_t, splits: SplitPoint[] }, pt: point_t) {
+    const dx = seg.b.x - seg.a.x;
+    const dy = seg.b.y - seg.a.y;
+    const lenSq = dx * dx + dy * dy;
+    if (lenSq === 0) return;
+
+    const t = ((pt.x - seg.a.x) * dx + (pt.y - seg.a.y) * dy) / lenSq;
+    if (t <= 0 || t >= 1) return;
+
+    const distance = Math.abs((pt.x - seg.a.x) * dy - (pt.y - seg.a.y) * dx) / Math.sqrt(lenSq);
+    if (distance < ON_SEGMENT_EPSILON) {
+        seg.splits.push({ t, x: pt.x, y: pt.y });
+    }
+}
+
+/**
+ * Keeps the regions of a set of closed paths whose winding number is positive
+ *
+ * All paths are split at their mutual intersections, and only edges with a
+ * filled region on their left and an empty region on their right survive.
+ * The surviving edges are then linked back into simple closed paths.
+ * Outer boundaries come back counter-clockwise and holes clockwise (y-up).
+ *
+ * This is both the self-intersection clean-up step of the offsetter and a
+ * boolean union for counter-clockwise paths.
+ *
+ * @param {point_t[][]} paths - Closed, possibly overlapping paths
+ * @returns {point_t[][]} Simple closed paths bounding the filled area
+ */
+export function unionPaths(paths: point_t[][]): point_t[][] {
+    const input = paths.map(path => cleanPath(path)).filter(path => path.length > 2);
+    if (!input.length) return [];
+
+    const nodes = new Map<string, GraphNode>();
+    const getNode = (x: number, y: number): GraphNode => {
+        const key = Math.round(x * NODE_PRECISION) + "," + Math.round(y * NODE_PRECISION);
+        let node = nodes.get(key);
+        if (!node) {
+            node = { x, y, out: [] };
+            nodes.set(key, node);
+        }
+        return node;
+    };
+
+    // flatten into segments, sorted by their left-most x for a simple sweep
+    const segments: { a: point_t, b: point_t, minX: number, maxX: number, path: number, index: number, splits: SplitPoint[] }[] = [];
+    input.forEach((path, p) => {
+        for (let i = 0; i < path.length; i++) {
+            const a = path[i];
+            const b = path[(i + 1) % path.length];
+            const splits = [{ t: 0, x: a.x, y: a.y }, { t: 1, x: b.x, y: b.y }];
+            segments.push({ a, b, minX: Math.min(a.x, b.x), maxX: Math.max(a.x, b.x), path: p, index: i, splits });
+        }
+    });
+    const sorted = segments.slice().sort((s1, s2) => s1.minX - s2.minX);
+
+    for (let i = 0; i < sorted.length; i++) {
+        const s1 = sorted[i];
+        for (let j = i + 1; j < sorted.length && sorted[j].minX <= s1.maxX; j++) {
+            const s2 = sorted[j];
+            if (s1.path === s2.path) {
+                const len = input[s1.path].length;
+                const diff = Math.abs(s1.index - s2.index);
+                if (diff === 1 || diff === len - 1) continue;
+            }
+            if (Math.max(s1.a.y, s1.b.y) < Math.min(s2.a.y, s2.b.y) ||
+                Math.max(s2.a.y, s2.b.y) < Math.min(s1.a.y, s1.b.y)) continue;
+
+            const hit = segmentIntersection(s1.a, s1.b, s2.a, s2.b);
+            if (!hit) {
+                // parallel segments can still overlap, split each at the other's ends
+                splitAtPoint(s1, s2.a);
+                splitAtPoint(s1, s2.b);
+                splitAtPoint(s2, s1.a);
+                splitAtPoint(s2, s1.b);
+            } else {
+                // both segments share the exact same point so they meet at one node
+                const x = s1.a.x + (s1.b.x - s1.a.x) * hit[0];
+                const y = s1.a.y + (s1.b.y - s1.a.y) * hit[0];
+                s1.splits.push({ t: hit[0], x, y });
+                s2.splits.push({ t: hit[1], x, y });
+            }
+        }
+    }
+
+    const winding = windingIndex(input);
+
+    // walk every split edge once and keep the boundary of the positive region
+    for (const seg of segments) {
+        const splits = seg.splits.sort((s1, s2) => s1.t - s2.t);
+        for (let k = 0; k < splits.length - 1; k++) {
+            const from = getNode(splits[k].x, splits[k].y);
+            const to = getNode(splits[k + 1].x, splits[k + 1].y);
+            if (from === to) continue;
+
+            const dx = to.x - from.x;
+            const dy = to.y - from.y;
+            const len = Math.hypot(dx, dy);
+            const mx = (from.x + to.x) / 2;
+            const my = (from.y + to.y) / 2;
+            const lx = -dy / len * SIDE_EPSILON;
+            const ly = dx / len * SIDE_EPSILON;
+
+            const left = winding({ x: mx + lx, y: my + ly });
+            const right = winding({ x: mx - lx, y: my - ly });
+            if (left > 0 && right <= 0 && !from.out.some(e => e.to === to)) {
+                from.out.push({ from, to, used: false });
+            }
+        }
+    }
+
+    const result: point_t[][] = [];
+    nodes.forEach(startNode => {
+        for (const startEdge of startNode.out) {
+            if (startEdge.used) continue;
+
+            const loop: point_t[] = [];
+            let edge = startEdge;
+            while (edge && !edge.used) {
+                edge.used = true;
+                loop.push({ x: edge.from.x, y: edge.from.y });
+                if (edge.to === startNode) break;
+
+                // take the tightest turn so touching regions come out as separate loops
+                const back = Math.atan2(edge.from.y - edge.to.y, edge.from.x - edge.to.x);
+                let next: GraphEdge = null;
+                let best = Infinity;
+                for (const candidate of edge.to.out) {
+                    if (candidate.used) continue;
+                    const dir = Math.atan2(candidate.to.y - candidate.from.y, candidate.to.x - candidate.from.x);
+                    let turn = back - dir;
+                    while (turn <= 0) turn += Math.PI * 2;
+                    while (turn > Math.PI * 2) turn -= Math.PI * 2;
+                    if (turn < best) {
+                        best = turn;
+                        next = candidate;
+                    }
+                }
+                edge = next;
+            }
+
+            const cleaned = cleanPath(loop);
+            if (cleaned.length > 2 && Math.abs(signedArea(cleaned)) > 1e-9) {
+                result.push(cleaned);
+            }
+        }
+    });
+
+    return result;
+}
+
+/**
+ * Offsets a set of closed paths by a distance
+ *
+ * Counter-clockwise paths (y-up) are treated as outer boundaries and
+ * clockwise paths as holes. A positive delta grows the filled area and a
+ * negative delta shrinks it; parts that shrink away entirely disappear.
+ *
+ * @param {point_t[][]} paths - Closed paths with consistent orientation
+ * @param {number} delta - Offset distance, in the same units as the points
+ * @param {OffsetOptions} options - Join settings
+ * @returns {point_t[][]} Offset outlines, outer boundaries counter-clockwise
+ */
+export function offsetPaths(paths: point_t[][], delta: number, options: OffsetOptions = {}): point_t[][] {
+    const cleaned = paths.map(path => cleanPath(path)).filter(path => path.length > 2);
+    if (delta === 0) return unionPaths(cleaned);
+
+    const raw = cleaned.map(path => {
+        if (delta > 0) return rawOffset(path, delta, options);
+        return rawOffset(path.slice().reverse(), -delta, options).reverse();
+    });
+
+    return unionPaths(raw);
+}
+
+/**
+ * Merges outlines into as few as possible with a boolean union
+ *
+ * With a gap the outlines are grown by half of it, unioned and shrunk back,
+ * so parts up to the gap apart are joined without the result getting any
+ * bigger. Holes of the result are dropped.
+ *
+ * @param {point_t[][]} paths - Closed outlines, in any orientation
+ * @param {number} gap - Widest gap to close, in the same units as the points
+ * @param {OffsetOptions} options - Join settings
+ * @returns {point_t[][]} The merged outer boundaries, counter-clockwise, largest first
+ */
+export function mergeOutlines(paths: point_t[][], gap: number, options: OffsetOptions = {}): point_t[][] {
+    const oriented = paths.map(path => signedArea(path) < 0 ? path.slice().reverse() : path);
+    const merged = gap > 0
+        ? offsetPaths(offsetPaths(oriented, gap / 2, options), -gap / 2, options)
+        : offsetPaths(oriented, 0);
+
+    return merged
+        .filter(path => signedArea(path) > 0)
+        .sort((a, b) => signedArea(b) - signedArea(a));
+}
+
+/**
+ * Offsets a single closed outline, regardless of its orientation
+ *
+ * @param {point_t[]} path - Closed outline
+ * @param {number} delta - Offset distance; positive grows, negative shrinks
+ * @param {OffsetOptions} options - Join settings
+ * @returns {point_t[][]} Offset outlines, outer boundaries counter-clockwise
+ */
+export function offsetPolygon(path: point_t[], delta: number, options: OffsetOptions = {}): point_t[][] {
+    const oriented = signedArea(path) < 0 ? path.slice().reverse() : path;
+    return offsetPaths([oriented], delta, options);
+}
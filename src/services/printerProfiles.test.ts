@@ -0,0 +1,159 @@
+import printerProfiles, {
+    applyPrinter,
+    BUILT_IN_PRINTERS,
+    checkPrinter,
+    cutterRim,
+    edgeLines,
+    extrusionWidth,
+    fitsBed,
+    largestSize,
+    printerTolerance,
+    snapDepth,
+    snapThickness,
+    thicknessChoices
+} from "./printerProfiles";
+import cookieState from "./cookieState";
+import { buildCutterGeometry } from "./cutterGeometry";
+import { MAX_SIZE } from "../constants";
+import { CookieState_t, printer_profile_t } from "../types";
+
+/** The generic printer with a 0.4 mm nozzle, 0.45 mm lines and a 0.8 mm thinnest wall */
+const GENERIC = BUILT_IN_PRINTERS[0];
+
+/** The cookie state every test starts from */
+const STATE: CookieState_t = { ...cookieState.get(), thickness: 1, handleStyle: "none", handleWidth: 4, cutterBevel: false };
+
+/**
+ * Measures how far a square cutter reaches past its 50 mm outline on one side
+ *
+ * @param {CookieState_t} state - Cookie state to build the cutter with
+ * @returns {number} Reach in millimeters
+ */
+function builtRim(state: CookieState_t): number {
+    const square = [{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 100, y: 100 }, { x: 0, y: 100 }];
+    const geometry = buildCutterGeometry(square, { ...state, size: 50, smoothness: 0 });
+    geometry.computeBoundingBox();
+    return (geometry.boundingBox.max.x - geometry.boundingBox.min.x - 50) / 2;
+}
+
+describe("extrusionWidth and printerTolerance", () => {
+    it("follow the nozzle", () => {
+        expect(extrusionWidth(GENERIC)).toBe(.45);
+        expect(printerTolerance(GENERIC)).toBeGreaterThan(0);
+    });
+});
+
+describe("snapThickness", () => {
+    it("snaps the thickness so the cutting edge prints as whole lines", () => {
+        expect(snapThickness(2.6, GENERIC)).toBe(2.7);
+        expect(edgeLines(2.7, GENERIC)).toBe(3);
+    });
+
+    it("never makes the cutting edge thinner than the thinnest wall", () => {
+        const thickness = snapThickness(.5, GENERIC);
+        expect(thickness).toBe(1.8);
+        expect(edgeLines(thickness, GENERIC) * extrusionWidth(GENERIC)).toBeGreaterThanOrEqual(GENERIC.minWall);
+    });
+});
+
+describe("thicknessChoices", () => {
+    it("offers four thicknesses from the thinnest wall up, each a whole number of lines", () => {
+        expect(thicknessChoices(GENERIC)).toEqual([1.8, 2.7, 3.6, 4.5]);
+        for (const thickness of thicknessChoices(GENERIC)) {
+            expect(snapThickness(thickness, GENERIC)).toBe(thickness);
+        }
+    });
+
+    it("prints the cutting edge as wide as the lines", () => {
+        // the edge reaches half its width past the outline on either side
+        const [thinnest] = thicknessChoices(GENERIC);
+        expect(2 * builtRim({ ...STATE, thickness: thinnest })).toBeCloseTo(2 * extrusionWidth(GENERIC), 2);
+    });
+});
+
+describe("snapDepth", () => {
+    it("rounds the depth to whole layers, at least one", () => {
+        expect(snapDepth(16.05, GENERIC)).toBe(16);
+        expect(snapDepth(16.15, GENERIC)).toBe(16.2);
+        expect(snapDepth(0, GENERIC)).toBe(.2);
+    });
+});
+
+describe("applyPrinter", () => {
+    it("fits the thickness, depth and detail to the printer", () => {
+        expect(applyPrinter(GENERIC, { ...STATE, depth: 16.05 })).toEqual({
+            printer: GENERIC.id, thickness: 1.8, depth: 16, tolerance: printerTolerance(GENERIC)
+        });
+    });
+
+    it("only drops the printer when none is picked", () => {
+        expect(applyPrinter(null, STATE)).toEqual({ printer: "" });
+    });
+});
+
+describe("cutterRim", () => {
+    it("matches how far the built cutter reaches past its outline", () => {
+        const states: CookieState_t[] = [
+            STATE,
+            { ...STATE, cutterBevel: true },
+            { ...STATE, handleStyle: "flange" },
+            { ...STATE, handleStyle: "flange", handleWidth: 1, cutterBevel: true, thickness: 2 }
+        ];
+        for (const state of states) {
+            expect(cutterRim(state)).toBeCloseTo(builtRim(state), 1);
+        }
+    });
+});
+
+describe("largestSize and fitsBed", () => {
+    it("caps the size at the bed less the rim on both ends", () => {
+        expect(largestSize(STATE, null)).toBe(MAX_SIZE);
+        expect(largestSize({ ...STATE, handleStyle: "flange" }, GENERIC)).toBe(216);
+    });
+
+    it("lets the cutter turn to fit", () => {
+        const long: printer_profile_t = { ...GENERIC, bedWidth: 300, bedDepth: 100 };
+        expect(fitsBed(90, 250, long)).toBe(true);
+        expect(fitsBed(150, 150, long)).toBe(false);
+    });
+});
+
+describe("checkPrinter", () => {
+    it("accepts the built-in profiles", () => {
+        for (const profile of BUILT_IN_PRINTERS) {
+            expect(checkPrinter(profile)).toEqual([]);
+        }
+    });
+
+    it("lists every problem", () => {
+        const problems = checkPrinter({ ...GENERIC, name: " ", nozzle: 5, bedWidth: 10 });
+        expect(problems).toContain("the profile needs a name");
+        expect(problems).toContain("the nozzle should be from 0.1 to 2 mm");
+        expect(problems.length).toBeGreaterThanOrEqual(3);
+    });
+});
+
+describe("printerProfiles", () => {
+    it("saves, picks and deletes a profile of the user's without local storage", () => {
+        const listener = jest.fn();
+        const unsubscribe = printerProfiles.subscribe(listener);
+
+        const saved = printerProfiles.save({ ...GENERIC, id: "", name: " My printer ", builtIn: false });
+        expect(saved.id).toMatch(/^custom-/);
+        expect(printerProfiles.get(saved.id).name).toBe("My printer");
+        expect(printerProfiles.list()).toHaveLength(BUILT_IN_PRINTERS.length + 1);
+
+        printerProfiles.select(saved.id);
+        expect(printerProfiles.selected()).toBe(saved.id);
+
+        printerProfiles.remove(saved.id);
+        expect(printerProfiles.get(saved.id)).toBeNull();
+        expect(printerProfiles.selected()).toBe("");
+        expect(listener).toHaveBeenCalledTimes(3);
+        unsubscribe();
+    });
+
+    it("refuses to change a built-in profile", () => {
+        expect(() => printerProfiles.save(GENERIC)).toThrow("built-in printer profiles can't be changed");
+    });
+});
@@ -0,0 +1,373 @@
+/**
+ * @fileoverview Printer Profiles for Cookie Cutter Monster
+ *
+ * Fits the cutter settings to the printer it will be printed on. A profile
+ * holds the nozzle diameter, layer height, bed size and thinnest sturdy wall
+ * of a printer. Picking one snaps the wall thickness so the cutting edge
+ * prints as whole extrusion lines, rounds the depth to whole layers and sets the outline detail the
+ * nozzle can actually print. The bed size caps the cookie size.
+ *
+ * A few common printers ship with the app. Profiles made by the user are
+ * kept in local storage together with the picked one, so both are back
+ * after a reload.
+ *
+ * @author Cookie Cutter Monster Team
+ * @version 1.0.0
+ * @since 2020-08-01
+ */
+
+import { CookieState_t, printer_profile_t } from "../types";
+import { CUTTING_EDGE_RATIO, EXTRUSION_WIDTH_RATIO, MAX_SIZE, PRINTER_STORAGE_KEY, PRINTER_TOLERANCE_RATIO } from "../constants";
+import { wallReach } from "./cutterGeometry";
+
+/** Printers that ship with the app */
+export const BUILT_IN_PRINTERS: printer_profile_t[] = [
+    { id: "builtin-generic-04", name: "Generic, 0.4 mm nozzle", nozzle: .4, layerHeight: .2, bedWidth: 220, bedDepth: 220, minWall: .8, builtIn: true },
+    { id: "builtin-generic-06", name: "Generic, 0.6 mm nozzle", nozzle: .6, layerHeight: .3, bedWidth: 220, bedDepth: 220, minWall: 1.2, builtIn: true },
+    { id: "builtin-fine-025", name: "Fine detail, 0.25 mm nozzle", nozzle: .25, layerHeight: .12, bedWidth: 220, bedDepth: 220, minWall: .5, builtIn: true },
+    { id: "builtin-ender-3", name: "Creality Ender-3", nozzle: .4, layerHeight: .2, bedWidth: 220, bedDepth: 220, minWall: .8, builtIn: true },
+    { id: "builtin-prusa-mk4", name: "Prusa MK4", nozzle: .4, layerHeight: .2, bedWidth: 250, bedDepth: 210, minWall: .8, builtIn: true },
+    { id: "builtin-bambu-a1-mini", name: "Bambu Lab A1 mini", nozzle: .4, layerHeight: .2, bedWidth: 180, bedDepth: 180, minWall: .8, builtIn: true }
+];
+
+/** Number of wall thicknesses offered for a profile, from its thinnest sturdy wall up */
+const WALL_CHOICES = 4;
+
+/**
+ * Called after the profiles or the picked profile changed
+ */
+export type PrinterListener = () => void;
+
+/**
+ * What the local storage entry holds
+ */
+interface StoredPrinters {
+    /** Profiles made by the user */
+    profiles: printer_profile_t[],
+    /** Id of the picked profile, empty for none */
+    selected: string
+}
+
+/**
+ * Rounds a length to a micrometre, dropping the noise of multiplying decimals
+ *
+ * @param {number} mm - Length in millimeters
+ * @returns {number} The rounded length
+ */
+function roundMicrons(mm: number): number {
+    return Math.round(mm * 1000) / 1000;
+}
+
+/**
+ * Works out the width of one printed line
+ *
+ * @param {printer_profile_t} profile - The printer
+ * @returns {number} Extrusion width in millimeters
+ */
+export function extrusionWidth(profile: printer_profile_t): number {
+    return roundMicrons(profile.nozzle * EXTRUSION_WIDTH_RATIO);
+}
+
+/**
+ * Works out how many lines the thinnest sturdy cutting edge of a profile takes
+ *
+ * @param {printer_profile_t} profile - The printer
+ * @returns {number} Number of extrusion lines, at least one
+ */
+function fewestLines(profile: printer_profile_t): number {
+    return Math.max(1, Math.ceil(profile.minWall / extrusionWidth(profile) - 1e-6));
+}
+
+/**
+ * Works out the wall thickness whose cutting edge prints as a number of lines
+ *
+ * @param {number} lines - Number of extrusion lines across the cutting edge
+ * @param {printer_profile_t} profile - The printer
+ * @returns {number} Wall thickness in millimeters
+ */
+function linesThickness(lines: number, profile: printer_profile_t): number {
+    return roundMicrons(lines * extrusionWidth(profile) / CUTTING_EDGE_RATIO);
+}
+
+/**
+ * Counts the extrusion lines across the cutting edge of a wall
+ *
+ * @param {number} mm - Wall thickness in millimeters
+ * @param {printer_profile_t} profile - The printer
+ * @returns {number} Nearest whole number of lines, can be zero
+ */
+export function edgeLines(mm: number, profile: printer_profile_t): number {
+    return Math.round(mm * CUTTING_EDGE_RATIO / extrusionWidth(profile));
+}
+
+/**
+ * Snaps a wall thickness so its cutting edge prints as whole extrusion lines,
+ * never thinner than the profile's thinnest wall
+ *
+ * @param {number} mm - Wall thickness in millimeters
+ * @param {printer_profile_t} profile - The printer
+ * @returns {number} The nearest thickness whose edge the printer lays down as whole lines
+ */
+export function snapThickness(mm: number, profile: printer_profile_t): number {
+    return linesThickness(Math.max(fewestLines(profile), edgeLines(mm, profile)), profile);
+}
+
+/**
+ * Rounds a cutter depth to whole layers
+ *
+ * @param {number} mm - Depth in millimeters
+ * @param {printer_profile_t} profile - The printer
+ * @returns {number} The nearest depth made of whole layers, at least one layer
+ */
+export function snapDepth(mm: number, profile: printer_profile_t): number {
+    return roundMicrons(Math.max(1, Math.round(mm / profile.layerHeight)) * profile.layerHeight);
+}
+
+/**
+ * Works out the outline detail worth printing with a profile
+ *
+ * @param {printer_profile_t} profile - The printer
+ * @returns {number} Maximum outline deviation in millimeters
+ */
+export function printerTolerance(profile: printer_profile_t): number {
+    return Math.round(profile.nozzle * PRINTER_TOLERANCE_RATIO * 100) / 100;
+}
+
+/**
+ * Lists the wall thicknesses offered for a profile
+ *
+ * @param {printer_profile_t} profile - The printer
+ * @returns {number[]} Thicknesses in millimeters, thinnest first, each with a cutting edge of whole lines
+ */
+export function thicknessChoices(profile: printer_profile_t): number[] {
+    const choices: number[] = [];
+    for (let lines = fewestLines(profile); choices.length < WALL_CHOICES; lines++) {
+        choices.push(linesThickness(lines, profile));
+    }
+    return choices;
+}
+
+/**
+ * Works out the settings that change when a profile is picked
+ *
+ * @param {printer_profile_t | null} profile - The printer, null for none
+ * @param {CookieState_t} state - Current cookie state
+ * @returns {Partial<CookieState_t>} The profile id, and with a profile the snapped thickness and depth and its detail
+ */
+export function applyPrinter(profile: printer_profile_t | null, state: CookieState_t): Partial<CookieState_t> {
+    if (!profile) return { printer: "" };
+
+    return {
+        printer: profile.id,
+        thickness: snapThickness(Number(state.thickness), profile),
+        depth: snapDepth(Number(state.depth), profile),
+        tolerance: printerTolerance(profile)
+    };
+}
+
+/**
+ * Works out how far the cutter reaches past its outline on every side
+ *
+ * @param {CookieState_t} state - Current cookie state
+ * @returns {number} The reach of the wall or of the handle, whichever is further, in millimeters
+ */
+export function cutterRim(state: CookieState_t): number {
+    const handle = state.handleStyle === "none" ? 0 : Number(state.handleWidth) / 2;
+    return Math.max(wallReach(state), handle);
+}
+
+/**
+ * Works out the largest cookie size that can be entered
+ *
+ * @param {CookieState_t} state - Current cookie state, for the handle around the outline
+ * @param {printer_profile_t | null} profile - The printer, null for none
+ * @returns {number} MAX_SIZE without a profile, otherwise the longer bed side less the rim on both ends
+ */
+export function largestSize(state: CookieState_t, profile: printer_profile_t | null): number {
+    if (!profile) return MAX_SIZE;
+    return Math.floor(Math.max(profile.bedWidth, profile.bedDepth) - 2 * cutterRim(state));
+}
+
+/**
+ * Checks whether a cutter fits on the bed, turned either way
+ *
+ * @param {number} width - Width of the whole cutter in millimeters
+ * @param {number} depth - Depth of the whole cutter in millimeters
+ * @param {printer_profile_t} profile - The printer
+ * @returns {boolean} True when it fits
+ */
+export function fitsBed(width: number, depth: number, profile: printer_profile_t): boolean {
+    return (width <= profile.bedWidth && depth <= profile.bedDepth) ||
+        (width <= profile.bedDepth && depth <= profile.bedWidth);
+}
+
+/**
+ * Checks the values of a profile
+ *
+ * @param {printer_profile_t} profile - The profile to check
+ * @returns {string[]} Every problem found, empty when the profile is fine
+ */
+export function checkPrinter(profile: printer_profile_t): string[] {
+    const problems: string[] = [];
+    const inRange = (value: number, min: number, max: number) => isFinite(value) && value >= min && value <= max;
+
+    if (!profile.name.trim()) {
+        problems.push("the profile needs a name");
+    }
+    if (!inRange(profile.nozzle, .1, 2)) {
+        problems.push("the nozzle should be from 0.1 to 2 mm");
+    }
+    if (!inRange(profile.layerHeight, .02, profile.nozzle * .8)) {
+        problems.push("the layer height should be from 0.02 mm to 80% of the nozzle");
+    }
+    if (!inRange(profile.bedWidth, 50, 2000) || !inRange(profile.bedDepth, 50, 2000)) {
+        problems.push("the bed should be from 50 to 2000 mm each way");
+    }
+    if (!inRange(profile.minWall, profile.nozzle, 10)) {
+        problems.push("the thinnest wall should be from the nozzle width to 10 mm");
+    }
+    return problems;
+}
+
+/**
+ * Makes a unique key for a new profile
+ *
+ * @returns {string} Time stamp and random digits
+ */
+function makePrinterId(): string {
+    return "custom-" + Date.now().toString(36) + Math.random().toString(36).slice(2, 8);
+}
+
+/**
+ * The printer profiles, built-in and made by the user
+ */
+class PrinterProfiles {
+    private stored: StoredPrinters = this.read();
+    private listeners: PrinterListener[] = [];
+
+    /**
+     * Lists every profile
+     *
+     * @returns {printer_profile_t[]} The built-in profiles, then the user's by name
+     */
+    list(): printer_profile_t[] {
+        const custom = this.stored.profiles.slice().sort((a, b) => a.name.localeCompare(b.name));
+        return BUILT_IN_PRINTERS.concat(custom);
+    }
+
+    /**
+     * Finds a profile
+     *
+     * @param {string} id - Id of the profile, empty for none
+     * @returns {printer_profile_t | null} The profile, null when there is none with that id
+     */
+    get(id: string): printer_profile_t | null {
+        return this.list().find(profile => profile.id === id) || null;
+    }
+
+    /**
+     * Saves a profile made by the user, adding it when it is new
+     *
+     * @param {printer_profile_t} profile - The profile, without an id when it is new
+     * @returns {printer_profile_t} The profile as saved
+     * @throws {Error} If the profile is built in or its values are out of range, listing every problem
+     */
+    save(profile: printer_profile_t): printer_profile_t {
+        if (profile.builtIn) {
+            throw Error("built-in printer profiles can't be changed, save a copy instead");
+        }
+        const problems = checkPrinter(profile);
+        if (problems.length) {
+            throw Error(problems.join("; "));
+        }
+
+        const saved = { ...profile, name: profile.name.trim(), id: profile.id || makePrinterId() };
+        this.stored.profiles = this.stored.profiles.filter(p => p.id !== saved.id).concat(saved);
+        this.write();
+        return saved;
+    }
+
+    /**
+     * Deletes a profile made by the user
+     *
+     * @param {string} id - Id of the profile
+     */
+    remove(id: string) {
+        this.stored.profiles = this.stored.profiles.filter(p => p.id !== id);
+        if (this.stored.selected === id) {
+            this.stored.selected = "";
+        }
+        this.write();
+    }
+
+    /**
+     * Reads which profile was picked last
+     *
+     * @returns {string} Id of the profile, empty for none
+     */
+    selected(): string {
+        return this.stored.selected;
+    }
+
+    /**
+     * Remembers the picked profile
+     *
+     * @param {string} id - Id of the profile, empty for none
+     */
+    select(id: string) {
+        this.stored.selected = id;
+        this.write();
+    }
+
+    /**
+     * Listens for changes to the profiles
+     *
+     * @param {PrinterListener} listener - Called after a profile was saved, deleted or picked
+     * @returns {() => void} Stops listening
+     */
+    subscribe(listener: PrinterListener): () => void {
+        this.listeners.push(listener);
+        return () => {
+            this.listeners = this.listeners.filter(l => l !== listener);
+        };
+    }
+
+    /**
+     * Reads the stored profiles
+     *
+     * Storage can be switched off or hold something broken, both start
+     * without profiles of the user's.
+     *
+     * @returns {StoredPrinters} The stored profiles and pick
+     */
+    private read(): StoredPrinters {
+        try {
+            const stored = JSON.parse(localStorage.getItem(PRINTER_STORAGE_KEY));
+            if (stored && Array.isArray(stored.profiles) && typeof stored.selected === "string") {
+                return {
+                    profiles: stored.profiles.filter((p: printer_profile_t) => !p.builtIn && !checkPrinter(p).length),
+                    selected: stored.selected
+                };
+            }
+        } catch (err) {
+            // fall through to no profiles
+        }
+        return { profiles: [], selected: "" };
+    }
+
+    /**
+     * Writes the profiles to storage and tells the listeners
+     *
+     * The profiles stay usable for this visit when storage is switched off.
+     */
+    private write() {
+        try {
+            localStorage.setItem(PRINTER_STORAGE_KEY, JSON.stringify(this.stored));
+        } catch (err) {
+            // kept in memory only
+        }
+        this.listeners.forEach(listener => listener());
+    }
+}
+
+export default new PrinterProfiles();
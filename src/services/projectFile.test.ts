@@ -0,0 +1,133 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import { buildProjectFile, parseProjectFile, PROJECT_FILE_FORMAT, projectFromFile } from "./projectFile";
+import cookieState from "./cookieState";
+import { MAX_DIM, PROJECT_FILE_VERSION } from "../constants";
+import { point_t } from "../types";
+
+/** A 40 × 20 mm rectangle */
+const OUTLINE: point_t[] = [{ x: 10, y: 10 }, { x: 50, y: 10 }, { x: 50, y: 30 }, { x: 10, y: 30 }];
+
+/** The smallest PNG there is, as a data URL */
+const PIXEL = "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==";
+
+/**
+ * Writes a project file for the default settings and reads it back as JSON
+ *
+ * @param {Blob | null} image - Source image to embed
+ * @returns {Promise<any>} The file as a plain object, ready to be broken
+ */
+async function savedFile(image: Blob | null = null): Promise<any> {
+    const state = { ...cookieState.get(), imageWidth: 1, imageHeight: 1, selection: 0 };
+    return JSON.parse(JSON.stringify(await buildProjectFile("Star", state, OUTLINE, image)));
+}
+
+describe("buildProjectFile", () => {
+    it("writes the outline, the settings and no source without an image", async () => {
+        const file = await savedFile();
+        expect(file.format).toBe(PROJECT_FILE_FORMAT);
+        expect(file.version).toBe(PROJECT_FILE_VERSION);
+        expect(file.outline).toEqual(OUTLINE);
+        expect(file.settings.thickness).toBe(cookieState.get().thickness);
+        expect(file.settings).not.toHaveProperty("selection");
+        expect(file.detection).toHaveProperty("detectionMode");
+        expect(file.source).toBeNull();
+    });
+
+    it("rounds the outline to micrometres", async () => {
+        const file = await buildProjectFile("Star", cookieState.get(), [{ x: 1.23456, y: 2.0004 }], null);
+        expect(file.outline).toEqual([{ x: 1.235, y: 2 }]);
+    });
+
+    it("embeds the image with the picks made in it", async () => {
+        const file = await savedFile(new Blob([new Uint8Array([1, 2, 3])], { type: "image/png" }));
+        expect(file.source.image).toBe("data:image/png;base64,AQID");
+        expect(file.source.selection).toBe(0);
+        expect(file.source.edits).toBeNull();
+    });
+});
+
+describe("parseProjectFile", () => {
+    it("reads back a file it wrote", async () => {
+        const file = await savedFile();
+        expect(parseProjectFile(JSON.stringify(file))).toEqual(file);
+    });
+
+    it("refuses files that aren't project files", () => {
+        expect(() => parseProjectFile("{")).toThrow("isn't valid JSON");
+        expect(() => parseProjectFile(`{"format": "other"}`)).toThrow("isn't a Cookie Cutter Monster project file");
+    });
+
+    it("asks for an update for files from a newer version", async () => {
+        const file = await savedFile();
+        file.version = PROJECT_FILE_VERSION + 1;
+        expect(() => parseProjectFile(JSON.stringify(file))).toThrow("update the app");
+    });
+
+    it("reads version 1 files, which always sized the longest side", async () => {
+        const file = await savedFile();
+        file.version = 1;
+        file.settings.sizeConstraint = "width";
+        expect(parseProjectFile(JSON.stringify(file)).settings.sizeConstraint).toBe("width");
+
+        delete file.settings.sizeConstraint;
+        expect(parseProjectFile(JSON.stringify(file)).settings.sizeConstraint).toBe("longest");
+    });
+
+    it("lists every problem of a broken file", async () => {
+        const file = await savedFile();
+        file.outline = [{ x: 1, y: 2 }];
+        file.settings.thickness = "thick";
+        file.settings.handleStyle = "knob";
+        delete file.detection.detectionMode;
+        file.extra = true;
+
+        expect(() => parseProjectFile(JSON.stringify(file))).toThrow(
+            "the project file is broken: outline should be a list of at least 3 points, not [{\"x\":1,\"y\":2}]; " +
+            "settings.thickness should be a number, not \"thick\"; " +
+            "settings.handleStyle should be one of flange, plate, none, not \"knob\"; " +
+            "detection.detectionMode is missing; " +
+            "extra is not part of a version 2 project file");
+    });
+
+    it("checks the embedded source image", async () => {
+        const file = await savedFile();
+        file.source = { image: "nope", width: 0, height: 1, selection: -1, merge: [0], stampSelection: null, edits: null };
+        expect(() => parseProjectFile(JSON.stringify(file))).toThrow(
+            "source.image should be a base64 data URL; " +
+            "source.width should be a whole number of pixels, not 0; " +
+            "source.selection should be a contour number, not -1");
+    });
+});
+
+describe("projectFromFile", () => {
+    it("turns a file without an image into a drawing of its outline", async () => {
+        const project = projectFromFile(parseProjectFile(JSON.stringify(await savedFile())));
+        expect(project.name).toBe("Star");
+        expect(project.image).toBeNull();
+        expect(project.drawing.width).toBe(MAX_DIM);
+        expect(project.drawing.height).toBe(MAX_DIM / 2);
+        expect(project.drawing.outlines[0][0]).toEqual({ x: 0, y: 0 });
+        expect(project.settings.selection).toBe(-1);
+    });
+
+    it("decodes the embedded image and keeps its picks", async () => {
+        const file = await savedFile();
+        file.source = { image: PIXEL, width: 1, height: 1, selection: 2, merge: [3], stampSelection: null, edits: null };
+
+        const project = projectFromFile(parseProjectFile(JSON.stringify(file)));
+        expect(project.drawing).toBeNull();
+        expect(project.image.type).toBe("image/png");
+        expect(project.image.size).toBeGreaterThan(0);
+        expect(project.settings.selection).toBe(2);
+        expect(project.settings.merge).toEqual([3]);
+    });
+
+    it("refuses a broken embedded image", async () => {
+        const file = await savedFile();
+        file.source = { image: "data:image/png;base64,!!!", width: 1, height: 1, selection: 0, merge: [], stampSelection: null, edits: null };
+        expect(() => projectFromFile(file)).toThrow("the image embedded in the project file is broken");
+    });
+});
@@ -0,0 +1,373 @@
+/**
+ * @fileoverview Project File Format for Cookie Cutter Monster
+ *
+ * Reads and writes .ccm project files, the portable form of a project that
+ * can be passed between people and machines and opened again for editing,
+ * unlike the STL. A project file is JSON holding the outline in millimetres,
+ * the cutter settings, the detection settings and, optionally, the source
+ * image with the contours picked and the edits made in it.
+ *
+ * Every file carries a format name and a version. Files are checked against
+ * the layout of their version before anything is opened, and every problem
+ * found is listed in the error, so a hand edited or damaged file can be
+ * fixed. Files from a newer version are refused with a request to update.
+ *
+ * @author Cookie Cutter Monster Team
+ * @version 1.0.0
+ * @since 2020-08-01
+ */
+
+import {
+    CookieState_t,
+    DetectionMode,
+    HandleStyle,
+    MeshCheckMode,
+    point_t,
+    project_file_source_t,
+    project_file_t,
+    project_t,
+    ProjectFileSettings,
+    ProjectSettings,
+    SizeConstraint
+} from "../types";
+import { MAX_DIM, PROJECT_FILE_VERSION } from "../constants";
+import cookieState, { StateKey } from "./cookieState";
+import projectStore, { pickProjectSettings } from "./projectStore";
+import { DEFAULT_DETECTION, pickDetectionSettings } from "./contourDetection";
+import { EXPORT_FORMAT_LABELS, OUTLINE_FORMAT_LABELS } from "./exporters";
+import { outlineBounds } from "./cutterGeometry";
+
+/** Format name of every project file, tells them apart from other JSON */
+export const PROJECT_FILE_FORMAT = "cookie-cutter-monster-project";
+
+/** Keys of the cookie state that belong to the source image, kept in the source section */
+const SOURCE_KEYS: StateKey[] = ["imageHeight", "imageWidth", "saveFileName", "selection", "merge", "stampSelection", "outline"];
+
+/** Allowed values of the settings with a fixed set of choices */
+const CHOICES: { [key: string]: string[] } = {
+    handleStyle: <HandleStyle[]>["flange", "plate", "none"],
+    sizeConstraint: <SizeConstraint[]>["longest", "width", "height"],
+    detectionMode: <DetectionMode[]>["adaptive", "otsu", "canny", "colorkey"],
+    meshCheck: <MeshCheckMode[]>["warn", "refuse", "repair"],
+    exportFormat: Object.keys(EXPORT_FORMAT_LABELS),
+    outlineFormat: Object.keys(OUTLINE_FORMAT_LABELS)
+};
+
+/**
+ * Picks the settings a project file keeps apart from the detection and the source image
+ *
+ * @param {CookieState_t} state - Current cookie state
+ * @returns {ProjectFileSettings} Cutter, handle, stamp, check and export settings
+ */
+function pickFileSettings(state: CookieState_t): ProjectFileSettings {
+    const settings: any = pickProjectSettings(state);
+    Object.keys(DEFAULT_DETECTION).concat(SOURCE_KEYS).forEach(key => delete settings[key]);
+    return settings;
+}
+
+/**
+ * Writes a project file for the current cutter
+ *
+ * @param {string} name - Name of the project
+ * @param {CookieState_t} state - Current cookie state
+ * @param {point_t[]} outline - Centerline of the cutter wall in millimetres
+ * @param {Blob | null} image - Source image to embed, null to leave it out
+ * @returns {Promise<project_file_t>} The project file, ready for JSON.stringify
+ */
+export async function buildProjectFile(name: string, state: CookieState_t, outline: point_t[], image: Blob | null): Promise<project_file_t> {
+    let source: project_file_source_t = null;
+    if (image) {
+        source = {
+            image: await blobToDataUrl(image),
+            width: state.imageWidth,
+            height: state.imageHeight,
+            selection: state.selection,
+            merge: state.merge,
+            stampSelection: state.stampSelection,
+            edits: state.outline
+        };
+    }
+
+    return {
+        format: PROJECT_FILE_FORMAT,
+        version: PROJECT_FILE_VERSION,
+        name,
+        // a micrometre is finer than any printer, and keeps the file short
+        outline: outline.map(pt => ({ x: Number(pt.x.toFixed(3)), y: Number(pt.y.toFixed(3)) })),
+        settings: pickFileSettings(state),
+        detection: pickDetectionSettings(state),
+        source
+    };
+}
+
+/**
+ * Reads and checks a project file
+ *
+ * @param {string} text - Contents of the file
+ * @returns {project_file_t} The project file
+ * @throws {Error} If the file is not a project file, is from a newer version, or breaks the layout, listing every problem
+ */
+export function parseProjectFile(text: string): project_file_t {
+    let file: any;
+    try {
+        file = JSON.parse(text);
+    } catch (err) {
+        throw Error(`that file isn't a project file, it isn't valid JSON: ${err.message}`);
+    }
+
+    if (!isRecord(file) || file.format !== PROJECT_FILE_FORMAT) {
+        throw Error("that file isn't a Cookie Cutter Monster project file");
+    }
+    if (!Number.isInteger(file.version) || file.version < 1) {
+        throw Error(`the project file has no valid version, found ${describe(file.version)}`);
+    }
+    if (file.version > PROJECT_FILE_VERSION) {
+        throw Error(`the project file was saved by a newer Cookie Cutter Monster (format version ${file.version}, this one reads up to ${PROJECT_FILE_VERSION}), update the app to open it`);
+    }
+
+    // version 1 always sized the longest side
+    if (file.version < 2 && isRecord(file.settings) && !("sizeConstraint" in file.settings)) {
+        file.settings.sizeConstraint = "longest";
+    }
+
+    const errors: string[] = [];
+    if (typeof file.name !== "string") {
+        errors.push(`name should be text, not ${describe(file.name)}`);
+    }
+    checkPoints(file.outline, "outline", errors);
+    checkValues(file.settings, pickFileSettings(cookieState.get()), "settings", errors);
+    checkValues(file.detection, DEFAULT_DETECTION, "detection", errors);
+    if (file.source !== null) {
+        checkSource(file.source, errors);
+    }
+
+    for (const key of Object.keys(file)) {
+        if (!["format", "version", "name", "outline", "settings", "detection", "source"].includes(key)) {
+            errors.push(`${key} is not part of a version ${file.version} project file`);
+        }
+    }
+
+    if (errors.length) {
+        throw Error(`the project file is broken: ${errors.join("; ")}`);
+    }
+    return file;
+}
+
+/**
+ * Turns a project file into a project, ready to open and save in the browser
+ *
+ * With an embedded image the contours are found again and the picks and
+ * edits applied. Without one, the outline in millimetres becomes a drawing,
+ * scaled up to the size images are searched at.
+ *
+ * @param {project_file_t} file - A checked project file
+ * @returns {project_t} A new project, not saved yet
+ * @throws {Error} If the embedded image is not valid base64
+ */
+export function projectFromFile(file: project_file_t): project_t {
+    const source = file.source;
+    const settings: ProjectSettings = {
+        ...file.settings,
+        ...file.detection,
+        imageWidth: source ? source.width : 0,
+        imageHeight: source ? source.height : 0,
+        saveFileName: file.name,
+        selection: source ? source.selection : -1,
+        merge: source ? source.merge : [],
+        stampSelection: source ? source.stampSelection : null,
+        outline: source ? source.edits : null
+    };
+
+    if (source) {
+        return projectStore.create(file.name, { image: dataUrlToBlob(source.image) }, settings);
+    }
+
+    const bounds = outlineBounds(file.outline);
+    const scale = MAX_DIM / (Math.max(bounds.width, bounds.height) || 1);
+    const drawing = {
+        width: Math.ceil(bounds.width * scale),
+        height: Math.ceil(bounds.height * scale),
+        outlines: [file.outline.map(pt => ({ x: (pt.x - bounds.x) * scale, y: (pt.y - bounds.y) * scale }))]
+    };
+    return projectStore.create(file.name, { drawing }, settings);
+}
+
+/**
+ * Checks a section of settings against the current ones
+ *
+ * Every setting has to be there with the type of the current value, and
+ * settings with a fixed set of choices have to hold one of them.
+ *
+ * @param {any} values - The section read from the file
+ * @param {object} template - Settings of the right types
+ * @param {string} path - Name of the section in error messages
+ * @param {string[]} errors - Problems found so far, new ones are added
+ */
+function checkValues(values: any, template: object, path: string, errors: string[]) {
+    if (!isRecord(values)) {
+        errors.push(`${path} should be an object, not ${describe(values)}`);
+        return;
+    }
+
+    for (const key of Object.keys(template)) {
+        const expected = typeof (<any>template)[key];
+        const value = values[key];
+        if (value === undefined) {
+            errors.push(`${path}.${key} is missing`);
+        } else if (typeof value !== expected || (expected === "number" && !isFinite(value))) {
+            errors.push(`${path}.${key} should be a ${expected}, not ${describe(value)}`);
+        } else if (CHOICES[key] && !CHOICES[key].includes(value)) {
+            errors.push(`${path}.${key} should be one of ${CHOICES[key].join(", ")}, not ${describe(value)}`);
+        } else if (key === "keyColor" && !/^#[0-9a-f]{6}$/i.test(value)) {
+            errors.push(`${path}.${key} should be a colour like #ffffff, not ${describe(value)}`);
+        }
+    }
+
+    for (const key of Object.keys(values)) {
+        if (!(key in template)) {
+            errors.push(`${path}.${key} is not a setting this version knows`);
+        }
+    }
+}
+
+/**
+ * Checks the embedded source image and what was picked in it
+ *
+ * @param {any} source - The source section read from the file
+ * @param {string[]} errors - Problems found so far, new ones are added
+ */
+function checkSource(source: any, errors: string[]) {
+    if (!isRecord(source)) {
+        errors.push(`source should be an object or null, not ${describe(source)}`);
+        return;
+    }
+
+    if (typeof source.image !== "string" || !/^data:[^,]*;base64,/.test(source.image)) {
+        errors.push("source.image should be a base64 data URL");
+    }
+    for (const key of ["width", "height"]) {
+        if (!Number.isInteger(source[key]) || source[key] < 1) {
+            errors.push(`source.${key} should be a whole number of pixels, not ${describe(source[key])}`);
+        }
+    }
+    checkIndex(source.selection, "source.selection", errors);
+    if (!Array.isArray(source.merge)) {
+        errors.push(`source.merge should be a list of contour numbers, not ${describe(source.merge)}`);
+    } else {
+        source.merge.forEach((i: any, n: number) => checkIndex(i, `source.merge[${n}]`, errors));
+    }
+    if (source.stampSelection !== null) {
+        if (!Array.isArray(source.stampSelection)) {
+            errors.push(`source.stampSelection should be a list of contour numbers or null, not ${describe(source.stampSelection)}`);
+        } else {
+            source.stampSelection.forEach((i: any, n: number) => checkIndex(i, `source.stampSelection[${n}]`, errors));
+        }
+    }
+    if (source.edits !== null) {
+        checkPoints(source.edits, "source.edits", errors);
+    }
+
+    for (const key of Object.keys(source)) {
+        if (!["image", "width", "height", "selection", "merge", "stampSelection", "edits"].includes(key)) {
+            errors.push(`source.${key} is not part of the source image`);
+        }
+    }
+}
+
+/**
+ * Checks a contour number
+ *
+ * @param {any} value - Value read from the file
+ * @param {string} path - Name of the value in error messages
+ * @param {string[]} errors - Problems found so far, new ones are added
+ */
+function checkIndex(value: any, path: string, errors: string[]) {
+    if (!Number.isInteger(value) || value < 0) {
+        errors.push(`${path} should be a contour number, not ${describe(value)}`);
+    }
+}
+
+/**
+ * Checks a closed outline
+ *
+ * @param {any} value - Value read from the file
+ * @param {string} path - Name of the outline in error messages
+ * @param {string[]} errors - Problems found so far, new ones are added
+ */
+function checkPoints(value: any, path: string, errors: string[]) {
+    if (!Array.isArray(value) || value.length < 3) {
+        errors.push(`${path} should be a list of at least 3 points, not ${describe(value)}`);
+        return;
+    }
+
+    const broken = value.findIndex(pt => !isRecord(pt) ||
+        typeof pt.x !== "number" || typeof pt.y !== "number" || !isFinite(pt.x) || !isFinite(pt.y));
+    if (broken >= 0) {
+        errors.push(`${path}[${broken}] should be a point like {"x": 1.5, "y": 2}, not ${describe(value[broken])}`);
+    }
+}
+
+/**
+ * Tells whether a value read from JSON is an object
+ *
+ * @param {any} value - Any value
+ * @returns {boolean} True for objects, false for null, lists and plain values
+ */
+function isRecord(value: any): boolean {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Describes a wrong value for an error message
+ *
+ * @param {any} value - Value read from the file
+ * @returns {string} The value as JSON, shortened, or "nothing" when it is missing
+ */
+function describe(value: any): string {
+    if (value === undefined) return "nothing";
+
+    const json = JSON.stringify(value);
+    return json.length > 40 ? json.slice(0, 37) + "..." : json;
+}
+
+/**
+ * Reads a blob into a data URL
+ *
+ * @param {Blob} blob - The image
+ * @returns {Promise<string>} The image as a base64 data URL
+ */
+function blobToDataUrl(blob: Blob): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(<string>reader.result);
+        reader.onerror = () => reject(Error("couldn't read the source image to embed it"));
+        reader.readAsDataURL(blob);
+    });
+}
+
+/**
+ * Turns a base64 data URL back into a blob
+ *
+ * The page may not fetch data URLs, so the bytes are decoded here.
+ *
+ * @param {string} url - A base64 data URL
+ * @returns {Blob} The decoded contents with the type of the URL
+ * @throws {Error} If the URL is not valid base64
+ */
+function dataUrlToBlob(url: string): Blob {
+    const comma = url.indexOf(",");
+    const type = url.slice(5, comma).split(";")[0];
+
+    let binary: string;
+    try {
+        binary = atob(url.slice(comma + 1));
+    } catch (err) {
+        throw Error("the image embedded in the project file is broken");
+    }
+
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return new Blob([bytes], { type });
+}
@@ -0,0 +1,235 @@
+/**
+ * @fileoverview Project Store for Cookie Cutter Monster
+ *
+ * Keeps projects in the browser's IndexedDB, so a cutter survives a reload.
+ * A project holds the image or drawing it was made from, the settings with
+ * the picked contours and outline edits, and a thumbnail of the 3D preview.
+ * Nothing leaves the browser.
+ *
+ * Anything showing the projects subscribes and hears about every project
+ * that was saved, renamed, duplicated or deleted.
+ *
+ * @author Cookie Cutter Monster Team
+ * @version 1.0.0
+ * @since 2020-08-01
+ */
+
+import { CookieState_t, drawing_t, project_t, ProjectSettings } from "../types";
+import { PROJECT_DATABASE } from "../constants";
+
+/** Version of the database layout, raised whenever the object stores change */
+const DATABASE_VERSION = 1;
+
+/** Object store holding the projects by id */
+const PROJECT_STORE = "projects";
+
+/**
+ * Called after a project changed
+ *
+ * @param {string} id - Id of the project
+ * @param {project_t | null} project - The project as saved, null once it was deleted
+ */
+export type ProjectListener = (id: string, project: project_t | null) => void;
+
+/**
+ * Picks what a project keeps out of the full cookie state
+ *
+ * The image URL only lives as long as the page, the camera is not a choice
+ * and the units and printer belong to the browser, all are left out.
+ *
+ * @param {CookieState_t} state - Current cookie state
+ * @returns {ProjectSettings} The settings, picked contours and outline edits
+ */
+export function pickProjectSettings(state: CookieState_t): ProjectSettings {
+    const { imageSrc, camera_pos, units, printer, ...settings } = state;
+    return settings;
+}
+
+/**
+ * Makes a unique key for a new project
+ *
+ * @returns {string} Time stamp and random digits
+ */
+function makeProjectId(): string {
+    return Date.now().toString(36) + Math.random().toString(36).slice(2, 10);
+}
+
+/**
+ * The projects saved in this browser
+ */
+class ProjectStore {
+    private database: Promise<IDBDatabase> = null;
+    private listeners: ProjectListener[] = [];
+
+    /**
+     * Starts a project, it is not saved until save is called
+     *
+     * @param {string} name - Name for the recent projects list
+     * @param {{ image?: Blob, drawing?: drawing_t }} source - The image or the drawing the cutter is made from
+     * @param {ProjectSettings} settings - Settings to keep with it
+     * @returns {project_t} The new project
+     */
+    create(name: string, source: { image?: Blob, drawing?: drawing_t }, settings: ProjectSettings): project_t {
+        const now = Date.now();
+        return {
+            id: makeProjectId(),
+            name: name || "Untitled cutter",
+            created: now,
+            updated: now,
+            image: source.image || null,
+            drawing: source.drawing || null,
+            settings,
+            thumbnail: ""
+        };
+    }
+
+    /**
+     * Lists every saved project
+     *
+     * @returns {Promise<project_t[]>} The projects, last saved first
+     */
+    async list(): Promise<project_t[]> {
+        const projects = await this.request<project_t[]>("readonly", store => store.getAll());
+        return projects.sort((a, b) => b.updated - a.updated);
+    }
+
+    /**
+     * Reads one project
+     *
+     * @param {string} id - Id of the project
+     * @returns {Promise<project_t>} The project
+     * @throws {Error} If there is no project with that id
+     */
+    async get(id: string): Promise<project_t> {
+        const project = await this.request<project_t>("readonly", store => store.get(id));
+        if (!project) {
+            throw Error("that project is no longer saved in this browser");
+        }
+        return project;
+    }
+
+    /**
+     * Saves a project, adding it when it is new
+     *
+     * @param {project_t} project - The project, its update time is set to now
+     * @returns {Promise<void>} Resolves once the project is written
+     */
+    async save(project: project_t): Promise<void> {
+        project.updated = Date.now();
+        await this.request("readwrite", store => store.put(project));
+        this.notify(project.id, project);
+    }
+
+    /**
+     * Gives a project another name
+     *
+     * @param {string} id - Id of the project
+     * @param {string} name - The new name, blank names are ignored
+     * @returns {Promise<void>} Resolves once the project is written
+     */
+    async rename(id: string, name: string): Promise<void> {
+        name = name.trim();
+        if (!name) return;
+
+        const project = await this.get(id);
+        project.name = name;
+        await this.save(project);
+    }
+
+    /**
+     * Saves a copy of a project under a new id
+     *
+     * @param {string} id - Id of the project to copy
+     * @returns {Promise<project_t>} The copy
+     */
+    async duplicate(id: string): Promise<project_t> {
+        const project = await this.get(id);
+        const copy: project_t = { ...project, id: makeProjectId(), name: `${project.name} (copy)`, created: Date.now() };
+        await this.save(copy);
+        return copy;
+    }
+
+    /**
+     * Deletes a project
+     *
+     * @param {string} id - Id of the project
+     * @returns {Promise<void>} Resolves once the project is gone
+     */
+    async remove(id: string): Promise<void> {
+        await this.request("readwrite", store => store.delete(id));
+        this.notify(id, null);
+    }
+
+    /**
+     * Listens to saved, renamed, duplicated and deleted projects
+     *
+     * @param {ProjectListener} listener - Called after every change
+     * @returns {() => void} Stops listening
+     */
+    subscribe(listener: ProjectListener): () => void {
+        this.listeners.push(listener);
+
+        return () => {
+            this.listeners = this.listeners.filter(other => other !== listener);
+        };
+    }
+
+    /**
+     * Opens the database, creating the object store the first time
+     *
+     * @returns {Promise<IDBDatabase>} The open database, shared by every request
+     * @throws {Error} If the browser has no IndexedDB or refuses to open it, as in some private windows
+     */
+    private open(): Promise<IDBDatabase> {
+        if (!this.database) {
+            this.database = new Promise((resolve, reject) => {
+                if (typeof indexedDB === "undefined") {
+                    reject(Error("this browser can't save projects"));
+                    return;
+                }
+
+                const request = indexedDB.open(PROJECT_DATABASE, DATABASE_VERSION);
+                request.onupgradeneeded = () => {
+                    request.result.createObjectStore(PROJECT_STORE, { keyPath: "id" });
+                };
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => reject(Error(`couldn't open the saved projects: ${request.error.message}`));
+            });
+            // a failed open is tried again by the next request
+            this.database.catch(() => this.database = null);
+        }
+        return this.database;
+    }
+
+    /**
+     * Runs one request on the project store in a transaction of its own
+     *
+     * @param {IDBTransactionMode} mode - "readonly" or "readwrite"
+     * @param {(store: IDBObjectStore) => IDBRequest} run - Makes the request
+     * @returns {Promise<T>} The result, once the transaction is complete
+     */
+    private async request<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+        const database = await this.open();
+        return new Promise((resolve, reject) => {
+            const transaction = database.transaction(PROJECT_STORE, mode);
+            const request = run(transaction.objectStore(PROJECT_STORE));
+            transaction.oncomplete = () => resolve(request.result);
+            transaction.onerror = () => reject(Error(`couldn't reach the saved projects: ${transaction.error.message}`));
+            // a full disk aborts the transaction without an error on the request
+            transaction.onabort = () => reject(Error(`couldn't save the project: ${transaction.error ? transaction.error.message : "aborted"}`));
+        });
+    }
+
+    /**
+     * Calls every listener
+     *
+     * @param {string} id - Id of the changed project
+     * @param {project_t | null} project - The project as saved, null once deleted
+     */
+    private notify(id: string, project: project_t | null) {
+        this.listeners.slice().forEach(listener => listener(id, project));
+    }
+}
+
+
+export default new ProjectStore;
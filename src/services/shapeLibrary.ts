@@ -0,0 +1,222 @@
+/**
+ * @fileoverview Shape Library for Cookie Cutter Monster
+ *
+ * Generates closed outlines for the classic cutter shapes and samples the
+ * Bézier curves of the drawing pad and of imported SVG files, so a cutter
+ * can be made without any raster image. Every outline is a plain list of
+ * points in pad pixels; the worker treats it exactly like a detected contour.
+ *
+ * Shapes:
+ * - Circle
+ * - Rounded rectangle
+ * - Star with any number of points
+ * - Scalloped circle
+ *
+ * Like the cutter geometry this module has no DOM or OpenCV dependency.
+ *
+ * @author Cookie Cutter Monster Team
+ * @version 1.0.0
+ * @since 2020-08-01
+ */
+
+import { curve_t, point_t, ShapePrimitive } from "../types";
+
+/** Points on a full circle, enough that the flattened edges stay under the outline tolerance */
+const CIRCLE_SEGMENTS = 96;
+
+/** Points on each rounded corner of a rectangle */
+const CORNER_SEGMENTS = 12;
+
+/** Points on each scallop */
+const SCALLOP_SEGMENTS = 12;
+
+/**
+ * Parameters of a library shape, sizes in pad pixels
+ */
+export interface ShapeParameters {
+    /** Width of the shape's bounding box */
+    width: number,
+    /** Height of the shape's bounding box */
+    height: number,
+    /** Corner radius of the rounded rectangle */
+    cornerRadius: number,
+    /** Number of star points or scallops */
+    count: number,
+    /** Inner radius of the star as a fraction of its outer radius */
+    innerRatio: number
+}
+
+/**
+ * Builds a library shape centred on a point
+ *
+ * @param {ShapePrimitive} shape - Which shape to build
+ * @param {point_t} center - Centre of the shape in pad pixels
+ * @param {ShapeParameters} params - Size and shape parameters
+ * @returns {point_t[]} Closed outline, without repeating the first point
+ */
+export function buildShape(shape: ShapePrimitive, center: point_t, params: ShapeParameters): point_t[] {
+    const radius = Math.min(params.width, params.height) / 2;
+
+    switch (shape) {
+        case "circle":
+            return circleOutline(center, radius);
+        case "roundedRect":
+            return roundedRectOutline(center, params.width, params.height, params.cornerRadius);
+        case "star":
+            return starOutline(center, radius, radius * params.innerRatio, params.count);
+        case "scalloped":
+            return scallopedOutline(center, radius, params.count);
+        default:
+            throw Error(`unknown shape: ${shape}`);
+    }
+}
+
+/**
+ * Builds a circle
+ *
+ * @param {point_t} center - Centre in pad pixels
+ * @param {number} radius - Radius in pad pixels
+ * @returns {point_t[]} Closed outline
+ */
+export function circleOutline(center: point_t, radius: number): point_t[] {
+    return Array.from({ length: CIRCLE_SEGMENTS }, (_, i) => {
+        const angle = i / CIRCLE_SEGMENTS * Math.PI * 2;
+        return { x: center.x + radius * Math.cos(angle), y: center.y + radius * Math.sin(angle) };
+    });
+}
+
+/**
+ * Builds a rectangle with rounded corners
+ *
+ * The corner radius is clamped to half the shorter side, which turns the
+ * rectangle into a stadium.
+ *
+ * @param {point_t} center - Centre in pad pixels
+ * @param {number} width - Width in pad pixels
+ * @param {number} height - Height in pad pixels
+ * @param {number} cornerRadius - Radius of the corners in pad pixels
+ * @returns {point_t[]} Closed outline
+ */
+export function roundedRectOutline(center: point_t, width: number, height: number, cornerRadius: number): point_t[] {
+    const radius = Math.max(0, Math.min(cornerRadius, width / 2, height / 2));
+    const halfWidth = width / 2 - radius, halfHeight = height / 2 - radius;
+    const corners = [
+        { x: halfWidth, y: halfHeight },
+        { x: -halfWidth, y: halfHeight },
+        { x: -halfWidth, y: -halfHeight },
+        { x: halfWidth, y: -halfHeight }
+    ];
+
+    const points: point_t[] = [];
+    corners.forEach((corner, n) => {
+        if (!radius) {
+            points.push({ x: center.x + corner.x, y: center.y + corner.y });
+            return;
+        }
+        for (let i = 0; i <= CORNER_SEGMENTS; i++) {
+            const angle = (n + i / CORNER_SEGMENTS) * Math.PI / 2;
+            points.push({
+                x: center.x + corner.x + radius * Math.cos(angle),
+                y: center.y + corner.y + radius * Math.sin(angle)
+            });
+        }
+    });
+    return points;
+}
+
+/**
+ * Builds a star, with its first point straight up
+ *
+ * @param {point_t} center - Centre in pad pixels
+ * @param {number} outerRadius - Radius of the points in pad pixels
+ * @param {number} innerRadius - Radius of the notches in pad pixels
+ * @param {number} count - Number of points, at least 3
+ * @returns {point_t[]} Closed outline
+ */
+export function starOutline(center: point_t, outerRadius: number, innerRadius: number, count: number): point_t[] {
+    const points = Math.max(3, Math.round(count));
+    return Array.from({ length: points * 2 }, (_, i) => {
+        const radius = i % 2 ? innerRadius : outerRadius;
+        const angle = i / points * Math.PI - Math.PI / 2;
+        return { x: center.x + radius * Math.cos(angle), y: center.y + radius * Math.sin(angle) };
+    });
+}
+
+/**
+ * Builds a scalloped circle, a ring of round bumps meeting in notches
+ *
+ * Each scallop is an arc through the outer radius whose ends meet its
+ * neighbours, so the notches are as deep as the scallops are wide.
+ *
+ * @param {point_t} center - Centre in pad pixels
+ * @param {number} radius - Outer radius in pad pixels
+ * @param {number} count - Number of scallops, at least 3
+ * @returns {point_t[]} Closed outline
+ */
+export function scallopedOutline(center: point_t, radius: number, count: number): point_t[] {
+    const scallops = Math.max(3, Math.round(count));
+    const halfAngle = Math.PI / scallops;
+    // the scallops' circles pass through the outer radius and touch their neighbours
+    const scallopRadius = radius * Math.sin(halfAngle) / (1 + Math.sin(halfAngle));
+    const ringRadius = radius - scallopRadius;
+
+    const points: point_t[] = [];
+    for (let n = 0; n < scallops; n++) {
+        const middle = n * 2 * halfAngle - Math.PI / 2;
+        const scallopCenter = { x: center.x + ringRadius * Math.cos(middle), y: center.y + ringRadius * Math.sin(middle) };
+        // from one touching point to the next, over the outside of the scallop
+        for (let i = 0; i < SCALLOP_SEGMENTS; i++) {
+            const angle = middle - Math.PI / 2 - halfAngle + i / SCALLOP_SEGMENTS * (Math.PI + 2 * halfAngle);
+            points.push({
+                x: scallopCenter.x + scallopRadius * Math.cos(angle),
+                y: scallopCenter.y + scallopRadius * Math.sin(angle)
+            });
+        }
+    }
+    return points;
+}
+
+/**
+ * Samples a cubic Bézier curve
+ *
+ * @param {point_t} start - Start point
+ * @param {point_t} control1 - Control point leaving the start
+ * @param {point_t} control2 - Control point entering the end
+ * @param {point_t} end - End point
+ * @param {number} samples - Number of points to return
+ * @returns {point_t[]} Points along the curve, including the start but not the end
+ */
+export function sampleBezier(start: point_t, control1: point_t, control2: point_t, end: point_t, samples: number): point_t[] {
+    return Array.from({ length: samples }, (_, i) => {
+        const t = i / samples, u = 1 - t;
+        const a = u * u * u, b = 3 * u * u * t, c = 3 * u * t * t, d = t * t * t;
+        return {
+            x: a * start.x + b * control1.x + c * control2.x + d * end.x,
+            y: a * start.y + b * control1.y + c * control2.y + d * end.y
+        };
+    });
+}
+
+/**
+ * Flattens a path of cubic Bézier segments into points
+ *
+ * Each segment gets just enough evenly spaced samples that the chords stay
+ * within the tolerance of the curve; straight segments keep their two ends.
+ *
+ * @param {curve_t[]} curves - Connected segments of the path
+ * @param {number} tolerance - Largest distance between the curve and its chords
+ * @returns {point_t[]} Points along the path, without repeating the end of the last segment
+ */
+export function flattenCurves(curves: curve_t[], tolerance: number): point_t[] {
+    const points: point_t[] = [];
+    for (const curve of curves) {
+        // the chord error of n even samples is at most 3/4 of the second difference over n squared
+        const bend = Math.max(
+            Math.hypot(curve.start.x - 2 * curve.control1.x + curve.control2.x, curve.start.y - 2 * curve.control1.y + curve.control2.y),
+            Math.hypot(curve.control1.x - 2 * curve.control2.x + curve.end.x, curve.control1.y - 2 * curve.control2.y + curve.end.y)
+        );
+        const samples = Math.max(1, Math.ceil(Math.sqrt(.75 * bend / tolerance)));
+        points.push(...sampleBezier(curve.start, curve.control1, curve.control2, curve.end, samples));
+    }
+    return points;
+}
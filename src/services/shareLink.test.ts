@@ -0,0 +1,69 @@
+import { buildShareLink, readShareLink } from "./shareLink";
+import { buildProjectFile } from "./projectFile";
+import cookieState from "./cookieState";
+import { SHARE_OUTLINE_STEP } from "../constants";
+import { project_file_t } from "../types";
+
+/** Address of the page the links point to */
+const PAGE = { origin: "https://cookies.example", pathname: "/app/" };
+
+/**
+ * Writes a project file of a triangle for the default settings
+ *
+ * @returns {Promise<project_file_t>} The project file
+ */
+function triangle(): Promise<project_file_t> {
+    return buildProjectFile("Tree", cookieState.get(), [{ x: 10, y: 10 }, { x: 52.345, y: 10.01 }, { x: 31, y: 47.5 }], null);
+}
+
+beforeAll(() => {
+    (<any>global).location = PAGE;
+});
+
+afterAll(() => {
+    delete (<any>global).location;
+});
+
+describe("buildShareLink", () => {
+    it("points to this page with the cutter in the fragment", async () => {
+        const link = await buildShareLink(await triangle());
+        expect(link).toMatch(/^https:\/\/cookies\.example\/app\/#cutter=[\w-]+$/);
+    });
+});
+
+describe("readShareLink", () => {
+    it("reads back the cutter with the outline rounded to the share step", async () => {
+        const file = await triangle();
+        const shared = await readShareLink(new URL(await buildShareLink(file)).hash);
+
+        expect(shared.name).toBe("Tree");
+        expect(shared.settings).toEqual(file.settings);
+        expect(shared.detection).toEqual(file.detection);
+        expect(shared.source).toBeNull();
+        shared.outline.forEach((pt, i) => {
+            expect(Math.abs(pt.x - file.outline[i].x)).toBeLessThanOrEqual(SHARE_OUTLINE_STEP / 2 + 1e-9);
+            expect(Math.abs(pt.y - file.outline[i].y)).toBeLessThanOrEqual(SHARE_OUTLINE_STEP / 2 + 1e-9);
+        });
+    });
+
+    it("leaves out the source image", async () => {
+        const file = { ...await triangle(), source: { image: "data:image/png;base64,AQID", width: 1, height: 1, selection: 0, merge: [], stampSelection: null, edits: null } };
+        const shared = await readShareLink((await buildShareLink(file)).split("#")[1]);
+        expect(shared.source).toBeNull();
+    });
+
+    it("finds nothing in a fragment without a cutter", async () => {
+        expect(await readShareLink("")).toBeNull();
+        expect(await readShareLink("#page=2")).toBeNull();
+    });
+
+    it("refuses a link that was cut off", async () => {
+        const link = await buildShareLink(await triangle());
+        await expect(readShareLink(new URL(link.slice(0, -10)).hash)).rejects.toThrow("cut off or damaged");
+    });
+
+    it("refuses a link holding something other than a cutter", async () => {
+        const link = await buildShareLink(<any>{ format: "something else", outline: [] });
+        await expect(readShareLink(new URL(link).hash)).rejects.toThrow("doesn't hold a cutter this version can open");
+    });
+});
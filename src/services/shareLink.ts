@@ -0,0 +1,168 @@
+/**
+ * @fileoverview Share Links for Cookie Cutter Monster
+ *
+ * Packs a cutter into the fragment of a link, so it can be sent to someone
+ * without uploading anything. The fragment never reaches a server. It holds
+ * a project file without the source image, with the outline points rounded
+ * to SHARE_OUTLINE_STEP and stored as steps from the previous point, all
+ * deflated and written in URL safe base64.
+ *
+ * The deflate checksum catches links that were cut off or mangled on the
+ * way, and the project file checks catch anything else, so a broken link
+ * gives a clear message instead of a strange cutter.
+ *
+ * @author Cookie Cutter Monster Team
+ * @version 1.0.0
+ * @since 2020-08-01
+ */
+
+import { point_t, project_file_t } from "../types";
+import { SHARE_OUTLINE_STEP } from "../constants";
+import { parseProjectFile } from "./projectFile";
+
+/** Name of the fragment parameter holding the cutter */
+const SHARE_PARAMETER = "cutter";
+
+/** Compression streams are in every current browser, but newer than the DOM types of this TypeScript */
+declare class CompressionStream {
+    constructor(format: string);
+    readonly readable: ReadableStream<Uint8Array>;
+    readonly writable: WritableStream<Uint8Array>;
+}
+
+/** The reverse of CompressionStream */
+declare class DecompressionStream {
+    constructor(format: string);
+    readonly readable: ReadableStream<Uint8Array>;
+    readonly writable: WritableStream<Uint8Array>;
+}
+
+/**
+ * Makes a link that opens a cutter
+ *
+ * @param {project_file_t} file - The cutter as a project file, its source image is left out
+ * @returns {Promise<string>} Link to this page with the cutter in the fragment
+ * @throws {Error} If the browser can't compress
+ */
+export async function buildShareLink(file: project_file_t): Promise<string> {
+    checkSupport();
+
+    // steps between rounded points are small numbers, which deflate packs tightly
+    const steps: number[] = [];
+    let last = { x: 0, y: 0 };
+    for (const pt of file.outline) {
+        const rounded = { x: Math.round(pt.x / SHARE_OUTLINE_STEP), y: Math.round(pt.y / SHARE_OUTLINE_STEP) };
+        steps.push(rounded.x - last.x, rounded.y - last.y);
+        last = rounded;
+    }
+
+    const packed = JSON.stringify({ ...file, outline: steps, source: null });
+    const bytes = await transform(new Blob([packed]), new CompressionStream("deflate"));
+    return `${location.origin}${location.pathname}#${SHARE_PARAMETER}=${toBase64Url(bytes)}`;
+}
+
+/**
+ * Reads the cutter from the fragment of a share link
+ *
+ * @param {string} hash - Fragment of the page address, with or without the leading #
+ * @returns {Promise<project_file_t | null>} The cutter as a checked project file, null when the fragment holds none
+ * @throws {Error} If the link was cut off, is corrupt, or the browser can't decompress
+ */
+export async function readShareLink(hash: string): Promise<project_file_t | null> {
+    const encoded = new URLSearchParams(hash.replace(/^#/, "")).get(SHARE_PARAMETER);
+    if (encoded === null) return null;
+
+    checkSupport();
+
+    let packed: unknown;
+    try {
+        const bytes = await transform(new Blob([fromBase64Url(encoded)]), new DecompressionStream("deflate"));
+        packed = JSON.parse(new TextDecoder().decode(bytes));
+    } catch (err) {
+        throw Error("the share link is cut off or damaged, copy the whole link again");
+    }
+
+    // back from steps to points, anything odd is left to the project file checks
+    if (hasSteps(packed)) {
+        const outline: point_t[] = [];
+        let x = 0, y = 0;
+        for (let i = 0; i + 1 < packed.outline.length; i += 2) {
+            x += packed.outline[i];
+            y += packed.outline[i + 1];
+            outline.push({ x: x * SHARE_OUTLINE_STEP, y: y * SHARE_OUTLINE_STEP });
+        }
+        packed = { ...packed, outline };
+    }
+
+    try {
+        return parseProjectFile(JSON.stringify(packed));
+    } catch (err) {
+        throw Error(`the share link doesn't hold a cutter this version can open: ${err.message}`);
+    }
+}
+
+/**
+ * Tells whether decoded link contents carry the outline as whole number steps
+ *
+ * @param {unknown} packed - The decoded link contents
+ * @returns {boolean} True when there is an outline of integer steps to rebuild
+ */
+function hasSteps(packed: unknown): packed is { outline: number[] } {
+    if (typeof packed !== "object" || packed === null) return false;
+    const outline = (<{ outline?: unknown }>packed).outline;
+    return Array.isArray(outline) && outline.every((n: unknown) => Number.isInteger(n));
+}
+
+/**
+ * Makes sure the browser has compression streams
+ *
+ * @throws {Error} If it has not
+ */
+function checkSupport() {
+    if (typeof CompressionStream === "undefined" || typeof DecompressionStream === "undefined") {
+        throw Error("this browser can't make or open share links, try a current Chrome, Firefox or Safari");
+    }
+}
+
+/**
+ * Runs bytes through a compression or decompression stream
+ *
+ * @param {Blob} input - The bytes to transform
+ * @param {CompressionStream | DecompressionStream} stream - The transform
+ * @returns {Promise<Uint8Array>} The transformed bytes
+ * @throws {Error} If the stream fails, as decompression does on damaged data
+ */
+async function transform(input: Blob, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+    const output = input.stream().pipeThrough(stream);
+    return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+/**
+ * Writes bytes as URL safe base64 without padding
+ *
+ * @param {Uint8Array} bytes - The bytes
+ * @returns {string} Base64 with - and _ in place of + and /
+ */
+function toBase64Url(bytes: Uint8Array): string {
+    let binary = "";
+    for (let i = 0; i < bytes.length; i++) {
+        binary += String.fromCharCode(bytes[i]);
+    }
+    return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+/**
+ * Reads URL safe base64, with or without padding
+ *
+ * @param {string} text - The base64 text
+ * @returns {Uint8Array} The bytes
+ * @throws {Error} If the text is not base64
+ */
+function fromBase64Url(text: string): Uint8Array {
+    const binary = atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+}
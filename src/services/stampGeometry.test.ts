@@ -0,0 +1,55 @@
+import { buildCutterGeometry, CutterSettings, outlineTransform, wallReach } from "./cutterGeometry";
+import { buildStampGeometry } from "./stampGeometry";
+import { point_t } from "../types";
+
+const SETTINGS: CutterSettings = {
+    depth: 16, thickness: 2, tolerance: .15, smoothness: 0, cutterBevel: false,
+    handleRound: false, handleStyle: "none", handleWidth: 4.2, handleThickness: 2, fingerHoles: 2,
+    stamp: true, stampClearance: .5, mergeGap: 1, size: 50, sizeConstraint: "longest"
+};
+
+/** A 100 pixel square, 50 mm at the default size */
+const SQUARE: point_t[] = [{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 100, y: 100 }, { x: 0, y: 100 }];
+
+/** A line across the middle of the square */
+const DETAIL: point_t[] = [{ x: 20, y: 50 }, { x: 80, y: 50 }];
+
+/**
+ * Measures the space between the stamp and the inner face of the wall
+ *
+ * @param {CutterSettings} settings - Cutter and stamp settings
+ * @returns {number} Gap in mm on the right side of the square
+ */
+function stampGap(settings: CutterSettings): number {
+    const { offset } = outlineTransform(SQUARE, settings);
+    const right = offset.x + 50;
+
+    // the inner face is the nearest wall vertex inside the centerline on the right
+    const wall = buildCutterGeometry(SQUARE, settings);
+    const innerFace = Math.min(...wall.vertices.filter(v => v.x < right && v.x > right - 5).map(v => v.x));
+
+    const stamp = buildStampGeometry(SQUARE, [DETAIL], settings);
+    stamp.computeBoundingBox();
+    return innerFace - stamp.boundingBox.max.x;
+}
+
+describe("wallReach", () => {
+    it("reaches a quarter of the thickness past the centerline, three quarters with a bevel", () => {
+        expect(wallReach(SETTINGS)).toBeCloseTo(.5);
+        expect(wallReach({ ...SETTINGS, cutterBevel: true })).toBeCloseTo(1.5);
+    });
+});
+
+describe("buildStampGeometry", () => {
+    it("leaves the clearance between the stamp and a straight wall", () => {
+        expect(stampGap(SETTINGS)).toBeCloseTo(.5, 2);
+    });
+
+    it("leaves the clearance between the stamp and the base of a bevelled wall", () => {
+        expect(stampGap({ ...SETTINGS, cutterBevel: true })).toBeCloseTo(.5, 2);
+    });
+
+    it("has no room for a plate inside a tiny cutter", () => {
+        expect(buildStampGeometry(SQUARE, [DETAIL], { ...SETTINGS, size: 2 })).toBeNull();
+    });
+});
@@ -0,0 +1,89 @@
+/**
+ * @fileoverview Stamp Geometry Core for Cookie Cutter Monster
+ *
+ * Builds a stamp (debosser) that presses the interior lines of the image,
+ * such as eyes, mouths and logos, into the cookie once it has been cut. The
+ * stamp is a backing plate that fits inside the cutter wall with raised lines
+ * on top. Like the cutter geometry it has no DOM or OpenCV dependency.
+ *
+ * Workflow:
+ * 1. Scale the interior lines exactly like the cutter outline
+ * 2. Shrink the outline past the inner face of the wall and the clearance into the plate
+ * 3. Drop lines that would hang over the edge of the plate
+ * 4. Extrude the plate and the lines on top of it
+ *
+ * The stamp uses the same coordinates as the cutter, so it lines up with it
+ * when placed inside.
+ *
+ * @author Cookie Cutter Monster Team
+ * @version 1.0.0
+ * @since 2020-08-01
+ */
+
+import * as THREE from "three";
+import { WALL_JOIN_TYPE } from "../constants";
+import { point_t } from "../types";
+import { offsetPolygon, windingNumber } from "./polygonOffset";
+import { refineOutline } from "./outlineSimplify";
+import {
+    assembleShapes,
+    CutterSettings,
+    getScaledOutlineShape,
+    mergeExtrusion,
+    outlineTransform,
+    scaleOutline,
+    wallReach
+} from "./cutterGeometry";
+
+/** Thickness of the stamp backing plate in millimeters */
+const STAMP_PLATE_THICKNESS = 3;
+
+/** Width of the raised lines in millimeters */
+const STAMP_LINE_WIDTH = 1.2;
+
+/** Height of the raised lines above the plate, about how deep they press, in millimeters */
+const STAMP_LINE_HEIGHT = 2;
+
+/**
+ * Builds the stamp geometry for an outline and its interior lines
+ *
+ * @param {point_t[]} outline - Cutter outline in pixels (or any unit)
+ * @param {point_t[][]} details - Interior lines in the same unit as the outline
+ * @param {CutterSettings} settings - Cutter dimensions, detail and stamp clearance
+ * @returns {THREE.Geometry | null} Stamp geometry in millimetres, null if the cutter is too small for a plate
+ */
+export function buildStampGeometry(outline: point_t[], details: point_t[][], settings: CutterSettings): THREE.Geometry | null {
+    const tolerance = Number(settings.tolerance);
+    const joinOptions = { joinType: WALL_JOIN_TYPE, arcTolerance: Math.max(tolerance / 4, .005) };
+    const { scale, offset } = outlineTransform(outline, settings);
+
+    const centerline = scaleOutline(outline, settings);
+    const inset = wallReach(settings) + Number(settings.stampClearance);
+    const plate = offsetPolygon(centerline, -inset, joinOptions);
+    if (!plate.length) return null;
+
+    const geom = new THREE.Geometry();
+    mergeExtrusion(geom, assembleShapes(plate, []), {
+        steps: 1,
+        depth: STAMP_PLATE_THICKNESS,
+        bevelEnabled: false
+    });
+
+    // lines must stay on the plate, including their own width
+    const lineArea = offsetPolygon(centerline, -(inset + STAMP_LINE_WIDTH / 2), joinOptions);
+
+    for (const detail of details) {
+        const scaled = detail.map(pt => ({ x: pt.x * scale + offset.x, y: pt.y * scale + offset.y }));
+        const line = refineOutline(scaled, tolerance, Number(settings.smoothness));
+        if (line.length < 3 || line.some(pt => windingNumber(pt, lineArea) === 0)) continue;
+
+        mergeExtrusion(geom, getScaledOutlineShape(line, STAMP_LINE_WIDTH, tolerance), {
+            steps: 1,
+            depth: STAMP_LINE_HEIGHT,
+            bevelEnabled: false
+        }, STAMP_PLATE_THICKNESS);
+    }
+
+    geom.mergeVertices();
+    return geom;
+}
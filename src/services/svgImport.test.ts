@@ -0,0 +1,107 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import { findHoles, parseSvg } from "./svgImport";
+import { signedArea } from "./polygonOffset";
+import { point_t } from "../types";
+
+/**
+ * Wraps shapes in an SVG document
+ *
+ * @param {string} content - Elements inside the root
+ * @returns {string} The SVG file contents
+ */
+function svg(content: string): string {
+    return `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink">${content}</svg>`;
+}
+
+/**
+ * Bounding box of an outline
+ *
+ * @param {point_t[]} outline - The outline
+ * @returns {{ x: number, y: number, width: number, height: number }} Its bounds
+ */
+function bounds(outline: point_t[]) {
+    const xs = outline.map(pt => pt.x), ys = outline.map(pt => pt.y);
+    const x = Math.min(...xs), y = Math.min(...ys);
+    return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
+
+/** Two squares, one inside the other */
+const NESTED: point_t[][] = [
+    [{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 10 }, { x: 0, y: 10 }],
+    [{ x: 2, y: 2 }, { x: 8, y: 2 }, { x: 8, y: 8 }, { x: 2, y: 8 }]
+];
+
+describe("parseSvg", () => {
+    it("scales the drawing so its longest side is 800 pixels", () => {
+        const drawing = parseSvg(svg(`<rect x="10" y="20" width="40" height="20"/>`), 50);
+        expect(drawing.width).toBe(800);
+        expect(drawing.height).toBe(400);
+        expect(drawing.outlines).toHaveLength(1);
+
+        const box = bounds(drawing.outlines[0]);
+        expect(box.x).toBeCloseTo(0);
+        expect(box.y).toBeCloseTo(0);
+        expect(box.width).toBeCloseTo(800);
+        expect(box.height).toBeCloseTo(400);
+    });
+
+    it("flattens circles finely enough for the cookie size", () => {
+        const drawing = parseSvg(svg(`<circle cx="50" cy="50" r="50"/>`), 50);
+        const outline = drawing.outlines[0];
+        expect(outline.length).toBeGreaterThan(32);
+        for (const pt of outline) {
+            expect(Math.hypot(pt.x - 400, pt.y - 400)).toBeCloseTo(400, -1);
+        }
+        expect(Math.abs(signedArea(outline))).toBeCloseTo(Math.PI * 400 * 400, -3);
+    });
+
+    it("puts filled outlines first, largest first, and holes last", () => {
+        const drawing = parseSvg(svg(`
+            <rect width="10" height="10"/>
+            <path fill-rule="evenodd" d="M20 0 h80 v80 h-80 Z M30 10 h60 v60 h-60 Z"/>
+        `), 50);
+        expect(drawing.outlines).toHaveLength(3);
+        expect(bounds(drawing.outlines[0]).width).toBeCloseTo(640);
+        expect(bounds(drawing.outlines[1]).width).toBeCloseTo(80);
+        expect(bounds(drawing.outlines[2]).width).toBeCloseTo(480);
+    });
+
+    it("applies transforms and follows use references", () => {
+        const drawing = parseSvg(svg(`
+            <defs><rect id="box" width="10" height="10"/></defs>
+            <use xlink:href="#box"/>
+            <g transform="translate(30 0) scale(2)"><use href="#box"/></g>
+        `), 50);
+        expect(drawing.outlines).toHaveLength(2);
+        expect(drawing.width).toBe(800);
+        expect(drawing.height).toBe(320);
+    });
+
+    it("skips hidden elements and open polylines", () => {
+        const drawing = parseSvg(svg(`
+            <rect width="10" height="10"/>
+            <rect x="20" width="10" height="10" style="display: none"/>
+            <polyline points="40 0 50 0 50 10"/>
+        `), 50);
+        expect(drawing.outlines).toHaveLength(1);
+    });
+
+    it("rejects files that aren't SVG or have nothing to cut", () => {
+        expect(() => parseSvg("<html></html>", 50)).toThrow("not a valid SVG");
+        expect(() => parseSvg(svg(`<line x1="0" y1="0" x2="10" y2="10"/>`), 50)).toThrow("no closed shapes");
+    });
+});
+
+describe("findHoles", () => {
+    it("makes the inner outline a hole under the even-odd rule", () => {
+        expect(findHoles(NESTED, "evenodd")).toEqual([false, true]);
+    });
+
+    it("fills the inner outline under the nonzero rule unless it winds the other way", () => {
+        expect(findHoles(NESTED, "nonzero")).toEqual([false, false]);
+        expect(findHoles([NESTED[0], NESTED[1].slice().reverse()], "nonzero")).toEqual([false, true]);
+    });
+});
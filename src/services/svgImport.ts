@@ -0,0 +1,695 @@
+/**
+ * @fileoverview SVG Import for Cookie Cutter Monster
+ *
+ * Reads vector logos straight from their SVG file instead of rasterising
+ * them for edge detection, so curves are not quantised to pixels before the
+ * cutter is built. Every closed subpath becomes an outline the user can pick
+ * on the edge detection canvas, just like a detected contour.
+ *
+ * Supported:
+ * - Paths with every command, including arcs and shorthand curves
+ * - Rectangles with rounded corners, circles, ellipses, polygons and closed polylines
+ * - Nested transforms, nested SVGs and <use> references
+ * - Nonzero and even-odd fill rules, which decide the holes of a shape
+ *
+ * Curves are flattened with a tolerance in millimeters on the finished
+ * cutter at the current cookie size, assuming the subpath is the one that
+ * gets cut. Strokes, clip paths, masks and text are ignored.
+ *
+ * @author Cookie Cutter Monster Team
+ * @version 1.0.0
+ * @since 2020-08-01
+ */
+
+import { curve_t, drawing_t, point_t } from "../types";
+import { flattenCurves } from "./shapeLibrary";
+import { signedArea, windingNumber } from "./polygonOffset";
+
+/** Longest side of an imported drawing in pixels */
+const SVG_DRAWING_SIZE = 800;
+
+/** Largest distance in millimeters between a curve and its flattened outline on the cutter */
+const SVG_CURVE_TOLERANCE = .02;
+
+/** Subpaths smaller than this in drawing pixels are specks and are skipped */
+const MIN_SUBPATH_SIZE = 2;
+
+/** Elements whose content is never drawn directly */
+const HIDDEN_ELEMENTS = ["defs", "clipPath", "mask", "symbol", "pattern", "marker", "style", "script", "text", "title", "desc", "metadata"];
+
+/** How deep <use> references may nest, which also stops reference loops */
+const MAX_USE_DEPTH = 8;
+
+/** Distance of the control points of a quarter circle as a fraction of its radius */
+const KAPPA = .5522847498;
+
+/** Namespace of the legacy xlink:href attribute */
+const XLINK_NAMESPACE = "http://www.w3.org/1999/xlink";
+
+/** Numbers in path data and attribute lists, which need no separators between them */
+const NUMBER_PATTERN = /[-+]?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?/gi;
+
+/** 2D affine transform [a, b, c, d, e, f] as in the SVG matrix() function */
+type Matrix = [number, number, number, number, number, number];
+
+/** How overlapping subpaths of a shape fill */
+type FillRule = "nonzero" | "evenodd";
+
+/** Transform that leaves every point where it is */
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+/**
+ * The closed subpaths of one SVG element, in document coordinates
+ */
+interface SvgShape {
+    subpaths: curve_t[][],
+    fillRule: FillRule
+}
+
+/**
+ * Reads the closed outlines of an SVG file
+ *
+ * The drawing is scaled so its longest side is SVG_DRAWING_SIZE pixels.
+ * Filled outlines come first, largest first, then the holes, so the
+ * largest filled outline is selected when the drawing is loaded.
+ *
+ * @param {string} text - Contents of the SVG file
+ * @param {number} size - Cookie size in millimeters, sets the curve resolution
+ * @returns {drawing_t} The outlines ready for the cutter worker
+ * @throws {Error} If the file is not an SVG or has no closed shape
+ */
+export function parseSvg(text: string, size: number): drawing_t {
+    const doc = new DOMParser().parseFromString(text, "image/svg+xml");
+    const root = doc.documentElement;
+    if (!root || root.localName !== "svg" || doc.getElementsByTagName("parsererror").length) {
+        throw Error("that file is not a valid SVG image");
+    }
+
+    const shapes: SvgShape[] = [];
+    collectShapes(root, IDENTITY, "nonzero", shapes, 0);
+
+    const controls = [].concat(...shapes.map(shape => [].concat(...shape.subpaths.map(controlPoints))));
+    if (!controls.length) {
+        throw Error("the SVG has no closed shapes to cut");
+    }
+
+    const bounds = pointBounds(controls);
+    const scale = SVG_DRAWING_SIZE / (Math.max(bounds.width, bounds.height) || 1);
+    const toDrawing: Matrix = [scale, 0, 0, scale, -bounds.x * scale, -bounds.y * scale];
+
+    const filled: point_t[][] = [];
+    const holes: point_t[][] = [];
+    for (const shape of shapes) {
+        const outlines: point_t[][] = [];
+        for (const subpath of shape.subpaths) {
+            const curves = subpath.map(curve => transformCurve(curve, toDrawing));
+            const extent = pointBounds(controlPoints(curves));
+            const dimension = Math.max(extent.width, extent.height);
+            if (dimension < MIN_SUBPATH_SIZE) continue;
+
+            // drawing pixels per millimeter if this subpath became the cutter
+            const tolerance = SVG_CURVE_TOLERANCE * dimension / Number(size);
+            outlines.push(flattenCurves(curves, tolerance));
+        }
+
+        const isHole = findHoles(outlines, shape.fillRule);
+        outlines.forEach((outline, i) => (isHole[i] ? holes : filled).push(outline));
+    }
+
+    const bySize = (a: point_t[], b: point_t[]) => Math.abs(signedArea(b)) - Math.abs(signedArea(a));
+    const outlines = filled.sort(bySize).concat(holes.sort(bySize));
+    if (!outlines.length) {
+        throw Error("the SVG has no closed shapes to cut");
+    }
+
+    return {
+        width: Math.ceil(bounds.width * scale),
+        height: Math.ceil(bounds.height * scale),
+        outlines
+    };
+}
+
+/**
+ * Walks an element and its children, collecting the closed subpaths of every shape
+ *
+ * @param {Element} element - Element to read
+ * @param {Matrix} matrix - Transform of the parent into document coordinates
+ * @param {FillRule} fillRule - Fill rule inherited from the parent
+ * @param {SvgShape[]} shapes - Receives the shapes in document order
+ * @param {number} depth - Number of <use> references followed to get here
+ */
+function collectShapes(element: Element, matrix: Matrix, fillRule: FillRule, shapes: SvgShape[], depth: number) {
+    const name = element.localName;
+    if (HIDDEN_ELEMENTS.includes(name) || styleValue(element, "display") === "none") return;
+
+    matrix = multiply(matrix, parseTransform(element.getAttribute("transform") || ""));
+    const rule = styleValue(element, "fill-rule");
+    if (rule === "nonzero" || rule === "evenodd") fillRule = rule;
+
+    if (name === "use") {
+        const href = element.getAttribute("href") || element.getAttributeNS(XLINK_NAMESPACE, "href") || "";
+        const target = href.startsWith("#") ? element.ownerDocument.getElementById(href.slice(1)) : null;
+        if (!target || depth >= MAX_USE_DEPTH) return;
+
+        const moved = multiply(matrix, [1, 0, 0, 1, numberAttribute(element, "x"), numberAttribute(element, "y")]);
+        // a referenced symbol draws its children, it is hidden otherwise
+        const children = target.localName === "symbol" ? Array.from(target.children) : [target];
+        children.forEach(child => collectShapes(child, moved, fillRule, shapes, depth + 1));
+        return;
+    }
+
+    if (name === "svg" && element !== element.ownerDocument.documentElement) {
+        matrix = multiply(matrix, [1, 0, 0, 1, numberAttribute(element, "x"), numberAttribute(element, "y")]);
+    }
+
+    const subpaths = elementSubpaths(element);
+    if (subpaths) {
+        const transformed = subpaths.map(subpath => subpath.map(curve => transformCurve(curve, matrix)));
+        if (transformed.length) shapes.push({ subpaths: transformed, fillRule });
+        return;
+    }
+
+    Array.from(element.children).forEach(child => collectShapes(child, matrix, fillRule, shapes, depth));
+}
+
+/**
+ * Reads the closed subpaths of a shape element
+ *
+ * @param {Element} element - Element to read
+ * @returns {curve_t[][] | null} Closed subpaths in the element's coordinates, null for containers
+ */
+function elementSubpaths(element: Element): curve_t[][] | null {
+    const x = numberAttribute(element, "x"), y = numberAttribute(element, "y");
+
+    switch (element.localName) {
+        case "path":
+            return parsePathData(element.getAttribute("d") || "");
+        case "rect":
+            return rectSubpaths(x, y, numberAttribute(element, "width"), numberAttribute(element, "height"),
+                element.getAttribute("rx"), element.getAttribute("ry"));
+        case "circle": {
+            const r = numberAttribute(element, "r");
+            return ellipseSubpaths(numberAttribute(element, "cx"), numberAttribute(element, "cy"), r, r);
+        }
+        case "ellipse":
+            return ellipseSubpaths(numberAttribute(element, "cx"), numberAttribute(element, "cy"),
+                numberAttribute(element, "rx"), numberAttribute(element, "ry"));
+        case "polygon":
+        case "polyline": {
+            const numbers = (element.getAttribute("points") || "").match(NUMBER_PATTERN) || [];
+            const points: point_t[] = [];
+            for (let i = 0; i + 1 < numbers.length; i += 2) {
+                points.push({ x: Number(numbers[i]), y: Number(numbers[i + 1]) });
+            }
+            return polygonSubpaths(points, element.localName === "polygon");
+        }
+        case "line":
+            return [];
+        default:
+            return null;
+    }
+}
+
+/**
+ * Parses SVG path data into closed subpaths
+ *
+ * Subpaths closed with Z, or ending where they started, are kept; open
+ * ones cannot be cut and are dropped.
+ *
+ * @param {string} d - The d attribute of a path
+ * @returns {curve_t[][]} Closed subpaths
+ * @throws {Error} If the path data is malformed
+ */
+function parsePathData(d: string): curve_t[][] {
+    const tokens = d.match(/[a-z]|[-+]?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?/gi) || [];
+    const subpaths: curve_t[][] = [];
+    let curves: curve_t[] = [];
+    let current: point_t = { x: 0, y: 0 };
+    let start = current;
+    let cubicControl: point_t = null;
+    let quadControl: point_t = null;
+    let command = "";
+    let i = 0;
+
+    const isCommand = (token: string) => /^[a-z]$/i.test(token);
+    const number = () => {
+        const value = Number(tokens[i++]);
+        if (isNaN(value)) {
+            throw Error(`the SVG path data "${d.slice(0, 40)}" is invalid`);
+        }
+        return value;
+    };
+    // arc flags may be written without separators, as in "a1 1 0 011 1"
+    const flag = () => {
+        const token = tokens[i] || "";
+        if (token.length > 1 && /^[01]/.test(token)) {
+            tokens[i] = token.slice(1);
+            return token[0] === "1";
+        }
+        return number() === 1;
+    };
+    const point = (relative: boolean) => {
+        const x = number(), y = number();
+        return relative ? { x: current.x + x, y: current.y + y } : { x, y };
+    };
+    const endSubpath = (closed: boolean) => {
+        const ends = curves.length && Math.hypot(current.x - start.x, current.y - start.y) < 1e-9;
+        if (curves.length && (closed || ends)) {
+            if (!ends) curves.push(lineCurve(current, start));
+            subpaths.push(curves);
+        }
+        curves = [];
+    };
+
+    while (i < tokens.length) {
+        if (isCommand(tokens[i])) {
+            command = tokens[i++];
+        } else if (!command) {
+            throw Error(`the SVG path data "${d.slice(0, 40)}" is invalid`);
+        }
+
+        const relative = command === command.toLowerCase();
+        let nextCubic: point_t = null, nextQuad: point_t = null;
+
+        switch (command.toUpperCase()) {
+            case "M":
+                endSubpath(false);
+                current = start = point(relative);
+                // further coordinate pairs are implicit line commands
+                command = relative ? "l" : "L";
+                break;
+            case "L": {
+                const to = point(relative);
+                curves.push(lineCurve(current, to));
+                current = to;
+                break;
+            }
+            case "H": {
+                const x = number();
+                const to = { x: relative ? current.x + x : x, y: current.y };
+                curves.push(lineCurve(current, to));
+                current = to;
+                break;
+            }
+            case "V": {
+                const y = number();
+                const to = { x: current.x, y: relative ? current.y + y : y };
+                curves.push(lineCurve(current, to));
+                current = to;
+                break;
+            }
+            case "C":
+            case "S": {
+                const control1 = command.toUpperCase() === "S"
+                    ? reflect(cubicControl, current)
+                    : point(relative);
+                const control2 = point(relative);
+                const to = point(relative);
+                curves.push({ start: current, control1, control2, end: to });
+                current = to;
+                nextCubic = control2;
+                break;
+            }
+            case "Q":
+            case "T": {
+                const control = command.toUpperCase() === "T"
+                    ? reflect(quadControl, current)
+                    : point(relative);
+                const to = point(relative);
+                curves.push(quadraticCurve(current, control, to));
+                current = to;
+                nextQuad = control;
+                break;
+            }
+            case "A": {
+                const rx = number(), ry = number(), angle = number();
+                const largeArc = flag(), sweep = flag();
+                const to = point(relative);
+                curves.push(...arcCurves(current, rx, ry, angle, largeArc, sweep, to));
+                current = to;
+                break;
+            }
+            case "Z":
+                endSubpath(true);
+                current = start;
+                break;
+            default:
+                throw Error(`the SVG path command "${command}" is unknown`);
+        }
+
+        cubicControl = nextCubic;
+        quadControl = nextQuad;
+    }
+    endSubpath(false);
+
+    return subpaths;
+}
+
+/**
+ * Mirrors the previous control point through the current point, for S and T
+ *
+ * @param {point_t | null} control - Last control point of the previous curve, null if it was no curve of that kind
+ * @param {point_t} current - Current point
+ * @returns {point_t} The implied control point
+ */
+function reflect(control: point_t | null, current: point_t): point_t {
+    return control ? { x: 2 * current.x - control.x, y: 2 * current.y - control.y } : current;
+}
+
+/**
+ * Builds a straight segment as a curve
+ *
+ * @param {point_t} from - Start point
+ * @param {point_t} to - End point
+ * @returns {curve_t} Curve with its control points at thirds of the line
+ */
+function lineCurve(from: point_t, to: point_t): curve_t {
+    return {
+        start: from,
+        control1: { x: from.x + (to.x - from.x) / 3, y: from.y + (to.y - from.y) / 3 },
+        control2: { x: from.x + (to.x - from.x) * 2 / 3, y: from.y + (to.y - from.y) * 2 / 3 },
+        end: to
+    };
+}
+
+/**
+ * Turns a quadratic Bézier into the equivalent cubic
+ *
+ * @param {point_t} from - Start point
+ * @param {point_t} control - Quadratic control point
+ * @param {point_t} to - End point
+ * @returns {curve_t} The same curve as a cubic
+ */
+function quadraticCurve(from: point_t, control: point_t, to: point_t): curve_t {
+    return {
+        start: from,
+        control1: { x: from.x + (control.x - from.x) * 2 / 3, y: from.y + (control.y - from.y) * 2 / 3 },
+        control2: { x: to.x + (control.x - to.x) * 2 / 3, y: to.y + (control.y - to.y) * 2 / 3 },
+        end: to
+    };
+}
+
+/**
+ * Turns an SVG elliptical arc into cubic Béziers of at most a quarter turn each
+ *
+ * Follows the endpoint to centre conversion of the SVG specification,
+ * scaling up radii that are too small to reach the end point.
+ *
+ * @param {point_t} from - Start point
+ * @param {number} rx - X radius
+ * @param {number} ry - Y radius
+ * @param {number} angle - Rotation of the ellipse in degrees
+ * @param {boolean} largeArc - Whether to take the longer way round
+ * @param {boolean} sweep - Whether to go in the positive angle direction
+ * @param {point_t} to - End point
+ * @returns {curve_t[]} The arc as cubic segments
+ */
+function arcCurves(from: point_t, rx: number, ry: number, angle: number, largeArc: boolean, sweep: boolean, to: point_t): curve_t[] {
+    if (from.x === to.x && from.y === to.y) return [];
+    if (!rx || !ry) return [lineCurve(from, to)];
+
+    rx = Math.abs(rx);
+    ry = Math.abs(ry);
+    const phi = angle * Math.PI / 180, cos = Math.cos(phi), sin = Math.sin(phi);
+    const dx = (from.x - to.x) / 2, dy = (from.y - to.y) / 2;
+    const x1 = cos * dx + sin * dy, y1 = -sin * dx + cos * dy;
+
+    const lambda = x1 * x1 / (rx * rx) + y1 * y1 / (ry * ry);
+    if (lambda > 1) {
+        rx *= Math.sqrt(lambda);
+        ry *= Math.sqrt(lambda);
+    }
+
+    const numerator = rx * rx * ry * ry - rx * rx * y1 * y1 - ry * ry * x1 * x1;
+    const denominator = rx * rx * y1 * y1 + ry * ry * x1 * x1;
+    const factor = (largeArc === sweep ? -1 : 1) * Math.sqrt(Math.max(0, numerator / denominator));
+    const cx1 = factor * rx * y1 / ry, cy1 = -factor * ry * x1 / rx;
+    const cx = cos * cx1 - sin * cy1 + (from.x + to.x) / 2;
+    const cy = sin * cx1 + cos * cy1 + (from.y + to.y) / 2;
+
+    const theta = Math.atan2((y1 - cy1) / ry, (x1 - cx1) / rx);
+    let delta = Math.atan2((-y1 - cy1) / ry, (-x1 - cx1) / rx) - theta;
+    if (!sweep && delta > 0) delta -= Math.PI * 2;
+    if (sweep && delta < 0) delta += Math.PI * 2;
+
+    const segments = Math.max(1, Math.ceil(Math.abs(delta) / (Math.PI / 2) - 1e-9));
+    const step = delta / segments;
+    const k = 4 / 3 * Math.tan(step / 4);
+    const at = (t: number) => ({
+        x: cx + rx * Math.cos(t) * cos - ry * Math.sin(t) * sin,
+        y: cy + rx * Math.cos(t) * sin + ry * Math.sin(t) * cos
+    });
+    const tangent = (t: number) => ({
+        x: -rx * Math.sin(t) * cos - ry * Math.cos(t) * sin,
+        y: -rx * Math.sin(t) * sin + ry * Math.cos(t) * cos
+    });
+
+    const curves: curve_t[] = [];
+    for (let s = 0; s < segments; s++) {
+        const t0 = theta + s * step, t1 = t0 + step;
+        const p0 = s ? at(t0) : from, p1 = s === segments - 1 ? to : at(t1);
+        const d0 = tangent(t0), d1 = tangent(t1);
+        curves.push({
+            start: p0,
+            control1: { x: p0.x + k * d0.x, y: p0.y + k * d0.y },
+            control2: { x: p1.x - k * d1.x, y: p1.y - k * d1.y },
+            end: p1
+        });
+    }
+    return curves;
+}
+
+/**
+ * Builds a rectangle, with rounded corners when rx or ry is given
+ *
+ * @param {number} x - Left edge
+ * @param {number} y - Top edge
+ * @param {number} width - Width
+ * @param {number} height - Height
+ * @param {string | null} rxAttribute - The rx attribute, auto when missing
+ * @param {string | null} ryAttribute - The ry attribute, auto when missing
+ * @returns {curve_t[][]} The rectangle as one subpath, none if it is empty
+ */
+function rectSubpaths(x: number, y: number, width: number, height: number, rxAttribute: string | null, ryAttribute: string | null): curve_t[][] {
+    if (width <= 0 || height <= 0) return [];
+
+    // a missing radius takes the other one, as in the SVG specification
+    let rx = Number(rxAttribute ?? ryAttribute ?? 0) || 0;
+    let ry = Number(ryAttribute ?? rxAttribute ?? 0) || 0;
+    rx = Math.min(Math.abs(rx), width / 2);
+    ry = Math.min(Math.abs(ry), height / 2);
+    if (!rx || !ry) {
+        return polygonSubpaths([{ x, y }, { x: x + width, y }, { x: x + width, y: y + height }, { x, y: y + height }], true);
+    }
+
+    const right = x + width, bottom = y + height;
+    const corner = (from: point_t, to: point_t, bend: point_t): curve_t => ({
+        start: from,
+        control1: { x: from.x + (bend.x - from.x) * KAPPA, y: from.y + (bend.y - from.y) * KAPPA },
+        control2: { x: to.x + (bend.x - to.x) * KAPPA, y: to.y + (bend.y - to.y) * KAPPA },
+        end: to
+    });
+    const points = [
+        { x: x + rx, y }, { x: right - rx, y },
+        { x: right, y: y + ry }, { x: right, y: bottom - ry },
+        { x: right - rx, y: bottom }, { x: x + rx, y: bottom },
+        { x, y: bottom - ry }, { x, y: y + ry }
+    ];
+    const bends = [{ x: right, y }, { x: right, y: bottom }, { x, y: bottom }, { x, y }];
+
+    const curves: curve_t[] = [];
+    for (let n = 0; n < 4; n++) {
+        const from = points[n * 2], to = points[n * 2 + 1], next = points[(n * 2 + 2) % 8];
+        if (from.x !== to.x || from.y !== to.y) curves.push(lineCurve(from, to));
+        curves.push(corner(to, next, bends[n]));
+    }
+    return [curves];
+}
+
+/**
+ * Builds an ellipse from four quarter arcs
+ *
+ * @param {number} cx - Centre x
+ * @param {number} cy - Centre y
+ * @param {number} rx - X radius
+ * @param {number} ry - Y radius
+ * @returns {curve_t[][]} The ellipse as one subpath, none if it is empty
+ */
+function ellipseSubpaths(cx: number, cy: number, rx: number, ry: number): curve_t[][] {
+    if (rx <= 0 || ry <= 0) return [];
+
+    const points = [{ x: cx + rx, y: cy }, { x: cx, y: cy + ry }, { x: cx - rx, y: cy }, { x: cx, y: cy - ry }];
+    return [points.map((from, n) => {
+        const to = points[(n + 1) % 4];
+        // the control points run along the tangents, parallel to the axes
+        return {
+            start: from,
+            control1: { x: from.x + (from.x === cx ? (to.x - cx) * KAPPA : 0), y: from.y + (from.y === cy ? (to.y - cy) * KAPPA : 0) },
+            control2: { x: to.x + (to.x === cx ? (from.x - cx) * KAPPA : 0), y: to.y + (to.y === cy ? (from.y - cy) * KAPPA : 0) },
+            end: to
+        };
+    })];
+}
+
+/**
+ * Builds a polygon, or a polyline that ends where it started
+ *
+ * @param {point_t[]} points - Corner points
+ * @param {boolean} closed - Whether the shape closes itself, as polygons do
+ * @returns {curve_t[][]} The shape as one subpath, none if it is open or too short
+ */
+function polygonSubpaths(points: point_t[], closed: boolean): curve_t[][] {
+    const first = points[0], last = points[points.length - 1];
+    const ends = points.length > 1 && first.x === last.x && first.y === last.y;
+    if (ends) points = points.slice(0, -1);
+    if (points.length < 3 || !(closed || ends)) return [];
+
+    return [points.map((pt, i) => lineCurve(pt, points[(i + 1) % points.length]))];
+}
+
+/**
+ * Decides which outlines of a shape are holes under its fill rule
+ *
+ * Looks at the region just inside each outline: with even-odd it is filled
+ * when an even number of other outlines surround it, with nonzero when the
+ * windings around it, including its own, do not cancel out.
+ *
+ * @param {point_t[][]} outlines - Flattened subpaths of one shape
+ * @param {FillRule} fillRule - Fill rule of the shape
+ * @returns {boolean[]} Whether each outline bounds an unfilled region
+ */
+export function findHoles(outlines: point_t[][], fillRule: FillRule): boolean[] {
+    return outlines.map((outline, i) => {
+        const others = outlines.filter((_, j) => j !== i);
+        const pt = outline[0];
+
+        if (fillRule === "evenodd") {
+            return others.filter(other => windingNumber(pt, [other]) !== 0).length % 2 === 1;
+        }
+        const own = signedArea(outline) > 0 ? 1 : -1;
+        return windingNumber(pt, others) + own === 0;
+    });
+}
+
+/**
+ * Parses an SVG transform list
+ *
+ * @param {string} transform - The transform attribute
+ * @returns {Matrix} The combined transform
+ */
+function parseTransform(transform: string): Matrix {
+    let matrix = IDENTITY;
+    const functions = /(matrix|translate|scale|rotate|skewX|skewY)\s*\(([^)]*)\)/g;
+
+    let match: RegExpExecArray;
+    while ((match = functions.exec(transform))) {
+        const args = (match[2].match(NUMBER_PATTERN) || []).map(Number);
+        const [a = 0, b, c] = args;
+        const radians = a * Math.PI / 180;
+
+        switch (match[1]) {
+            case "matrix":
+                if (args.length === 6) matrix = multiply(matrix, <Matrix>args);
+                break;
+            case "translate":
+                matrix = multiply(matrix, [1, 0, 0, 1, a, b ?? 0]);
+                break;
+            case "scale":
+                matrix = multiply(matrix, [a, 0, 0, b ?? a, 0, 0]);
+                break;
+            case "rotate": {
+                const cos = Math.cos(radians), sin = Math.sin(radians);
+                const cx = b ?? 0, cy = c ?? 0;
+                matrix = multiply(matrix, [cos, sin, -sin, cos, cx - cos * cx + sin * cy, cy - sin * cx - cos * cy]);
+                break;
+            }
+            case "skewX":
+                matrix = multiply(matrix, [1, 0, Math.tan(radians), 1, 0, 0]);
+                break;
+            case "skewY":
+                matrix = multiply(matrix, [1, Math.tan(radians), 0, 1, 0, 0]);
+                break;
+        }
+    }
+    return matrix;
+}
+
+/**
+ * Combines two transforms, n applied first
+ *
+ * @param {Matrix} m - Outer transform
+ * @param {Matrix} n - Inner transform
+ * @returns {Matrix} m · n
+ */
+function multiply(m: Matrix, n: Matrix): Matrix {
+    return [
+        m[0] * n[0] + m[2] * n[1],
+        m[1] * n[0] + m[3] * n[1],
+        m[0] * n[2] + m[2] * n[3],
+        m[1] * n[2] + m[3] * n[3],
+        m[0] * n[4] + m[2] * n[5] + m[4],
+        m[1] * n[4] + m[3] * n[5] + m[5]
+    ];
+}
+
+/**
+ * Applies a transform to a curve, which stays a cubic Bézier
+ *
+ * @param {curve_t} curve - Curve to move
+ * @param {Matrix} m - Transform
+ * @returns {curve_t} The transformed curve
+ */
+function transformCurve(curve: curve_t, m: Matrix): curve_t {
+    const apply = (pt: point_t) => ({ x: m[0] * pt.x + m[2] * pt.y + m[4], y: m[1] * pt.x + m[3] * pt.y + m[5] });
+    return {
+        start: apply(curve.start),
+        control1: apply(curve.control1),
+        control2: apply(curve.control2),
+        end: apply(curve.end)
+    };
+}
+
+/**
+ * Lists the end and control points of curves, which bound them
+ *
+ * @param {curve_t[]} curves - Curves
+ * @returns {point_t[]} Every point defining the curves
+ */
+function controlPoints(curves: curve_t[]): point_t[] {
+    return [].concat(...curves.map(curve => [curve.start, curve.control1, curve.control2, curve.end]));
+}
+
+/**
+ * Finds the bounding box of points
+ *
+ * @param {point_t[]} points - Points
+ * @returns {{ x: number, y: number, width: number, height: number }} Bounding box
+ */
+function pointBounds(points: point_t[]) {
+    const xs = points.map(pt => pt.x), ys = points.map(pt => pt.y);
+    const x = Math.min(...xs), y = Math.min(...ys);
+    return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
+
+/**
+ * Reads a presentation property from the style attribute or the attribute itself
+ *
+ * @param {Element} element - Element to read
+ * @param {string} name - Property name, such as fill-rule
+ * @returns {string} The value, empty when not set
+ */
+function styleValue(element: Element, name: string): string {
+    const style = (element.getAttribute("style") || "").match(new RegExp(`(?:^|;)\\s*${name}\\s*:\\s*([^;]+)`));
+    return (style ? style[1] : element.getAttribute(name) || "").trim();
+}
+
+/**
+ * Reads a numeric attribute, ignoring units
+ *
+ * @param {Element} element - Element to read
+ * @param {string} name - Attribute name
+ * @returns {number} The value, 0 when missing or not a number
+ */
+function numberAttribute(element: Element, name: string): number {
+    return parseFloat(element.getAttribute(name) || "") || 0;
+}
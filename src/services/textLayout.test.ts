@@ -0,0 +1,47 @@
+import { readFileSync } from "fs";
+import { join } from "path";
+import { OpenTypeFont } from "./fontParser";
+import { layoutText, TextLayoutOptions } from "./textLayout";
+
+const file = readFileSync(join(__dirname, "../../fonts/glyphicons-halflings-regular.ttf"));
+const font = new OpenTypeFont(file.buffer.slice(file.byteOffset, file.byteOffset + file.byteLength));
+
+const OPTIONS: TextLayoutOptions = { letterSpacing: 0, weld: false, join: "separate" };
+
+describe("layoutText", () => {
+    it("scales the text so its longest side is 800 pixels", () => {
+        const drawing = layoutText(font, "+", 50, OPTIONS);
+        expect(Math.max(drawing.width, drawing.height)).toBe(800);
+        expect(drawing.outlines).toHaveLength(1);
+        expect(drawing.bridges).toBeUndefined();
+    });
+
+    it("sets letters side by side and lines below each other", () => {
+        const line = layoutText(font, "++", 50, OPTIONS);
+        expect(line.outlines).toHaveLength(2);
+        expect(line.width).toBeGreaterThan(line.height);
+
+        const lines = layoutText(font, "+\n+", 50, OPTIONS);
+        expect(lines.outlines).toHaveLength(2);
+        expect(lines.height).toBeGreaterThan(lines.width);
+    });
+
+    it("welds letters that overlap into one outline", () => {
+        const tight = { ...OPTIONS, letterSpacing: -.5 };
+        expect(layoutText(font, "++", 50, tight).outlines).toHaveLength(2);
+        expect(layoutText(font, "++", 50, { ...tight, weld: true }).outlines).toHaveLength(1);
+    });
+
+    it("bridges each letter to the next", () => {
+        const drawing = layoutText(font, "+++", 50, { ...OPTIONS, join: "bridge" });
+        expect(drawing.outlines).toHaveLength(3);
+        expect(drawing.bridges).toHaveLength(2);
+        for (const bridge of drawing.bridges) {
+            expect(bridge).toHaveLength(4);
+        }
+    });
+
+    it("rejects text without a single outline", () => {
+        expect(() => layoutText(font, "  ", 50, OPTIONS)).toThrow("no letters");
+    });
+});
@@ -0,0 +1,187 @@
+/**
+ * @fileoverview Text Layout for Cookie Cutter Monster
+ *
+ * Sets a line or a few lines of text in a font and turns the letters into
+ * outlines for the cutter worker, the same kind of drawing the drawing pad
+ * and the SVG import produce.
+ *
+ * Features:
+ * - Letter spacing in fractions of the font size
+ * - Welding, which merges overlapping letters into one outline
+ * - Separate letters, or letters joined by handle bridges into one cutter
+ *
+ * Like the cutter geometry this module has no DOM or OpenCV dependency.
+ *
+ * @author Cookie Cutter Monster Team
+ * @version 1.0.0
+ * @since 2020-08-01
+ */
+
+import { curve_t, drawing_t, point_t, TextJoin } from "../types";
+import { OpenTypeFont } from "./fontParser";
+import { flattenCurves } from "./shapeLibrary";
+import { findHoles } from "./svgImport";
+import { signedArea, unionPaths } from "./polygonOffset";
+
+/** Longest side of a text drawing in pixels */
+const TEXT_DRAWING_SIZE = 800;
+
+/** Largest distance between a letter's curves and its outline, in millimeters at the cutter size */
+const TEXT_CURVE_TOLERANCE = .02;
+
+/** Width of the handle bridges between letters in millimeters */
+const BRIDGE_WIDTH = 5;
+
+/** How far a bridge reaches into each letter it joins, in bridge widths */
+const BRIDGE_REACH = 1.5;
+
+/**
+ * How the text is set
+ */
+export interface TextLayoutOptions {
+    /** Extra space after every letter as a fraction of the font size, negative to tighten */
+    letterSpacing: number,
+    /** Whether overlapping letters merge into one outline */
+    weld: boolean,
+    /** Whether the letters stay separate cutters or are bridged into one */
+    join: TextJoin
+}
+
+/**
+ * Sets text in a font and returns the letter outlines
+ *
+ * The text is scaled so its longest side is TEXT_DRAWING_SIZE pixels. The
+ * outer outlines of the letters come first, in reading order, then their
+ * counters. Bridged text has only the outer outlines, with a bridge from
+ * each one to the next.
+ *
+ * @param {OpenTypeFont} font - Font to set the text in
+ * @param {string} text - The text, one line per line break
+ * @param {number} size - Cookie size in millimeters, sets the curve resolution and bridge width
+ * @param {TextLayoutOptions} options - Spacing, welding and joining
+ * @returns {drawing_t} The outlines ready for the cutter worker
+ * @throws {Error} If none of the characters has an outline in the font
+ */
+export function layoutText(font: OpenTypeFont, text: string, size: number, options: TextLayoutOptions): drawing_t {
+    const lineHeight = font.ascender - font.descender;
+    const spacing = Number(options.letterSpacing) * font.unitsPerEm;
+
+    // every letter's contours, placed on its line in font units
+    const glyphs: curve_t[][][] = [];
+    text.split(/\r?\n/).forEach((line, row) => {
+        let pen = 0;
+        for (const character of Array.from(line)) {
+            const glyph = font.glyphIndex(character.codePointAt(0));
+            const contours = font.glyphContours(glyph).map(contour => contour.map(curve => ({
+                start: { x: curve.start.x + pen, y: curve.start.y - row * lineHeight },
+                control1: { x: curve.control1.x + pen, y: curve.control1.y - row * lineHeight },
+                control2: { x: curve.control2.x + pen, y: curve.control2.y - row * lineHeight },
+                end: { x: curve.end.x + pen, y: curve.end.y - row * lineHeight }
+            })));
+            if (contours.length) glyphs.push(contours);
+            pen += font.advanceWidth(glyph) + spacing;
+        }
+    });
+
+    if (!glyphs.length) {
+        throw Error("the font has no letters for that text");
+    }
+
+    const bounds = curveBounds([].concat(...glyphs));
+    const scale = TEXT_DRAWING_SIZE / (Math.max(bounds.width, bounds.height) || 1);
+    // font units point up, drawing pixels point down
+    const place = (pt: point_t) => ({ x: (pt.x - bounds.x) * scale, y: (bounds.y + bounds.height - pt.y) * scale });
+
+    // each letter merged with itself, outer outlines counter-clockwise and counters clockwise
+    let letters = glyphs.map(contours => {
+        const placed = contours.map(contour => contour.map(curve => ({
+            start: place(curve.start),
+            control1: place(curve.control1),
+            control2: place(curve.control2),
+            end: place(curve.end)
+        })));
+        // drawing pixels per millimeter if this letter became the cutter
+        const extent = curveBounds(placed);
+        const tolerance = TEXT_CURVE_TOLERANCE * (Math.max(extent.width, extent.height) || 1) / Number(size);
+        const outlines = placed.map(contour => flattenCurves(contour, tolerance));
+
+        const isHole = findHoles(outlines, "nonzero");
+        return unionPaths(outlines.map((outline, i) =>
+            (signedArea(outline) > 0) !== isHole[i] ? outline : outline.slice().reverse()));
+    });
+    if (options.weld) {
+        letters = [unionPaths([].concat(...letters))];
+    }
+
+    const outers: point_t[][] = [].concat(...letters.map(paths => paths.filter(path => signedArea(path) > 0)));
+    const counters: point_t[][] = [].concat(...letters.map(paths => paths.filter(path => signedArea(path) < 0)));
+    const drawing: drawing_t = {
+        width: Math.ceil(bounds.width * scale),
+        height: Math.ceil(bounds.height * scale),
+        outlines: outers.concat(counters)
+    };
+
+    if (options.join === "bridge") {
+        const width = BRIDGE_WIDTH * TEXT_DRAWING_SIZE / Number(size);
+        drawing.outlines = outers;
+        drawing.bridges = outers.slice(1).map((outline, i) => bridgeBetween(outers[i], outline, width));
+    }
+    return drawing;
+}
+
+/**
+ * Computes the bounding box of the control points of some contours
+ *
+ * The curves stay inside their control points, so the box holds them too.
+ *
+ * @param {curve_t[][]} contours - Contours to measure
+ * @returns {{ x: number, y: number, width: number, height: number }} Bounding box
+ */
+function curveBounds(contours: curve_t[][]) {
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    for (const contour of contours) {
+        for (const curve of contour) {
+            for (const pt of [curve.start, curve.control1, curve.control2]) {
+                minX = Math.min(minX, pt.x);
+                minY = Math.min(minY, pt.y);
+                maxX = Math.max(maxX, pt.x);
+                maxY = Math.max(maxY, pt.y);
+            }
+        }
+    }
+    return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+/**
+ * Builds a bar joining two outlines where they come closest
+ *
+ * @param {point_t[]} from - First outline
+ * @param {point_t[]} to - Second outline
+ * @param {number} width - Width of the bar in drawing pixels
+ * @returns {point_t[]} Closed outline of the bar
+ */
+function bridgeBetween(from: point_t[], to: point_t[], width: number): point_t[] {
+    let closest = { a: from[0], b: to[0], distance: Infinity };
+    for (const a of from) {
+        for (const b of to) {
+            const distance = Math.hypot(b.x - a.x, b.y - a.y);
+            if (distance < closest.distance) closest = { a, b, distance };
+        }
+    }
+
+    const { a, b, distance } = closest;
+    const along = distance
+        ? { x: (b.x - a.x) / distance, y: (b.y - a.y) / distance }
+        : { x: 1, y: 0 };
+    const across = { x: -along.y * width / 2, y: along.x * width / 2 };
+    const reach = width * BRIDGE_REACH;
+    const start = { x: a.x - along.x * reach, y: a.y - along.y * reach };
+    const end = { x: b.x + along.x * reach, y: b.y + along.y * reach };
+
+    return [
+        { x: start.x + across.x, y: start.y + across.y },
+        { x: end.x + across.x, y: end.y + across.y },
+        { x: end.x - across.x, y: end.y - across.y },
+        { x: start.x - across.x, y: start.y - across.y }
+    ];
+}
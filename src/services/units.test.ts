@@ -0,0 +1,33 @@
+import { formatLength, fromUnits, roundLength, toUnits } from "./units";
+
+describe("toUnits and fromUnits", () => {
+    it("leave millimetres as they are", () => {
+        expect(toUnits(12.5, "mm")).toBe(12.5);
+        expect(fromUnits(12.5, "mm")).toBe(12.5);
+    });
+
+    it("convert between millimetres and inches", () => {
+        expect(toUnits(25.4, "in")).toBeCloseTo(1);
+        expect(fromUnits(2, "in")).toBeCloseTo(50.8);
+        expect(fromUnits(toUnits(73, "in"), "in")).toBeCloseTo(73);
+    });
+});
+
+describe("roundLength", () => {
+    it("keeps a hundredth of a millimetre below a centimetre and a tenth above", () => {
+        expect(roundLength(1.234, "mm")).toBe(1.23);
+        expect(roundLength(12.34, "mm")).toBe(12.3);
+    });
+
+    it("keeps a thousandth of an inch below an inch and a hundredth above", () => {
+        expect(roundLength(1, "in")).toBe(.039);
+        expect(roundLength(70, "in")).toBe(2.76);
+    });
+});
+
+describe("formatLength", () => {
+    it("writes the rounded length with its unit", () => {
+        expect(formatLength(.8, "mm")).toBe("0.8 mm");
+        expect(formatLength(69.85, "in")).toBe("2.75 in");
+    });
+});
@@ -0,0 +1,78 @@
+/**
+ * @fileoverview Length Units for Cookie Cutter Monster
+ *
+ * Every length in the cookie state and the cutter geometry is kept in
+ * millimeters. This service converts lengths into the units picked in the
+ * size control for entering and showing them, so the whole UI speaks the
+ * same units.
+ *
+ * @author Cookie Cutter Monster Team
+ * @version 1.0.0
+ * @since 2020-08-01
+ */
+
+import { SizeConstraint, Units } from "../types";
+import { MM_PER_INCH } from "../constants";
+
+/** Display labels for the unit toggle */
+export const UNIT_LABELS: { [key in Units]: string } = {
+    "mm": "mm",
+    "in": "in"
+};
+
+/** Display labels for the size constraint picker */
+export const SIZE_CONSTRAINT_LABELS: { [key in SizeConstraint]: string } = {
+    "longest": "Longest side",
+    "width": "Width",
+    "height": "Height"
+};
+
+/**
+ * Converts a length from millimeters
+ *
+ * @param {number} mm - Length in millimeters
+ * @param {Units} units - Units to convert to
+ * @returns {number} The length in those units
+ */
+export function toUnits(mm: number, units: Units): number {
+    return units === "in" ? mm / MM_PER_INCH : mm;
+}
+
+/**
+ * Converts a length into millimeters
+ *
+ * @param {number} value - Length in the given units
+ * @param {Units} units - Units of the length
+ * @returns {number} The length in millimeters
+ */
+export function fromUnits(value: number, units: Units): number {
+    return units === "in" ? value * MM_PER_INCH : value;
+}
+
+/**
+ * Rounds a length to the digits worth showing in its units
+ *
+ * Inches get a thousandth below an inch, where walls and gaps live, and a
+ * hundredth above. Millimeters get a hundredth below a centimeter and a
+ * tenth above.
+ *
+ * @param {number} mm - Length in millimeters
+ * @param {Units} units - Units to show it in
+ * @returns {number} The rounded length in those units
+ */
+export function roundLength(mm: number, units: Units): number {
+    const value = toUnits(mm, units);
+    const limit = units === "in" ? 1 : 10;
+    return Number(value.toFixed(Math.abs(value) < limit ? (units === "in" ? 3 : 2) : (units === "in" ? 2 : 1)));
+}
+
+/**
+ * Writes a length with its unit
+ *
+ * @param {number} mm - Length in millimeters
+ * @param {Units} units - Units to show it in
+ * @returns {string} The rounded length and its unit, such as "2.75 in"
+ */
+export function formatLength(mm: number, units: Units): string {
+    return `${roundLength(mm, units)} ${UNIT_LABELS[units]}`;
+}
@@ -0,0 +1,52 @@
+import { createZip, encodeText } from "./zip";
+
+/**
+ * Reads the stored entries of an archive back through its central directory
+ */
+async function readZip(blob: Blob) {
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    const view = new DataView(bytes.buffer);
+    const end = bytes.length - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054B50);
+
+    const entries: { name: string, crc: number, data: Uint8Array }[] = [];
+    let at = view.getUint32(end + 16, true);
+    for (let i = 0; i < view.getUint16(end + 10, true); i++) {
+        expect(view.getUint32(at, true)).toBe(0x02014B50);
+        const crc = view.getUint32(at + 16, true);
+        const size = view.getUint32(at + 20, true);
+        const nameLength = view.getUint16(at + 28, true);
+        const local = view.getUint32(at + 42, true);
+        const name = new TextDecoder().decode(bytes.subarray(at + 46, at + 46 + nameLength));
+
+        expect(view.getUint32(local, true)).toBe(0x04034B50);
+        const start = local + 30 + view.getUint16(local + 26, true);
+        entries.push({ name, crc, data: bytes.subarray(start, start + size) });
+        at += 46 + nameLength;
+    }
+    return entries;
+}
+
+describe("createZip", () => {
+    it("stores every entry with its name and contents", async () => {
+        const blob = createZip([
+            { name: "hello.txt", data: encodeText("hello") },
+            { name: "folder/émoji.txt", data: encodeText("🍪") }
+        ]);
+        const entries = await readZip(blob);
+
+        expect(entries.map(entry => entry.name)).toEqual(["hello.txt", "folder/émoji.txt"]);
+        expect(new TextDecoder().decode(entries[0].data)).toBe("hello");
+        expect(new TextDecoder().decode(entries[1].data)).toBe("🍪");
+    });
+
+    it("writes the CRC-32 of each entry", async () => {
+        const [entry] = await readZip(createZip([{ name: "hello.txt", data: encodeText("hello") }]));
+        expect(entry.crc).toBe(0x3610A686);
+    });
+
+    it("gives the archive the requested type", () => {
+        expect(createZip([]).type).toBe("application/zip");
+        expect(createZip([], "model/3mf").type).toBe("model/3mf");
+    });
+});
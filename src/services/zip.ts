@@ -0,0 +1,142 @@
+/**
+ * @fileoverview Minimal ZIP Archive Writer for Cookie Cutter Monster
+ *
+ * This service packs a list of in-memory files into a ZIP archive. Entries are
+ * stored without compression, which keeps the writer tiny and dependency free
+ * while still producing archives every unzip tool and 3MF slicer can read.
+ *
+ * @author Cookie Cutter Monster Team
+ * @version 1.0.0
+ * @since 2020-08-01
+ */
+
+/**
+ * A single file to be placed into a ZIP archive
+ */
+export interface ZipEntry {
+    /** Path of the file inside the archive, using forward slashes */
+    name: string,
+    /** Raw file contents */
+    data: Uint8Array
+}
+
+/** Lazily built lookup table for the CRC-32 checksum */
+let crcTable: Uint32Array | null = null;
+
+/**
+ * Computes the CRC-32 checksum required by every ZIP entry
+ *
+ * @param {Uint8Array} data - Bytes to checksum
+ * @returns {number} Unsigned CRC-32 value
+ */
+function crc32(data: Uint8Array): number {
+    if (!crcTable) {
+        crcTable = new Uint32Array(256);
+        for (let n = 0; n < 256; n++) {
+            let c = n;
+            for (let k = 0; k < 8; k++) {
+                c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+            }
+            crcTable[n] = c >>> 0;
+        }
+    }
+
+    let crc = 0xFFFFFFFF;
+    for (let i = 0; i < data.length; i++) {
+        crc = crcTable[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xFFFFFFFF) >>> 0;
+}
+
+/**
+ * Converts a date to the packed MS-DOS time and date fields used by ZIP headers
+ *
+ * @param {Date} date - Modification date of the entries
+ * @returns {{ time: number, date: number }} Packed DOS time and date
+ */
+function toDosDateTime(date: Date) {
+    return {
+        time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+        date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+    };
+}
+
+/**
+ * Encodes a string as UTF-8 bytes
+ *
+ * @param {string} text - Text to encode
+ * @returns {Uint8Array} UTF-8 encoded bytes
+ */
+export function encodeText(text: string): Uint8Array {
+    return new TextEncoder().encode(text);
+}
+
+/**
+ * Packs the given entries into an uncompressed ZIP archive
+ *
+ * @param {ZipEntry[]} entries - Files to add to the archive
+ * @param {string} mimeType - MIME type of the resulting blob
+ * @returns {Blob} The finished archive
+ */
+export function createZip(entries: ZipEntry[], mimeType: string = "application/zip"): Blob {
+    const parts: Uint8Array[] = [];
+    const central: Uint8Array[] = [];
+    const stamp = toDosDateTime(new Date());
+    let offset = 0;
+
+    for (const entry of entries) {
+        const name = encodeText(entry.name);
+        const crc = crc32(entry.data);
+        const size = entry.data.length;
+
+        const local = new DataView(new ArrayBuffer(30));
+        local.setUint32(0, 0x04034B50, true);
+        local.setUint16(4, 20, true);
+        local.setUint16(6, 0x0800, true); // UTF-8 file names
+        local.setUint16(8, 0, true); // stored, no compression
+        local.setUint16(10, stamp.time, true);
+        local.setUint16(12, stamp.date, true);
+        local.setUint32(14, crc, true);
+        local.setUint32(18, size, true);
+        local.setUint32(22, size, true);
+        local.setUint16(26, name.length, true);
+        local.setUint16(28, 0, true);
+
+        const header = new DataView(new ArrayBuffer(46));
+        header.setUint32(0, 0x02014B50, true);
+        header.setUint16(4, 20, true);
+        header.setUint16(6, 20, true);
+        header.setUint16(8, 0x0800, true);
+        header.setUint16(10, 0, true);
+        header.setUint16(12, stamp.time, true);
+        header.setUint16(14, stamp.date, true);
+        header.setUint32(16, crc, true);
+        header.setUint32(20, size, true);
+        header.setUint32(24, size, true);
+        header.setUint16(28, name.length, true);
+        header.setUint16(30, 0, true);
+        header.setUint16(32, 0, true);
+        header.setUint16(34, 0, true);
+        header.setUint16(36, 0, true);
+        header.setUint32(38, 0, true);
+        header.setUint32(42, offset, true);
+
+        parts.push(new Uint8Array(local.buffer), name, entry.data);
+        central.push(new Uint8Array(header.buffer), name);
+        offset += 30 + name.length + size;
+    }
+
+    const centralSize = central.reduce((total, part) => total + part.length, 0);
+
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, 0x06054B50, true);
+    end.setUint16(4, 0, true);
+    end.setUint16(6, 0, true);
+    end.setUint16(8, entries.length, true);
+    end.setUint16(10, entries.length, true);
+    end.setUint32(12, centralSize, true);
+    end.setUint32(16, offset, true);
+    end.setUint16(20, 0, true);
+
+    return new Blob([...parts, ...central, new Uint8Array(end.buffer)], { type: mimeType });
+}
@@ -11,6 +11,9 @@
  * @since 2020-08-01
  */
 
+import { CutterSettings } from "./services/cutterGeometry";
+import { DetectionSettings } from "./services/contourDetection";
+
 /**
  * Camera position and rotation state for Three.js scene debugging
  * 
@@ -32,6 +35,203 @@ export interface camera_pos_t {
     rz: number
 }
 
+/**
+ * A 2D point, usually in millimetres once a contour has been scaled
+ *
+ * Structurally compatible with THREE.Vector2, so arrays of either can be
+ * passed to the geometry helpers.
+ */
+export interface point_t {
+    /** X coordinate */
+    x: number,
+    /** Y coordinate */
+    y: number
+}
+
+/**
+ * How convex corners are filled when a path is offset
+ *
+ * - round: circular arc around the corner (smooth, slightly more points)
+ * - miter: sharp corner, squared off once it exceeds the miter limit
+ * - square: corner cut off at the offset distance
+ */
+export type JoinType = "round" | "miter" | "square";
+
+/**
+ * Raw RGBA image pixels, shaped like the browser's ImageData
+ *
+ * Lets the geometry core accept images from a canvas, a worker message or a
+ * file decoded under Node alike.
+ */
+export interface pixels_t {
+    /** RGBA bytes, four per pixel, row by row */
+    data: Uint8ClampedArray | Uint8Array,
+    /** Image width in pixels */
+    width: number,
+    /** Image height in pixels */
+    height: number
+}
+
+/**
+ * File formats offered by the download button
+ *
+ * - stl-ascii: plain text STL, the original export
+ * - stl-binary: compact binary STL
+ * - 3mf: 3D Manufacturing Format archive with units and a part name
+ * - obj: Wavefront OBJ mesh
+ */
+export type ExportFormat = "stl-ascii" | "stl-binary" | "3mf" | "obj";
+
+/**
+ * File formats offered for the 2D outline, for laser cutting and stencils
+ *
+ * - svg: vector drawing sized in millimetres
+ * - dxf: CAD drawing in millimetres with one LWPOLYLINE per path
+ */
+export type OutlineFormat = "svg" | "dxf";
+
+/**
+ * What happens when the mesh check finds problems at download time
+ *
+ * - warn: show the problems but download the mesh as it is
+ * - refuse: block the download until the problems are fixed
+ * - repair: weld, drop degenerate faces and fix face orientation first
+ */
+export type MeshCheckMode = "warn" | "refuse" | "repair";
+
+/**
+ * Shape of the handle on the pressing side of the cutter
+ *
+ * - flange: a flat rim following the wall, as wide as the handle width
+ * - plate: a full top plate covering the cookie, optionally with finger holes
+ * - none: just the cutting wall, so cutters can be stacked
+ */
+export type HandleStyle = "flange" | "plate" | "none";
+
+/**
+ * How outlines are found in the image
+ *
+ * - adaptive: adaptive Gaussian threshold, good for line art
+ * - otsu: one global threshold picked by Otsu's method, good for solid shapes
+ * - canny: Canny edge detection with hysteresis thresholds, good for photos
+ * - colorkey: everything close to a background colour is removed
+ */
+export type DetectionMode = "adaptive" | "otsu" | "canny" | "colorkey";
+
+/**
+ * Tools of the outline editor on the edge detection canvas
+ *
+ * - off: clicks pick contours as usual
+ * - move: drag a vertex
+ * - add: press on an edge to insert a vertex there, then drag it
+ * - delete: click a vertex to remove it
+ * - segment: drag an edge, moving both of its vertices
+ * - erase: brush that removes the vertices it touches, straightening the outline
+ * - smooth: brush that relaxes the vertices it touches
+ */
+export type EditTool = "off" | "move" | "add" | "delete" | "segment" | "erase" | "smooth";
+
+/**
+ * What the edge detection canvas shows
+ * - off: the image with its contours
+ * - before: the detection mask as it came out of the threshold
+ * - after: the detection mask after the clean-up
+ */
+export type MaskView = "off" | "before" | "after";
+
+/**
+ * Tools of the drawing pad
+ *
+ * - freehand: press and drag to trace the outline, releasing closes it
+ * - polyline: click corners, clicking the first one again closes the outline
+ * - bezier: click for sharp corners or drag for smooth ones, like a pen tool
+ */
+export type DrawTool = "freehand" | "polyline" | "bezier";
+
+/**
+ * Shapes of the shape library
+ */
+export type ShapePrimitive = "circle" | "roundedRect" | "star" | "scalloped";
+
+/**
+ * How the letters of a text cutter are held together
+ * - separate: every letter is a cutter of its own
+ * - bridge: handle bars join all letters into one cutter
+ */
+export type TextJoin = "separate" | "bridge";
+
+/**
+ * Which side of the outline the cookie size sets
+ *
+ * - longest: the longer of width and height, as every cutter had before
+ * - width: the horizontal extent, the height follows from the shape
+ * - height: the vertical extent, the width follows from the shape
+ */
+export type SizeConstraint = "longest" | "width" | "height";
+
+/**
+ * Units lengths are entered and shown in, everything is stored in millimeters
+ */
+export type Units = "mm" | "in";
+
+/**
+ * Printability report for a cutter mesh
+ *
+ * Widths are measured on horizontal slices through the mesh and are null
+ * when nothing was found within the measuring range.
+ */
+export interface mesh_report_t {
+    /** Number of triangles */
+    triangles: number,
+    /** Every edge is shared by exactly two triangles */
+    watertight: boolean,
+    /** Edges used by only one triangle (holes) */
+    openEdges: number,
+    /** Edges shared by more than two triangles */
+    nonManifoldEdges: number,
+    /** Edges whose two triangles disagree on which side is outside */
+    flippedEdges: number,
+    /** Triangles with no area */
+    degenerateTriangles: number,
+    /** Size of the bounding box in millimeters */
+    size: { x: number, y: number, z: number },
+    /** Thinnest solid wall in millimeters */
+    minWallWidth: number | null,
+    /** Narrowest gap between walls at the cutting edge in millimeters */
+    minFeatureWidth: number | null,
+    /** Human readable problems and printability concerns */
+    warnings: string[]
+}
+
+/**
+ * Suggested fix for a feature that is too small to print or cut
+ *
+ * - widen: thicken the part or open up the corner in the source image
+ * - remove: the part is thinner than a wall, leave it out of the outline
+ * - bridge: fill the narrow gap so both sides become one wall
+ */
+export type FeatureFix = "widen" | "remove" | "bridge";
+
+/**
+ * A stretch of the outline that will not survive printing or cutting
+ *
+ * - narrow: a part of the cookie narrower than twice the wall thickness
+ * - gap: two stretches of wall closer than twice the wall thickness
+ * - corner: an inward corner tighter than the minimum inner radius
+ */
+export interface narrow_feature_t {
+    /** What is wrong with this stretch */
+    kind: "narrow" | "gap" | "corner",
+    /** Narrowest width or tightest radius in millimeters */
+    size: number,
+    /** Suggested way to fix it */
+    fix: FeatureFix,
+    /** The affected stretch of the outline in millimeters */
+    points: point_t[],
+    /** The same stretch in source image pixels */
+    pixels: point_t[]
+}
+
 /**
  * Complete application state for cookie cutter configuration and image data
  * 
@@ -52,18 +252,371 @@ export interface CookieState_t {
     thickness: number,
     /** Cutting depth of cookie cutter in millimeters */
     depth: number,
-    /** Point tolerance for geometry simplification (smaller = higher quality) */
+    /** Maximum outline deviation in millimeters when simplifying (smaller = more detail) */
     tolerance: number,
+    /** Number of smoothing passes applied to the outline (0 = off) */
+    smoothness: number,
     /** Whether to apply beveled cutting edge for sharper cuts */
     cutterBevel: boolean,
     /** Whether cookie cutter handle should have rounded edges */
     handleRound: boolean,
-    /** Maximum size dimension of cookie cutter in millimeters */
+    /** Shape of the handle */
+    handleStyle: HandleStyle,
+    /** Width of the flange, and how far a top plate reaches past the wall, in millimeters */
+    handleWidth: number,
+    /** Thickness of the flange or top plate in millimeters */
+    handleThickness: number,
+    /** Number of finger holes cut into a top plate */
+    fingerHoles: number,
+    /** Whether to build a stamp from the interior lines of the image */
+    stamp: boolean,
+    /** Gap between the stamp plate and the inside of the cutter wall in millimeters */
+    stampClearance: number,
+    /** Widest gap in millimeters closed when several outlines are merged into one (0 = plain union) */
+    mergeGap: number,
+    /** Size of the constrained side of the cookie cutter in millimeters */
     size: number,
+    /** Which side of the outline the size sets */
+    sizeConstraint: SizeConstraint,
+    /** Units lengths are entered and shown in */
+    units: Units,
+    /** Id of the printer profile the settings follow, empty for none */
+    printer: string,
+    /** How outlines are found in the image */
+    detectionMode: DetectionMode,
+    /** Neighbourhood size in pixels of the adaptive threshold, odd */
+    blockSize: number,
+    /** Constant subtracted from the neighbourhood mean of the adaptive threshold */
+    thresholdC: number,
+    /** Gaussian blur radius in pixels applied before detection (0 = off) */
+    blur: number,
+    /** Lower Canny hysteresis threshold, weaker edges are dropped */
+    cannyLow: number,
+    /** Upper Canny hysteresis threshold, stronger edges always count */
+    cannyHigh: number,
+    /** Background colour removed by the colour key, as #rrggbb */
+    keyColor: string,
+    /** Largest RGB distance from the key colour that still counts as background */
+    keyTolerance: number,
+    /** Whether the detection mask is cleaned up before contours are found */
+    cleanup: boolean,
+    /** Size in pixels of the closing kernel that bridges small gaps in the subject (0 = off) */
+    closeKernel: number,
+    /** Size in pixels of the opening kernel that wipes out specks (0 = off) */
+    openKernel: number,
+    /** Whether holes inside the subject are filled */
+    fillHoles: boolean,
+    /** Smallest island kept, as a percentage of the image area (0 = keep all) */
+    minIslandArea: number,
+    /** Tightest inward corner radius in millimeters before it is flagged (0 = off) */
+    minInnerRadius: number,
+    /** File format used when downloading the cutter */
+    exportFormat: ExportFormat,
+    /** File format used when downloading the outline */
+    outlineFormat: OutlineFormat,
+    /** Whether outline downloads add the outer and inner faces of the wall to the centerline */
+    outlineWalls: boolean,
+    /** What to do when the mesh check finds problems before a download */
+    meshCheck: MeshCheckMode,
+    /** Index of the contour the cutter is built from, -1 until the worker has picked one */
+    selection: number,
+    /** Indices of further contours merged with the selected one */
+    merge: number[],
+    /** Interior contours on the stamp, null for the worker's pick of all of them */
+    stampSelection: number[] | null,
+    /** Hand edited outline in padded source pixels, null while it is untouched */
+    outline: point_t[] | null,
     /** Current camera position for debug purposes */
     camera_pos: camera_pos_t
 }
 
+/**
+ * One cubic Bézier segment of a vector path
+ *
+ * Straight lines keep their control points on the line.
+ */
+export interface curve_t {
+    /** Start point */
+    start: point_t,
+    /** Control point leaving the start */
+    control1: point_t,
+    /** Control point entering the end */
+    control2: point_t,
+    /** End point */
+    end: point_t
+}
+
+/**
+ * Vector outlines drawn by hand, picked from the shape library or imported
+ * from an SVG file
+ *
+ * Drawings take the place of an image: the drawing becomes a blank source
+ * image whose contours are the outlines, kept at full precision.
+ */
+export interface drawing_t {
+    /** Width of the drawing in pixels */
+    width: number,
+    /** Height of the drawing in pixels */
+    height: number,
+    /** Closed outlines in drawing pixels, the first one is selected */
+    outlines: point_t[][],
+    /** Handle bars in drawing pixels, when set every outline becomes part of one joined cutter */
+    bridges?: point_t[][]
+}
+
+/**
+ * A unit of work for the cutter worker
+ *
+ * Every job carries the full cutter settings. The image and the selected
+ * contour are only sent when they change; a job without them reuses what the
+ * worker already has loaded.
+ */
+export interface cutter_job_t {
+    /** Increasing job number, a newer job cancels any older one */
+    id: number,
+    /** New source image, triggers a fresh contour detection */
+    image?: pixels_t,
+    /** Index of the contour to build the cutter from (defaults to the largest) */
+    selection?: number,
+    /** Indices of further contours merged with the selected one into a single outline */
+    merge?: number[],
+    /** Indices of the interior contours to put on the stamp (defaults to all of them) */
+    stampSelection?: number[],
+    /** Hand edited outline in padded source pixels, null to go back to the detected contour */
+    outline?: point_t[] | null,
+    /** Drawn or imported outlines replacing the source image */
+    drawing?: drawing_t,
+    /** Cutter dimensions and quality settings */
+    settings: CutterSettings,
+    /** Edge detection mode and parameters, the image is searched again when they change */
+    detection: DetectionSettings,
+    /** Tightest allowed inward corner radius in millimeters for the narrow feature check, 0 to skip */
+    minInnerRadius: number
+}
+
+/**
+ * Messages sent from the app to the cutter worker
+ *
+ * - job: run a cutter job, cancelling whatever is still running
+ * - cancel: stop the job with the given id without starting a new one
+ */
+export type cutter_request_t =
+    { type: "job", job: cutter_job_t } |
+    { type: "cancel", id: number };
+
+/**
+ * Progress of a running cutter job
+ */
+export interface cutter_progress_t {
+    /** Human readable name of the current stage */
+    stage: string,
+    /** Rough completion between 0 and 1 */
+    fraction: number
+}
+
+/**
+ * The contour detection result, drawn and ready for the canvasOutput
+ */
+export interface cutter_preview_t {
+    /** Grayscale image with the candidate contours in blue and the selection in red, or orange when merged */
+    image: pixels_t,
+    /** One byte per preview pixel, the candidate number + 1 under it or 0 */
+    contourMap: Uint8Array,
+    /** Preview pixels per padded source pixel */
+    scale: number,
+    /** Contour indices that can be selected, in contourMap order */
+    candidates: number[],
+    /** Index of the selected contour */
+    selected: number,
+    /** Indices of the contours merged with the selected one */
+    merged: number[],
+    /** Points of the selected contour in padded source pixels, or the merged or edited outline */
+    outline: point_t[],
+    /** Whether the outline has been edited by hand */
+    edited: boolean,
+    /** One byte per preview pixel, the interior detail number + 1 under it or 0, empty without a stamp */
+    stampMap: Uint8Array,
+    /** Interior contour indices that can go on the stamp, in stampMap order */
+    details: number[],
+    /** Interior contour indices currently on the stamp */
+    stampSelected: number[],
+    /** The detection mask before and after the clean-up at the preview size, null without the clean-up */
+    masks: { before: pixels_t, after: pixels_t } | null
+}
+
+/**
+ * A finished cutter mesh as non-indexed triangle arrays
+ *
+ * The arrays are transferred, not copied, out of the worker.
+ */
+export interface cutter_mesh_t {
+    /** Vertex positions in millimetres, three floats per vertex */
+    positions: Float32Array,
+    /** Vertex normals, three floats per vertex */
+    normals: Float32Array,
+    /** Printability report, checked in the worker while the mesh was fresh */
+    report: mesh_report_t,
+    /** The stamp, in the same coordinates as the cutter so it fits inside, null if off */
+    stamp: stamp_mesh_t | null,
+    /** Stretches of the selected outline too small to print or cut */
+    features: narrow_feature_t[]
+}
+
+/**
+ * Where an image of a batch is in the queue
+ * - queued: waiting for its turn
+ * - working: in the worker right now
+ * - done: the cutter is built
+ * - failed: no cutter, see the error
+ */
+export type BatchStatus = "queued" | "working" | "done" | "failed";
+
+/**
+ * One image of a batch and the cutter made from it
+ */
+export interface batch_item_t {
+    /** File name without extension, names the STL */
+    name: string,
+    /** The image or SVG file, decoded again whenever the cutter is rebuilt */
+    file: File,
+    status: BatchStatus,
+    /** Edge detection preview, the thumbnail and the map for picking another contour */
+    preview: cutter_preview_t | null,
+    /** The finished cutter, null until built */
+    mesh: cutter_mesh_t | null,
+    /** Why the cutter couldn't be built */
+    error: string
+}
+
+/**
+ * The cookie state a project keeps, everything but the image URL, the camera
+ * and the preferences of this browser
+ *
+ * Holds the picked contours and outline edits along with the settings.
+ */
+export type ProjectSettings = Omit<CookieState_t, "imageSrc" | "camera_pos" | "units" | "printer">;
+
+/**
+ * A 3D printer the cutter settings are fitted to
+ *
+ * All lengths are in millimeters, the way printers are specified.
+ */
+export interface printer_profile_t {
+    /** Key of the profile, built-in ones start with "builtin-" */
+    id: string,
+    /** Name shown in the printer picker */
+    name: string,
+    /** Nozzle diameter */
+    nozzle: number,
+    /** Height of one printed layer */
+    layerHeight: number,
+    /** Width of the print bed, left to right */
+    bedWidth: number,
+    /** Depth of the print bed, front to back */
+    bedDepth: number,
+    /** Thinnest wall the printer makes sturdy enough to cut dough */
+    minWall: number,
+    /** Whether the profile ships with the app and can't be changed */
+    builtIn: boolean
+}
+
+/**
+ * A cutter saved in the browser, to pick up again after a reload
+ */
+export interface project_t {
+    /** Unique key of the project */
+    id: string,
+    /** Name shown in the recent projects list */
+    name: string,
+    /** When the project was started, in milliseconds since 1970 */
+    created: number,
+    /** When the project was last saved, in milliseconds since 1970 */
+    updated: number,
+    /** The uploaded image, null for drawings, SVG files and text */
+    image: Blob | null,
+    /** The outlines in place of an image, null for images */
+    drawing: drawing_t | null,
+    /** Settings, picked contours and outline edits */
+    settings: ProjectSettings,
+    /** PNG data URL of the 3D preview, empty until a cutter was built */
+    thumbnail: string
+}
+
+/**
+ * The settings a project file keeps apart from the detection and the source image
+ */
+export type ProjectFileSettings = Omit<ProjectSettings,
+    keyof DetectionSettings | "imageHeight" | "imageWidth" | "saveFileName" | "selection" | "merge" | "stampSelection" | "outline">;
+
+/**
+ * The source image embedded in a project file, with what was picked and edited in it
+ */
+export interface project_file_source_t {
+    /** The image as a data URL */
+    image: string,
+    /** Width in pixels the image was searched at */
+    width: number,
+    /** Height in pixels the image was searched at */
+    height: number,
+    /** Index of the contour the cutter is built from */
+    selection: number,
+    /** Indices of further contours merged with the selected one */
+    merge: number[],
+    /** Interior contours on the stamp, null for all of them */
+    stampSelection: number[] | null,
+    /** Hand edited outline in padded source pixels, null while it is untouched */
+    edits: point_t[] | null
+}
+
+/**
+ * A portable project file (.ccm), JSON passed between people and machines
+ *
+ * Unlike an STL it can be opened again and edited. Without the source image
+ * the outline in millimetres becomes a drawing when the file is opened.
+ */
+export interface project_file_t {
+    /** Always PROJECT_FILE_FORMAT, tells project files apart from other JSON */
+    format: string,
+    /** Version of the layout, PROJECT_FILE_VERSION when written */
+    version: number,
+    /** Name of the project, also the download name */
+    name: string,
+    /** Centerline of the cutter wall in millimetres */
+    outline: point_t[],
+    /** Cutter, handle, stamp, check and export settings */
+    settings: ProjectFileSettings,
+    /** How the outlines were found in the image */
+    detection: DetectionSettings,
+    /** The embedded source image, null when left out */
+    source: project_file_source_t | null
+}
+
+/**
+ * A stamp mesh as non-indexed triangle arrays
+ */
+export interface stamp_mesh_t {
+    /** Vertex positions in millimetres, three floats per vertex */
+    positions: Float32Array,
+    /** Vertex normals, three floats per vertex */
+    normals: Float32Array
+}
+
+/**
+ * Messages sent from the cutter worker back to the app
+ *
+ * Every message except ready and failed carries the id of the job it belongs
+ * to, so the app can drop answers to jobs it has already replaced. Failed
+ * means OpenCV.js couldn't be loaded and the worker can't run any job.
+ */
+export type cutter_response_t =
+    { type: "ready" } |
+    { type: "failed", message: string } |
+    { type: "progress", id: number, progress: cutter_progress_t } |
+    { type: "preview", id: number, preview: cutter_preview_t } |
+    { type: "mesh", id: number, mesh: cutter_mesh_t } |
+    { type: "cancelled", id: number } |
+    { type: "error", id: number, message: string };
+
 /**
  * Extended HTML input event interface with properly typed target
  * 
@@ -0,0 +1,635 @@
+/**
+ * @fileoverview Cutter Worker for Cookie Cutter Monster
+ *
+ * Everything heavy runs here instead of on the main thread: loading OpenCV.js,
+ * contour detection or taking in a drawn outline, merging picked outlines,
+ * drawing the edge detection preview, building the cutter mesh and the
+ * optional stamp, and checking the cutter for printability and narrow
+ * features. The app talks to it with the typed messages from types.ts
+ * through services/cutterWorkerClient.ts, so the Lit UI and the 3D preview
+ * stay responsive while a large photo is processed.
+ *
+ * Jobs run one at a time. When a newer job or a cancel message arrives, the
+ * running job stops at its next checkpoint between the detection, preview,
+ * mesh, validation, narrow feature and stamp stages and answers with a
+ * cancelled message.
+ *
+ * Built as its own webpack entry (cutterWorker.js) next to bundle.js.
+ *
+ * @author Cookie Cutter Monster Team
+ * @version 1.0.0
+ * @since 2020-08-01
+ */
+
+import * as THREE from "three";
+import loadOpenCV from "../scriptLoader";
+import { MAX_DIM } from "../constants";
+import {
+    cutter_job_t,
+    cutter_preview_t,
+    cutter_request_t,
+    cutter_response_t,
+    drawing_t,
+    pixels_t,
+    point_t,
+    stamp_mesh_t
+} from "../types";
+import {
+    CONTOUR_PADDING,
+    contourFromPoints,
+    contourToPoints,
+    DetectionSettings,
+    detectContours,
+    findInteriorDetails,
+    matFromPixels
+} from "../services/contourDetection";
+import { buildCutterGeometry, buildJoinedCutterGeometry, constrainedExtent, CutterSettings, outlineBounds } from "../services/cutterGeometry";
+import { mergeOutlines } from "../services/polygonOffset";
+import { buildStampGeometry } from "../services/stampGeometry";
+import { validateMesh } from "../services/meshValidation";
+import { findNarrowFeatures } from "../services/featureAnalysis";
+
+/** The worker global scope, typed loosely since the app compiles against the DOM lib */
+const ctx: any = self;
+
+/** Thrown at a checkpoint when the running job has been replaced or cancelled */
+const JOB_CANCELLED = Error("job cancelled");
+
+/** Id of the newest job; anything older is cancelled */
+let latestJob = 0;
+
+/** Id of a job cancelled without a replacement */
+let cancelledJob = 0;
+
+/**
+ * Detection state for the image currently loaded in the worker
+ *
+ * The OpenCV objects live as long as the detection and are deleted when the
+ * next image arrives or the detection settings change. The source pixels are
+ * kept so the image can be searched again with new settings.
+ */
+let cv: any = null;
+let sourceImage: pixels_t = null;
+let detectedWith = "";
+let grayImage: any = null;
+let contours: any = null;
+let hierarchy: any = null;
+let candidates: number[] = [];
+let selected = -1;
+let contourMap: Uint8Array = null;
+let cleanupMasks: { before: pixels_t, after: pixels_t } = null;
+let previewDirty = false;
+
+/** Full precision outlines of a drawing, null for images */
+let drawnOutlines: point_t[][] = null;
+
+/** Handle bars joining every drawn outline into one cutter, null for single outline cutters */
+let drawnBridges: point_t[][] = null;
+
+/** Hand edited version of the selected outline, null while it is untouched */
+let editedOutline: point_t[] = null;
+
+/**
+ * Merge state: further contours joined with the selected one, their union,
+ * null when they don't join, and the selection and gap it was built for
+ */
+let merged: number[] = [];
+let mergedOutline: point_t[] = null;
+let mergedFor = "";
+
+/**
+ * Stamp state: the interior lines of the selected outline, found only once
+ * a job asks for a stamp, and the ones picked for it
+ */
+let details: number[] = [];
+let detailsFor = -1;
+let stampSelected: number[] = [];
+let stampMap: Uint8Array = null;
+let previewStamp = false;
+
+/** Why OpenCV.js couldn't be loaded, empty while it loads and once it has */
+let loadFailure = "";
+
+/** Jobs run strictly one after another, starting once OpenCV is ready */
+let queue: Promise<void> = new Promise(resolve => loadOpenCV(resolve))
+    .then(loaded => {
+        cv = loaded;
+        post({ type: "ready" });
+    })
+    .catch(err => {
+        loadFailure = `couldn't load the OpenCV library: ${err.message}`;
+        post({ type: "failed", message: loadFailure });
+    });
+
+/**
+ * Posts a message back to the app
+ *
+ * @param {cutter_response_t} message - Message to send
+ * @param {Transferable[]} transfer - Buffers handed over instead of copied
+ */
+function post(message: cutter_response_t, transfer: Transferable[] = []) {
+    ctx.postMessage(message, transfer);
+}
+
+/**
+ * Reports the stage a job has reached
+ *
+ * @param {number} id - Job id
+ * @param {string} stage - Stage name shown in the UI
+ * @param {number} fraction - Rough completion between 0 and 1
+ */
+function progress(id: number, stage: string, fraction: number) {
+    post({ type: "progress", id, progress: { stage, fraction } });
+}
+
+/**
+ * Yields to the event loop so newer messages get a chance to arrive
+ *
+ * @param {number} id - Id of the running job
+ * @returns {Promise<void>} Resolves if the job is still current
+ * @throws {Error} JOB_CANCELLED if a newer job or a cancel came in meanwhile
+ */
+function checkpoint(id: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+        setTimeout(() => id === latestJob && id !== cancelledJob ? resolve() : reject(JOB_CANCELLED), 0);
+    });
+}
+
+/**
+ * Frees the OpenCV objects of the previous image
+ */
+function releaseImage() {
+    [grayImage, contours, hierarchy].forEach(mat => mat && mat.delete());
+    grayImage = contours = hierarchy = null;
+    contourMap = null;
+    cleanupMasks = null;
+    candidates = [];
+    selected = -1;
+    drawnOutlines = null;
+    drawnBridges = null;
+    editedOutline = null;
+    merged = [];
+    mergedOutline = null;
+    mergedFor = "";
+    details = [];
+    detailsFor = -1;
+    stampSelected = [];
+    stampMap = null;
+}
+
+/**
+ * Runs contour detection on the image and prepares the click map
+ *
+ * @param {pixels_t} image - RGBA pixels of the image
+ * @param {DetectionSettings} detection - Detection mode and parameters
+ */
+function loadImage(image: pixels_t, detection: DetectionSettings) {
+    releaseImage();
+
+    const src = matFromPixels(cv, image);
+    const detected = detectContours(cv, src, detection, true);
+    contours = detected.contours;
+    hierarchy = detected.hierarchy;
+    candidates = detected.candidates;
+    selected = contours.size() ? detected.largest : -1;
+
+    //Add the same padding the detection used so the contours line up
+    grayImage = new cv.Mat();
+    const offset = CONTOUR_PADDING
+    cv.copyMakeBorder(src, grayImage, offset, offset, offset, offset, cv.BORDER_WRAP);
+    cv.cvtColor(grayImage, grayImage, cv.COLOR_RGBA2GRAY, 0);
+    cv.cvtColor(grayImage, grayImage, cv.COLOR_GRAY2RGBA, 0);
+    src.delete();
+
+    if (detected.masks) {
+        cleanupMasks = { before: maskPreview(detected.masks.before), after: maskPreview(detected.masks.after) };
+        detected.masks.before.delete();
+        detected.masks.after.delete();
+    }
+
+    buildContourMap();
+}
+
+/**
+ * Scales a detection mask down to the preview size
+ *
+ * @param {any} mask - Padded CV_8UC1 mask, left untouched
+ * @returns {pixels_t} RGBA pixels of the mask at the preview size
+ */
+function maskPreview(mask: any): pixels_t {
+    const scale = previewScale();
+    const dst = new cv.Mat();
+    cv.resize(mask, dst, new cv.Size(Math.round(scale * mask.cols), Math.round(scale * mask.rows)), 0, 0, cv.INTER_AREA);
+    cv.cvtColor(dst, dst, cv.COLOR_GRAY2RGBA, 0);
+    const pixels = { data: new Uint8ClampedArray(dst.data), width: dst.cols, height: dst.rows };
+    dst.delete();
+    return pixels;
+}
+
+/**
+ * Takes a drawing in place of an image
+ *
+ * The drawing becomes a blank padded image whose contours are the drawn
+ * outlines, so selection, editing, preview and mesh building work just like
+ * for detected contours. The contours are rounded to whole pixels for the
+ * canvas, the cutter and stamp are built from the exact drawn points.
+ *
+ * @param {drawing_t} drawing - The drawn outlines and the size of the drawing
+ * @throws {Error} If the drawing has no outline with at least three points
+ */
+function loadDrawing(drawing: drawing_t) {
+    releaseImage();
+
+    const offset = CONTOUR_PADDING
+    const outlines = drawing.outlines
+        .filter(outline => outline.length >= 3)
+        .map(outline => outline.map(pt => ({ x: pt.x + offset, y: pt.y + offset })));
+    if (!outlines.length) {
+        throw Error("the drawing has no closed outline");
+    }
+
+    grayImage = new cv.Mat(Math.ceil(drawing.height) + offset * 2, Math.ceil(drawing.width) + offset * 2, cv.CV_8UC4, new cv.Scalar(255, 255, 255, 255));
+    contours = new cv.MatVector();
+    hierarchy = new cv.Mat();
+    for (const outline of outlines) {
+        const cnt = contourFromPoints(cv, outline);
+        contours.push_back(cnt);
+        cnt.delete();
+    }
+
+    candidates = outlines.map((_, i) => i);
+    selected = 0;
+    drawnOutlines = outlines;
+    drawnBridges = drawing.bridges
+        ? drawing.bridges.map(bridge => bridge.map(pt => ({ x: pt.x + offset, y: pt.y + offset })))
+        : null;
+
+    buildContourMap();
+}
+
+/**
+ * Draws every candidate into the click map
+ *
+ * Every candidate is drawn with its number, thick lines first and thinner
+ * ones on top to reduce over writing, so a click anywhere near an outline
+ * finds it.
+ */
+function buildContourMap() {
+    const map = cv.Mat.zeros(grayImage.rows, grayImage.cols, cv.CV_8UC1);
+    for (const thickness of [30, 10, 3]) {
+        candidates.forEach((i, n) => {
+            cv.drawContours(map, contours, i, new cv.Scalar(n + 1), thickness, cv.LINE_8, hierarchy, 100);
+        });
+    }
+
+    // nearest neighbour keeps the contour numbers intact
+    const scale = previewScale();
+    cv.resize(map, map, new cv.Size(Math.round(scale * map.cols), Math.round(scale * map.rows)), 0, 0, cv.INTER_NEAREST);
+    contourMap = new Uint8Array(map.data);
+    map.delete();
+
+    previewDirty = true;
+}
+
+/**
+ * Finds the interior lines of the selected outline and prepares their click map
+ *
+ * All of them go on the stamp until the app picks others. The lines are
+ * drawn thinner than the outlines in the contour map, since they sit close
+ * together.
+ */
+function loadDetails() {
+    details = selected >= 0 ? findInteriorDetails(cv, contours, selected) : [];
+    detailsFor = selected;
+    stampSelected = details.slice();
+
+    const map = cv.Mat.zeros(grayImage.rows, grayImage.cols, cv.CV_8UC1);
+    for (const thickness of [8, 3]) {
+        details.forEach((i, n) => {
+            cv.drawContours(map, contours, i, new cv.Scalar(n + 1), thickness, cv.LINE_8, hierarchy, 100);
+        });
+    }
+
+    const scale = previewScale();
+    cv.resize(map, map, new cv.Size(Math.round(scale * map.cols), Math.round(scale * map.rows)), 0, 0, cv.INTER_NEAREST);
+    stampMap = new Uint8Array(map.data);
+    map.delete();
+
+    previewDirty = true;
+}
+
+/**
+ * Reads the points of contours
+ *
+ * @param {number[]} indices - Contour indices
+ * @returns {point_t[][]} Outlines in padded source pixels
+ */
+function contourPoints(indices: number[]): point_t[][] {
+    if (drawnOutlines) return indices.map(i => drawnOutlines[i].slice());
+
+    return indices.map(i => {
+        const cnt = contours.get(i);
+        const points = contourToPoints(cnt);
+        cnt.delete();
+        return points;
+    });
+}
+
+/**
+ * Scale that limits the preview to MAX_DIM pixels
+ *
+ * @returns {number} Preview pixels per padded source pixel
+ */
+function previewScale(): number {
+    return MAX_DIM / Math.max(grayImage.cols, grayImage.rows);
+}
+
+/**
+ * Reads the points of the selected contour, or its edited version
+ *
+ * @returns {point_t[]} Outline in padded source pixels
+ */
+function selectedOutline(): point_t[] {
+    if (editedOutline) return editedOutline.slice();
+    if (mergedOutline) return mergedOutline.slice();
+
+    return contourPoints([selected])[0];
+}
+
+/**
+ * Joins the selected contour and the merged ones into a single outline
+ *
+ * The gap is converted to pixels at the scale the cutter will have, taken
+ * from the extent of all the merged contours.
+ *
+ * @param {CutterSettings} settings - Merge gap, cookie size and size constraint
+ * @returns {point_t[] | null} The merged outline, null if the contours stay apart
+ */
+function mergeSelection(settings: CutterSettings): point_t[] | null {
+    const members = contourPoints([selected].concat(merged));
+    const bounds = outlineBounds([].concat(...members));
+    const extent = constrainedExtent(bounds, settings);
+
+    const outlines = mergeOutlines(members, Number(settings.mergeGap) * extent / Number(settings.size));
+    return outlines.length === 1 ? outlines[0] : null;
+}
+
+/**
+ * Reads the outlines of a joined cutter, with the selected one as edited
+ *
+ * @returns {point_t[][]} Every drawn outline in padded source pixels
+ */
+function joinedOutlines(): point_t[][] {
+    return drawnOutlines.map((outline, i) => i === selected ? selectedOutline() : outline.slice());
+}
+
+/**
+ * Draws the edge detection preview
+ *
+ * Candidates are outlined in blue and the selected contour in red on a
+ * grayscale copy of the image, limited to MAX_DIM pixels. Merged contours
+ * are outlined in orange instead, with their union drawn thicker. An edited
+ * outline replaces the selected contour. A joined cutter has all its
+ * outlines and bridges in red. With a stamp, its interior lines are drawn in
+ * green, bold when they are on the stamp.
+ *
+ * @param {boolean} stamp - Whether to show the stamp lines
+ * @returns {cutter_preview_t} The preview and everything needed to pick contours from it
+ */
+function drawPreview(stamp: boolean): cutter_preview_t {
+    const dst = grayImage.clone();
+
+    candidates.forEach(i => {
+        cv.drawContours(dst, contours, i, new cv.Scalar(0, 0, 255, 255), 1, cv.LINE_8, hierarchy, 100);
+    });
+    const selectionColor = merged.length ? new cv.Scalar(255, 140, 0, 255) : new cv.Scalar(255, 0, 0, 255);
+    merged.forEach(i => {
+        cv.drawContours(dst, contours, i, selectionColor, 1, cv.LINE_8, hierarchy, 100);
+    });
+    if (editedOutline || mergedOutline) {
+        if (mergedOutline) {
+            cv.drawContours(dst, contours, selected, selectionColor, 1, cv.LINE_8, hierarchy, 100);
+        }
+        const edited = new cv.MatVector();
+        const cnt = contourFromPoints(cv, selectedOutline());
+        edited.push_back(cnt);
+        cv.drawContours(dst, edited, 0, selectionColor, 2, cv.LINE_8);
+        cnt.delete();
+        edited.delete();
+    } else if (selected >= 0) {
+        cv.drawContours(dst, contours, selected, selectionColor, 2, cv.LINE_8, hierarchy, 100);
+    }
+    if (drawnBridges) {
+        const joined = new cv.MatVector();
+        joinedOutlines().concat(drawnBridges).forEach(outline => {
+            const cnt = contourFromPoints(cv, outline);
+            joined.push_back(cnt);
+            cnt.delete();
+        });
+        cv.drawContours(dst, joined, -1, new cv.Scalar(255, 0, 0, 255), 2, cv.LINE_8);
+        joined.delete();
+    }
+    if (stamp) {
+        details.forEach(i => {
+            const width = stampSelected.includes(i) ? 2 : 1;
+            cv.drawContours(dst, contours, i, new cv.Scalar(0, 170, 0, 255), width, cv.LINE_8, hierarchy, 100);
+        });
+    }
+
+    //Limit the Output Size
+    const scale = previewScale();
+    cv.resize(dst, dst, new cv.Size(Math.round(scale * dst.cols), Math.round(scale * dst.rows)), 0, 0, cv.INTER_LINEAR);
+    const image = { data: new Uint8ClampedArray(dst.data), width: dst.cols, height: dst.rows };
+    dst.delete();
+
+    return {
+        image,
+        contourMap: contourMap.slice(),
+        scale,
+        candidates: candidates.slice(),
+        selected,
+        merged: merged.slice(),
+        outline: selected >= 0 ? selectedOutline() : [],
+        edited: Boolean(editedOutline),
+        stampMap: stamp ? stampMap.slice() : new Uint8Array(0),
+        details: stamp ? details.slice() : [],
+        stampSelected: stamp ? stampSelected.slice() : [],
+        masks: cleanupMasks && {
+            before: { ...cleanupMasks.before, data: cleanupMasks.before.data.slice() },
+            after: { ...cleanupMasks.after, data: cleanupMasks.after.data.slice() }
+        }
+    };
+}
+
+/**
+ * Runs one cutter job: detection, preview and mesh, as far as needed
+ *
+ * @param {cutter_job_t} job - The job to run
+ */
+async function runJob(job: cutter_job_t) {
+    try {
+        if (loadFailure) {
+            throw Error(loadFailure);
+        }
+        await checkpoint(job.id);
+
+        if (job.image) {
+            sourceImage = job.image;
+        } else if (job.drawing) {
+            // drawings have nothing to detect, detection settings don't apply
+            sourceImage = null;
+            detectedWith = "";
+            loadDrawing(job.drawing);
+        }
+
+        const detection = JSON.stringify(job.detection);
+        if (sourceImage && (job.image || detection !== detectedWith)) {
+            progress(job.id, "Finding outlines", .1);
+            detectedWith = "";
+            loadImage(sourceImage, job.detection);
+            detectedWith = detection;
+            await checkpoint(job.id);
+        }
+
+        if (!grayImage) {
+            throw Error("there's no image loaded yet");
+        }
+
+        if (job.selection !== undefined && job.selection !== selected) {
+            if (job.selection < 0 || job.selection >= contours.size()) {
+                throw Error(`there's no contour number ${job.selection}`);
+            }
+            selected = job.selection;
+            editedOutline = null;
+            merged = [];
+            previewDirty = true;
+        }
+
+        // joined cutters keep their outlines apart
+        if (job.merge !== undefined && !drawnBridges && JSON.stringify(job.merge) !== JSON.stringify(merged)) {
+            const unknown = job.merge.find(i => i < 0 || i >= contours.size());
+            if (unknown !== undefined) {
+                throw Error(`there's no contour number ${unknown}`);
+            }
+            merged = job.merge.filter((i, n) => i !== selected && job.merge.indexOf(i) === n);
+            editedOutline = null;
+            previewDirty = true;
+        }
+
+        const mergeKey = merged.length ? JSON.stringify([selected, merged, job.settings.mergeGap, job.settings.size, job.settings.sizeConstraint]) : "";
+        if (mergeKey !== mergedFor) {
+            progress(job.id, "Merging outlines", .2);
+            mergedOutline = merged.length ? mergeSelection(job.settings) : null;
+            mergedFor = mergeKey;
+            previewDirty = true;
+        }
+
+        if (job.outline !== undefined) {
+            if (job.outline && job.outline.length < 3) {
+                throw Error("an outline needs at least three points");
+            }
+            editedOutline = job.outline;
+            previewDirty = true;
+        }
+
+        // the stamp fits a single outline, joined cutters go without
+        const stamp = Boolean(job.settings.stamp) && !drawnBridges;
+        if (stamp && detailsFor !== selected) {
+            loadDetails();
+        }
+        if (job.stampSelection !== undefined) {
+            const unknown = job.stampSelection.find(i => !details.includes(i));
+            if (unknown !== undefined) {
+                throw Error(`contour number ${unknown} is not inside the outline`);
+            }
+            stampSelected = job.stampSelection.slice();
+            previewDirty = true;
+        }
+        if (stamp !== previewStamp) {
+            previewDirty = true;
+        }
+
+        if (previewDirty) {
+            progress(job.id, "Drawing outlines", .3);
+            const preview = drawPreview(stamp);
+            const transfer = [preview.image.data.buffer, preview.contourMap.buffer, preview.stampMap.buffer];
+            if (preview.masks) {
+                transfer.push(preview.masks.before.data.buffer, preview.masks.after.data.buffer);
+            }
+            post({ type: "preview", id: job.id, preview }, transfer);
+            previewDirty = false;
+            previewStamp = stamp;
+            await checkpoint(job.id);
+        }
+
+        if (selected < 0) {
+            throw Error("no outline found in the image");
+        }
+        if (merged.length && !mergedOutline && !editedOutline) {
+            throw Error("the picked outlines don't touch, raise the merge gap to join them");
+        }
+
+        progress(job.id, "Building cutter", .5);
+        const geometry = new THREE.BufferGeometry().fromGeometry(drawnBridges
+            ? buildJoinedCutterGeometry(joinedOutlines(), drawnBridges, job.settings)
+            : buildCutterGeometry(selectedOutline(), job.settings));
+        const positions = <Float32Array>geometry.getAttribute("position").array;
+        await checkpoint(job.id);
+
+        progress(job.id, "Checking printability", .7);
+        const report = validateMesh(positions);
+        await checkpoint(job.id);
+
+        progress(job.id, "Finding narrow features", .8);
+        const features = findNarrowFeatures(selectedOutline(), job.settings, job.minInnerRadius);
+        await checkpoint(job.id);
+
+        let stampMesh: stamp_mesh_t = null;
+        if (stamp && stampSelected.length) {
+            progress(job.id, "Building stamp", .85);
+            const stampGeometry = buildStampGeometry(selectedOutline(), contourPoints(stampSelected), job.settings);
+            if (stampGeometry) {
+                const buffer = new THREE.BufferGeometry().fromGeometry(stampGeometry);
+                stampMesh = {
+                    positions: <Float32Array>buffer.getAttribute("position").array,
+                    normals: <Float32Array>buffer.getAttribute("normal").array
+                };
+            }
+        }
+
+        const mesh = {
+            positions,
+            normals: <Float32Array>geometry.getAttribute("normal").array,
+            report,
+            stamp: stampMesh,
+            features
+        };
+        const transfer = [mesh.positions.buffer, mesh.normals.buffer];
+        if (stampMesh) {
+            transfer.push(stampMesh.positions.buffer, stampMesh.normals.buffer);
+        }
+        post({ type: "mesh", id: job.id, mesh }, transfer);
+    } catch (err) {
+        if (err === JOB_CANCELLED) {
+            post({ type: "cancelled", id: job.id });
+        } else {
+            post({ type: "error", id: job.id, message: err.message });
+        }
+    }
+}
+
+ctx.onmessage = (event: MessageEvent) => {
+    const request: cutter_request_t = event.data;
+
+    switch (request.type) {
+        case "job": {
+            const job = request.job;
+            latestJob = Math.max(latestJob, job.id);
+            queue = queue.then(() => runJob(job));
+            break;
+        }
+        case "cancel":
+            cancelledJob = request.id;
+            break;
+    }
+};
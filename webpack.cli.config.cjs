@@ -0,0 +1,31 @@
+const path = require('path');
+const webpack = require('webpack');
+
+module.exports = {
+    entry: './src/cli/cookiecutter.ts',
+    mode: 'production',
+    target: 'node',
+    devtool: 'source-map',
+    node: {
+        // keep the real location so the bundled OpenCV.js can be found
+        __dirname: false,
+    },
+    module: {
+        rules: [
+            {
+                test: /\.tsx?$/,
+                use: 'ts-loader',
+                exclude: /node_modules/,
+            }],
+    },
+    resolve: {
+        extensions: ['.tsx', '.ts', '.js'],
+    },
+    plugins: [
+        new webpack.BannerPlugin({ banner: '#!/usr/bin/env node', raw: true }),
+    ],
+    output: {
+        filename: 'cookiecutter.js',
+        path: path.resolve(__dirname, 'build/cli'),
+    },
+};
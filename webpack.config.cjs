@@ -1,7 +1,11 @@
 const path = require('path');
 
 module.exports = {
-    entry: './src/index.ts',
+    entry: {
+        bundle: './src/index.ts',
+        // OpenCV.js and the mesh building run in this worker, next to bundle.js
+        cutterWorker: './src/workers/cutterWorker.ts',
+    },
     mode: 'production',
     devtool: 'source-map',
     module: {
@@ -36,7 +40,7 @@ module.exports = {
         extensions: ['.tsx', '.ts', '.js'],
     },
     output: {
-        filename: 'bundle.js',
+        filename: '[name].js',
         path: path.resolve(__dirname, 'build'),
     },
 };